@@ -0,0 +1,47 @@
+import { Elysia, t } from 'elysia';
+import { queryAuditLogs, exportAuditLogs, auditLogsToCsv } from '../services/audit';
+import { auditRequest } from '../middleware/audit';
+
+const filterQuery = {
+  userId: t.Optional(t.String()),
+  resource: t.Optional(t.String()),
+  action: t.Optional(t.String()),
+  from: t.Optional(t.String()),
+  to: t.Optional(t.String())
+};
+
+export const auditRoutes = new Elysia({ prefix: '/audit' })
+  // Query the audit log, newest first
+  .get('/', async ({ query }) => {
+    return await queryAuditLogs({
+      ...query,
+      limit: query.limit ? parseInt(query.limit) : undefined
+    });
+  }, {
+    query: t.Object({
+      ...filterQuery,
+      cursor: t.Optional(t.String()),
+      limit: t.Optional(t.String())
+    })
+  })
+  
+  // Download every matching entry as CSV or JSON
+  .get('/export', async ({ query, request }) => {
+    const { format = 'json', ...filters } = query;
+    const entries = await exportAuditLogs(filters);
+    
+    await auditRequest(request, 'export', 'audit_log', undefined, { filters, format, count: entries.length });
+    
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new Response(format === 'csv' ? auditLogsToCsv(entries) : JSON.stringify(entries, null, 2), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  }, {
+    query: t.Object({
+      ...filterQuery,
+      format: t.Optional(t.Union([t.Literal('csv'), t.Literal('json')]))
+    })
+  });
@@ -8,18 +8,53 @@ import {
   listUsers,
   requestPasswordReset,
   resetPassword,
-  logAuditEvent
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  loginOidcUser,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  setupTwoFactorForLogin,
+  enableTwoFactorForLogin,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetTwoFactor,
+  refreshSession,
+  listSessions,
+  revokeSession,
+  SessionContext
 } from '../services/auth';
-import { authenticate, adminOnly, adminAndUserOnly } from '../middleware/auth';
-import { UserRole } from 'kontainers-shared';
+import { oidcService, OIDC_STATE_COOKIE } from '../services/oidc';
+import { unlockUser } from '../services/loginProtection';
+import { mailService } from '../services/mail';
+import { logAuditEvent, diffChanges } from '../services/audit';
+import { auditRequest } from '../middleware/audit';
+import { getClientIp } from '../middleware/clientIp';
+import { authenticate } from '../middleware/auth';
+import { UserRole, ApiTokenScope } from 'kontainers-shared';
 
-export const authRoutes = new Elysia({ prefix: '/api/auth' })
+// Where a request came from, recorded on the sessions it starts
+function getSessionContext(request: Request): SessionContext {
+  const ipAddress = getClientIp(request);
+  return {
+    ipAddress: ipAddress !== 'unknown' ? ipAddress : undefined,
+    userAgent: request.headers.get('user-agent') || undefined
+  };
+}
+
+export const authRoutes = new Elysia({ prefix: '/auth' })
   // Public routes
   .post('/login', async ({ body, request }) => {
-    const result = await loginUser(body);
+    const result = await loginUser(body, getSessionContext(request));
+    
+    // A second factor is needed before the login is complete
+    if ('twoFactorRequired' in result) {
+      return result;
+    }
     
     // Log successful login
-    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+    const ip = getClientIp(request);
     const userAgent = request.headers.get('user-agent') || 'unknown';
     await logAuditEvent(
       result.user.id,
@@ -39,10 +74,74 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
     })
   })
   
-  .post('/register', async ({ body }) => {
-    // In production, you might want to restrict registration
-    // or require admin approval
-    return await createUser(body);
+  .post('/login/2fa', async ({ body, request }) => {
+    const result = await verifyTwoFactorLogin(body.challengeToken, body.code, getSessionContext(request));
+    
+    await logAuditEvent(
+      result.user.id,
+      'login',
+      'user',
+      result.user.id,
+      '2fa',
+      getClientIp(request),
+      request.headers.get('user-agent') || 'unknown'
+    );
+    
+    return result;
+  }, {
+    body: t.Object({
+      challengeToken: t.String(),
+      code: t.String()
+    })
+  })
+  
+  // Enrollment for users who must set up two-factor authentication before signing in
+  .post('/login/2fa/setup', async ({ body }) => {
+    return await setupTwoFactorForLogin(body.challengeToken);
+  }, {
+    body: t.Object({
+      challengeToken: t.String()
+    })
+  })
+  
+  .post('/login/2fa/enable', async ({ body, request }) => {
+    const result = await enableTwoFactorForLogin(body.challengeToken, body.code, getSessionContext(request));
+    
+    await logAuditEvent(
+      result.user.id,
+      'enable_2fa',
+      'user',
+      result.user.id,
+      undefined,
+      getClientIp(request),
+      request.headers.get('user-agent') || 'unknown'
+    );
+    
+    return result;
+  }, {
+    body: t.Object({
+      challengeToken: t.String(),
+      code: t.String()
+    })
+  })
+  
+  .post('/refresh', async ({ body, request }) => {
+    return await refreshSession(body.refreshToken, getSessionContext(request));
+  }, {
+    body: t.Object({
+      refreshToken: t.String()
+    })
+  })
+  
+  .post('/register', async ({ body, request }) => {
+    // Self-registered accounts get the default role; admins assign roles through /users/:id
+    const { role, ...userData } = body;
+    const user = await createUser(userData);
+    
+    await auditRequest(request, 'create', 'user', user.id, { after: user });
+    mailService.sendAccountCreated(user);
+    
+    return user;
   }, {
     body: t.Object({
       username: t.String(),
@@ -53,10 +152,8 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
   })
   
   .post('/password-reset/request', async ({ body }) => {
-    const token = await requestPasswordReset(body.email);
-    // In a real app, you would send this token via email
-    // For development, we'll return it directly
-    return { message: 'Password reset requested', token };
+    await requestPasswordReset(body.email);
+    return { message: 'If an account with that email exists, a password reset link has been sent' };
   }, {
     body: t.Object({
       email: t.String()
@@ -73,6 +170,57 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
     })
   })
   
+  // Single sign-on
+  .get('/oidc/config', () => {
+    return { enabled: oidcService.isEnabled() };
+  })
+  
+  .get('/oidc/login', async ({ set, cookie }) => {
+    const { url, stateCookie } = await oidcService.createAuthorizationUrl();
+    cookie[OIDC_STATE_COOKIE].set({ value: stateCookie, ...oidcService.getStateCookieOptions() });
+    set.redirect = url;
+  })
+  
+  .get('/oidc/callback', async ({ query, set, request, cookie }) => {
+    try {
+      // The state cookie is only good for one attempt
+      const stateCookie = cookie[OIDC_STATE_COOKIE].value as string | undefined;
+      cookie[OIDC_STATE_COOKIE].remove({ path: oidcService.getStateCookieOptions().path });
+      
+      if (query.error) {
+        throw new Error(query.error_description || query.error);
+      }
+      if (!query.code || !query.state) {
+        throw new Error('Missing authorization code');
+      }
+      
+      const identity = await oidcService.handleCallback(query.code, query.state, stateCookie);
+      const result = await loginOidcUser(identity, getSessionContext(request));
+      
+      await logAuditEvent(
+        result.user.id,
+        'login',
+        'user',
+        result.user.id,
+        'sso',
+        getClientIp(request),
+        request.headers.get('user-agent') || 'unknown'
+      );
+      
+      set.redirect = oidcService.getLoginPageUrl({ token: result.token, refreshToken: result.refreshToken });
+    } catch (error: any) {
+      console.error('Single sign-on login failed:', error);
+      set.redirect = oidcService.getLoginPageUrl({ error: error.message });
+    }
+  }, {
+    query: t.Object({
+      code: t.Optional(t.String()),
+      state: t.Optional(t.String()),
+      error: t.Optional(t.String()),
+      error_description: t.Optional(t.String())
+    })
+  })
+  
   // Protected routes
   .use(authenticate)
   .get('/me', async ({ user }) => {
@@ -83,9 +231,14 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
     return userData;
   })
   
-  .put('/me', async ({ body, user }) => {
+  .put('/me', async ({ body, user, request }) => {
     // Users can update their own profile
-    return await updateUser(user.userId, body);
+    const before = await getUserById(user.userId);
+    const updated = await updateUser(user.userId, body);
+    
+    await auditRequest(request, 'update', 'user', user.userId, diffChanges(before, { ...updated, ...body }));
+    
+    return updated;
   }, {
     body: t.Object({
       username: t.Optional(t.String()),
@@ -94,8 +247,99 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
     })
   })
   
-  // Admin-only routes
-  .use('/users', adminOnly)
+  .post('/logout', async ({ user }) => {
+    if (user.sessionId) {
+      await revokeSession(user.userId, user.sessionId);
+    }
+    return { message: 'Logged out' };
+  })
+  
+  // Sessions of the current user
+  .get('/sessions', async ({ user }) => {
+    return await listSessions(user.userId, user.sessionId);
+  })
+  
+  .delete('/sessions/:id', async ({ params, user, request }) => {
+    await revokeSession(user.userId, params.id);
+    
+    await auditRequest(request, 'revoke', 'session', params.id);
+    
+    return { message: 'Session revoked successfully' };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Two-factor authentication for the current user
+  .post('/2fa/setup', async ({ user }) => {
+    return await setupTwoFactor(user.userId);
+  })
+  
+  .post('/2fa/enable', async ({ body, user, request }) => {
+    const result = await enableTwoFactor(user.userId, body.code);
+    
+    await auditRequest(request, 'enable_2fa', 'user', user.userId);
+    
+    return result;
+  }, {
+    body: t.Object({
+      code: t.String()
+    })
+  })
+  
+  .post('/2fa/disable', async ({ body, user, request }) => {
+    await disableTwoFactor(user.userId, body.code);
+    
+    await auditRequest(request, 'disable_2fa', 'user', user.userId);
+    
+    return { message: 'Two-factor authentication disabled' };
+  }, {
+    body: t.Object({
+      code: t.String()
+    })
+  })
+  
+  .post('/2fa/recovery-codes', async ({ body, user }) => {
+    return await regenerateRecoveryCodes(user.userId, body.code);
+  }, {
+    body: t.Object({
+      code: t.String()
+    })
+  })
+  
+  // API tokens for the current user
+  .get('/tokens', async ({ user }) => {
+    return await listApiTokens(user.userId);
+  })
+  
+  .post('/tokens', async ({ body, user, request }) => {
+    const result = await createApiToken(user.userId, user.role, body);
+    
+    await auditRequest(request, 'create', 'api_token', result.apiToken.id);
+    
+    return result;
+  }, {
+    body: t.Object({
+      name: t.String({ minLength: 1 }),
+      scopes: t.Array(t.Enum(ApiTokenScope)),
+      expiresInDays: t.Optional(t.Number({ minimum: 1 }))
+    })
+  })
+  
+  .delete('/tokens/:id', async ({ params, user, request }) => {
+    await revokeApiToken(user.userId, params.id);
+    
+    await auditRequest(request, 'revoke', 'api_token', params.id);
+    
+    return { message: 'API token revoked successfully' };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Admin-only routes (see ROUTE_PERMISSIONS)
   .get('/users', async () => {
     return await listUsers();
   })
@@ -112,8 +356,13 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
     })
   })
   
-  .put('/users/:id', async ({ params, body }) => {
-    return await updateUser(params.id, body);
+  .put('/users/:id', async ({ params, body, request }) => {
+    const before = await getUserById(params.id);
+    const updated = await updateUser(params.id, body);
+    
+    await auditRequest(request, 'update', 'user', params.id, diffChanges(before, { ...updated, ...body }));
+    
+    return updated;
   }, {
     params: t.Object({
       id: t.String()
@@ -127,8 +376,36 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
     })
   })
   
-  .delete('/users/:id', async ({ params }) => {
+  .delete('/users/:id/2fa', async ({ params, user, request }) => {
+    await resetTwoFactor(params.id);
+    
+    await auditRequest(request, 'reset_2fa', 'user', params.id);
+    
+    return { message: 'Two-factor authentication reset' };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  .post('/users/:id/unlock', async ({ params, request }) => {
+    await unlockUser(params.id);
+    
+    await auditRequest(request, 'unlock', 'user', params.id);
+    
+    return { message: 'User unlocked' };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  .delete('/users/:id', async ({ params, request }) => {
+    const before = await getUserById(params.id);
     await deleteUser(params.id);
+    
+    await auditRequest(request, 'delete', 'user', params.id, { before });
+    
     return { message: 'User deleted successfully' };
   }, {
     params: t.Object({
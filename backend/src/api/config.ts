@@ -1,20 +1,25 @@
 import { Elysia, t } from 'elysia';
 import { configService } from '../services/config';
+import { mailService } from '../services/mail';
+import { diffChanges } from '../services/audit';
+import { auditRequest } from '../middleware/audit';
 
 export const configRoutes = new Elysia({ prefix: '/config' })
   // Get current configuration
   .get('/', async () => {
-    const config = configService.getConfig();
+    const config = configService.getPublicConfig();
     return config;
   })
   
   // Update configuration
-  .put('/', async ({ body }) => {
+  .put('/', async ({ body, request }) => {
     try {
+      const before = structuredClone(configService.getConfig());
       const updatedConfig = await configService.updateConfig(body);
+      await auditRequest(request, 'update', 'config', undefined, diffChanges(before, updatedConfig));
       return {
         success: true,
-        config: updatedConfig
+        config: configService.getPublicConfig()
       };
     } catch (error: any) {
       return new Response(JSON.stringify({ error: error.message }), {
@@ -34,14 +39,50 @@ export const configRoutes = new Elysia({ prefix: '/config' })
         theme: t.Optional(t.String()),
         refreshInterval: t.Optional(t.Number()),
         showSystemContainers: t.Optional(t.Boolean())
+      })),
+      mail: t.Optional(t.Object({
+        enabled: t.Boolean(),
+        from: t.String(),
+        baseUrl: t.String(),
+        alertRecipients: t.Array(t.String()),
+        smtp: t.Object({
+          host: t.String(),
+          port: t.Number(),
+          security: t.Union([t.Literal('none'), t.Literal('starttls'), t.Literal('tls')]),
+          username: t.Optional(t.String()),
+          password: t.Optional(t.String()),
+          rejectUnauthorized: t.Optional(t.Boolean())
+        })
       }))
     })
   })
   
+  // Send a test email with the saved mail settings
+  .post('/mail/test', async ({ body, request }) => {
+    try {
+      await mailService.sendTestEmail(body.to);
+      await auditRequest(request, 'send_test_email', 'config', undefined, { to: body.to });
+      return {
+        success: true,
+        message: `Test email sent to ${body.to}`
+      };
+    } catch (error: any) {
+      return new Response(JSON.stringify({ error: `Could not send test email: ${error.message}` }), {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }, {
+    body: t.Object({
+      to: t.String()
+    })
+  })
+  
   // Create a configuration backup
-  .post('/backup', async ({ body }) => {
+  .post('/backup', async ({ body, request }) => {
     try {
       const backup = await configService.createBackup(body?.description);
+      await auditRequest(request, 'create', 'backup', backup.id, { after: { description: backup.description } });
       return {
         success: true,
         backup
@@ -72,13 +113,15 @@ export const configRoutes = new Elysia({ prefix: '/config' })
   })
   
   // Restore configuration from backup
-  .post('/restore', async ({ body }) => {
+  .post('/restore', async ({ body, request }) => {
     try {
+      const before = structuredClone(configService.getConfig());
       const config = await configService.restoreBackup(body.backupId);
+      await auditRequest(request, 'restore', 'backup', body.backupId, diffChanges(before, config));
       return {
         success: true,
         backupId: body.backupId,
-        config
+        config: configService.getPublicConfig()
       };
     } catch (error: any) {
       return new Response(JSON.stringify({ error: error.message }), {
@@ -93,9 +136,10 @@ export const configRoutes = new Elysia({ prefix: '/config' })
   })
   
   // Delete a configuration backup
-  .delete('/backups/:id', async ({ params: { id } }) => {
+  .delete('/backups/:id', async ({ params: { id }, request }) => {
     try {
       await configService.deleteBackup(id);
+      await auditRequest(request, 'delete', 'backup', id);
       return {
         success: true,
         backupId: id
@@ -1,16 +1,106 @@
 import { Elysia, t } from 'elysia';
 import { containerService } from '../services/container';
+import {
+  ContainerFileError,
+  MAX_UPLOAD_REQUEST_SIZE,
+  MAX_UPLOAD_SIZE,
+  UPLOAD_LIMIT_MESSAGE,
+  downloadContainerPath,
+  listContainerDirectory,
+  uploadContainerFiles
+} from '../services/containerFiles';
+import { getProject } from '../services/project';
+import { subscriptionRegistry, Release } from '../websocket/subscriptions';
+import { auditRequest } from '../middleware/audit';
+import { LengthRequiredError, PayloadTooLargeError } from '../middleware/error';
+import { Permission } from '../middleware/permissions';
+import { assertProjectPermission, filterByProject } from '../middleware/projects';
+import { splitCommand } from '../utils/compose';
+import { Container, PROJECT_LABEL, RestartPolicy } from '../../../shared/src/models';
+
+// Resource limits; zero removes a limit
+const resourcesSchema = t.Object({
+  // Bytes
+  memory: t.Optional(t.Number({ minimum: 0 })),
+  // Bytes of memory plus swap, -1 for unlimited swap
+  memorySwap: t.Optional(t.Number({ minimum: -1 })),
+  // Number of CPUs, such as 0.5
+  cpus: t.Optional(t.Number({ minimum: 0 })),
+  cpuShares: t.Optional(t.Integer({ minimum: 0 })),
+  // Microseconds of CPU time per period
+  cpuQuota: t.Optional(t.Integer({ minimum: 0 })),
+  cpuPeriod: t.Optional(t.Integer({ minimum: 0, maximum: 1000000 })),
+  // -1 for unlimited
+  pidsLimit: t.Optional(t.Integer({ minimum: -1 }))
+});
+
+// A command as arguments, or as one string split the way a shell would
+const commandSchema = t.Optional(t.Union([t.Array(t.String()), t.String()]));
+
+// What to stop when a log or stats websocket closes, by connection
+const streamReleases = new WeakMap<object, Release>();
+
+/**
+ * Get a container, refusing the request unless its user has the permission in the container's project
+ */
+async function getAuthorizedContainer(request: Request, id: string, permission: Permission): Promise<Container> {
+  const container = await containerService.getContainer(id);
+  await assertProjectPermission(request, container.projectId, permission);
+  return container;
+}
+
+/**
+ * Get a command as arguments
+ */
+function toArguments(command?: string | string[]): string[] | undefined {
+  if (typeof command === 'string') {
+    return command.trim() ? splitCommand(command) : undefined;
+  }
+  return command;
+}
+
+/**
+ * Answer a file request that cannot be served with its status, and rethrow anything else
+ */
+function fileErrorResponse(error: unknown): Response {
+  if (error instanceof ContainerFileError) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  throw error;
+}
+
+/**
+ * Run a lifecycle action on a container and record the state change
+ */
+async function changeContainerState(request: Request, id: string, action: string, change: () => Promise<void>) {
+  const before = await getAuthorizedContainer(request, id, Permission.OPERATE);
+  await change();
+  const after = await containerService.getContainer(id);
+  
+  await auditRequest(request, action, 'container', id, {
+    name: before.name,
+    before: { state: before.state },
+    after: { state: after.state }
+  });
+}
 
 export const containersRoutes = new Elysia({ prefix: '/containers' })
-  // Get all containers
-  .get('/', async () => {
-    const containers = await containerService.getContainers();
+  // Get the containers the user can see, optionally only one project's
+  .get('/', async ({ query, request }) => {
+    const containers = await filterByProject(request, await containerService.getContainers(), query.projectId);
     return { containers };
+  }, {
+    query: t.Object({
+      projectId: t.Optional(t.String())
+    })
   })
   
   // Get container by ID
-  .get('/:id', async ({ params: { id } }) => {
-    const container = await containerService.getContainer(id);
+  .get('/:id', async ({ params: { id }, request }) => {
+    const container = await getAuthorizedContainer(request, id, Permission.READ);
     return container;
   }, {
     params: t.Object({
@@ -19,15 +109,48 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   })
   
   // Create a new container
-  .post('/', async ({ body }) => {
+  .post('/', async ({ body, request }) => {
+    if (body.projectId && !await getProject(body.projectId)) {
+      return new Response(JSON.stringify({ error: 'Project not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    await assertProjectPermission(request, body.projectId, Permission.OPERATE);
+    
+    // The project label is only set from projectId, so it cannot name a project the user is not in
+    const labels = { ...body.labels };
+    delete labels[PROJECT_LABEL];
+    if (body.projectId) {
+      labels[PROJECT_LABEL] = body.projectId;
+    }
+    
     const container = await containerService.createContainer({
       name: body.name,
       image: body.image,
       ports: body.ports,
       volumes: body.volumes,
       env: body.env,
-      labels: body.labels
+      labels,
+      networks: body.networks,
+      command: toArguments(body.command),
+      entrypoint: toArguments(body.entrypoint),
+      workingDir: body.workingDir || undefined,
+      user: body.user || undefined,
+      resources: body.resources,
+      restartPolicy: body.restartPolicy,
+      healthcheck: body.healthcheck,
+      pull: body.pull
+    });
+    
+    // Environment values often hold credentials, so only their names are recorded
+    await auditRequest(request, 'create', 'container', container.id, {
+      after: {
+        ...body,
+        env: body.env?.map(variable => variable.split('=')[0])
+      }
     });
+    
     return container;
   }, {
     body: t.Object({
@@ -43,13 +166,39 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
         mode: t.Optional(t.String())
       }))),
       env: t.Optional(t.Array(t.String())),
-      labels: t.Optional(t.Record(t.String(), t.String()))
+      labels: t.Optional(t.Record(t.String(), t.String())),
+      projectId: t.Optional(t.String()),
+      // Networks to attach the container to, by name or ID; the first is its primary network
+      networks: t.Optional(t.Array(t.String())),
+      // Override the image's CMD and ENTRYPOINT
+      command: commandSchema,
+      entrypoint: commandSchema,
+      workingDir: t.Optional(t.String()),
+      // user, uid, user:group or uid:gid
+      user: t.Optional(t.String()),
+      resources: t.Optional(resourcesSchema),
+      restartPolicy: t.Optional(t.Object({
+        name: t.Enum(RestartPolicy),
+        // on-failure only; 0 retries forever
+        maximumRetryCount: t.Optional(t.Integer({ minimum: 0 }))
+      })),
+      // Replaces the image's HEALTHCHECK; durations are in seconds
+      healthcheck: t.Optional(t.Object({
+        command: t.Optional(t.String()),
+        disabled: t.Optional(t.Boolean()),
+        interval: t.Optional(t.Number({ minimum: 0 })),
+        timeout: t.Optional(t.Number({ minimum: 0 })),
+        startPeriod: t.Optional(t.Number({ minimum: 0 })),
+        retries: t.Optional(t.Integer({ minimum: 0 }))
+      })),
+      // Pull the image before creating the container; progress is sent on the image-pull channel
+      pull: t.Optional(t.Boolean())
     })
   })
   
   // Start a container
-  .post('/:id/start', async ({ params: { id } }) => {
-    await containerService.startContainer(id);
+  .post('/:id/start', async ({ params: { id }, request }) => {
+    await changeContainerState(request, id, 'start', () => containerService.startContainer(id));
     return { success: true, id };
   }, {
     params: t.Object({
@@ -58,8 +207,8 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   })
   
   // Stop a container
-  .post('/:id/stop', async ({ params: { id } }) => {
-    await containerService.stopContainer(id);
+  .post('/:id/stop', async ({ params: { id }, request }) => {
+    await changeContainerState(request, id, 'stop', () => containerService.stopContainer(id));
     return { success: true, id };
   }, {
     params: t.Object({
@@ -68,8 +217,8 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   })
   
   // Restart a container
-  .post('/:id/restart', async ({ params: { id } }) => {
-    await containerService.restartContainer(id);
+  .post('/:id/restart', async ({ params: { id }, request }) => {
+    await changeContainerState(request, id, 'restart', () => containerService.restartContainer(id));
     return { success: true, id };
   }, {
     params: t.Object({
@@ -77,8 +226,149 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
     })
   })
   
+  // Replace a container with a copy that has the requested changes, rolling
+  // back to the old one if the copy does not become healthy
+  .post('/:id/recreate', async ({ params: { id }, body, request }) => {
+    const before = await getAuthorizedContainer(request, id, Permission.OPERATE);
+    const container = await containerService.recreateContainer(id, body);
+    
+    // Environment values often hold credentials, so only their names are recorded
+    await auditRequest(request, 'recreate', 'container', container.id, {
+      name: container.name,
+      previousId: before.id,
+      before: { image: before.image, ports: before.ports },
+      after: {
+        image: container.image,
+        ports: container.ports,
+        resources: body.resources,
+        env: body.env ? Object.keys(body.env) : undefined
+      }
+    });
+    
+    return container;
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      // A full image reference, or a tag for the container's current repository
+      image: t.Optional(t.String()),
+      tag: t.Optional(t.String()),
+      // Variables to set; null removes one
+      env: t.Optional(t.Record(t.String(), t.Union([t.String(), t.Null()]))),
+      // Replaces all of the container's port mappings
+      ports: t.Optional(t.Array(t.Object({
+        internal: t.Number(),
+        external: t.Optional(t.Number()),
+        protocol: t.Optional(t.Union([t.Literal('tcp'), t.Literal('udp')]))
+      }))),
+      resources: t.Optional(resourcesSchema),
+      pull: t.Optional(t.Boolean()),
+      // Seconds to wait for the new container to become healthy
+      timeout: t.Optional(t.Number({ minimum: 1, maximum: 600 }))
+    })
+  })
+  
+  // List a directory in a container. Files can hold credentials, so browsing
+  // them needs the same permission as running commands in the container.
+  .get('/:id/files', async ({ params: { id }, query, request }) => {
+    await getAuthorizedContainer(request, id, Permission.OPERATE);
+    try {
+      return await listContainerDirectory(id, query.path || '/');
+    } catch (error) {
+      return fileErrorResponse(error);
+    }
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    query: t.Object({
+      path: t.Optional(t.String())
+    })
+  })
+  
+  // Download a file, or a file or directory as a tar or zip archive
+  .get('/:id/files/download', async ({ params: { id }, query, request }) => {
+    const container = await getAuthorizedContainer(request, id, Permission.OPERATE);
+    try {
+      const download = await downloadContainerPath(id, query.path, query.format);
+      await auditRequest(request, 'download', 'container', id, {
+        name: container.name,
+        path: query.path,
+        size: download.data.length
+      });
+      
+      return new Response(download.data, {
+        headers: {
+          'Content-Type': download.contentType,
+          'Content-Disposition': `attachment; filename="${download.filename.replace(/["\\\r\n]/g, '_')}"`
+        }
+      });
+    } catch (error) {
+      return fileErrorResponse(error);
+    }
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    query: t.Object({
+      path: t.String(),
+      // Files default to raw, directories to tar
+      format: t.Optional(t.Union([t.Literal('raw'), t.Literal('tar'), t.Literal('zip')]))
+    })
+  })
+  
+  // Upload files into a directory of a container
+  .post('/:id/files/upload', async ({ params: { id }, query, body, request }) => {
+    const container = await getAuthorizedContainer(request, id, Permission.OPERATE);
+    const uploads = Array.isArray(body.files) ? body.files : [body.files];
+    try {
+      const files = await Promise.all(uploads.map(async file => ({
+        name: file.name,
+        data: Buffer.from(await file.arrayBuffer())
+      })));
+      const paths = await uploadContainerFiles(id, query.path, files);
+      await auditRequest(request, 'upload', 'container', id, {
+        name: container.name,
+        paths,
+        size: files.reduce((total, file) => total + file.data.length, 0)
+      });
+      
+      return { success: true, paths };
+    } catch (error) {
+      return fileErrorResponse(error);
+    }
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    query: t.Object({
+      // Directory to write the files into; it must exist
+      path: t.String()
+    }),
+    // Given as a list so the parse hook below runs; for a single type with a
+    // file schema Elysia reads the form straight away
+    type: ['multipart/form-data'],
+    // Refuse oversized uploads from their Content-Length, before the body is read.
+    // Chunked uploads give no length to check, so they are refused as well
+    parse({ request }) {
+      const header = request.headers.get('content-length');
+      const length = Number(header);
+      if (!header?.trim() || !Number.isFinite(length)) {
+        throw new LengthRequiredError('Uploads must give their Content-Length');
+      }
+      if (length > MAX_UPLOAD_REQUEST_SIZE) {
+        throw new PayloadTooLargeError(UPLOAD_LIMIT_MESSAGE);
+      }
+    },
+    body: t.Object({
+      files: t.Files({ maxSize: MAX_UPLOAD_SIZE })
+    })
+  })
+  
   // Get container logs
-  .get('/:id/logs', async ({ params: { id }, query }) => {
+  .get('/:id/logs', async ({ params: { id }, query, request }) => {
+    await getAuthorizedContainer(request, id, Permission.READ);
     const logs = await containerService.getContainerLogs(id, {
       tail: query.tail ? parseInt(query.tail) : 100,
       since: query.since ? parseInt(query.since) : undefined,
@@ -97,7 +387,8 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   })
   
   // Get container stats
-  .get('/:id/stats', async ({ params: { id }, query }) => {
+  .get('/:id/stats', async ({ params: { id }, query, request }) => {
+    await getAuthorizedContainer(request, id, Permission.READ);
     const detailed = query.detailed === 'true';
     
     if (detailed) {
@@ -117,9 +408,15 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   })
   
   // Delete a container
-  .delete('/:id', async ({ params: { id }, query }) => {
+  .delete('/:id', async ({ params: { id }, query, request }) => {
     const force = query.force === 'true';
+    const before = await getAuthorizedContainer(request, id, Permission.OPERATE);
     await containerService.removeContainer(id, force);
+    
+    await auditRequest(request, 'delete', 'container', id, {
+      force,
+      before: { name: before.name, image: before.image, state: before.state }
+    });
     return { success: true, id };
   }, {
     params: t.Object({
@@ -132,20 +429,35 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   
   // WebSocket for streaming logs
   .ws('/:id/logs/stream', {
+    async beforeHandle({ params, request }) {
+      await getAuthorizedContainer(request, params.id, Permission.READ);
+    },
     open(ws) {
       const id = ws.data.params.id;
       
-      // Start streaming logs
-      containerService.startLogStreaming(id, (log) => {
-        ws.send(JSON.stringify({ type: 'log', id, log }));
+      // Start streaming logs for this connection only
+      const streamId = containerService.startLogStreaming(id, (entry) => {
+        ws.send(JSON.stringify({ type: 'log', id, ...entry }));
+      }, {
+        onEnd: () => ws.send(JSON.stringify({ type: 'end', id }))
       }).catch(error => {
         ws.send(JSON.stringify({ type: 'error', message: error.message }));
         ws.close();
+        return null;
+      });
+      
+      // The client may leave before the stream has started, so stop it once it has
+      streamReleases.set(ws.raw, () => {
+        streamId.then(startedId => {
+          if (startedId) {
+            containerService.stopLogStreaming(startedId);
+          }
+        });
       });
     },
     close(ws) {
-      const id = ws.data.params.id;
-      containerService.stopLogStreaming(id);
+      streamReleases.get(ws.raw)?.();
+      streamReleases.delete(ws.raw);
     },
     message(ws, message) {
       // Handle client messages if needed
@@ -158,21 +470,33 @@ export const containersRoutes = new Elysia({ prefix: '/containers' })
   
   // WebSocket for streaming stats
   .ws('/:id/stats/stream', {
+    async beforeHandle({ params, request }) {
+      await getAuthorizedContainer(request, params.id, Permission.READ);
+    },
     open(ws) {
       const id = ws.data.params.id;
       
-      // Start monitoring stats
-      containerService.on('container:stats', (stats) => {
+      const statsHandler = (stats: any) => {
         if (stats.containerId === id) {
           ws.send(JSON.stringify({ type: 'stats', id, stats }));
         }
+      };
+      containerService.on('container:stats', statsHandler);
+      
+      // Share the container's stats monitor with websocket subscribers
+      const releaseMonitor = subscriptionRegistry.acquire(`container-stats:${id}`, () => {
+        containerService.startStatsMonitoring(id, 1000);
+        return () => containerService.stopStatsMonitoring(id);
       });
       
-      containerService.startStatsMonitoring(id, 1000);
+      streamReleases.set(ws.raw, () => {
+        containerService.off('container:stats', statsHandler);
+        releaseMonitor();
+      });
     },
     close(ws) {
-      const id = ws.data.params.id;
-      containerService.stopStatsMonitoring(id);
+      streamReleases.get(ws.raw)?.();
+      streamReleases.delete(ws.raw);
     },
     message(ws, message) {
       // Handle client messages if needed
@@ -30,6 +30,22 @@ export const apiDocs = new Elysia()
           name: 'Containers',
           description: 'Container management endpoints'
         },
+        {
+          name: 'Images',
+          description: 'Image management endpoints'
+        },
+        {
+          name: 'Stacks',
+          description: 'Compose stack deployment endpoints'
+        },
+        {
+          name: 'Volumes',
+          description: 'Volume management endpoints'
+        },
+        {
+          name: 'Networks',
+          description: 'Network management endpoints'
+        },
         {
           name: 'Proxy',
           description: 'Proxy rule management endpoints'
@@ -41,6 +57,14 @@ export const apiDocs = new Elysia()
         {
           name: 'Health',
           description: 'Health check and monitoring endpoints'
+        },
+        {
+          name: 'Audit',
+          description: 'Audit log query and export endpoints'
+        },
+        {
+          name: 'Projects',
+          description: 'Project and project membership endpoints'
         }
       ],
       servers: [
@@ -0,0 +1,87 @@
+import { Elysia, t } from 'elysia';
+import { imageService } from '../services/image';
+import { auditRequest } from '../middleware/audit';
+
+export const imageRoutes = new Elysia({ prefix: '/images' })
+  // Get all images, with the number of containers using each
+  .get('/', async () => {
+    const images = await imageService.getImages();
+    return { images };
+  })
+  
+  // Start pulling an image; progress is sent on the image-pull websocket channel
+  .post('/pull', async ({ body, request, set }) => {
+    const pull = imageService.startPull(body.image, body.tag);
+    
+    await auditRequest(request, 'pull', 'image', pull.image, { pullId: pull.id });
+    
+    set.status = 202;
+    return pull;
+  }, {
+    body: t.Object({
+      image: t.String(),
+      tag: t.Optional(t.String())
+    })
+  })
+  
+  // Get running and recently finished pulls
+  .get('/pulls', () => {
+    return { pulls: imageService.getPulls() };
+  })
+  
+  // Get a pull and the progress of its layers
+  .get('/pulls/:id', ({ params: { id } }) => {
+    const pull = imageService.getPull(id);
+    if (!pull) {
+      return new Response(JSON.stringify({ error: 'Pull not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    return pull;
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Remove dangling images
+  .post('/prune', async ({ request }) => {
+    const result = await imageService.pruneImages();
+    await auditRequest(request, 'prune', 'image', undefined, {
+      imagesDeleted: result.imagesDeleted.length,
+      spaceReclaimed: result.spaceReclaimed
+    });
+    return result;
+  })
+  
+  // Add a tag to an image
+  .post('/:id/tag', async ({ params: { id }, body, request }) => {
+    const tag = body.tag || 'latest';
+    await imageService.tagImage(id, body.repo, tag);
+    await auditRequest(request, 'tag', 'image', id, { after: { repo: body.repo, tag } });
+    return { success: true, id, repo: body.repo, tag };
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      repo: t.String(),
+      tag: t.Optional(t.String())
+    })
+  })
+  
+  // Remove an image, or one of its tags when given a tag
+  .delete('/:id', async ({ params: { id }, query, request }) => {
+    const force = query.force === 'true';
+    await imageService.removeImage(id, force);
+    await auditRequest(request, 'delete', 'image', id, { force });
+    return { success: true, id };
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    query: t.Object({
+      force: t.Optional(t.String())
+    })
+  });
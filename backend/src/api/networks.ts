@@ -0,0 +1,124 @@
+import { Elysia, t } from 'elysia';
+import { containerService } from '../services/container';
+import { auditRequest } from '../middleware/audit';
+import { Permission } from '../middleware/permissions';
+import { assertProjectPermission, filterByProject } from '../middleware/projects';
+import { withoutReservedLabels } from '../utils/compose';
+import { Network, PROJECT_LABEL } from '../../../shared/src/models';
+
+/**
+ * Refuse the request unless its user may operate both the container and the
+ * project the network belongs to, such as a stack's network
+ */
+async function assertCanAttach(request: Request, network: Network, projectId: string | undefined): Promise<void> {
+  await assertProjectPermission(request, projectId, Permission.OPERATE);
+  await assertProjectPermission(request, network.labels?.[PROJECT_LABEL], Permission.OPERATE);
+}
+
+/**
+ * Hide the containers attached to a network that the user cannot see
+ */
+async function withVisibleContainers(request: Request, network: Network): Promise<Network> {
+  return { ...network, containers: await filterByProject(request, network.containers) };
+}
+
+export const networkRoutes = new Elysia({ prefix: '/networks' })
+  // Get all networks, with the containers attached to each
+  .get('/', async ({ request }) => {
+    const networks = await containerService.getNetworks();
+    return { networks: await Promise.all(networks.map(network => withVisibleContainers(request, network))) };
+  })
+  
+  // Create a network
+  .post('/', async ({ body, request }) => {
+    // Only stacks place networks in projects and compose projects
+    const network = await containerService.createNetwork({ ...body, labels: withoutReservedLabels(body.labels) });
+    await auditRequest(request, 'create', 'network', network.id, { name: network.name, after: body });
+    return network;
+  }, {
+    body: t.Object({
+      name: t.String(),
+      driver: t.Optional(t.String()),
+      internal: t.Optional(t.Boolean()),
+      attachable: t.Optional(t.Boolean()),
+      subnet: t.Optional(t.String()),
+      gateway: t.Optional(t.String()),
+      options: t.Optional(t.Record(t.String(), t.String())),
+      labels: t.Optional(t.Record(t.String(), t.String()))
+    })
+  })
+  
+  // Remove networks no container is attached to
+  .post('/prune', async ({ request }) => {
+    const result = await containerService.pruneNetworks();
+    await auditRequest(request, 'prune', 'network', undefined, {
+      networksDeleted: result.networksDeleted.length
+    });
+    return result;
+  })
+  
+  // Get network by ID or name
+  .get('/:id', async ({ params: { id }, request }) => {
+    return withVisibleContainers(request, await containerService.getNetwork(id));
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Remove a network
+  .delete('/:id', async ({ params: { id }, request }) => {
+    await containerService.removeNetwork(id);
+    await auditRequest(request, 'delete', 'network', id);
+    return { success: true, id };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Attach a container to a network
+  .post('/:id/connect', async ({ params: { id }, body, request }) => {
+    const network = await containerService.getNetwork(id);
+    const container = await containerService.getContainer(body.container);
+    await assertCanAttach(request, network, container.projectId);
+    
+    await containerService.connectNetwork(network.id, container.id, body.aliases);
+    await auditRequest(request, 'connect', 'network', id, {
+      container: container.id,
+      name: container.name,
+      aliases: body.aliases
+    });
+    return { success: true, id, container: container.id };
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      container: t.String(),
+      aliases: t.Optional(t.Array(t.String()))
+    })
+  })
+  
+  // Detach a container from a network
+  .post('/:id/disconnect', async ({ params: { id }, body, request }) => {
+    const network = await containerService.getNetwork(id);
+    const container = await containerService.getContainer(body.container);
+    await assertCanAttach(request, network, container.projectId);
+    
+    await containerService.disconnectNetwork(network.id, container.id, body.force);
+    await auditRequest(request, 'disconnect', 'network', id, {
+      container: container.id,
+      name: container.name,
+      force: body.force
+    });
+    return { success: true, id, container: container.id };
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      container: t.String(),
+      force: t.Optional(t.Boolean())
+    })
+  });
@@ -0,0 +1,172 @@
+import { Elysia, t } from 'elysia';
+import {
+  listProjects,
+  getProject,
+  createProject,
+  updateProject,
+  deleteProject,
+  listMembers,
+  addMember,
+  updateMember,
+  removeMember
+} from '../services/project';
+import { diffChanges } from '../services/audit';
+import { auditRequest } from '../middleware/audit';
+import { getRequestUser } from '../middleware/auth';
+import { Permission } from '../middleware/permissions';
+import { getRequestProjectAccess, assertProjectPermission, assertCanManageProject } from '../middleware/projects';
+import { ProjectRole } from '../../../shared/src/models';
+
+const projectNotFound = () => new Response(JSON.stringify({ error: 'Project not found' }), {
+  status: 404,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+export const projectRoutes = new Elysia({ prefix: '/projects' })
+  // List the projects the user can reach
+  .get('/', async ({ request }) => {
+    const projects = await listProjects(await getRequestProjectAccess(request));
+    return { projects };
+  })
+  
+  // Create a project, owned by its creator
+  .post('/', async ({ body, request }) => {
+    const project = await createProject(body, getRequestUser(request)!.userId);
+    
+    await auditRequest(request, 'create', 'project', project.id, { after: body });
+    
+    return project;
+  }, {
+    body: t.Object({
+      name: t.String(),
+      description: t.Optional(t.String())
+    })
+  })
+  
+  // Get a project
+  .get('/:id', async ({ params: { id }, request }) => {
+    const project = await getProject(id, await getRequestProjectAccess(request));
+    if (!project) {
+      return projectNotFound();
+    }
+    await assertProjectPermission(request, id, Permission.READ);
+    return project;
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Rename a project or change its description
+  .put('/:id', async ({ params: { id }, body, request }) => {
+    const before = await getProject(id);
+    if (!before) {
+      return projectNotFound();
+    }
+    await assertCanManageProject(request, id);
+    
+    const project = await updateProject(id, body);
+    await auditRequest(request, 'update', 'project', id, diffChanges(before, project));
+    return project;
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      name: t.Optional(t.String()),
+      description: t.Optional(t.String())
+    })
+  })
+  
+  // Delete a project that no longer has containers or proxy rules
+  .delete('/:id', async ({ params: { id }, request }) => {
+    const before = await getProject(id);
+    if (!before) {
+      return projectNotFound();
+    }
+    
+    await deleteProject(id);
+    await auditRequest(request, 'delete', 'project', id, { before });
+    return { success: true, id };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // List a project's members
+  .get('/:id/members', async ({ params: { id }, request }) => {
+    if (!await getProject(id)) {
+      return projectNotFound();
+    }
+    await assertProjectPermission(request, id, Permission.READ);
+    
+    const members = await listMembers(id);
+    return { members };
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Add a member by username or email
+  .post('/:id/members', async ({ params: { id }, body, request }) => {
+    if (!await getProject(id)) {
+      return projectNotFound();
+    }
+    await assertCanManageProject(request, id);
+    
+    const member = await addMember(id, body.user, body.role);
+    await auditRequest(request, 'add_member', 'project', id, { after: { userId: member.userId, role: member.role } });
+    return member;
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      user: t.String(),
+      role: t.Enum(ProjectRole)
+    })
+  })
+  
+  // Change a member's role
+  .put('/:id/members/:userId', async ({ params: { id, userId }, body, request }) => {
+    if (!await getProject(id)) {
+      return projectNotFound();
+    }
+    await assertCanManageProject(request, id);
+    
+    const before = (await listMembers(id)).find(member => member.userId === userId);
+    const member = await updateMember(id, userId, body.role);
+    await auditRequest(request, 'update_member', 'project', id, {
+      userId,
+      before: { role: before?.role },
+      after: { role: member.role }
+    });
+    return member;
+  }, {
+    params: t.Object({
+      id: t.String(),
+      userId: t.String()
+    }),
+    body: t.Object({
+      role: t.Enum(ProjectRole)
+    })
+  })
+  
+  // Remove a member
+  .delete('/:id/members/:userId', async ({ params: { id, userId }, request }) => {
+    if (!await getProject(id)) {
+      return projectNotFound();
+    }
+    await assertCanManageProject(request, id);
+    
+    await removeMember(id, userId);
+    await auditRequest(request, 'remove_member', 'project', id, { userId });
+    return { success: true, id, userId };
+  }, {
+    params: t.Object({
+      id: t.String(),
+      userId: t.String()
+    })
+  });
@@ -1,17 +1,108 @@
 import { Elysia, t } from 'elysia';
-import { proxyService } from '../services/proxy';
+import { proxyService, ProxyPortConflictError, InvalidProxyRuleError } from '../services/proxy';
 import { proxyAnalyticsService } from '../services/proxyAnalytics';
-import { ProxyProtocol } from '../../../shared/src/models';
+import { NginxConfigTestError, NginxReloadError } from '../services/nginxConfig';
+import { ProxyProtocol, LoadBalancingMethod } from '../../../shared/src/models';
+import { getProject } from '../services/project';
+import { diffChanges } from '../services/audit';
+import { auditRequest } from '../middleware/audit';
+import { Permission } from '../middleware/permissions';
+import { assertProjectPermission, filterByProject } from '../middleware/projects';
+
+/**
+ * Refuse the request unless its user has the permission in the rule's project.
+ * Missing rules are left for the route to report.
+ */
+async function assertRulePermission(request: Request, id: string, permission: Permission): Promise<void> {
+  const rule = await proxyService.getRule(id);
+  if (rule) {
+    await assertProjectPermission(request, rule.projectId, permission);
+  }
+}
+
+/**
+ * Refuse to assign a rule to a project that does not exist
+ */
+async function rejectUnknownProject(projectId: string | undefined): Promise<Response | null> {
+  if (!projectId || await getProject(projectId)) {
+    return null;
+  }
+  return new Response(JSON.stringify({ error: 'Project not found' }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Reject changes to rules managed through container labels
+ */
+async function rejectLabelManagedRule(id: string): Promise<Response | null> {
+  const rule = await proxyService.getRule(id);
+  if (!rule?.managedByContainer) {
+    return null;
+  }
+  return new Response(JSON.stringify({
+    error: 'Rule is managed by container labels and cannot be modified through the API'
+  }), {
+    status: 409,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Load balancing settings of a rule. Sticky sessions hash on the cookie and
+// only combine with the default round robin method.
+const loadBalancingSchema = t.Object({
+  method: t.Enum(LoadBalancingMethod),
+  targets: t.Array(t.Object({
+    container: t.String(),
+    port: t.Number(),
+    weight: t.Number()
+  })),
+  sticky: t.Boolean(),
+  // Empty uses the default cookie name
+  cookieName: t.Optional(t.String({ pattern: '^[A-Za-z0-9_]*$' })),
+  cookieExpiry: t.Optional(t.Numeric())
+});
+
+/**
+ * Answer a rule change that is invalid, that Nginx refused or whose port is taken,
+ * or null for other errors
+ */
+function ruleChangeErrorResponse(error: Error): Response | null {
+  if (error instanceof InvalidProxyRuleError) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  if (error instanceof NginxConfigTestError || error instanceof NginxReloadError) {
+    return new Response(JSON.stringify({ error: error.message, nginxOutput: error.output }), {
+      status: 422,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  if (error instanceof ProxyPortConflictError) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 409,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  return null;
+}
 
 export const proxyRoutes = new Elysia({ prefix: '/proxy' })
-  // Get all proxy rules
-  .get('/rules', async () => {
-    const rules = await proxyService.getRules();
+  // Get the proxy rules the user can see, optionally only one project's
+  .get('/rules', async ({ query, request }) => {
+    const rules = await filterByProject(request, await proxyService.getRules(), query.projectId);
     return { rules };
+  }, {
+    query: t.Object({
+      projectId: t.Optional(t.String())
+    })
   })
   
   // Get proxy rule by ID
-  .get('/rules/:id', async ({ params: { id } }) => {
+  .get('/rules/:id', async ({ params: { id }, request }) => {
     const rule = await proxyService.getRule(id);
     if (!rule) {
       return new Response(JSON.stringify({ error: 'Rule not found' }), {
@@ -19,7 +110,8 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
         headers: { 'Content-Type': 'application/json' }
       });
     }
-    return rule;
+    await assertProjectPermission(request, rule.projectId, Permission.READ);
+    return { ...rule, upstream: proxyService.getRuleUpstream(rule) };
   }, {
     params: t.Object({
       id: t.String()
@@ -27,26 +119,43 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Create a new proxy rule
-  .post('/rules', async ({ body }) => {
-    const rule = await proxyService.createRule({
-      name: body.name,
-      sourceHost: body.sourceHost,
-      sourcePath: body.sourcePath || '/',
-      targetContainer: body.targetContainer,
-      targetPort: body.targetPort,
-      protocol: body.protocol || ProxyProtocol.HTTP,
-      sslEnabled: body.sslEnabled || false,
-      sslCertPath: body.sslCertPath,
-      sslKeyPath: body.sslKeyPath,
-      headers: body.headers,
-      responseHeaders: body.responseHeaders,
-      healthCheck: body.healthCheck,
-      loadBalancing: body.loadBalancing,
-      advancedConfig: body.advancedConfig,
-      customNginxConfig: body.customNginxConfig,
-      enabled: body.enabled !== undefined ? body.enabled : true
-    });
-    return rule;
+  .post('/rules', async ({ body, request }) => {
+    const unknownProject = await rejectUnknownProject(body.projectId);
+    if (unknownProject) {
+      return unknownProject;
+    }
+    await assertProjectPermission(request, body.projectId, Permission.OPERATE);
+    
+    try {
+      const rule = await proxyService.createRule({
+        name: body.name,
+        sourceHost: body.sourceHost,
+        sourcePath: body.sourcePath || '/',
+        targetContainer: body.targetContainer,
+        targetPort: body.targetPort,
+        sourcePort: body.sourcePort,
+        protocol: body.protocol || ProxyProtocol.HTTP,
+        sslEnabled: body.sslEnabled || false,
+        sslCertPath: body.sslCertPath,
+        sslKeyPath: body.sslKeyPath,
+        headers: body.headers,
+        responseHeaders: body.responseHeaders,
+        healthCheck: body.healthCheck,
+        loadBalancing: body.loadBalancing,
+        advancedConfig: body.advancedConfig,
+        customNginxConfig: body.customNginxConfig,
+        enabled: body.enabled !== undefined ? body.enabled : true,
+        projectId: body.projectId
+      });
+      await auditRequest(request, 'create', 'proxy_rule', rule.id, { after: rule });
+      return rule;
+    } catch (error: any) {
+      const ruleChangeError = ruleChangeErrorResponse(error);
+      if (ruleChangeError) {
+        return ruleChangeError;
+      }
+      throw error;
+    }
   }, {
     body: t.Object({
       name: t.String(),
@@ -54,6 +163,7 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
       sourcePath: t.Optional(t.String()),
       targetContainer: t.String(),
       targetPort: t.Number(),
+      sourcePort: t.Optional(t.Number()),
       protocol: t.Optional(t.Enum(ProxyProtocol)),
       sslEnabled: t.Optional(t.Boolean()),
       sslCertPath: t.Optional(t.String()),
@@ -67,19 +177,44 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
         retries: t.Number(),
         successCodes: t.String()
       })),
-      loadBalancing: t.Optional(t.Any()),
+      loadBalancing: t.Optional(loadBalancingSchema),
       advancedConfig: t.Optional(t.Any()),
       customNginxConfig: t.Optional(t.String()),
-      enabled: t.Optional(t.Boolean())
+      enabled: t.Optional(t.Boolean()),
+      projectId: t.Optional(t.String())
     })
   })
   
   // Update a proxy rule
-  .put('/rules/:id', async ({ params: { id }, body }) => {
+  .put('/rules/:id', async ({ params: { id }, body, request }) => {
+    const labelManaged = await rejectLabelManagedRule(id);
+    if (labelManaged) {
+      return labelManaged;
+    }
+    await assertRulePermission(request, id, Permission.OPERATE);
+    
+    // Moving a rule needs the same access to the project it moves to; an empty projectId shares it
+    if (body.projectId !== undefined) {
+      const unknownProject = await rejectUnknownProject(body.projectId);
+      if (unknownProject) {
+        return unknownProject;
+      }
+      await assertProjectPermission(request, body.projectId || undefined, Permission.OPERATE);
+    }
+    
     try {
-      const rule = await proxyService.updateRule(id, body);
+      const before = await proxyService.getRule(id);
+      const rule = await proxyService.updateRule(id, {
+        ...body,
+        projectId: body.projectId === undefined ? before?.projectId : body.projectId || undefined
+      });
+      await auditRequest(request, 'update', 'proxy_rule', id, diffChanges(before, rule));
       return rule;
     } catch (error: any) {
+      const ruleChangeError = ruleChangeErrorResponse(error);
+      if (ruleChangeError) {
+        return ruleChangeError;
+      }
       return new Response(JSON.stringify({ error: error.message }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
@@ -95,6 +230,7 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
       sourcePath: t.Optional(t.String()),
       targetContainer: t.Optional(t.String()),
       targetPort: t.Optional(t.Number()),
+      sourcePort: t.Optional(t.Number()),
       protocol: t.Optional(t.Enum(ProxyProtocol)),
       sslEnabled: t.Optional(t.Boolean()),
       sslCertPath: t.Optional(t.String()),
@@ -102,17 +238,26 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
       headers: t.Optional(t.Record(t.String(), t.String())),
       responseHeaders: t.Optional(t.Record(t.String(), t.String())),
       healthCheck: t.Optional(t.Any()),
-      loadBalancing: t.Optional(t.Any()),
+      loadBalancing: t.Optional(loadBalancingSchema),
       advancedConfig: t.Optional(t.Any()),
       customNginxConfig: t.Optional(t.String()),
-      enabled: t.Optional(t.Boolean())
+      enabled: t.Optional(t.Boolean()),
+      projectId: t.Optional(t.String())
     })
   })
   
   // Delete a proxy rule
-  .delete('/rules/:id', async ({ params: { id } }) => {
+  .delete('/rules/:id', async ({ params: { id }, request }) => {
+    const labelManaged = await rejectLabelManagedRule(id);
+    if (labelManaged) {
+      return labelManaged;
+    }
+    await assertRulePermission(request, id, Permission.OPERATE);
+    
     try {
+      const before = await proxyService.getRule(id);
       await proxyService.deleteRule(id);
+      await auditRequest(request, 'delete', 'proxy_rule', id, { before });
       return { success: true, id };
     } catch (error: any) {
       return new Response(JSON.stringify({ error: error.message }), {
@@ -127,11 +272,25 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Toggle a proxy rule (enable/disable)
-  .post('/rules/:id/toggle', async ({ params: { id } }) => {
+  .post('/rules/:id/toggle', async ({ params: { id }, request }) => {
+    const labelManaged = await rejectLabelManagedRule(id);
+    if (labelManaged) {
+      return labelManaged;
+    }
+    await assertRulePermission(request, id, Permission.OPERATE);
+    
     try {
       const rule = await proxyService.toggleRule(id);
+      await auditRequest(request, rule.enabled ? 'enable' : 'disable', 'proxy_rule', id, {
+        before: { enabled: !rule.enabled },
+        after: { enabled: rule.enabled }
+      });
       return { success: true, id, enabled: rule.enabled };
     } catch (error: any) {
+      const ruleChangeError = ruleChangeErrorResponse(error);
+      if (ruleChangeError) {
+        return ruleChangeError;
+      }
       return new Response(JSON.stringify({ error: error.message }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
@@ -149,10 +308,12 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
     return result;
   }, {
     body: t.Object({
+      id: t.Optional(t.String()),
       sourceHost: t.String(),
       sourcePath: t.Optional(t.String()),
       targetContainer: t.String(),
       targetPort: t.Number(),
+      sourcePort: t.Optional(t.Number()),
       protocol: t.Optional(t.Enum(ProxyProtocol)),
       sslEnabled: t.Optional(t.Boolean()),
       sslCertPath: t.Optional(t.String()),
@@ -161,7 +322,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Get traffic data for a rule
-  .get('/rules/:id/traffic', async ({ params: { id }, query }) => {
+  .get('/rules/:id/traffic', async ({ params: { id }, query, request }) => {
+    await assertRulePermission(request, id, Permission.READ);
+    
     try {
       const traffic = proxyService.getTrafficData(id, {
         limit: query.limit ? parseInt(query.limit) : undefined,
@@ -185,7 +348,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Get errors for a rule
-  .get('/rules/:id/errors', async ({ params: { id }, query }) => {
+  .get('/rules/:id/errors', async ({ params: { id }, query, request }) => {
+    await assertRulePermission(request, id, Permission.READ);
+    
     try {
       const errors = proxyService.getErrors(id, {
         limit: query.limit ? parseInt(query.limit) : undefined,
@@ -212,7 +377,12 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Resolve an error
-  .post('/errors/:id/resolve', async ({ params: { id }, body }) => {
+  .post('/errors/:id/resolve', async ({ params: { id }, body, request }) => {
+    const existing = proxyService.getError(id);
+    if (existing) {
+      await assertRulePermission(request, existing.ruleId, Permission.OPERATE);
+    }
+    
     try {
       const error = proxyService.resolveError(id, body.resolution);
       if (!error) {
@@ -221,6 +391,7 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
           headers: { 'Content-Type': 'application/json' }
         });
       }
+      await auditRequest(request, 'resolve', 'proxy_error', id, { after: { resolution: body.resolution } });
       return { success: true, error };
     } catch (error: any) {
       return new Response(JSON.stringify({ error: error.message }), {
@@ -244,7 +415,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Get traffic summary for a rule
-  .get('/rules/:id/traffic/summary', async ({ params: { id }, query }) => {
+  .get('/rules/:id/traffic/summary', async ({ params: { id }, query, request }) => {
+    await assertRulePermission(request, id, Permission.READ);
+    
     try {
       const summary = await proxyAnalyticsService.getTrafficSummary(id, query.period);
       return summary;
@@ -264,7 +437,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Get traffic time series for a rule
-  .get('/rules/:id/traffic/timeseries', async ({ params: { id }, query }) => {
+  .get('/rules/:id/traffic/timeseries', async ({ params: { id }, query, request }) => {
+    await assertRulePermission(request, id, Permission.READ);
+    
     try {
       const startTime = query.startTime ? parseInt(query.startTime) : Date.now() - 24 * 60 * 60 * 1000;
       const endTime = query.endTime ? parseInt(query.endTime) : Date.now();
@@ -296,7 +471,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Get error summary for a rule
-  .get('/rules/:id/errors/summary', async ({ params: { id }, query }) => {
+  .get('/rules/:id/errors/summary', async ({ params: { id }, query, request }) => {
+    await assertRulePermission(request, id, Permission.READ);
+    
     try {
       const summary = await proxyAnalyticsService.getErrorSummary(id, query.period);
       return summary;
@@ -316,7 +493,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Get detailed request logs for a rule
-  .get('/rules/:id/logs', async ({ params: { id }, query }) => {
+  .get('/rules/:id/logs', async ({ params: { id }, query, request }) => {
+    await assertRulePermission(request, id, Permission.READ);
+    
     try {
       const options = {
         limit: query.limit ? parseInt(query.limit) : 100,
@@ -352,7 +531,9 @@ export const proxyRoutes = new Elysia({ prefix: '/proxy' })
   })
   
   // Manually parse logs for a rule
-  .post('/rules/:id/parse-logs', async ({ params: { id } }) => {
+  .post('/rules/:id/parse-logs', async ({ params: { id }, request }) => {
+    await assertRulePermission(request, id, Permission.OPERATE);
+    
     try {
       await proxyAnalyticsService.parseLogsForRule(id);
       return { success: true, message: 'Logs parsed successfully' };
@@ -0,0 +1,217 @@
+import { Elysia, t } from 'elysia';
+import { stackService, StackError } from '../services/stack';
+import { getProject } from '../services/project';
+import { auditRequest } from '../middleware/audit';
+import { Permission } from '../middleware/permissions';
+import { assertProjectPermission, filterByProject } from '../middleware/projects';
+import { Stack } from '../../../shared/src/models';
+
+const stackNotFound = () => new Response(JSON.stringify({ error: 'Stack not found' }), {
+  status: 404,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+/**
+ * Answer a stack operation that cannot be carried out with its status, and rethrow anything else
+ */
+function stackErrorResponse(error: unknown): Response {
+  if (error instanceof StackError) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: error.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  throw error;
+}
+
+/**
+ * Get a stack, refusing the request unless its user has the permission in the stack's project
+ */
+async function getAuthorizedStack(request: Request, id: string, permission: Permission): Promise<Stack | null> {
+  const stack = await stackService.getStack(id);
+  if (stack) {
+    await assertProjectPermission(request, stack.projectId, permission);
+  }
+  return stack;
+}
+
+/**
+ * Run an operation on a stack and record it. Compose files often hold
+ * credentials, so only the stack's services are recorded.
+ */
+async function runStackOperation(
+  request: Request,
+  id: string,
+  action: string,
+  details: Record<string, unknown>,
+  operation: () => Promise<Stack>
+) {
+  const before = await getAuthorizedStack(request, id, Permission.OPERATE);
+  if (!before) {
+    return stackNotFound();
+  }
+  
+  let after: Stack;
+  try {
+    after = await operation();
+  } catch (error) {
+    return stackErrorResponse(error);
+  }
+  await auditRequest(request, action, 'stack', id, {
+    name: before.name,
+    ...details,
+    before: { status: before.status },
+    after: { status: after.status }
+  });
+  return after;
+}
+
+export const stackRoutes = new Elysia({ prefix: '/stacks' })
+  // Get the stacks the user can see, optionally only one project's
+  .get('/', async ({ query, request }) => {
+    const stacks = await filterByProject(request, await stackService.getStacks(), query.projectId);
+    return { stacks };
+  }, {
+    query: t.Object({
+      projectId: t.Optional(t.String())
+    })
+  })
+  
+  // Save a stack from a compose file, optionally bringing it up
+  .post('/', async ({ body, request }) => {
+    if (body.projectId && !await getProject(body.projectId)) {
+      return new Response(JSON.stringify({ error: 'Project not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    await assertProjectPermission(request, body.projectId, Permission.OPERATE);
+    
+    try {
+      const { stack, warnings } = await stackService.createStack(body);
+      await auditRequest(request, 'create', 'stack', stack.id, {
+        after: { name: stack.name, projectId: stack.projectId, services: stack.services, deploy: body.deploy }
+      });
+      
+      return { ...stack, warnings };
+    } catch (error) {
+      return stackErrorResponse(error);
+    }
+  }, {
+    body: t.Object({
+      name: t.String(),
+      compose: t.String(),
+      projectId: t.Optional(t.String()),
+      deploy: t.Optional(t.Boolean())
+    })
+  })
+  
+  // Get stack by ID
+  .get('/:id', async ({ params: { id }, request }) => {
+    const stack = await getAuthorizedStack(request, id, Permission.READ);
+    return stack || stackNotFound();
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Replace a stack's compose file; redeploy to apply it
+  .put('/:id', async ({ params: { id }, body, request }) => {
+    const before = await getAuthorizedStack(request, id, Permission.OPERATE);
+    if (!before) {
+      return stackNotFound();
+    }
+    
+    try {
+      const { stack, warnings } = await stackService.updateStack(id, body.compose);
+      await auditRequest(request, 'update', 'stack', id, {
+        name: stack.name,
+        before: { services: before.services },
+        after: { services: stack.services }
+      });
+      
+      return { ...stack, warnings };
+    } catch (error) {
+      return stackErrorResponse(error);
+    }
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Object({
+      compose: t.String()
+    })
+  })
+  
+  // Take a stack down and delete it
+  .delete('/:id', async ({ params: { id }, query, request }) => {
+    const stack = await getAuthorizedStack(request, id, Permission.OPERATE);
+    if (!stack) {
+      return stackNotFound();
+    }
+    
+    const removeVolumes = query.removeVolumes === 'true';
+    try {
+      await stackService.deleteStack(id, removeVolumes);
+    } catch (error) {
+      return stackErrorResponse(error);
+    }
+    await auditRequest(request, 'delete', 'stack', id, { name: stack.name, removeVolumes });
+    return { success: true, id };
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    query: t.Object({
+      removeVolumes: t.Optional(t.String())
+    })
+  })
+  
+  // Create and start whatever is missing of a stack
+  .post('/:id/up', ({ params: { id }, body, request }) => {
+    const pull = body?.pull ?? false;
+    return runStackOperation(request, id, 'up', { pull }, () => stackService.up(id, pull));
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Optional(t.Object({
+      pull: t.Optional(t.Boolean())
+    }))
+  })
+  
+  // Remove a stack's containers and networks, keeping its definition
+  .post('/:id/down', ({ params: { id }, body, request }) => {
+    const removeVolumes = body?.removeVolumes ?? false;
+    return runStackOperation(request, id, 'down', { removeVolumes }, () => stackService.down(id, removeVolumes));
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Optional(t.Object({
+      removeVolumes: t.Optional(t.Boolean())
+    }))
+  })
+  
+  // Restart a stack's containers
+  .post('/:id/restart', ({ params: { id }, request }) => {
+    return runStackOperation(request, id, 'restart', {}, () => stackService.restart(id));
+  }, {
+    params: t.Object({
+      id: t.String()
+    })
+  })
+  
+  // Recreate a stack's containers from its current compose file
+  .post('/:id/redeploy', ({ params: { id }, body, request }) => {
+    const pull = body?.pull ?? false;
+    return runStackOperation(request, id, 'redeploy', { pull }, () => stackService.redeploy(id, pull));
+  }, {
+    params: t.Object({
+      id: t.String()
+    }),
+    body: t.Optional(t.Object({
+      pull: t.Optional(t.Boolean())
+    }))
+  });
@@ -0,0 +1,71 @@
+import { Elysia, t } from 'elysia';
+import { containerService } from '../services/container';
+import { auditRequest } from '../middleware/audit';
+import { filterByProject } from '../middleware/projects';
+import { withoutReservedLabels } from '../utils/compose';
+import { Volume } from '../../../shared/src/models';
+
+/**
+ * Hide the containers using a volume that the user cannot see
+ */
+async function withVisibleContainers(request: Request, volume: Volume): Promise<Volume> {
+  return { ...volume, containers: await filterByProject(request, volume.containers) };
+}
+
+export const volumeRoutes = new Elysia({ prefix: '/volumes' })
+  // Get all volumes, with the containers using each
+  .get('/', async ({ request }) => {
+    const volumes = await containerService.getVolumes();
+    return { volumes: await Promise.all(volumes.map(volume => withVisibleContainers(request, volume))) };
+  })
+  
+  // Create a volume
+  .post('/', async ({ body, request }) => {
+    // Only stacks place volumes in projects and compose projects
+    const volume = await containerService.createVolume({ ...body, labels: withoutReservedLabels(body.labels) });
+    await auditRequest(request, 'create', 'volume', volume.name, {
+      after: { driver: volume.driver, driverOpts: body.driverOpts, labels: body.labels }
+    });
+    return volume;
+  }, {
+    body: t.Object({
+      name: t.Optional(t.String()),
+      driver: t.Optional(t.String()),
+      driverOpts: t.Optional(t.Record(t.String(), t.String())),
+      labels: t.Optional(t.Record(t.String(), t.String()))
+    })
+  })
+  
+  // Remove volumes no container uses
+  .post('/prune', async ({ request }) => {
+    const result = await containerService.pruneVolumes();
+    await auditRequest(request, 'prune', 'volume', undefined, {
+      volumesDeleted: result.volumesDeleted.length,
+      spaceReclaimed: result.spaceReclaimed
+    });
+    return result;
+  })
+  
+  // Get volume by name
+  .get('/:name', async ({ params: { name }, request }) => {
+    return withVisibleContainers(request, await containerService.getVolume(name));
+  }, {
+    params: t.Object({
+      name: t.String()
+    })
+  })
+  
+  // Remove a volume
+  .delete('/:name', async ({ params: { name }, query, request }) => {
+    const force = query.force === 'true';
+    await containerService.removeVolume(name, force);
+    await auditRequest(request, 'delete', 'volume', name, { force });
+    return { success: true, name };
+  }, {
+    params: t.Object({
+      name: t.String()
+    }),
+    query: t.Object({
+      force: t.Optional(t.String())
+    })
+  });
@@ -10,6 +10,34 @@ export const users = sqliteTable('users', {
   updatedAt: text('updated_at').notNull(),
   lastLogin: text('last_login'),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  oidcSubject: text('oidc_subject').unique(), // Set for users provisioned by single sign-on
+  totpSecret: text('totp_secret'), // Base32 TOTP secret, set during enrollment
+  twoFactorEnabled: integer('two_factor_enabled', { mode: 'boolean' }).notNull().default(false),
+  totpLastCounter: integer('totp_last_counter'), // Time step of the last accepted code
+  failedLoginAttempts: integer('failed_login_attempts').notNull().default(0),
+  lastFailedLoginAt: text('last_failed_login_at'),
+  lockedUntil: text('locked_until'), // Logins are refused until this time
+});
+
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id),
+  refreshTokenHash: text('refresh_token_hash').notNull().unique(), // SHA-256 of the current refresh token
+  previousRefreshTokenHash: text('previous_refresh_token_hash'), // Rotated-out token, to detect reuse
+  device: text('device').notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: text('created_at').notNull(),
+  lastSeenAt: text('last_seen_at').notNull(),
+  expiresAt: text('expires_at').notNull(),
+  revokedAt: text('revoked_at'),
+});
+
+export const recoveryCodes = sqliteTable('recovery_codes', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id),
+  codeHash: text('code_hash').notNull(), // SHA-256 of the code
+  usedAt: text('used_at'),
 });
 
 export const passwordResetTokens = sqliteTable('password_reset_tokens', {
@@ -20,11 +48,51 @@ export const passwordResetTokens = sqliteTable('password_reset_tokens', {
   used: integer('used', { mode: 'boolean' }).notNull().default(false),
 });
 
+export const apiTokens = sqliteTable('api_tokens', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the token
+  prefix: text('prefix').notNull(),
+  scopes: text('scopes').notNull(), // JSON string
+  createdAt: text('created_at').notNull(),
+  expiresAt: text('expires_at'),
+  lastUsedAt: text('last_used_at'),
+  revokedAt: text('revoked_at'),
+});
+
+export const projects = sqliteTable('projects', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export const projectMembers = sqliteTable('project_members', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').notNull().references(() => projects.id),
+  userId: text('user_id').notNull().references(() => users.id),
+  role: text('role', { enum: ['owner', 'operator', 'viewer'] }).notNull(),
+  createdAt: text('created_at').notNull(),
+});
+
+export const stacks = sqliteTable('stacks', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(), // Compose project name
+  projectId: text('project_id').references(() => projects.id),
+  compose: text('compose').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+  deployedAt: text('deployed_at'),
+});
+
 export const proxyRules = sqliteTable('proxy_rules', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   sourceHost: text('source_host').notNull(),
   sourcePath: text('source_path').notNull().default('/'),
+  sourcePort: integer('source_port'),
   targetContainer: text('target_container').notNull(),
   targetPort: integer('target_port').notNull(),
   protocol: text('protocol', { enum: ['HTTP', 'HTTPS', 'TCP', 'UDP'] }).notNull(),
@@ -44,6 +112,8 @@ export const proxyRules = sqliteTable('proxy_rules', {
   letsEncryptEmail: text('lets_encrypt_email'),
   letsEncryptStatus: text('lets_encrypt_status', { enum: ['PENDING', 'VALID', 'EXPIRED', 'ERROR'] }),
   letsEncryptLastRenewal: text('lets_encrypt_last_renewal'),
+  managedByContainer: text('managed_by_container'), // Container ID for label-managed rules
+  projectId: text('project_id').references(() => projects.id), // Unset for rules shared by all users
 });
 
 export const sslCertificates = sqliteTable('ssl_certificates', {
@@ -98,6 +168,14 @@ export const auditLogs = sqliteTable('audit_logs', {
   details: text('details'),
 });
 
+export const loginFailures = sqliteTable('login_failures', {
+  id: text('id').primaryKey(),
+  ipAddress: text('ip_address').notNull().unique(),
+  count: integer('count').notNull().default(0),
+  lastFailedAt: text('last_failed_at').notNull(),
+  blockedUntil: text('blocked_until'), // Logins from this address are refused until this time
+});
+
 export const rateLimits = sqliteTable('rate_limits', {
   id: text('id').primaryKey(),
   ipAddress: text('ip_address').notNull(),
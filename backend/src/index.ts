@@ -10,8 +10,11 @@ import { apiDocs } from './api/docs';
 import { configService } from './services/config';
 import { containerService } from './services/container';
 import { proxyService } from './services/proxy';
+import { proxyDiscoveryService } from './services/proxyDiscovery';
 import { monitoringService } from './services/monitoring';
+import { mailService } from './services/mail';
 import { initializeDatabase } from './db';
+import { setRemoteAddressLookup } from './middleware/clientIp';
 
 // Initialize services
 async function initializeServices() {
@@ -22,12 +25,21 @@ async function initializeServices() {
     console.log('Initializing configuration service...');
     await configService.initialize();
     
+    console.log('Initializing container service...');
+    await containerService.initialize();
+    
     console.log('Initializing proxy service...');
     await proxyService.initialize();
     
+    console.log('Initializing proxy rule discovery...');
+    await proxyDiscoveryService.initialize();
+    
     console.log('Initializing monitoring service...');
     await monitoringService.initialize();
     
+    console.log('Initializing mail service...');
+    await mailService.initialize();
+    
     console.log('All services initialized successfully');
     return true;
   } catch (error) {
@@ -48,6 +60,9 @@ async function startApp() {
     .use(router) // Apply API routes
     .get('/', () => 'Kontainers API is running')
     .listen(3001);
+  
+  // Rate limiting and login lockout key on the connecting address
+  setRemoteAddressLookup(request => app.server?.requestIP(request)?.address);
 
   console.log(`🚀 Kontainers API is running at ${app.server?.hostname}:${app.server?.port}`);
   
@@ -1,6 +1,62 @@
 import Dockerode from 'dockerode';
-import { Container, ContainerState, PortMapping, VolumeMount, ContainerStats, DetailedContainerStats } from '../../../shared/src/models';
-import { HealthStatus } from '../../../shared/src/models';
+import { Container, ContainerState, VolumeMount, ContainerStats, DetailedContainerStats, ContainerLogEntry } from '../../../shared/src/models';
+import { Image, ImagePruneResult } from '../../../shared/src/models';
+import { AttachedContainer, Volume, VolumePruneResult, Network, NetworkPruneResult } from '../../../shared/src/models';
+import { HealthStatus, PROJECT_LABEL } from '../../../shared/src/models';
+import { ContainerHealthcheck, ContainerResources, ContainerRestartPolicy } from '../../../shared/src/models';
+import { DockerLogDemuxer } from '../utils/dockerLogs';
+import {
+  buildHealthcheck,
+  buildResourceConfig,
+  buildRestartPolicy,
+  readContainerSettings,
+  readPortMappings
+} from '../utils/containerConfig';
+import { PullProgressEvent } from '../utils/imagePull';
+import { RecreatePlan } from '../utils/containerRecreate';
+
+// Reconnect delays for the Docker events stream
+const EVENTS_RETRY_BASE_MS = 1000;
+const EVENTS_RETRY_MAX_MS = 30000;
+
+/**
+ * Map a Docker healthcheck status to our HealthStatus
+ */
+function mapHealthStatus(status: string): HealthStatus {
+  switch (status) {
+    case 'healthy':
+      return HealthStatus.HEALTHY;
+    case 'unhealthy':
+      return HealthStatus.UNHEALTHY;
+    case 'starting':
+      return HealthStatus.STARTING;
+    default:
+      return HealthStatus.UNKNOWN;
+  }
+}
+
+/**
+ * Event emitted on the Docker daemon's /events stream
+ */
+export interface DockerEvent {
+  Type: string;
+  Action: string;
+  Actor: {
+    ID: string;
+    Attributes: Record<string, string>;
+  };
+  time: number;
+  timeNano?: number;
+}
+
+/**
+ * A running exec with a TTY, as returned by DockerClient.startExec
+ */
+export interface ExecHandle {
+  write(data: string): void;
+  resize(cols: number, rows: number): Promise<void>;
+  stop(): void;
+}
 
 /**
  * Docker API client for interacting with Docker daemon
@@ -31,25 +87,25 @@ export class DockerClient {
   async getContainer(id: string): Promise<Container> {
     try {
       const container = this.docker.getContainer(id);
-      const [info, stats] = await Promise.all([
-        container.inspect(),
-        this.getContainerStats(id)
-      ]);
+      const info = await container.inspect();
       
-      return this.mapDockerContainerToModel({
-        Id: info.Id,
-        Names: [info.Name],
-        Image: info.Config.Image,
-        ImageID: info.Image,
-        Command: info.Config.Cmd?.join(' ') || '',
-        Created: new Date(info.Created).getTime() / 1000,
-        State: info.State,
-        Status: `${info.State.Status} (${info.State.Running ? 'running' : 'stopped'})`,
-        Ports: info.NetworkSettings.Ports || [],
-        Labels: info.Config.Labels || {},
-        Mounts: info.Mounts || [],
-        NetworkSettings: info.NetworkSettings
-      });
+      return {
+        ...this.mapDockerContainerToModel({
+          Id: info.Id,
+          Names: [info.Name],
+          Image: info.Config.Image,
+          ImageID: info.Image,
+          Command: info.Config.Cmd?.join(' ') || '',
+          Created: new Date(info.Created).getTime() / 1000,
+          State: info.State,
+          Status: `${info.State.Status} (${info.State.Running ? 'running' : 'stopped'})`,
+          Labels: info.Config.Labels || {},
+          Mounts: info.Mounts || [],
+          NetworkSettings: info.NetworkSettings
+        }),
+        // Runtime settings are only in inspect data
+        ...readContainerSettings(info.Config, info.HostConfig)
+      };
     } catch (error: any) {
       console.error(`Error fetching container ${id}:`, error);
       throw new Error(`Failed to fetch container ${id}: ${error.message}`);
@@ -62,30 +118,54 @@ export class DockerClient {
   async createContainer(options: {
     name: string;
     image: string;
-    ports?: { internal: number; external: number }[];
+    command?: string[];
+    ports?: { internal: number; external?: number; protocol?: string }[];
     volumes?: { source: string; destination: string; mode?: string }[];
     env?: string[];
     labels?: Record<string, string>;
+    networks?: string[];
+    networkAliases?: string[];
+    entrypoint?: string[];
+    workingDir?: string;
+    user?: string;
+    resources?: ContainerResources;
+    restartPolicy?: ContainerRestartPolicy;
+    healthcheck?: ContainerHealthcheck;
   }): Promise<Container> {
     try {
+      const [primaryNetwork, ...otherNetworks] = options.networks || [];
+      const endpointConfig = options.networkAliases?.length ? { Aliases: options.networkAliases } : undefined;
       const createOptions: Dockerode.ContainerCreateOptions = {
         Image: options.image,
         name: options.name,
+        Cmd: options.command,
+        Entrypoint: options.entrypoint,
+        WorkingDir: options.workingDir,
+        User: options.user,
+        Healthcheck: options.healthcheck ? buildHealthcheck(options.healthcheck) : undefined,
         ExposedPorts: {},
         HostConfig: {
           PortBindings: {},
-          Binds: []
+          Binds: [],
+          NetworkMode: primaryNetwork,
+          RestartPolicy: options.restartPolicy ? buildRestartPolicy(options.restartPolicy) : undefined,
+          ...buildResourceConfig(options.resources)
         },
         Env: options.env,
-        Labels: options.labels
+        Labels: options.labels,
+        NetworkingConfig: primaryNetwork && endpointConfig
+          ? { EndpointsConfig: { [primaryNetwork]: endpointConfig } }
+          : undefined
       };
 
       // Configure port mappings
       if (options.ports && options.ports.length > 0) {
         options.ports.forEach(port => {
-          createOptions.ExposedPorts[`${port.internal}/tcp`] = {};
-          createOptions.HostConfig.PortBindings[`${port.internal}/tcp`] = [
-            { HostPort: `${port.external}` }
+          // Without an external port Docker picks a free one
+          const key = `${port.internal}/${port.protocol || 'tcp'}`;
+          createOptions.ExposedPorts[key] = {};
+          createOptions.HostConfig.PortBindings[key] = [
+            { HostPort: port.external ? `${port.external}` : '' }
           ];
         });
       }
@@ -100,6 +180,12 @@ export class DockerClient {
       }
 
       const container = await this.docker.createContainer(createOptions);
+      
+      // A container is created on one network; the others are joined afterwards
+      for (const network of otherNetworks) {
+        await this.docker.getNetwork(network).connect({ Container: container.id, EndpointConfig: endpointConfig });
+      }
+      
       const info = await container.inspect();
       
       return this.mapDockerContainerToModel({
@@ -118,10 +204,99 @@ export class DockerClient {
       });
     } catch (error: any) {
       console.error('Error creating container:', error);
+      if (error.statusCode === 404 && /no such image/i.test(error.message)) {
+        throw new Error(`Failed to create container: image ${options.image} is not available locally; pull it first`);
+      }
       throw new Error(`Failed to create container: ${error.message}`);
     }
   }
 
+  /**
+   * Get the raw inspect data of a container
+   */
+  async inspectContainer(id: string): Promise<any> {
+    try {
+      return await this.docker.getContainer(id).inspect();
+    } catch (error: any) {
+      console.error(`Error inspecting container ${id}:`, error);
+      throw new Error(`Failed to inspect container ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the raw inspect data of an image
+   */
+  async inspectImage(id: string): Promise<any> {
+    try {
+      return await this.docker.getImage(id).inspect();
+    } catch (error: any) {
+      console.error(`Error inspecting image ${id}:`, error);
+      throw new Error(`Failed to inspect image ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a container from raw create options, then join further networks.
+   * Returns the new container's ID.
+   */
+  async createContainerFromConfig(
+    options: RecreatePlan['create'],
+    extraNetworks: RecreatePlan['extraNetworks'] = []
+  ): Promise<string> {
+    try {
+      const container = await this.docker.createContainer(options);
+      for (const network of extraNetworks) {
+        await this.docker.getNetwork(network.name).connect({ Container: container.id, EndpointConfig: network.endpoint });
+      }
+      return container.id;
+    } catch (error: any) {
+      console.error('Error creating container:', error);
+      throw new Error(`Failed to create container: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rename a container
+   */
+  async renameContainer(id: string, name: string): Promise<void> {
+    try {
+      await this.docker.getContainer(id).rename({ name });
+    } catch (error: any) {
+      console.error(`Error renaming container ${id}:`, error);
+      throw new Error(`Failed to rename container ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a tar stream of a file or directory in a container
+   */
+  async getArchive(id: string, path: string): Promise<NodeJS.ReadableStream> {
+    try {
+      return await this.docker.getContainer(id).getArchive({ path });
+    } catch (error: any) {
+      console.error(`Error reading ${path} from container ${id}:`, error);
+      if (error.statusCode === 404) {
+        throw new Error(`No such file or directory: ${path}`);
+      }
+      throw new Error(`Failed to read ${path} from container ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Extract a tar archive into a directory of a container
+   */
+  async putArchive(id: string, path: string, archive: Buffer): Promise<void> {
+    try {
+      await this.docker.getContainer(id).putArchive(archive, { path });
+    } catch (error: any) {
+      console.error(`Error writing to ${path} in container ${id}:`, error);
+      if (error.statusCode === 404) {
+        throw new Error(`No such directory: ${path}`);
+      }
+      throw new Error(`Failed to write to ${path} in container ${id}: ${error.message}`);
+    }
+  }
+
   /**
    * Start a container
    */
@@ -196,6 +371,104 @@ export class DockerClient {
     }
   }
 
+  /**
+   * Follow container logs, delivering each stdout/stderr line as it is written.
+   * Returns a function that stops following.
+   */
+  async followContainerLogs(
+    id: string,
+    onEntry: (entry: ContainerLogEntry) => void,
+    options: { tail?: number; since?: number; onEnd?: () => void } = {}
+  ): Promise<() => void> {
+    try {
+      const container = this.docker.getContainer(id);
+      
+      // TTY containers write a single raw stream without frame headers
+      const info = await container.inspect();
+      const demuxer = new DockerLogDemuxer(id, onEntry, !info.Config.Tty);
+      
+      const stream = await container.logs({
+        follow: true,
+        stdout: true,
+        stderr: true,
+        tail: options.tail ?? 100,
+        since: options.since,
+        timestamps: true
+      }) as NodeJS.ReadableStream;
+      
+      stream.on('data', (chunk: Buffer) => demuxer.write(chunk));
+      stream.on('end', () => {
+        demuxer.flush();
+        options.onEnd?.();
+      });
+      stream.on('error', (error: Error) => {
+        console.error(`Error following logs for container ${id}:`, error);
+      });
+      
+      return () => {
+        stream.removeAllListeners('data');
+        (stream as any).destroy?.();
+      };
+    } catch (error: any) {
+      console.error(`Error following logs for container ${id}:`, error);
+      throw new Error(`Failed to follow logs for container ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run an interactive shell in a container with a TTY. Output is delivered as
+   * it is written; onExit is called with the exit code once the shell ends.
+   */
+  async startExec(
+    id: string,
+    options: { shell: string; user?: string; cols: number; rows: number },
+    onOutput: (data: string) => void,
+    onExit: (exitCode: number | null) => void
+  ): Promise<ExecHandle> {
+    try {
+      const exec = await this.docker.getContainer(id).exec({
+        Cmd: [options.shell],
+        User: options.user,
+        Env: ['TERM=xterm-256color'],
+        AttachStdin: true,
+        AttachStdout: true,
+        AttachStderr: true,
+        Tty: true
+      });
+      
+      // With a TTY the output is a single raw stream, without frame headers
+      const stream = await exec.start({ hijack: true, stdin: true, Tty: true }) as NodeJS.ReadWriteStream;
+      const resize = async (cols: number, rows: number) => {
+        await exec.resize({ w: cols, h: rows });
+      };
+      await resize(options.cols, options.rows).catch(() => undefined);
+      
+      stream.setEncoding('utf8');
+      stream.on('data', (data: string) => onOutput(data));
+      stream.on('error', (error: Error) => {
+        console.error(`Error in exec for container ${id}:`, error);
+      });
+      stream.once('end', () => {
+        exec.inspect()
+          .then((info: any) => onExit(info.ExitCode ?? null))
+          .catch(() => onExit(null));
+      });
+      
+      return {
+        write: (data: string) => {
+          stream.write(data);
+        },
+        resize,
+        stop: () => {
+          (stream as any).destroy?.();
+        }
+      };
+    } catch (error: any) {
+      console.error(`Error starting exec in container ${id}:`, error);
+      throw new Error(`Failed to start exec in container ${id}: ${error.message}`);
+    }
+  }
+
   /**
    * Get container stats
    */
@@ -273,20 +546,7 @@ export class DockerClient {
       let healthCheckLogs: string[] = [];
       
       if (info.State.Health) {
-        switch (info.State.Health.Status) {
-          case 'healthy':
-            healthStatus = HealthStatus.HEALTHY;
-            break;
-          case 'unhealthy':
-            healthStatus = HealthStatus.UNHEALTHY;
-            break;
-          case 'starting':
-            healthStatus = HealthStatus.STARTING;
-            break;
-          default:
-            healthStatus = HealthStatus.UNKNOWN;
-        }
-        
+        healthStatus = mapHealthStatus(info.State.Health.Status);
         healthCheckLogs = info.State.Health.Log?.map((log: any) => log.Output) || [];
       } else if (info.State.Running) {
         healthStatus = HealthStatus.HEALTHY;
@@ -334,6 +594,347 @@ export class DockerClient {
     }
   }
 
+  /**
+   * Get all images, with the number of containers created from each
+   */
+  async getImages(): Promise<Image[]> {
+    try {
+      const [images, containers] = await Promise.all([
+        this.docker.listImages({ all: false }),
+        this.docker.listContainers({ all: true })
+      ]);
+      
+      const usage = new Map<string, number>();
+      containers.forEach((container: any) => {
+        usage.set(container.ImageID, (usage.get(container.ImageID) || 0) + 1);
+      });
+      
+      return images.map((image: any) => this.mapDockerImageToModel(image, usage.get(image.Id) || 0));
+    } catch (error: any) {
+      console.error('Error fetching images:', error);
+      throw new Error(`Failed to fetch images: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check whether an image is stored locally
+   */
+  async imageExists(reference: string): Promise<boolean> {
+    try {
+      await this.docker.getImage(reference).inspect();
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      console.error(`Error inspecting image ${reference}:`, error);
+      throw new Error(`Failed to inspect image ${reference}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pull an image, delivering each progress event. Resolves when the pull finishes.
+   */
+  async pullImage(reference: string, onProgress: (event: PullProgressEvent) => void): Promise<void> {
+    try {
+      const stream = await this.docker.pull(reference);
+      
+      await new Promise<void>((resolve, reject) => {
+        this.docker.modem.followProgress(
+          stream,
+          (error: Error | null) => error ? reject(error) : resolve(),
+          onProgress
+        );
+      });
+    } catch (error: any) {
+      console.error(`Error pulling image ${reference}:`, error);
+      throw new Error(`Failed to pull image ${reference}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Add a tag to an image
+   */
+  async tagImage(id: string, repo: string, tag: string): Promise<void> {
+    try {
+      await this.docker.getImage(id).tag({ repo, tag });
+    } catch (error: any) {
+      console.error(`Error tagging image ${id}:`, error);
+      throw new Error(`Failed to tag image ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove an image or one of its tags
+   */
+  async removeImage(id: string, force: boolean = false): Promise<void> {
+    try {
+      await this.docker.getImage(id).remove({ force });
+    } catch (error: any) {
+      console.error(`Error removing image ${id}:`, error);
+      throw new Error(`Failed to remove image ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove dangling images
+   */
+  async pruneImages(): Promise<ImagePruneResult> {
+    try {
+      const result = await this.docker.pruneImages({ filters: { dangling: ['true'] } });
+      return {
+        imagesDeleted: (result.ImagesDeleted || [])
+          .map((deleted: { Deleted?: string; Untagged?: string }) => deleted.Deleted || deleted.Untagged || '')
+          .filter(Boolean),
+        spaceReclaimed: result.SpaceReclaimed || 0
+      };
+    } catch (error: any) {
+      console.error('Error pruning images:', error);
+      throw new Error(`Failed to prune images: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get all volumes, with the containers that mount each
+   */
+  async getVolumes(): Promise<Volume[]> {
+    try {
+      const [result, attachments] = await Promise.all([
+        this.docker.listVolumes(),
+        this.getAttachments()
+      ]);
+      return (result.Volumes || []).map((volume: any) =>
+        this.mapDockerVolumeToModel(volume, attachments.volumes.get(volume.Name) || [])
+      );
+    } catch (error: any) {
+      console.error('Error fetching volumes:', error);
+      throw new Error(`Failed to fetch volumes: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get volume by name
+   */
+  async getVolume(name: string): Promise<Volume> {
+    try {
+      const [volume, attachments] = await Promise.all([
+        this.docker.getVolume(name).inspect(),
+        this.getAttachments()
+      ]);
+      return this.mapDockerVolumeToModel(volume, attachments.volumes.get(volume.Name) || []);
+    } catch (error: any) {
+      console.error(`Error fetching volume ${name}:`, error);
+      throw new Error(`Failed to fetch volume ${name}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a volume
+   */
+  async createVolume(options: {
+    name?: string;
+    driver?: string;
+    driverOpts?: Record<string, string>;
+    labels?: Record<string, string>;
+  }): Promise<Volume> {
+    try {
+      const volume = await this.docker.createVolume({
+        Name: options.name,
+        Driver: options.driver || 'local',
+        DriverOpts: options.driverOpts,
+        Labels: options.labels
+      });
+      return this.getVolume(volume.name || (volume as any).Name);
+    } catch (error: any) {
+      console.error('Error creating volume:', error);
+      throw new Error(`Failed to create volume: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove a volume
+   */
+  async removeVolume(name: string, force: boolean = false): Promise<void> {
+    try {
+      await this.docker.getVolume(name).remove({ force });
+    } catch (error: any) {
+      console.error(`Error removing volume ${name}:`, error);
+      throw new Error(`Failed to remove volume ${name}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove volumes no container uses
+   */
+  async pruneVolumes(): Promise<VolumePruneResult> {
+    try {
+      const result = await this.docker.pruneVolumes();
+      return {
+        volumesDeleted: result.VolumesDeleted || [],
+        spaceReclaimed: result.SpaceReclaimed || 0
+      };
+    } catch (error: any) {
+      console.error('Error pruning volumes:', error);
+      throw new Error(`Failed to prune volumes: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get all networks, with the containers attached to each
+   */
+  async getNetworks(): Promise<Network[]> {
+    try {
+      const [networks, attachments] = await Promise.all([
+        this.docker.listNetworks(),
+        this.getAttachments()
+      ]);
+      return networks.map((network: any) =>
+        this.mapDockerNetworkToModel(network, attachments.networks.get(network.Id) || [])
+      );
+    } catch (error: any) {
+      console.error('Error fetching networks:', error);
+      throw new Error(`Failed to fetch networks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get network by ID or name
+   */
+  async getNetwork(id: string): Promise<Network> {
+    try {
+      const [network, attachments] = await Promise.all([
+        this.docker.getNetwork(id).inspect(),
+        this.getAttachments()
+      ]);
+      return this.mapDockerNetworkToModel(network, attachments.networks.get(network.Id) || []);
+    } catch (error: any) {
+      console.error(`Error fetching network ${id}:`, error);
+      throw new Error(`Failed to fetch network ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a network
+   */
+  async createNetwork(options: {
+    name: string;
+    driver?: string;
+    internal?: boolean;
+    attachable?: boolean;
+    subnet?: string;
+    gateway?: string;
+    options?: Record<string, string>;
+    labels?: Record<string, string>;
+  }): Promise<Network> {
+    try {
+      const network = await this.docker.createNetwork({
+        Name: options.name,
+        Driver: options.driver || 'bridge',
+        Internal: options.internal,
+        Attachable: options.attachable,
+        CheckDuplicate: true,
+        IPAM: options.subnet
+          ? { Driver: 'default', Config: [{ Subnet: options.subnet, Gateway: options.gateway }] }
+          : undefined,
+        Options: options.options,
+        Labels: options.labels
+      });
+      return this.getNetwork(network.id);
+    } catch (error: any) {
+      console.error('Error creating network:', error);
+      throw new Error(`Failed to create network: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove a network
+   */
+  async removeNetwork(id: string): Promise<void> {
+    try {
+      await this.docker.getNetwork(id).remove();
+    } catch (error: any) {
+      console.error(`Error removing network ${id}:`, error);
+      throw new Error(`Failed to remove network ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove networks no container is attached to
+   */
+  async pruneNetworks(): Promise<NetworkPruneResult> {
+    try {
+      const result = await this.docker.pruneNetworks();
+      return { networksDeleted: result.NetworksDeleted || [] };
+    } catch (error: any) {
+      console.error('Error pruning networks:', error);
+      throw new Error(`Failed to prune networks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Attach a container to a network
+   */
+  async connectNetwork(id: string, containerId: string, aliases?: string[]): Promise<void> {
+    try {
+      await this.docker.getNetwork(id).connect({
+        Container: containerId,
+        EndpointConfig: aliases?.length ? { Aliases: aliases } : undefined
+      });
+    } catch (error: any) {
+      console.error(`Error connecting container ${containerId} to network ${id}:`, error);
+      throw new Error(`Failed to connect container ${containerId} to network ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Detach a container from a network
+   */
+  async disconnectNetwork(id: string, containerId: string, force: boolean = false): Promise<void> {
+    try {
+      await this.docker.getNetwork(id).disconnect({ Container: containerId, Force: force });
+    } catch (error: any) {
+      console.error(`Error disconnecting container ${containerId} from network ${id}:`, error);
+      throw new Error(`Failed to disconnect container ${containerId} from network ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the containers using each volume, by name, and attached to each network, by ID
+   */
+  private async getAttachments(): Promise<{
+    volumes: Map<string, AttachedContainer[]>;
+    networks: Map<string, AttachedContainer[]>;
+  }> {
+    const containers = await this.docker.listContainers({ all: true });
+    const volumes = new Map<string, AttachedContainer[]>();
+    const networks = new Map<string, AttachedContainer[]>();
+    const add = (map: Map<string, AttachedContainer[]>, key: string, attached: AttachedContainer) => {
+      map.set(key, [...(map.get(key) || []), attached]);
+    };
+    
+    containers.forEach((container: any) => {
+      const ref = {
+        id: container.Id,
+        name: container.Names ? container.Names[0].replace(/^\//, '') : '',
+        projectId: container.Labels?.[PROJECT_LABEL] || undefined
+      };
+      
+      (container.Mounts || [])
+        .filter((mount: any) => mount.Type === 'volume' && mount.Name)
+        .forEach((mount: any) => add(volumes, mount.Name, ref));
+      
+      Object.values(container.NetworkSettings?.Networks || {}).forEach((endpoint: any) => {
+        add(networks, endpoint.NetworkID, {
+          ...ref,
+          ipv4Address: endpoint.IPAddress || undefined,
+          macAddress: endpoint.MacAddress || undefined
+        });
+      });
+    });
+    
+    return { volumes, networks };
+  }
+
   /**
    * Get Docker daemon info
    */
@@ -358,54 +959,142 @@ export class DockerClient {
     }
   }
 
+  /**
+   * Watch the Docker events stream, reconnecting with exponential backoff
+   * when the daemon restarts. Returns a function that stops watching.
+   */
+  watchEvents(
+    onEvent: (event: DockerEvent) => void,
+    options: { filters?: Record<string, string[]>; onConnect?: () => void } = {}
+  ): () => void {
+    let stopped = false;
+    let stream: NodeJS.ReadableStream | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let lastTimeNano = 0;
+    
+    const scheduleReconnect = (closed: NodeJS.ReadableStream | null) => {
+      if (stopped || retryTimer || stream !== closed) {
+        return;
+      }
+      stream = null;
+      const delay = Math.min(EVENTS_RETRY_BASE_MS * 2 ** attempt, EVENTS_RETRY_MAX_MS);
+      attempt++;
+      console.warn(`Docker events stream disconnected, reconnecting in ${delay}ms`);
+      retryTimer = setTimeout(connect, delay);
+    };
+    
+    const connect = async () => {
+      retryTimer = null;
+      try {
+        // Replay events missed while disconnected, skipping ones already delivered
+        const since = lastTimeNano ? Math.floor(lastTimeNano / 1e9) : undefined;
+        const current = await this.streamEvents((event) => {
+          const timeNano = event.timeNano ?? event.time * 1e9;
+          if (timeNano <= lastTimeNano) {
+            return;
+          }
+          lastTimeNano = timeNano;
+          onEvent(event);
+        }, options.filters, since);
+        
+        if (stopped) {
+          (current as any).destroy?.();
+          return;
+        }
+        
+        stream = current;
+        attempt = 0;
+        current.on('end', () => scheduleReconnect(current));
+        current.on('error', () => scheduleReconnect(current));
+        options.onConnect?.();
+      } catch {
+        scheduleReconnect(null);
+      }
+    };
+    
+    connect();
+    
+    return () => {
+      stopped = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      (stream as any)?.destroy?.();
+      stream = null;
+    };
+  }
+
+  /**
+   * Subscribe to the Docker events stream.
+   * The returned stream ends when the daemon closes the connection.
+   */
+  private async streamEvents(
+    onEvent: (event: DockerEvent) => void,
+    filters: Record<string, string[]> = {},
+    since?: number
+  ): Promise<NodeJS.ReadableStream> {
+    try {
+      const stream = await this.docker.getEvents({ filters, since });
+      let buffer = '';
+      
+      // Events arrive as newline-delimited JSON, possibly split across chunks
+      stream.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString('utf-8');
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        
+        for (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+          let event: DockerEvent;
+          try {
+            event = JSON.parse(line);
+          } catch (error: any) {
+            console.error('Error parsing Docker event:', error);
+            continue;
+          }
+          onEvent(event);
+        }
+      });
+      
+      return stream;
+    } catch (error: any) {
+      console.error('Error subscribing to Docker events:', error);
+      throw new Error(`Failed to subscribe to Docker events: ${error.message}`);
+    }
+  }
+
   /**
    * Map Docker container object to our Container model
    */
   private mapDockerContainerToModel(container: any): Container {
-    // Map container state
+    // Map container state; listContainers reports it as a plain status string
+    const dockerState = typeof container.State === 'string'
+      ? { Status: container.State, Running: container.State === 'running', Paused: container.State === 'paused',
+          Restarting: container.State === 'restarting', Dead: container.State === 'dead' }
+      : container.State;
+    
     let state: ContainerState;
-    if (container.State?.Running) {
+    if (dockerState?.Running) {
       state = ContainerState.RUNNING;
-    } else if (container.State?.Paused) {
+    } else if (dockerState?.Paused) {
       state = ContainerState.PAUSED;
-    } else if (container.State?.Restarting) {
+    } else if (dockerState?.Restarting) {
       state = ContainerState.RESTARTING;
-    } else if (container.State?.Dead) {
+    } else if (dockerState?.Dead) {
       state = ContainerState.DEAD;
-    } else if (container.State?.Status === 'created') {
+    } else if (dockerState?.Status === 'created') {
       state = ContainerState.CREATED;
-    } else if (container.State?.Status === 'removing') {
+    } else if (dockerState?.Status === 'removing') {
       state = ContainerState.REMOVING;
     } else {
       state = ContainerState.STOPPED;
     }
 
     // Map port bindings
-    const ports: PortMapping[] = [];
-    if (container.Ports) {
-      container.Ports.forEach((port: any) => {
-        ports.push({
-          privatePort: port.PrivatePort,
-          publicPort: port.PublicPort,
-          type: port.Type,
-          ip: port.IP || '0.0.0.0'
-        });
-      });
-    } else if (container.NetworkSettings?.Ports) {
-      Object.entries(container.NetworkSettings.Ports).forEach(([key, value]) => {
-        const [privatePort, type] = key.split('/');
-        if (Array.isArray(value)) {
-          value.forEach(binding => {
-            ports.push({
-              privatePort: parseInt(privatePort),
-              publicPort: binding.HostPort ? parseInt(binding.HostPort) : undefined,
-              type,
-              ip: binding.HostIp || '0.0.0.0'
-            });
-          });
-        }
-      });
-    }
+    const ports = readPortMappings(container);
 
     // Map volume mounts
     const volumes: VolumeMount[] = [];
@@ -442,7 +1131,67 @@ export class DockerClient {
       networks,
       created: container.Created,
       labels: container.Labels,
-      env
+      env,
+      health: dockerState?.Health ? mapHealthStatus(dockerState.Health.Status) : undefined,
+      projectId: container.Labels?.[PROJECT_LABEL] || undefined
+    };
+  }
+
+  /**
+   * Map Docker volume to our Volume model
+   */
+  private mapDockerVolumeToModel(volume: any, containers: AttachedContainer[]): Volume {
+    return {
+      name: volume.Name,
+      driver: volume.Driver,
+      mountpoint: volume.Mountpoint,
+      scope: volume.Scope,
+      createdAt: volume.CreatedAt,
+      labels: volume.Labels || undefined,
+      options: volume.Options || undefined,
+      containers
+    };
+  }
+
+  /**
+   * Map Docker network to our Network model
+   */
+  private mapDockerNetworkToModel(network: any, containers: AttachedContainer[]): Network {
+    return {
+      id: network.Id,
+      name: network.Name,
+      driver: network.Driver,
+      scope: network.Scope,
+      internal: !!network.Internal,
+      attachable: !!network.Attachable,
+      subnets: (network.IPAM?.Config || []).map((config: any) => ({
+        subnet: config.Subnet,
+        gateway: config.Gateway
+      })),
+      created: network.Created,
+      labels: network.Labels || undefined,
+      options: network.Options || undefined,
+      containers
+    };
+  }
+
+  /**
+   * Map Docker image summary to our Image model
+   */
+  private mapDockerImageToModel(image: any, containers: number): Image {
+    // Untagged images are listed with a <none>:<none> placeholder tag
+    const repoTags = (image.RepoTags || []).filter((tag: string) => tag !== '<none>:<none>');
+    const repoDigests = (image.RepoDigests || []).filter((digest: string) => digest !== '<none>@<none>');
+    
+    return {
+      id: image.Id,
+      repoTags,
+      repoDigests,
+      size: image.Size,
+      created: image.Created,
+      labels: image.Labels || undefined,
+      containers,
+      dangling: repoTags.length === 0
     };
   }
 }
@@ -2,7 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { ProxyRule, ProxyProtocol } from '../../../shared/src/models';
+import { ProxyRule, ProxyProtocol, ProxyUpstream, LoadBalancingMethod } from '../../../shared/src/models';
 
 const execAsync = promisify(exec);
 
@@ -12,17 +12,20 @@ const execAsync = promisify(exec);
 export class NginxManager {
   private configDir: string;
   private sitesDir: string;
+  private streamsDir: string;
   private templatePath: string;
   private mainConfigPath: string;
 
   constructor(options: {
     configDir?: string;
     sitesDir?: string;
+    streamsDir?: string;
     templatePath?: string;
     mainConfigPath?: string;
   } = {}) {
     this.configDir = options.configDir || '/etc/nginx';
     this.sitesDir = options.sitesDir || path.join(this.configDir, 'sites-enabled');
+    this.streamsDir = options.streamsDir || path.join(this.configDir, 'streams-enabled');
     this.templatePath = options.templatePath || path.join(this.configDir, 'nginx.conf.template');
     this.mainConfigPath = options.mainConfigPath || path.join(this.configDir, 'nginx.conf');
   }
@@ -32,12 +35,14 @@ export class NginxManager {
    */
   async initialize(): Promise<void> {
     try {
-      // Ensure sites directory exists
+      // Ensure sites and streams directories exist
       await fs.mkdir(this.sitesDir, { recursive: true });
+      await fs.mkdir(this.streamsDir, { recursive: true });
       
       // Check if main config exists, if not create it
       try {
         await fs.access(this.mainConfigPath);
+        await this.ensureStreamInclude();
       } catch {
         // Create default main config
         await this.createDefaultMainConfig();
@@ -48,6 +53,30 @@ export class NginxManager {
     }
   }
 
+  /**
+   * Get the path of the main Nginx configuration file
+   */
+  getMainConfigPath(): string {
+    return this.mainConfigPath;
+  }
+
+  /**
+   * Get the path of the configuration file for a proxy rule.
+   * TCP/UDP rules live in the streams directory, which is included from the
+   * stream{} context rather than http{}.
+   */
+  getProxyRuleConfigPath(rule: Pick<ProxyRule, 'id' | 'protocol'>): string {
+    const dir = this.isStreamProtocol(rule.protocol) ? this.streamsDir : this.sitesDir;
+    return path.join(dir, `${rule.id}.conf`);
+  }
+
+  /**
+   * Whether a protocol is proxied at layer 4 through the stream{} context
+   */
+  isStreamProtocol(protocol: ProxyProtocol): boolean {
+    return protocol === ProxyProtocol.TCP || protocol === ProxyProtocol.UDP;
+  }
+
   /**
    * Create a default main Nginx configuration
    */
@@ -94,17 +123,40 @@ http {
     # Include site configurations
     include ${this.sitesDir}/*.conf;
 }
-`;
+${this.generateStreamInclude()}`;
 
     await fs.writeFile(this.mainConfigPath, defaultConfig);
   }
 
+  /**
+   * Generate the stream{} block that includes TCP/UDP proxy configurations
+   */
+  private generateStreamInclude(): string {
+    return `
+stream {
+    # Include TCP/UDP proxy configurations
+    include ${this.streamsDir}/*.conf;
+}
+`;
+  }
+
+  /**
+   * Add the stream{} include to a main config created before TCP/UDP rules
+   * were split out of the sites directory
+   */
+  private async ensureStreamInclude(): Promise<void> {
+    const mainConfig = await fs.readFile(this.mainConfigPath, 'utf-8');
+    if (!mainConfig.includes(`${this.streamsDir}/*.conf`)) {
+      await fs.appendFile(this.mainConfigPath, this.generateStreamInclude());
+    }
+  }
+
   /**
    * Create or update a proxy rule configuration
    */
   async createOrUpdateProxyRule(rule: ProxyRule): Promise<void> {
     try {
-      const configPath = path.join(this.sitesDir, `${rule.id}.conf`);
+      const configPath = this.getProxyRuleConfigPath(rule);
       const configContent = this.generateProxyRuleConfig(rule);
       
       await fs.writeFile(configPath, configContent);
@@ -120,14 +172,19 @@ http {
    */
   async deleteProxyRule(ruleId: string): Promise<void> {
     try {
-      const configPath = path.join(this.sitesDir, `${ruleId}.conf`);
+      const configPaths = [
+        this.getProxyRuleConfigPath({ id: ruleId, protocol: ProxyProtocol.HTTP }),
+        this.getProxyRuleConfigPath({ id: ruleId, protocol: ProxyProtocol.TCP })
+      ];
       
-      try {
-        await fs.access(configPath);
-        await fs.unlink(configPath);
-        await this.reloadNginx();
-      } catch (error) {
-        // File doesn't exist, nothing to do
+      for (const configPath of configPaths) {
+        try {
+          await fs.access(configPath);
+          await fs.unlink(configPath);
+          await this.reloadNginx();
+        } catch (error) {
+          // File doesn't exist, nothing to do
+        }
       }
     } catch (error: any) {
       console.error(`Error deleting proxy rule ${ruleId}:`, error);
@@ -138,12 +195,13 @@ http {
   /**
    * Generate Nginx configuration for a proxy rule
    */
-  private generateProxyRuleConfig(rule: ProxyRule): string {
+  generateProxyRuleConfig(rule: ProxyRule): string {
     let config = '';
     
     // Handle HTTP/HTTPS
     if (rule.protocol === ProxyProtocol.HTTP || rule.protocol === ProxyProtocol.HTTPS) {
-      config = `
+      const upstream = this.getUpstream(rule);
+      config = `${this.generateUpstreamConfig(upstream, rule)}
 server {
     listen 80;
     ${rule.protocol === ProxyProtocol.HTTPS ? 'listen 443 ssl;' : ''}
@@ -155,12 +213,12 @@ server {
     ${rule.protocol === ProxyProtocol.HTTPS ? this.generateSslConfig(rule) : ''}
     
     location ${rule.sourcePath || '/'} {
-        proxy_pass http://${rule.targetContainer}:${rule.targetPort};
+        proxy_pass http://${upstream.name};
         proxy_set_header Host $host;
         proxy_set_header X-Real-IP $remote_addr;
         proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
         proxy_set_header X-Forwarded-Proto $scheme;
-        
+        ${this.generateStickyCookieConfig(upstream, rule)}
         ${this.generateHeadersConfig(rule)}
         ${this.generateHealthCheckConfig(rule)}
         ${rule.advancedConfig ? this.generateAdvancedConfig(rule) : ''}
@@ -170,12 +228,12 @@ server {
 }`;
     }
     // Handle TCP/UDP
-    else if (rule.protocol === ProxyProtocol.TCP || rule.protocol === ProxyProtocol.UDP) {
-      // For TCP/UDP, we need to add a stream block to the main config
+    else if (this.isStreamProtocol(rule.protocol)) {
+      // TCP/UDP rules are included from the stream{} context of the main config
       config = `
-# TCP/UDP proxy for ${rule.name}
+# ${rule.protocol} proxy for ${rule.name}
 server {
-    listen ${rule.sourceHost}:${rule.targetPort} ${rule.protocol.toLowerCase()};
+    listen ${this.getStreamListenAddress(rule)}${rule.protocol === ProxyProtocol.UDP ? ' udp' : ''};
     proxy_pass ${rule.targetContainer}:${rule.targetPort};
     ${rule.protocol === ProxyProtocol.TCP ? 'proxy_connect_timeout 1s;' : ''}
 }`;
@@ -184,6 +242,91 @@ server {
     return config;
   }
 
+  /**
+   * Get the upstream that a proxy rule balances traffic across.
+   * Rules without load balancing targets get a single-server upstream
+   * pointing at the rule's target container.
+   */
+  getUpstream(rule: ProxyRule): ProxyUpstream {
+    const lb = rule.loadBalancing;
+    const servers = lb?.targets?.length
+      ? lb.targets.map(target => ({ ...target, weight: Math.max(1, target.weight || 1) }))
+      : [{ container: rule.targetContainer, port: rule.targetPort, weight: 1 }];
+    
+    return {
+      name: `kontainers_${rule.id.replace(/[^a-zA-Z0-9]/g, '_')}`,
+      method: lb?.method || LoadBalancingMethod.ROUND_ROBIN,
+      servers,
+      sticky: !!lb?.sticky,
+      cookieName: lb?.sticky ? (lb.cookieName || 'KONTAINERS_STICKY') : undefined
+    };
+  }
+
+  /**
+   * Generate the upstream block for a proxy rule
+   */
+  private generateUpstreamConfig(upstream: ProxyUpstream, rule: ProxyRule): string {
+    let config = '';
+    const directives: string[] = [];
+    
+    if (upstream.sticky) {
+      // Sticky sessions hash on the cookie, falling back to a fresh request id
+      // that is then handed back to the client as the cookie value
+      const stickyVariable = this.getStickyVariable(rule);
+      config += `
+map $cookie_${upstream.cookieName} ${stickyVariable} {
+    ""      $request_id;
+    default $cookie_${upstream.cookieName};
+}`;
+      directives.push(`hash ${stickyVariable} consistent;`);
+    } else if (upstream.method === LoadBalancingMethod.LEAST_CONN) {
+      directives.push('least_conn;');
+    } else if (upstream.method === LoadBalancingMethod.IP_HASH) {
+      directives.push('ip_hash;');
+    } else if (upstream.method === LoadBalancingMethod.RANDOM) {
+      directives.push('random;');
+    }
+    // Round robin is the Nginx default and needs no directive
+    
+    directives.push(...upstream.servers.map(server => `server ${server.container}:${server.port} weight=${server.weight};`));
+    
+    config += `
+upstream ${upstream.name} {
+    ${directives.join('\n    ')}
+}
+`;
+    
+    return config;
+  }
+
+  /**
+   * Generate the cookie that pins a client to an upstream server
+   */
+  generateStickyCookieConfig(upstream: ProxyUpstream, rule: ProxyRule): string {
+    if (!upstream.sticky) {
+      return '';
+    }
+    
+    const maxAge = rule.loadBalancing?.cookieExpiry ? `; Max-Age=${rule.loadBalancing.cookieExpiry}` : '';
+    return `add_header Set-Cookie "${upstream.cookieName}=${this.getStickyVariable(rule)}; Path=/; HttpOnly${maxAge}";`;
+  }
+
+  /**
+   * Name of the variable holding the sticky session key for a rule
+   */
+  private getStickyVariable(rule: ProxyRule): string {
+    return `$kontainers_sticky_${rule.id.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  }
+
+  /**
+   * Get the address a TCP/UDP rule listens on. The source host is only
+   * used as a bind address when it is an IP address.
+   */
+  private getStreamListenAddress(rule: ProxyRule): string {
+    const port = rule.sourcePort || rule.targetPort;
+    return /^\d{1,3}(\.\d{1,3}){3}$/.test(rule.sourceHost) ? `${rule.sourceHost}:${port}` : `${port}`;
+  }
+
   /**
    * Generate SSL configuration
    */
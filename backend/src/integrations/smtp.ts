@@ -0,0 +1,352 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import crypto from 'crypto';
+
+/**
+ * How to secure the connection: plain, upgraded with STARTTLS, or TLS from the start
+ */
+export type SmtpSecurity = 'none' | 'starttls' | 'tls';
+
+/**
+ * Settings for an SMTP server
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string;
+  password?: string;
+  rejectUnauthorized?: boolean;
+  timeout?: number; // Milliseconds to wait for each server response
+}
+
+/**
+ * A message with plain text and HTML alternatives
+ */
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * An error response from the SMTP server
+ */
+export class SmtpError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  /**
+   * Whether the server refused the message for good, so retrying is pointless
+   */
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT = 30 * 1000;
+
+/**
+ * Client that delivers messages to an SMTP server, one connection per message
+ */
+export class SmtpClient {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private pending: SmtpResponse[] = [];
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private settings: SmtpSettings) {}
+
+  /**
+   * Deliver a message and close the connection
+   */
+  async send(message: MailMessage): Promise<void> {
+    if (message.to.length === 0) {
+      throw new Error('Message has no recipients');
+    }
+
+    try {
+      await this.open();
+      await this.command(`MAIL FROM:<${extractAddress(message.from)}>`, 250);
+      for (const recipient of message.to) {
+        await this.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await this.command('DATA', 354);
+      await this.command(`${dotStuff(buildMimeMessage(message))}\r\n.`, 250);
+      await this.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * Connect, greet the server, secure the connection and log in
+   */
+  private async open(): Promise<void> {
+    await this.connect();
+    await this.expect(220);
+    let extensions = await this.hello();
+
+    if (this.settings.security === 'starttls') {
+      if (!extensions.includes('STARTTLS')) {
+        throw new Error('SMTP server does not support STARTTLS');
+      }
+      await this.command('STARTTLS', 220);
+      await this.upgrade();
+      extensions = await this.hello();
+    }
+
+    if (this.settings.username) {
+      await this.authenticate(extensions);
+    }
+  }
+
+  /**
+   * Open the connection, with TLS from the start if configured
+   */
+  private connect(): Promise<void> {
+    const { host, port, security, rejectUnauthorized } = this.settings;
+
+    return new Promise((resolve, reject) => {
+      const socket = security === 'tls'
+        ? tls.connect({ host, port, servername: host, rejectUnauthorized: rejectUnauthorized !== false }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  /**
+   * Switch the open connection to TLS after STARTTLS
+   */
+  private upgrade(): Promise<void> {
+    const { host, rejectUnauthorized } = this.settings;
+    const plain = this.socket!;
+    plain.removeAllListeners();
+
+    return new Promise((resolve, reject) => {
+      const socket = tls.connect({
+        socket: plain,
+        servername: host,
+        rejectUnauthorized: rejectUnauthorized !== false
+      }, () => resolve());
+
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  /**
+   * Read responses from a socket
+   */
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+    this.lines = [];
+    socket.setTimeout(this.settings.timeout || DEFAULT_TIMEOUT);
+    socket.setEncoding('utf-8');
+
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('timeout', () => this.fail(new Error('SMTP server timed out')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  /**
+   * Collect response lines until a final line, such as "250 OK" after "250-..." lines
+   */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(response: SmtpResponse): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(response);
+    } else {
+      this.pending.push(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    } else if (!this.failure) {
+      this.failure = error;
+    }
+  }
+
+  /**
+   * Wait for the next response
+   */
+  private read(): Promise<SmtpResponse> {
+    const response = this.pending.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Wait for a response with one of the expected codes
+   */
+  private async expect(expected: number | number[]): Promise<SmtpResponse> {
+    const response = await this.read();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(response.code)) {
+      throw new SmtpError(response.code, `SMTP error ${response.code}: ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  /**
+   * Send a command and check its response
+   */
+  private async command(line: string, expected: number | number[]): Promise<SmtpResponse> {
+    this.socket!.write(`${line}\r\n`);
+    return await this.expect(expected);
+  }
+
+  /**
+   * Greet the server and return the extensions it supports
+   */
+  private async hello(): Promise<string[]> {
+    const response = await this.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+    return response.lines.slice(1).map(line => line.toUpperCase());
+  }
+
+  /**
+   * Log in with PLAIN, or LOGIN if that is all the server offers
+   */
+  private async authenticate(extensions: string[]): Promise<void> {
+    const { username = '', password = '' } = this.settings;
+    const mechanisms = (extensions.find(line => line.startsWith('AUTH ')) || '').split(' ').slice(1);
+
+    if (mechanisms.includes('LOGIN') && !mechanisms.includes('PLAIN')) {
+      await this.command('AUTH LOGIN', 334);
+      await this.command(Buffer.from(username).toString('base64'), 334);
+      await this.command(Buffer.from(password).toString('base64'), 235);
+    } else {
+      const credentials = Buffer.from(`\0${username}\0${password}`).toString('base64');
+      await this.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+  }
+
+  private close(): void {
+    this.waiting = null;
+    this.socket?.removeAllListeners();
+    this.socket?.on('error', () => undefined);
+    this.socket?.destroy();
+    this.socket = null;
+  }
+}
+
+/**
+ * Get the bare address from "Name <address>"
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  const address = (match ? match[1] : value).trim();
+  if (/[\r\n]/.test(value) || /[<>\s]/.test(address) || !address) {
+    throw new Error(`Invalid email address: ${JSON.stringify(value)}`);
+  }
+  return address;
+}
+
+/**
+ * Encode a header value that is not plain ASCII (RFC 2047)
+ */
+export function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`;
+}
+
+/**
+ * Build a MIME message with text and HTML alternatives
+ */
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to.map(encodeHeader).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `kontainers-${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+/**
+ * Base64-encode a body in 76 character lines
+ */
+function encodeBody(body: string): string {
+  return Buffer.from(body).toString('base64').replace(/.{76}/g, '$&\r\n').replace(/\r\n$/, '');
+}
+
+/**
+ * Escape lines starting with a dot, which would otherwise end the DATA section
+ */
+function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..');
+}
@@ -0,0 +1,25 @@
+import { logAuditEvent } from '../services/audit';
+import { getRequestUser } from './auth';
+import { getClientIp } from './clientIp';
+
+/**
+ * Record an action taken through the API, attributed to the user who made the
+ * request (null for public routes) and the client's address and user agent
+ */
+export async function auditRequest(
+  request: Request,
+  action: string,
+  resource: string,
+  resourceId?: string,
+  details?: unknown
+): Promise<void> {
+  await logAuditEvent(
+    getRequestUser(request)?.userId || null,
+    action,
+    resource,
+    resourceId,
+    details,
+    getClientIp(request),
+    request.headers.get('user-agent') || 'unknown'
+  );
+}
@@ -1,6 +1,7 @@
 import { Elysia, type Context } from 'elysia';
-import { verifyToken } from '../services/auth';
-import { UserRole } from 'kontainers-shared';
+import { verifySessionToken, verifyApiToken, isApiToken } from '../services/auth';
+import { UserRole, ApiTokenScope } from 'kontainers-shared';
+import { getRouteAccess, hasPermission, hasScopeForRoute } from './permissions';
 
 // Error types
 export class AuthenticationError extends Error {
@@ -25,9 +26,36 @@ function extractToken(authHeader?: string): string | null {
   return authHeader.substring(7);
 }
 
+// The user a request acts for; scopes and tokenId are set when it used an API token,
+// sessionId when it used a session JWT
+export interface AuthenticatedUser {
+  userId: string;
+  role: UserRole;
+  scopes?: ApiTokenScope[];
+  tokenId?: string;
+  sessionId?: string;
+}
+
+// Users resolved by enforcePermissions, so handlers can tell who made a request
+const requestUsers = new WeakMap<Request, AuthenticatedUser>();
+
+// Get the user a request was authenticated as, if the route required authentication
+export function getRequestUser(request: Request): AuthenticatedUser | undefined {
+  return requestUsers.get(request);
+}
+
+// Resolve a bearer token, either a session JWT or an API token
+async function resolveUser(token: string): Promise<AuthenticatedUser> {
+  try {
+    return isApiToken(token) ? await verifyApiToken(token) : await verifySessionToken(token);
+  } catch (error) {
+    throw new AuthenticationError('Invalid or expired token');
+  }
+}
+
 // Authentication middleware
 export const authenticate = new Elysia()
-  .derive(({ request }) => {
+  .derive(async ({ request }) => {
     const authHeader = request.headers.get('authorization');
     const token = extractToken(authHeader);
     
@@ -35,12 +63,7 @@ export const authenticate = new Elysia()
       throw new AuthenticationError();
     }
     
-    try {
-      const decoded = verifyToken(token);
-      return { user: decoded };
-    } catch (error) {
-      throw new AuthenticationError('Invalid or expired token');
-    }
+    return { user: await resolveUser(token) };
   });
 
 // Role-based authorization middleware
@@ -55,6 +78,39 @@ export function authorize(allowedRoles: UserRole[]) {
     });
 }
 
+// Enforce the route permission map on every /api request
+export const enforcePermissions = new Elysia({ name: 'enforce-permissions' })
+  .onBeforeHandle(async ({ request, path, query }) => {
+    if (request.method === 'OPTIONS' || !(path === '/api' || path.startsWith('/api/'))) {
+      return;
+    }
+    
+    const access = getRouteAccess(request.method, path);
+    if (access === 'public') {
+      return;
+    }
+    
+    // Browsers cannot set headers on websocket upgrades, so streams may pass the token as a query param
+    const token = extractToken(request.headers.get('authorization') || undefined)
+      || (path.endsWith('/stream') ? (query as Record<string, string>)?.token : null);
+    
+    if (!token) {
+      throw new AuthenticationError();
+    }
+    
+    const user = await resolveUser(token);
+    
+    if (access !== 'authenticated' && !hasPermission(user.role, access)) {
+      throw new AuthorizationError();
+    }
+    
+    if (user.scopes && !hasScopeForRoute(user.scopes, request.method, path)) {
+      throw new AuthorizationError('API token is missing the required scope');
+    }
+    
+    requestUsers.set(request, user);
+  });
+
 // Admin-only middleware
 export const adminOnly = authorize([UserRole.ADMIN]);
 
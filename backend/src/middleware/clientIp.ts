@@ -0,0 +1,45 @@
+import { configService } from '../services/config';
+import { createCidrMatcher, resolveClientIp } from '../utils/clientIp';
+
+// Looks up the address a request's connection came from; set once the server is listening
+let lookupRemoteAddress: (request: Request) => string | undefined = () => undefined;
+
+// Matcher for the configured proxies, rebuilt when the list changes
+let trustedProxies: { cidrs: string; matches: (ip: string) => boolean } | null = null;
+
+/**
+ * Tell the resolver how to find a request's connecting address
+ */
+export function setRemoteAddressLookup(lookup: (request: Request) => string | undefined): void {
+  lookupRemoteAddress = lookup;
+}
+
+/**
+ * Get the address of the client that made a request. Forwarded headers are only
+ * trusted from the proxies in security.trustedProxies.
+ */
+export function getClientIp(request: Request): string {
+  return resolveClientIp(
+    lookupRemoteAddress(request),
+    request.headers.get('x-forwarded-for'),
+    getTrustedProxyMatcher()
+  ) || 'unknown';
+}
+
+/**
+ * Get a matcher for the configured trusted proxies
+ */
+function getTrustedProxyMatcher(): (ip: string) => boolean {
+  const cidrs: string[] = configService.getConfig().security?.trustedProxies || [];
+  const key = cidrs.join(',');
+  if (trustedProxies?.cidrs !== key) {
+    try {
+      trustedProxies = { cidrs: key, matches: createCidrMatcher(cidrs) };
+    } catch (error) {
+      // Never trust forwarded headers because of a typo in the list
+      console.error('Invalid security.trustedProxies, ignoring forwarded headers:', error);
+      trustedProxies = { cidrs: key, matches: () => false };
+    }
+  }
+  return trustedProxies.matches;
+}
@@ -1,4 +1,26 @@
 import { Elysia } from 'elysia';
+import { AuthenticationError, AuthorizationError } from './auth';
+import { LoginLockedError } from '../services/loginProtection';
+
+/**
+ * Error raised when a request body is larger than its route accepts
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Error raised when a route needs the request's Content-Length and none was given
+ */
+export class LengthRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LengthRequiredError';
+  }
+}
 
 /**
  * Error handling middleware
@@ -8,6 +30,32 @@ export const errorMiddleware = new Elysia()
   .onError(({ code, error, set }) => {
     console.error(`Error [${code}]:`, error);
     
+    if (error instanceof AuthenticationError) {
+      set.status = 401;
+      return { error: 'Unauthorized', message: error.message };
+    }
+    
+    if (error instanceof AuthorizationError) {
+      set.status = 403;
+      return { error: 'Forbidden', message: error.message };
+    }
+    
+    if (error instanceof LoginLockedError) {
+      set.status = 429;
+      set.headers['Retry-After'] = error.retryAfter.toString();
+      return { error: 'Too Many Requests', message: error.message, retryAfter: error.retryAfter };
+    }
+    
+    if (error instanceof PayloadTooLargeError) {
+      set.status = 413;
+      return { error: 'Payload Too Large', message: error.message };
+    }
+    
+    if (error instanceof LengthRequiredError) {
+      set.status = 411;
+      return { error: 'Length Required', message: error.message };
+    }
+    
     // Set appropriate status code based on error type
     switch (code) {
       case 'NOT_FOUND':
@@ -18,7 +18,8 @@ export const middleware = new Elysia()
   .use(securityHeaders);
 
 // Export authentication middleware separately since it's used selectively
-export { authenticate, adminOnly, adminAndUserOnly } from './auth';
+export { authenticate, adminOnly, adminAndUserOnly, enforcePermissions } from './auth';
+export { Permission, ROUTE_PERMISSIONS } from './permissions';
 
 // Export validation middleware
 export { validateBody, validateQuery, validateParams } from './validation';
@@ -0,0 +1,306 @@
+import { UserRole, ApiTokenScope, ProjectRole } from '../../../shared/src/models';
+
+/**
+ * Permissions granted to roles
+ */
+export enum Permission {
+  // View containers, proxy rules, logs and metrics
+  READ = 'read',
+  // Run containers and manage proxy rules
+  OPERATE = 'operate',
+  // Change application configuration and manage users
+  CONFIGURE = 'configure'
+}
+
+/**
+ * Access a route requires: a permission, any signed-in user, or none
+ */
+export type RouteAccess = Permission | 'authenticated' | 'public';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: [Permission.READ, Permission.OPERATE, Permission.CONFIGURE],
+  [UserRole.USER]: [Permission.READ, Permission.OPERATE],
+  [UserRole.VIEWER]: [Permission.READ]
+};
+
+/**
+ * Permissions project roles grant on the project's containers and proxy rules.
+ * A member never gets more than their global role allows. Owners can also
+ * manage the project's members.
+ */
+export const PROJECT_ROLE_PERMISSIONS: Record<ProjectRole, Permission[]> = {
+  [ProjectRole.OWNER]: [Permission.READ, Permission.OPERATE],
+  [ProjectRole.OPERATOR]: [Permission.READ, Permission.OPERATE],
+  [ProjectRole.VIEWER]: [Permission.READ]
+};
+
+/**
+ * The projects a user can reach: admins reach every project, anyone else
+ * only the projects they are a member of
+ */
+export interface ProjectAccess {
+  role: UserRole;
+  projects: Map<string, ProjectRole>;
+}
+
+/**
+ * Permission a user's role needs to grant each API token scope
+ */
+export const SCOPE_PERMISSIONS: Record<ApiTokenScope, Permission> = {
+  [ApiTokenScope.CONTAINERS_READ]: Permission.READ,
+  [ApiTokenScope.CONTAINERS_WRITE]: Permission.OPERATE,
+  [ApiTokenScope.PROXY_READ]: Permission.READ,
+  [ApiTokenScope.PROXY_WRITE]: Permission.OPERATE,
+  [ApiTokenScope.CONFIG_READ]: Permission.READ,
+  [ApiTokenScope.CONFIG_ADMIN]: Permission.CONFIGURE
+};
+
+// Scopes that satisfy a permission on each resource (the segment after /api)
+const RESOURCE_SCOPES: Record<string, Partial<Record<Permission, ApiTokenScope[]>>> = {
+  containers: {
+    [Permission.READ]: [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.CONTAINERS_WRITE],
+    [Permission.OPERATE]: [ApiTokenScope.CONTAINERS_WRITE]
+  },
+  images: {
+    [Permission.READ]: [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.CONTAINERS_WRITE],
+    [Permission.OPERATE]: [ApiTokenScope.CONTAINERS_WRITE]
+  },
+  stacks: {
+    [Permission.READ]: [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.CONTAINERS_WRITE],
+    [Permission.OPERATE]: [ApiTokenScope.CONTAINERS_WRITE]
+  },
+  volumes: {
+    [Permission.READ]: [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.CONTAINERS_WRITE],
+    [Permission.OPERATE]: [ApiTokenScope.CONTAINERS_WRITE]
+  },
+  networks: {
+    [Permission.READ]: [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.CONTAINERS_WRITE],
+    [Permission.OPERATE]: [ApiTokenScope.CONTAINERS_WRITE]
+  },
+  proxy: {
+    [Permission.READ]: [ApiTokenScope.PROXY_READ, ApiTokenScope.PROXY_WRITE],
+    [Permission.OPERATE]: [ApiTokenScope.PROXY_WRITE]
+  },
+  config: {
+    [Permission.READ]: [ApiTokenScope.CONFIG_READ, ApiTokenScope.CONFIG_ADMIN]
+  },
+  health: {
+    [Permission.READ]: [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.PROXY_READ, ApiTokenScope.CONFIG_READ]
+  },
+  projects: {
+    [Permission.READ]: [
+      ApiTokenScope.CONTAINERS_READ, ApiTokenScope.CONTAINERS_WRITE,
+      ApiTokenScope.PROXY_READ, ApiTokenScope.PROXY_WRITE
+    ]
+  }
+};
+
+// API tokens cannot manage API tokens, two-factor authentication or sessions
+const SESSION_ONLY_PATH = /^\/api\/auth\/(tokens|2fa|sessions|logout)(\/|$)/;
+
+/**
+ * Access required by every REST route, keyed by "METHOD /path".
+ * Routes missing from the map require Permission.CONFIGURE.
+ */
+export const ROUTE_PERMISSIONS: Record<string, RouteAccess> = {
+  // Containers
+  'GET /api/containers': Permission.READ,
+  'GET /api/containers/:id': Permission.READ,
+  'POST /api/containers': Permission.OPERATE,
+  'POST /api/containers/:id/start': Permission.OPERATE,
+  'POST /api/containers/:id/stop': Permission.OPERATE,
+  'POST /api/containers/:id/restart': Permission.OPERATE,
+  'POST /api/containers/:id/recreate': Permission.OPERATE,
+  'GET /api/containers/:id/files': Permission.OPERATE,
+  'GET /api/containers/:id/files/download': Permission.OPERATE,
+  'POST /api/containers/:id/files/upload': Permission.OPERATE,
+  'GET /api/containers/:id/logs': Permission.READ,
+  'GET /api/containers/:id/stats': Permission.READ,
+  'DELETE /api/containers/:id': Permission.OPERATE,
+  'GET /api/containers/:id/logs/stream': Permission.READ,
+  'GET /api/containers/:id/stats/stream': Permission.READ,
+
+  // Images; removing them affects every project, so it is left to admins
+  'GET /api/images': Permission.READ,
+  'POST /api/images/pull': Permission.OPERATE,
+  'GET /api/images/pulls': Permission.READ,
+  'GET /api/images/pulls/:id': Permission.READ,
+  'POST /api/images/prune': Permission.CONFIGURE,
+  'POST /api/images/:id/tag': Permission.OPERATE,
+  'DELETE /api/images/:id': Permission.CONFIGURE,
+
+  // Stacks
+  'GET /api/stacks': Permission.READ,
+  'POST /api/stacks': Permission.OPERATE,
+  'GET /api/stacks/:id': Permission.READ,
+  'PUT /api/stacks/:id': Permission.OPERATE,
+  'DELETE /api/stacks/:id': Permission.OPERATE,
+  'POST /api/stacks/:id/up': Permission.OPERATE,
+  'POST /api/stacks/:id/down': Permission.OPERATE,
+  'POST /api/stacks/:id/restart': Permission.OPERATE,
+  'POST /api/stacks/:id/redeploy': Permission.OPERATE,
+
+  // Volumes and networks are shared by every project, so removing them is left to admins
+  'GET /api/volumes': Permission.READ,
+  'POST /api/volumes': Permission.OPERATE,
+  'POST /api/volumes/prune': Permission.CONFIGURE,
+  'GET /api/volumes/:name': Permission.READ,
+  'DELETE /api/volumes/:name': Permission.CONFIGURE,
+  'GET /api/networks': Permission.READ,
+  'POST /api/networks': Permission.OPERATE,
+  'POST /api/networks/prune': Permission.CONFIGURE,
+  'GET /api/networks/:id': Permission.READ,
+  'DELETE /api/networks/:id': Permission.CONFIGURE,
+  'POST /api/networks/:id/connect': Permission.OPERATE,
+  'POST /api/networks/:id/disconnect': Permission.OPERATE,
+
+  // Proxy
+  'GET /api/proxy/rules': Permission.READ,
+  'GET /api/proxy/rules/:id': Permission.READ,
+  'POST /api/proxy/rules': Permission.OPERATE,
+  'PUT /api/proxy/rules/:id': Permission.OPERATE,
+  'DELETE /api/proxy/rules/:id': Permission.OPERATE,
+  'POST /api/proxy/rules/:id/toggle': Permission.OPERATE,
+  'POST /api/proxy/rules/test': Permission.OPERATE,
+  'GET /api/proxy/rules/:id/traffic': Permission.READ,
+  'GET /api/proxy/rules/:id/errors': Permission.READ,
+  'POST /api/proxy/errors/:id/resolve': Permission.OPERATE,
+  'GET /api/proxy/status': Permission.READ,
+  'GET /api/proxy/rules/:id/traffic/summary': Permission.READ,
+  'GET /api/proxy/rules/:id/traffic/timeseries': Permission.READ,
+  'GET /api/proxy/rules/:id/errors/summary': Permission.READ,
+  'GET /api/proxy/rules/:id/logs': Permission.READ,
+  'POST /api/proxy/rules/:id/parse-logs': Permission.OPERATE,
+
+  // Configuration
+  'GET /api/config': Permission.READ,
+  'PUT /api/config': Permission.CONFIGURE,
+  'POST /api/config/backup': Permission.CONFIGURE,
+  'GET /api/config/backups': Permission.CONFIGURE,
+  'POST /api/config/restore': Permission.CONFIGURE,
+  'DELETE /api/config/backups/:id': Permission.CONFIGURE,
+  'POST /api/config/mail/test': Permission.CONFIGURE,
+
+  // Health
+  'GET /api/health': 'public',
+  'GET /api/health/detailed': Permission.READ,
+  'GET /api/health/metrics': Permission.READ,
+
+  // Authentication and users
+  'POST /api/auth/login': 'public',
+  'POST /api/auth/register': 'public',
+  'POST /api/auth/password-reset/request': 'public',
+  'POST /api/auth/password-reset/confirm': 'public',
+  'POST /api/auth/login/2fa': 'public',
+  'POST /api/auth/login/2fa/setup': 'public',
+  'POST /api/auth/login/2fa/enable': 'public',
+  'GET /api/auth/oidc/config': 'public',
+  'GET /api/auth/oidc/login': 'public',
+  'GET /api/auth/oidc/callback': 'public',
+  'POST /api/auth/refresh': 'public',
+  'POST /api/auth/logout': 'authenticated',
+  'GET /api/auth/sessions': 'authenticated',
+  'DELETE /api/auth/sessions/:id': 'authenticated',
+  'GET /api/auth/me': 'authenticated',
+  'PUT /api/auth/me': 'authenticated',
+  'POST /api/auth/2fa/setup': 'authenticated',
+  'POST /api/auth/2fa/enable': 'authenticated',
+  'POST /api/auth/2fa/disable': 'authenticated',
+  'POST /api/auth/2fa/recovery-codes': 'authenticated',
+  'GET /api/auth/tokens': 'authenticated',
+  'POST /api/auth/tokens': 'authenticated',
+  'DELETE /api/auth/tokens/:id': 'authenticated',
+  'GET /api/auth/users': Permission.CONFIGURE,
+  'GET /api/auth/users/:id': Permission.CONFIGURE,
+  'PUT /api/auth/users/:id': Permission.CONFIGURE,
+  'DELETE /api/auth/users/:id': Permission.CONFIGURE,
+  'DELETE /api/auth/users/:id/2fa': Permission.CONFIGURE,
+  'POST /api/auth/users/:id/unlock': Permission.CONFIGURE,
+
+  // Audit log
+  'GET /api/audit': Permission.CONFIGURE,
+  'GET /api/audit/export': Permission.CONFIGURE,
+
+  // Projects; project owners manage members, which is checked per project
+  'GET /api/projects': Permission.READ,
+  'POST /api/projects': Permission.CONFIGURE,
+  'GET /api/projects/:id': Permission.READ,
+  'PUT /api/projects/:id': Permission.OPERATE,
+  'DELETE /api/projects/:id': Permission.CONFIGURE,
+  'GET /api/projects/:id/members': Permission.READ,
+  'POST /api/projects/:id/members': Permission.OPERATE,
+  'PUT /api/projects/:id/members/:userId': Permission.OPERATE,
+  'DELETE /api/projects/:id/members/:userId': Permission.OPERATE
+};
+
+// Route patterns compiled once, most specific (fewest parameters) first
+const compiledRoutes = Object.entries(ROUTE_PERMISSIONS)
+  .map(([route, access]) => {
+    const [method, pattern] = route.split(' ');
+    const regex = new RegExp(`^${pattern.replace(/:[^/]+/g, '[^/]+')}/?$`);
+    return { method, regex, params: (pattern.match(/:/g) || []).length, access };
+  })
+  .sort((a, b) => a.params - b.params);
+
+/**
+ * Get the access a request requires
+ */
+export function getRouteAccess(method: string, path: string): RouteAccess {
+  const route = compiledRoutes.find(r => r.method === method.toUpperCase() && r.regex.test(path));
+  return route ? route.access : Permission.CONFIGURE;
+}
+
+/**
+ * Check whether a role has a permission
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Check whether a user may act on a resource in a project. Resources outside
+ * any project are shared, so only the user's global role applies to them.
+ */
+export function hasProjectPermission(access: ProjectAccess, projectId: string | undefined, permission: Permission): boolean {
+  if (!hasPermission(access.role, permission)) {
+    return false;
+  }
+  if (!projectId || access.role === UserRole.ADMIN) {
+    return true;
+  }
+
+  const projectRole = access.projects.get(projectId);
+  return projectRole ? PROJECT_ROLE_PERMISSIONS[projectRole].includes(permission) : false;
+}
+
+/**
+ * Check whether a user may rename a project and manage its members
+ */
+export function canManageProject(access: ProjectAccess, projectId: string): boolean {
+  if (access.role === UserRole.ADMIN) {
+    return true;
+  }
+  return access.projects.get(projectId) === ProjectRole.OWNER && hasPermission(access.role, Permission.OPERATE);
+}
+
+/**
+ * Check whether an API token's scopes allow a request
+ */
+export function hasScopeForRoute(scopes: ApiTokenScope[], method: string, path: string): boolean {
+  const access = getRouteAccess(method, path);
+  if (access === 'public') {
+    return true;
+  }
+  if (SESSION_ONLY_PATH.test(path)) {
+    return false;
+  }
+  if (access === 'authenticated') {
+    return true;
+  }
+  if (access === Permission.CONFIGURE) {
+    return scopes.includes(ApiTokenScope.CONFIG_ADMIN);
+  }
+
+  const accepted = RESOURCE_SCOPES[path.split('/')[2]]?.[access] || [];
+  return accepted.some(scope => scopes.includes(scope));
+}
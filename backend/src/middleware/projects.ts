@@ -0,0 +1,60 @@
+import { getRequestUser, AuthenticationError, AuthorizationError } from './auth';
+import { Permission, ProjectAccess, hasProjectPermission, canManageProject } from './permissions';
+import { getProjectAccess } from '../services/project';
+
+// Project access looked up once per request
+const requestAccess = new WeakMap<Request, Promise<ProjectAccess>>();
+
+/**
+ * Get the projects the user who made a request can reach
+ */
+export function getRequestProjectAccess(request: Request): Promise<ProjectAccess> {
+  const user = getRequestUser(request);
+  if (!user) {
+    return Promise.reject(new AuthenticationError());
+  }
+
+  let access = requestAccess.get(request);
+  if (!access) {
+    access = getProjectAccess(user.userId, user.role);
+    requestAccess.set(request, access);
+  }
+  return access;
+}
+
+/**
+ * Refuse the request unless its user has a permission on the project's resources
+ */
+export async function assertProjectPermission(
+  request: Request,
+  projectId: string | undefined,
+  permission: Permission
+): Promise<void> {
+  if (!hasProjectPermission(await getRequestProjectAccess(request), projectId, permission)) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+}
+
+/**
+ * Refuse the request unless its user may manage the project's members
+ */
+export async function assertCanManageProject(request: Request, projectId: string): Promise<void> {
+  if (!canManageProject(await getRequestProjectAccess(request), projectId)) {
+    throw new AuthorizationError('Only project owners can manage this project');
+  }
+}
+
+/**
+ * Keep the resources the request's user can see, optionally only those in one project
+ */
+export async function filterByProject<T extends { projectId?: string }>(
+  request: Request,
+  resources: T[],
+  projectId?: string
+): Promise<T[]> {
+  const access = await getRequestProjectAccess(request);
+  return resources.filter(resource =>
+    (!projectId || resource.projectId === projectId) &&
+    hasProjectPermission(access, resource.projectId, Permission.READ)
+  );
+}
@@ -2,6 +2,7 @@ import { Elysia } from 'elysia';
 import { db } from '../db';
 import { rateLimits } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getClientIp } from './clientIp';
 
 /**
  * Rate limiting middleware
@@ -15,6 +16,9 @@ const DEFAULT_WINDOW = 60 * 60 * 1000; // Time window in milliseconds (1 hour)
 // Custom rate limits for specific endpoints
 const ENDPOINT_LIMITS: Record<string, { limit: number; window: number }> = {
   '/api/auth/login': { limit: 10, window: 15 * 60 * 1000 }, // 10 requests per 15 minutes
+  '/api/auth/login/2fa': { limit: 10, window: 15 * 60 * 1000 }, // 10 requests per 15 minutes
+  '/api/auth/login/2fa/enable': { limit: 10, window: 15 * 60 * 1000 }, // 10 requests per 15 minutes
+  '/api/auth/refresh': { limit: 60, window: 15 * 60 * 1000 }, // 60 requests per 15 minutes
   '/api/auth/register': { limit: 5, window: 60 * 60 * 1000 }, // 5 requests per hour
   '/api/auth/password-reset/request': { limit: 3, window: 60 * 60 * 1000 }, // 3 requests per hour
 };
@@ -32,7 +36,7 @@ export class RateLimitExceededError extends Error {
  */
 export const rateLimiter = new Elysia()
   .derive(async ({ request, set }) => {
-    const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+    const ip = getClientIp(request);
     const path = new URL(request.url).pathname;
     
     // Skip rate limiting for certain paths
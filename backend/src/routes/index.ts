@@ -1,20 +1,35 @@
 import { Elysia } from 'elysia';
 import { containersRoutes } from '../api/containers';
+import { imageRoutes } from '../api/images';
+import { volumeRoutes } from '../api/volumes';
+import { networkRoutes } from '../api/networks';
+import { stackRoutes } from '../api/stacks';
 import { proxyRoutes } from '../api/proxy';
 import { configRoutes } from '../api/config';
 import { healthRoutes } from '../api/health';
 import { authRoutes } from '../api/auth';
+import { auditRoutes } from '../api/audit';
+import { projectRoutes } from '../api/projects';
+import { enforcePermissions } from '../middleware/auth';
 
 /**
  * Main router that combines all API routes
  */
 export const router = new Elysia()
+  // Every route below is checked against the permission map
+  .use(enforcePermissions)
   .group('/api', (app: any) => app
     .use(containersRoutes)
+    .use(imageRoutes)
+    .use(volumeRoutes)
+    .use(networkRoutes)
+    .use(stackRoutes)
     .use(proxyRoutes)
     .use(configRoutes)
     .use(healthRoutes)
     .use(authRoutes)
+    .use(auditRoutes)
+    .use(projectRoutes)
   );
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,255 @@
+import { db } from '../db';
+import { auditLogs, users } from '../db/schema';
+import { and, eq, gte, lte, lt, or, desc, type SQL } from 'drizzle-orm';
+import { AuditLogEntry, AuditLogQuery, AuditLogPage } from 'kontainers-shared';
+import crypto from 'crypto';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+// The user agent recorded for actions Kontainers takes on its own
+export const SYSTEM_ACTOR = 'system';
+
+// Fields whose values never go into the audit log
+const SENSITIVE_FIELD = /password|secret|token/i;
+
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  'timestamp', 'userId', 'username', 'action', 'resource', 'resourceId', 'ipAddress', 'userAgent', 'details'
+];
+
+/**
+ * Log audit event
+ */
+export async function logAuditEvent(
+  userId: string | null,
+  action: string,
+  resource: string,
+  resourceId?: string,
+  details?: unknown,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> {
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    userId,
+    action,
+    resource,
+    resourceId,
+    timestamp: new Date().toISOString(),
+    ipAddress,
+    userAgent,
+    details: details === undefined ? null : JSON.stringify(redact(details))
+  });
+}
+
+/**
+ * Log an action Kontainers took on its own rather than for a request, such as
+ * a certificate renewal
+ */
+export async function logSystemEvent(
+  action: string,
+  resource: string,
+  resourceId?: string,
+  details?: unknown
+): Promise<void> {
+  await logAuditEvent(null, action, resource, resourceId, details, undefined, SYSTEM_ACTOR);
+}
+
+/**
+ * Replace the values of sensitive fields, at any depth
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SENSITIVE_FIELD.test(key) && field !== undefined && field !== null ? '[redacted]' : redact(field)
+  ]));
+}
+
+/**
+ * The fields that differ between two versions of a resource, as { before, after }.
+ * Nested objects are compared field by field; arrays are compared as a whole.
+ */
+export function diffChanges(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): { before: Record<string, any>; after: Record<string, any> } {
+  const changes = { before: {} as Record<string, any>, after: {} as Record<string, any> };
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    const oldValue = before?.[key];
+    const newValue = after?.[key];
+
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      const nested = diffChanges(oldValue, newValue);
+      if (Object.keys(nested.after).length > 0 || Object.keys(nested.before).length > 0) {
+        changes.before[key] = nested.before;
+        changes.after[key] = nested.after;
+      }
+    } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      if (oldValue !== undefined) {
+        changes.before[key] = oldValue;
+      }
+      if (newValue !== undefined) {
+        changes.after[key] = newValue;
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Query the audit log, newest first, a page at a time
+ */
+export async function queryAuditLogs(query: AuditLogQuery): Promise<AuditLogPage> {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const conditions = getFilterConditions(query);
+
+  if (query.cursor) {
+    const { timestamp, id } = decodeCursor(query.cursor);
+    conditions.push(or(
+      lt(auditLogs.timestamp, timestamp),
+      and(eq(auditLogs.timestamp, timestamp), lt(auditLogs.id, id))
+    )!);
+  }
+
+  // Fetch one extra row to know whether there is another page
+  const rows = await selectEntries(conditions, limit + 1);
+  const entries = rows.slice(0, limit);
+  const last = entries[entries.length - 1];
+
+  return {
+    entries,
+    nextCursor: rows.length > limit && last ? encodeCursor(last.timestamp, last.id) : undefined
+  };
+}
+
+/**
+ * Get every entry matching the filters for export, newest first
+ */
+export async function exportAuditLogs(query: AuditLogQuery): Promise<AuditLogEntry[]> {
+  return await selectEntries(getFilterConditions(query), MAX_EXPORT_ROWS);
+}
+
+/**
+ * Format audit log entries as CSV
+ */
+export function auditLogsToCsv(entries: AuditLogEntry[]): string {
+  const escape = (value: unknown) => {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = entries.map(entry => CSV_COLUMNS.map(column => escape(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * Build the WHERE conditions for a query's filters
+ */
+function getFilterConditions(query: AuditLogQuery): SQL[] {
+  const conditions: SQL[] = [];
+  if (query.userId) {
+    conditions.push(eq(auditLogs.userId, query.userId));
+  }
+  if (query.resource) {
+    conditions.push(eq(auditLogs.resource, query.resource));
+  }
+  if (query.action) {
+    conditions.push(eq(auditLogs.action, query.action));
+  }
+  if (query.from) {
+    conditions.push(gte(auditLogs.timestamp, toTimestamp(query.from)));
+  }
+  if (query.to) {
+    conditions.push(lte(auditLogs.timestamp, toTimestamp(query.to)));
+  }
+  return conditions;
+}
+
+/**
+ * Select entries with their user's name, newest first
+ */
+async function selectEntries(conditions: SQL[], limit: number): Promise<AuditLogEntry[]> {
+  const rows = await db.select({ log: auditLogs, username: users.username })
+    .from(auditLogs)
+    .leftJoin(users, eq(auditLogs.userId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(auditLogs.timestamp), desc(auditLogs.id))
+    .limit(limit)
+    .all();
+
+  return rows.map(({ log, username }) => ({
+    id: log.id,
+    userId: log.userId || undefined,
+    username: username || undefined,
+    action: log.action,
+    resource: log.resource,
+    resourceId: log.resourceId || undefined,
+    timestamp: log.timestamp,
+    ipAddress: log.ipAddress || undefined,
+    userAgent: log.userAgent || undefined,
+    details: parseDetails(log.details)
+  }));
+}
+
+/**
+ * Parse stored details, which are JSON
+ */
+function parseDetails(details: string | null): any {
+  if (!details) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(details);
+  } catch {
+    return details;
+  }
+}
+
+/**
+ * Normalize a filter time to the ISO format timestamps are stored in
+ */
+function toTimestamp(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}"`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Encode the position after an entry as an opaque cursor
+ */
+function encodeCursor(timestamp: string, id: string): string {
+  return Buffer.from(`${timestamp}|${id}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeCursor
+ */
+function decodeCursor(cursor: string): { timestamp: string; id: string } {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  if (!timestamp || !id) {
+    throw new Error('Invalid cursor');
+  }
+  return { timestamp, id };
+}
+
+/**
+ * Check whether a value is an object that can be compared field by field
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
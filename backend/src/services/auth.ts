@@ -1,16 +1,47 @@
 import { db } from '../db';
-import { users, passwordResetTokens, auditLogs } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
-import { User, UserRole, UserDTO, CreateUserRequest, LoginRequest, PasswordResetRequest } from 'kontainers-shared';
+import { users, passwordResetTokens, apiTokens, recoveryCodes, sessions, projectMembers } from '../db/schema';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import {
+  User,
+  UserRole,
+  UserDTO,
+  CreateUserRequest,
+  LoginRequest,
+  LoginResponse,
+  PasswordResetRequest,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorEnableResponse,
+  RefreshTokenResponse,
+  Session,
+  ApiToken,
+  ApiTokenScope,
+  CreateApiTokenRequest,
+  CreateApiTokenResponse
+} from 'kontainers-shared';
+import { SCOPE_PERMISSIONS, hasPermission } from '../middleware/permissions';
+import { OidcIdentity } from './oidc';
+import { configService } from './config';
+import { generateTotpSecret, getTotpUri, verifyTotp } from '../utils/totp';
+import { describeUserAgent } from '../utils/userAgent';
+import { assertLoginAllowed, recordLoginFailure, recordLoginSuccess } from './loginProtection';
+import { mailService } from './mail';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 
 // Environment variables (would normally be in .env)
 const JWT_SECRET = process.env.JWT_SECRET || 'kontainers-jwt-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRES_IN = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+const SESSION_LAST_SEEN_INTERVAL = 60 * 1000; // Record session activity at most once a minute
 const SALT_ROUNDS = 10;
 const PASSWORD_RESET_EXPIRES_IN = 60 * 60 * 1000; // 1 hour in milliseconds
+const API_TOKEN_PREFIX = 'kt_';
+const API_TOKEN_LAST_USED_INTERVAL = 60 * 1000; // Record token use at most once a minute
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+const TWO_FACTOR_ISSUER = 'Kontainers';
+const RECOVERY_CODE_COUNT = 10;
 
 /**
  * Generate a unique ID
@@ -33,31 +64,80 @@ async function comparePassword(password: string, hash: string): Promise<boolean>
   return bcrypt.compare(password, hash);
 }
 
+/**
+ * Where a login or token refresh came from
+ */
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 /**
  * Generate a JWT token
  */
-function generateToken(userId: string, role: UserRole): string {
-  return jwt.sign({ userId, role }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+function generateToken(userId: string, role: UserRole, sessionId: string): string {
+  return jwt.sign({ userId, role, sessionId }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
 }
 
 /**
- * Verify a JWT token
+ * Verify a JWT token's signature and expiry. Use verifySessionToken to also
+ * check that the session and user are still active.
  */
-export function verifyToken(token: string): { userId: string; role: UserRole } {
+export function verifyToken(token: string): { userId: string; role: UserRole; sessionId?: string; exp?: number } {
+  let decoded: { userId: string; role: UserRole; sessionId?: string; exp?: number; purpose?: string };
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; role: UserRole };
-    return decoded;
+    decoded = jwt.verify(token, JWT_SECRET) as typeof decoded;
   } catch (error) {
     throw new Error('Invalid token');
   }
+  
+  // Two-factor challenge tokens are not sessions
+  if (decoded.purpose) {
+    throw new Error('Invalid token');
+  }
+  return decoded;
+}
+
+/**
+ * Generate a short-lived token identifying a user who passed the password step
+ */
+function generateChallengeToken(userId: string): string {
+  return jwt.sign({ userId, purpose: 'two-factor' }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN });
+}
+
+/**
+ * Verify a two-factor challenge token and return its user ID
+ */
+function verifyChallengeToken(token: string): string {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; purpose?: string };
+    if (decoded.purpose !== 'two-factor') {
+      throw new Error('Wrong token purpose');
+    }
+    return decoded.userId;
+  } catch (error) {
+    throw new Error('Invalid or expired login attempt');
+  }
 }
 
 /**
  * Convert User to UserDTO (remove sensitive data)
  */
 function toUserDTO(user: User): UserDTO {
-  const { password, ...userDTO } = user;
-  return userDTO;
+  const {
+    password,
+    oidcSubject,
+    totpSecret,
+    totpLastCounter,
+    failedLoginAttempts,
+    lastFailedLoginAt,
+    lockedUntil,
+    ...userDTO
+  } = user;
+  return {
+    ...userDTO,
+    lockedUntil: lockedUntil && new Date(lockedUntil) > new Date() ? lockedUntil : undefined
+  };
 }
 
 /**
@@ -75,7 +155,9 @@ export async function createUser(userData: CreateUserRequest): Promise<UserDTO>
     role: userData.role || UserRole.USER,
     createdAt: now,
     updatedAt: now,
-    isActive: true
+    isActive: true,
+    twoFactorEnabled: false,
+    failedLoginAttempts: 0
   };
   
   await db.insert(users).values(newUser);
@@ -101,12 +183,20 @@ export async function createDefaultAdminUser(): Promise<void> {
 }
 
 /**
- * Login a user
+ * Login a user. Users with two-factor authentication, or who must enroll in it,
+ * get a challenge instead of a token.
  */
-export async function loginUser(loginData: LoginRequest): Promise<{ token: string; user: UserDTO }> {
+export async function loginUser(
+  loginData: LoginRequest,
+  context: SessionContext = {}
+): Promise<LoginResponse | TwoFactorChallenge> {
   const user = await db.select().from(users).where(eq(users.email, loginData.email)).get();
   
+  // Locked-out logins are refused before the password is checked
+  await assertLoginAllowed(user, context.ipAddress);
+  
   if (!user) {
+    await recordLoginFailure(null, context.ipAddress);
     throw new Error('Invalid email or password');
   }
   
@@ -116,24 +206,313 @@ export async function loginUser(loginData: LoginRequest): Promise<{ token: strin
   
   const passwordMatch = await comparePassword(loginData.password, user.password);
   if (!passwordMatch) {
+    await recordLoginFailure(user, context.ipAddress);
     throw new Error('Invalid email or password');
   }
   
+  if (user.twoFactorEnabled || isTwoFactorRequired(user.role as UserRole)) {
+    return {
+      twoFactorRequired: true,
+      setupRequired: !user.twoFactorEnabled,
+      challengeToken: generateChallengeToken(user.id)
+    };
+  }
+  
+  return await completeLogin(user as User, context);
+}
+
+/**
+ * Record a successful login and start a session
+ */
+async function completeLogin(user: User, context: SessionContext): Promise<LoginResponse> {
   // Update last login time
   const now = new Date().toISOString();
   await db.update(users)
     .set({ lastLogin: now, updatedAt: now })
     .where(eq(users.id, user.id));
+  await recordLoginSuccess(user.id);
   
-  // Generate token
-  const token = generateToken(user.id, user.role as UserRole);
+  const { token, refreshToken } = await createSession(user, context);
   
   return {
     token,
-    user: toUserDTO(user)
+    refreshToken,
+    user: toUserDTO({ ...user, lastLogin: now, updatedAt: now })
   };
 }
 
+/**
+ * Check whether a role must use two-factor authentication
+ */
+function isTwoFactorRequired(role: UserRole): boolean {
+  return role === UserRole.ADMIN && !!configService.getConfig().security?.requireAdminTwoFactor;
+}
+
+/**
+ * Get a user for a two-factor operation
+ */
+async function getTwoFactorUser(userId: string): Promise<User> {
+  const user = await db.select().from(users).where(eq(users.id, userId)).get();
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (!user.isActive) {
+    throw new Error('User account is inactive');
+  }
+  return user as User;
+}
+
+/**
+ * Hash a recovery code, ignoring case and separators
+ */
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+/**
+ * Replace a user's recovery codes with new ones
+ */
+async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    crypto.randomBytes(8).toString('hex').match(/.{4}/g)!.join('-')
+  );
+  
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  await db.insert(recoveryCodes).values(codes.map(code => ({
+    id: generateId(),
+    userId,
+    codeHash: hashRecoveryCode(code),
+    usedAt: null
+  })));
+  
+  return codes;
+}
+
+/**
+ * Check a TOTP code or unused recovery code, consuming it if valid
+ */
+async function verifyTwoFactorCode(user: User, code: string): Promise<boolean> {
+  if (user.totpSecret) {
+    const counter = verifyTotp(user.totpSecret, code);
+    // A code is only accepted once, even within its time step
+    if (counter !== null && (user.totpLastCounter === undefined || user.totpLastCounter === null || counter > user.totpLastCounter)) {
+      await db.update(users).set({ totpLastCounter: counter }).where(eq(users.id, user.id));
+      return true;
+    }
+  }
+  
+  const recoveryCode = await db.select().from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, user.id), eq(recoveryCodes.codeHash, hashRecoveryCode(code))))
+    .get();
+  
+  if (recoveryCode && !recoveryCode.usedAt) {
+    await db.update(recoveryCodes)
+      .set({ usedAt: new Date().toISOString() })
+      .where(eq(recoveryCodes.id, recoveryCode.id));
+    return true;
+  }
+  
+  return false;
+}
+
+/**
+ * Complete a login with a TOTP or recovery code
+ */
+export async function verifyTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  context: SessionContext = {}
+): Promise<LoginResponse> {
+  const user = await getTwoFactorUser(verifyChallengeToken(challengeToken));
+  
+  if (!user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is not set up');
+  }
+  
+  // Guessing codes counts towards the same lockout as guessing passwords
+  await assertLoginAllowed(user, context.ipAddress);
+  if (!await verifyTwoFactorCode(user, code)) {
+    await recordLoginFailure(user, context.ipAddress);
+    throw new Error('Invalid two-factor code');
+  }
+  
+  return await completeLogin(user, context);
+}
+
+/**
+ * Start two-factor enrollment with a new secret
+ */
+export async function setupTwoFactor(userId: string): Promise<TwoFactorSetup> {
+  const user = await getTwoFactorUser(userId);
+  
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+  
+  const secret = generateTotpSecret();
+  await db.update(users)
+    .set({ totpSecret: secret, totpLastCounter: null, updatedAt: new Date().toISOString() })
+    .where(eq(users.id, userId));
+  
+  return { secret, otpauthUri: getTotpUri(secret, user.email, TWO_FACTOR_ISSUER) };
+}
+
+/**
+ * Finish enrollment by confirming a code from the authenticator app
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<TwoFactorEnableResponse> {
+  const user = await getTwoFactorUser(userId);
+  
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+  if (!user.totpSecret) {
+    throw new Error('Two-factor setup has not been started');
+  }
+  
+  const counter = verifyTotp(user.totpSecret, code);
+  if (counter === null) {
+    throw new Error('Invalid two-factor code');
+  }
+  
+  await db.update(users)
+    .set({ twoFactorEnabled: true, totpLastCounter: counter, updatedAt: new Date().toISOString() })
+    .where(eq(users.id, userId));
+  
+  return { recoveryCodes: await generateRecoveryCodes(userId) };
+}
+
+/**
+ * Start enrollment during login, for users who must enroll before signing in
+ */
+export async function setupTwoFactorForLogin(challengeToken: string): Promise<TwoFactorSetup> {
+  return await setupTwoFactor(verifyChallengeToken(challengeToken));
+}
+
+/**
+ * Finish enrollment during login and issue a session token
+ */
+export async function enableTwoFactorForLogin(
+  challengeToken: string,
+  code: string,
+  context: SessionContext = {}
+): Promise<LoginResponse & TwoFactorEnableResponse> {
+  const userId = verifyChallengeToken(challengeToken);
+  const { recoveryCodes: codes } = await enableTwoFactor(userId, code);
+  const result = await completeLogin(await getTwoFactorUser(userId), context);
+  return { ...result, recoveryCodes: codes };
+}
+
+/**
+ * Turn off two-factor authentication after confirming a code
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await getTwoFactorUser(userId);
+  
+  if (!user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+  if (isTwoFactorRequired(user.role)) {
+    throw new Error('Two-factor authentication is required for administrators');
+  }
+  if (!await verifyTwoFactorCode(user, code)) {
+    throw new Error('Invalid two-factor code');
+  }
+  
+  await resetTwoFactor(userId);
+}
+
+/**
+ * Replace a user's recovery codes after confirming a code
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<TwoFactorEnableResponse> {
+  const user = await getTwoFactorUser(userId);
+  
+  if (!user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+  if (!await verifyTwoFactorCode(user, code)) {
+    throw new Error('Invalid two-factor code');
+  }
+  
+  return { recoveryCodes: await generateRecoveryCodes(userId) };
+}
+
+/**
+ * Remove a user's two-factor authentication, e.g. when an admin resets a lost device
+ */
+export async function resetTwoFactor(userId: string): Promise<void> {
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  await db.update(users)
+    .set({ totpSecret: null, twoFactorEnabled: false, totpLastCounter: null, updatedAt: new Date().toISOString() })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Find a username not taken by another user
+ */
+async function getAvailableUsername(username: string): Promise<string> {
+  let candidate = username;
+  for (let suffix = 2; await db.select().from(users).where(eq(users.username, candidate)).get(); suffix++) {
+    candidate = `${username}${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Log in a user authenticated by single sign-on, creating their account on first login.
+ * Existing local accounts are only linked when the provider has verified the email address.
+ * Second factors are left to the identity provider.
+ */
+export async function loginOidcUser(identity: OidcIdentity, context: SessionContext = {}): Promise<LoginResponse> {
+  let user = await db.select().from(users).where(eq(users.oidcSubject, identity.subject)).get();
+  const now = new Date().toISOString();
+  
+  if (!user) {
+    const existing = await db.select().from(users).where(eq(users.email, identity.email)).get();
+    
+    if (existing) {
+      if (!identity.emailVerified || existing.oidcSubject) {
+        throw new Error('An account with this email address already exists');
+      }
+      await db.update(users).set({ oidcSubject: identity.subject }).where(eq(users.id, existing.id));
+      user = { ...existing, oidcSubject: identity.subject };
+    } else {
+      user = {
+        id: generateId(),
+        username: await getAvailableUsername(identity.username),
+        email: identity.email,
+        // SSO users sign in through the provider, so the local password is unusable
+        password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+        role: identity.role,
+        createdAt: now,
+        updatedAt: now,
+        lastLogin: null,
+        isActive: true,
+        oidcSubject: identity.subject,
+        totpSecret: null,
+        twoFactorEnabled: false,
+        totpLastCounter: null,
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null
+      };
+      await db.insert(users).values(user);
+    }
+  }
+  
+  if (!user.isActive) {
+    throw new Error('User account is inactive');
+  }
+  
+  // The provider's claims decide the role on every login
+  await db.update(users)
+    .set({ role: identity.role, updatedAt: now })
+    .where(eq(users.id, user.id));
+  
+  return await completeLogin({ ...user, role: identity.role, updatedAt: now } as User, context);
+}
+
 /**
  * Get user by ID
  */
@@ -171,6 +550,11 @@ export async function updateUser(userId: string, userData: Partial<User>): Promi
     .set(updateData)
     .where(eq(users.id, userId));
   
+  // Deactivated users are signed out everywhere
+  if (updateData.isActive === false) {
+    await revokeUserSessions(userId);
+  }
+  
   const updatedUser = await db.select().from(users).where(eq(users.id, userId)).get();
   return toUserDTO(updatedUser!);
 }
@@ -179,6 +563,10 @@ export async function updateUser(userId: string, userData: Partial<User>): Promi
  * Delete user
  */
 export async function deleteUser(userId: string): Promise<void> {
+  await db.delete(apiTokens).where(eq(apiTokens.userId, userId));
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  await db.delete(sessions).where(eq(sessions.userId, userId));
+  await db.delete(projectMembers).where(eq(projectMembers.userId, userId));
   await db.delete(users).where(eq(users.id, userId));
 }
 
@@ -191,13 +579,14 @@ export async function listUsers(): Promise<UserDTO[]> {
 }
 
 /**
- * Request password reset
+ * Request password reset, emailing the user a link with the reset token.
+ * Unknown emails are ignored, so the response does not reveal which accounts exist.
  */
-export async function requestPasswordReset(email: string): Promise<string> {
+export async function requestPasswordReset(email: string): Promise<void> {
   const user = await db.select().from(users).where(eq(users.email, email)).get();
   
-  if (!user) {
-    throw new Error('User not found');
+  if (!user || !user.isActive) {
+    return;
   }
   
   // Generate reset token
@@ -213,7 +602,7 @@ export async function requestPasswordReset(email: string): Promise<string> {
     used: false
   });
   
-  return token;
+  mailService.sendPasswordReset(user, token, PASSWORD_RESET_EXPIRES_IN);
 }
 
 /**
@@ -253,30 +642,310 @@ export async function resetPassword(token: string, newPassword: string): Promise
     .set({ used: true })
     .where(eq(passwordResetTokens.id, resetToken.id));
   
+  // Whoever knew the old password may still hold a session
+  await revokeUserSessions(resetToken.userId);
+  
   return true;
 }
 
 /**
- * Log audit event
+ * Check whether a bearer token is an API token rather than a JWT
+ */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Hash an API token for storage and lookup
+ */
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Convert an API token row to the shared model
+ */
+function toApiToken(row: typeof apiTokens.$inferSelect): ApiToken {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes),
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt || undefined,
+    lastUsedAt: row.lastUsedAt || undefined,
+    revokedAt: row.revokedAt || undefined
+  };
+}
+
+/**
+ * Create an API token. The plain token is only returned here; just its hash is stored.
  */
-export async function logAuditEvent(
-  userId: string | null,
-  action: string,
-  resource: string,
-  resourceId?: string,
-  details?: string,
-  ipAddress?: string,
-  userAgent?: string
-): Promise<void> {
-  await db.insert(auditLogs).values({
+export async function createApiToken(
+  userId: string,
+  role: UserRole,
+  tokenData: CreateApiTokenRequest
+): Promise<CreateApiTokenResponse> {
+  if (tokenData.scopes.length === 0) {
+    throw new Error('At least one scope is required');
+  }
+  
+  // Tokens cannot grant more than the user's own role allows
+  for (const scope of tokenData.scopes) {
+    const permission = SCOPE_PERMISSIONS[scope as keyof typeof SCOPE_PERMISSIONS];
+    if (!permission) {
+      throw new Error(`Unknown scope: ${scope}`);
+    }
+    if (!hasPermission(role, permission)) {
+      throw new Error(`Your role cannot grant the ${scope} scope`);
+    }
+  }
+  
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const row = {
     id: generateId(),
     userId,
-    action,
-    resource,
-    resourceId,
-    timestamp: new Date().toISOString(),
-    ipAddress,
-    userAgent,
-    details: details ? JSON.stringify(details) : null
+    name: tokenData.name,
+    tokenHash: hashApiToken(token),
+    prefix: token.substring(0, API_TOKEN_PREFIX.length + 8),
+    scopes: JSON.stringify(Array.from(new Set(tokenData.scopes))),
+    createdAt: now.toISOString(),
+    expiresAt: tokenData.expiresInDays
+      ? new Date(now.getTime() + tokenData.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    lastUsedAt: null,
+    revokedAt: null
+  };
+  
+  await db.insert(apiTokens).values(row);
+  
+  return { token, apiToken: toApiToken(row) };
+}
+
+/**
+ * List a user's API tokens
+ */
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  const rows = await db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).all();
+  return rows.map(toApiToken);
+}
+
+/**
+ * Revoke one of a user's API tokens
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<void> {
+  const row = await db.select().from(apiTokens)
+    .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId)))
+    .get();
+  
+  if (!row) {
+    throw new Error('API token not found');
+  }
+  
+  if (!row.revokedAt) {
+    await db.update(apiTokens)
+      .set({ revokedAt: new Date().toISOString() })
+      .where(eq(apiTokens.id, tokenId));
+  }
+}
+
+/**
+ * Verify an API token and resolve the user it acts for
+ */
+export async function verifyApiToken(
+  token: string
+): Promise<{ userId: string; role: UserRole; scopes: ApiTokenScope[]; tokenId: string }> {
+  const row = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, hashApiToken(token))).get();
+  
+  if (!row || row.revokedAt) {
+    throw new Error('Invalid token');
+  }
+  
+  const now = new Date();
+  if (row.expiresAt && new Date(row.expiresAt) < now) {
+    throw new Error('Token expired');
+  }
+  
+  // The role is read on every request, so demoting or deactivating a user applies to their tokens
+  const user = await db.select().from(users).where(eq(users.id, row.userId)).get();
+  if (!user || !user.isActive) {
+    throw new Error('Invalid token');
+  }
+  
+  if (!row.lastUsedAt || now.getTime() - new Date(row.lastUsedAt).getTime() > API_TOKEN_LAST_USED_INTERVAL) {
+    await db.update(apiTokens)
+      .set({ lastUsedAt: now.toISOString() })
+      .where(eq(apiTokens.id, row.id));
+  }
+  
+  return {
+    userId: user.id,
+    role: user.role as UserRole,
+    scopes: JSON.parse(row.scopes),
+    tokenId: row.id
+  };
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session and issue its first access and refresh tokens
+ */
+async function createSession(user: User, context: SessionContext): Promise<RefreshTokenResponse> {
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const sessionId = generateId();
+  
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId: user.id,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    previousRefreshTokenHash: null,
+    device: describeUserAgent(context.userAgent),
+    ipAddress: context.ipAddress || null,
+    userAgent: context.userAgent || null,
+    createdAt: now.toISOString(),
+    lastSeenAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_EXPIRES_IN).toISOString(),
+    revokedAt: null
   });
-}
\ No newline at end of file
+  
+  return { token: generateToken(user.id, user.role, sessionId), refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token.
+ * Presenting a refresh token that was already rotated out revokes the session,
+ * since it means the token was copied.
+ */
+export async function refreshSession(refreshToken: string, context: SessionContext = {}): Promise<RefreshTokenResponse> {
+  const tokenHash = hashRefreshToken(refreshToken);
+  const session = await db.select().from(sessions).where(eq(sessions.refreshTokenHash, tokenHash)).get();
+  
+  if (!session) {
+    const reused = await db.select().from(sessions).where(eq(sessions.previousRefreshTokenHash, tokenHash)).get();
+    if (reused && !reused.revokedAt) {
+      console.warn(`Refresh token reuse detected, revoking session ${reused.id}`);
+      await db.update(sessions).set({ revokedAt: new Date().toISOString() }).where(eq(sessions.id, reused.id));
+    }
+    throw new Error('Invalid refresh token');
+  }
+  
+  const now = new Date();
+  if (session.revokedAt || new Date(session.expiresAt) < now) {
+    throw new Error('Session has expired or been revoked');
+  }
+  
+  const user = await db.select().from(users).where(eq(users.id, session.userId)).get();
+  if (!user || !user.isActive) {
+    await db.update(sessions).set({ revokedAt: now.toISOString() }).where(eq(sessions.id, session.id));
+    throw new Error('User account is inactive');
+  }
+  
+  const newRefreshToken = crypto.randomBytes(32).toString('hex');
+  await db.update(sessions)
+    .set({
+      refreshTokenHash: hashRefreshToken(newRefreshToken),
+      previousRefreshTokenHash: tokenHash,
+      lastSeenAt: now.toISOString(),
+      ipAddress: context.ipAddress || session.ipAddress
+    })
+    .where(eq(sessions.id, session.id));
+  
+  return {
+    token: generateToken(user.id, user.role as UserRole, session.id),
+    refreshToken: newRefreshToken
+  };
+}
+
+/**
+ * Verify an access token and check that its session and user are still active.
+ * The role comes from the database, so role changes apply immediately.
+ */
+export async function verifySessionToken(
+  token: string
+): Promise<{ userId: string; role: UserRole; sessionId: string; exp?: number }> {
+  const decoded = verifyToken(token);
+  if (!decoded.sessionId) {
+    throw new Error('Invalid token');
+  }
+  
+  const session = await db.select().from(sessions).where(eq(sessions.id, decoded.sessionId)).get();
+  const now = new Date();
+  if (!session || session.revokedAt || new Date(session.expiresAt) < now) {
+    throw new Error('Session has expired or been revoked');
+  }
+  
+  const user = await db.select().from(users).where(eq(users.id, decoded.userId)).get();
+  if (!user || !user.isActive) {
+    throw new Error('User account is inactive');
+  }
+  
+  if (now.getTime() - new Date(session.lastSeenAt).getTime() > SESSION_LAST_SEEN_INTERVAL) {
+    await db.update(sessions)
+      .set({ lastSeenAt: now.toISOString() })
+      .where(eq(sessions.id, session.id));
+  }
+  
+  return { userId: user.id, role: user.role as UserRole, sessionId: session.id, exp: decoded.exp };
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ */
+export async function listSessions(userId: string, currentSessionId?: string): Promise<Session[]> {
+  const rows = await db.select().from(sessions)
+    .where(and(
+      eq(sessions.userId, userId),
+      isNull(sessions.revokedAt),
+      gt(sessions.expiresAt, new Date().toISOString())
+    ))
+    .orderBy(desc(sessions.lastSeenAt))
+    .all();
+  
+  return rows.map(row => ({
+    id: row.id,
+    device: row.device,
+    ipAddress: row.ipAddress || undefined,
+    userAgent: row.userAgent || undefined,
+    createdAt: row.createdAt,
+    lastSeenAt: row.lastSeenAt,
+    expiresAt: row.expiresAt,
+    current: row.id === currentSessionId
+  }));
+}
+
+/**
+ * Revoke one of a user's sessions
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  const session = await db.select().from(sessions)
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+    .get();
+  
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  
+  if (!session.revokedAt) {
+    await db.update(sessions)
+      .set({ revokedAt: new Date().toISOString() })
+      .where(eq(sessions.id, sessionId));
+  }
+}
+
+/**
+ * Revoke all of a user's sessions
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+}
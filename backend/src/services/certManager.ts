@@ -6,6 +6,7 @@ import { promisify } from 'util';
 // import * as acme from 'acme-client';
 import { SslCertificate, ProxyRule, LetsEncryptStatus } from '../../../shared/src/models';
 import { nginxConfigService } from './nginxConfig';
+import { logSystemEvent } from './audit';
 
 const execAsync = promisify(exec);
 
@@ -57,7 +58,8 @@ export class CertManagerService {
   } = {}) {
     this.certsDir = options.certsDir || '/etc/nginx/ssl/letsencrypt';
     this.accountsDir = options.accountsDir || '/etc/nginx/ssl/letsencrypt/accounts';
-    this.acmeChallengePath = options.acmeChallengePath || '/var/www/acme-challenge';
+    // Where the domain configurations serve /.well-known/acme-challenge/ from
+    this.acmeChallengePath = options.acmeChallengePath || '/var/www/.well-known/acme-challenge';
   }
 
   /**
@@ -291,6 +293,7 @@ export class CertManagerService {
       // Update the existing certificate files
       await fs.writeFile(certPath, newCert.certificate);
       await fs.writeFile(keyPath, newCert.privateKey);
+      await logSystemEvent('renew', 'certificate', certId, { domain, expiryDate: newCert.expiryDate });
       
       // Return the updated certificate
       return {
@@ -395,8 +398,7 @@ server {
     
     # ACME challenge location
     location /.well-known/acme-challenge/ {
-        root ${this.acmeChallengePath};
-        try_files $uri =404;
+        alias ${this.acmeChallengePath}/;
     }
 }`;
       
@@ -429,6 +431,11 @@ server {
       
       // Get certificate paths
       const { certPath, keyPath } = await this.getCertificatePaths(certificate.id);
+      await logSystemEvent('issue', 'certificate', certificate.id, {
+        domain: rule.domain,
+        ruleId: rule.id,
+        expiryDate: certificate.expiryDate
+      });
       
       // Update rule with certificate information
       const updatedRule: ProxyRule = {
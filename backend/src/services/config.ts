@@ -2,6 +2,9 @@ import fs from 'fs/promises';
 import path from 'path';
 import { ConfigurationBackup } from '../../../shared/src/models';
 
+// Shown in place of stored secrets, and sent back to keep them unchanged
+export const SECRET_PLACEHOLDER = '********';
+
 /**
  * Service for managing application configuration
  */
@@ -100,6 +103,26 @@ export class ConfigService {
         refreshInterval: 5000,
         showSystemContainers: false
       },
+      security: {
+        restrictViewerContainerLogs: false,
+        requireAdminTwoFactor: false,
+        // Reverse proxies whose X-Forwarded-For header is trusted
+        trustedProxies: ['127.0.0.0/8', '::1/128']
+      },
+      mail: {
+        enabled: false,
+        from: 'Kontainers <kontainers@localhost>',
+        // Frontend address used in links sent by email
+        baseUrl: 'http://localhost:3000',
+        alertRecipients: [],
+        smtp: {
+          host: 'localhost',
+          port: 25,
+          security: 'none',
+          username: '',
+          password: ''
+        }
+      },
       version: '2.0.0',
       created: Date.now()
     };
@@ -127,6 +150,17 @@ export class ConfigService {
     return { ...this.config };
   }
 
+  /**
+   * Get configuration with secrets replaced by a placeholder, for sending to clients
+   */
+  getPublicConfig(): Record<string, any> {
+    const config = structuredClone(this.config);
+    if (config.mail?.smtp?.password) {
+      config.mail.smtp.password = SECRET_PLACEHOLDER;
+    }
+    return config;
+  }
+
   /**
    * Update configuration
    */
@@ -134,6 +168,17 @@ export class ConfigService {
     // Create a backup before updating
     await this.createBackup('pre-update');
     
+    // A placeholder sent back from the public config keeps the stored secret
+    if (updates.mail?.smtp?.password === SECRET_PLACEHOLDER) {
+      updates = {
+        ...updates,
+        mail: {
+          ...updates.mail,
+          smtp: { ...updates.mail.smtp, password: this.config.mail?.smtp?.password }
+        }
+      };
+    }
+    
     // Update config
     this.config = {
       ...this.config,
@@ -1,13 +1,45 @@
-import { dockerClient } from '../integrations/docker';
-import { Container, ContainerState, ContainerStats, DetailedContainerStats } from '../../../shared/src/models';
+import crypto from 'crypto';
+import { dockerClient, DockerEvent, ExecHandle } from '../integrations/docker';
+import { imageService } from './image';
+import { Container, ContainerState, ContainerStats, DetailedContainerStats, ContainerLogEntry, ExecOptions, PROJECT_LABEL, RecreateContainerRequest } from '../../../shared/src/models';
+import { ContainerHealthcheck, ContainerResources, ContainerRestartPolicy } from '../../../shared/src/models';
+import { buildRecreatePlan, resolveRecreateImage } from '../utils/containerRecreate';
+import { Volume, VolumePruneResult, Network, NetworkPruneResult, CreateVolumeRequest, CreateNetworkRequest } from '../../../shared/src/models';
+
+// Docker container event actions and the service events they are published as
+const CONTAINER_EVENTS: Record<string, string> = {
+  create: 'container:created',
+  start: 'container:started',
+  restart: 'container:restarted',
+  stop: 'container:stopped',
+  die: 'container:died',
+  oom: 'container:oom',
+  health_status: 'container:health',
+  destroy: 'container:removed'
+};
+
+// Shells are run directly rather than through a shell, so only a path is accepted
+const SHELL_PATTERN = /^\/[\w./-]+$/;
+// user, uid, user:group or uid:gid
+const EXEC_USER_PATTERN = /^[\w.-]+(:[\w.-]+)?$/;
+const MAX_TERMINAL_SIZE = 1000;
+
+// How long a recreated container has to become healthy, and how long one
+// without a healthcheck has to stay up to count as started
+const DEFAULT_RECREATE_TIMEOUT = 60 * 1000;
+const RECREATE_SETTLE_TIME = 10 * 1000;
+const RECREATE_POLL_INTERVAL = 1000;
 
 /**
  * Service for managing containers
  */
 export class ContainerService {
   private statsIntervals: Map<string, number> = new Map();
-  private logStreams: Map<string, any> = new Map();
+  private logStreams: Map<string, { containerId: string; stop: () => void }> = new Map();
+  private execSessions: Map<string, { containerId: string; handle: ExecHandle }> = new Map();
+  private recreating: Set<string> = new Set();
   private eventHandlers: Map<string, Function[]> = new Map();
+  private stopWatchingEvents: (() => void) | null = null;
 
   constructor() {
     // Initialize event handlers
@@ -24,6 +56,16 @@ export class ContainerService {
     this.eventHandlers.get(event)?.push(handler);
   }
 
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
   /**
    * Emit event
    */
@@ -34,6 +76,47 @@ export class ContainerService {
     }
   }
 
+  /**
+   * Initialize container service: publish lifecycle events from the Docker
+   * events stream, so containers changed outside our API are seen too
+   */
+  async initialize(): Promise<void> {
+    this.stopWatchingEvents?.();
+    this.stopWatchingEvents = dockerClient.watchEvents(
+      (event) => this.handleDockerEvent(event),
+      { filters: { type: ['container'], event: Object.keys(CONTAINER_EVENTS) } }
+    );
+  }
+
+  /**
+   * Translate a Docker container event into a container:* event
+   */
+  private async handleDockerEvent(event: DockerEvent): Promise<void> {
+    // Health events arrive as "health_status: healthy"
+    const action = event.Action.split(':')[0];
+    const serviceEvent = CONTAINER_EVENTS[action];
+    const id = event.Actor.ID;
+    if (!serviceEvent) {
+      return;
+    }
+    
+    if (action === 'destroy') {
+      this.stopStatsMonitoring(id);
+      this.stopContainerLogStreaming(id);
+      // The container can no longer be inspected, but the event carries its labels
+      this.emit(serviceEvent, { id, projectId: event.Actor.Attributes?.[PROJECT_LABEL] });
+      return;
+    }
+    
+    try {
+      const container = await this.getContainer(id);
+      this.emit(serviceEvent, container);
+    } catch (error) {
+      // The container may be gone by the time the event is handled
+      console.error(`Error handling ${action} event for container ${id}:`, error);
+    }
+  }
+
   /**
    * Get all containers
    */
@@ -49,19 +132,148 @@ export class ContainerService {
   }
 
   /**
-   * Create a new container
+   * Create a new container, optionally pulling its image first
    */
   async createContainer(options: {
     name: string;
     image: string;
-    ports?: { internal: number; external: number }[];
+    command?: string[];
+    ports?: { internal: number; external?: number; protocol?: string }[];
     volumes?: { source: string; destination: string; mode?: string }[];
     env?: string[];
     labels?: Record<string, string>;
+    networks?: string[];
+    networkAliases?: string[];
+    entrypoint?: string[];
+    workingDir?: string;
+    user?: string;
+    resources?: ContainerResources;
+    restartPolicy?: ContainerRestartPolicy;
+    healthcheck?: ContainerHealthcheck;
+    pull?: boolean;
   }): Promise<Container> {
-    const container = await dockerClient.createContainer(options);
-    this.emit('container:created', container);
-    return container;
+    const { pull, ...createOptions } = options;
+    if (pull) {
+      await imageService.pullImage(options.image);
+    }
+    return dockerClient.createContainer(createOptions);
+  }
+
+  /**
+   * Replace a container with one created from the same settings plus the
+   * requested changes. The old container is stopped and kept until the new
+   * one is healthy; if it does not become healthy in time, the old one is
+   * renamed back and restarted.
+   */
+  async recreateContainer(id: string, changes: RecreateContainerRequest = {}): Promise<Container> {
+    const info = await dockerClient.inspectContainer(id);
+    if (this.recreating.has(info.Id)) {
+      throw new Error('This container is already being recreated');
+    }
+    this.recreating.add(info.Id);
+    
+    try {
+      const name = info.Name.replace(/^\//, '');
+      const image = resolveRecreateImage(info.Config.Image, changes.image, changes.tag);
+      if (changes.pull !== false) {
+        await imageService.pullImage(image);
+      }
+      
+      const imageInfo = await dockerClient.inspectImage(info.Image).catch(() => null);
+      const suffix = crypto.randomBytes(3).toString('hex');
+      const plan = buildRecreatePlan(info, imageInfo, `${name}-recreate-${suffix}`, {
+        image,
+        env: changes.env,
+        ports: changes.ports,
+        resources: changes.resources
+      });
+      
+      const newId = await dockerClient.createContainerFromConfig(plan.create, plan.extraNetworks);
+      const wasRunning = Boolean(info.State?.Running);
+      let oldRenamed = false;
+      
+      try {
+        // The old container holds the name and any host ports until it is stopped
+        if (wasRunning) {
+          await dockerClient.stopContainer(info.Id);
+        }
+        await dockerClient.renameContainer(info.Id, `${name}-old-${suffix}`);
+        oldRenamed = true;
+        await dockerClient.renameContainer(newId, name);
+        
+        await dockerClient.startContainer(newId);
+        await this.waitUntilHealthy(newId, changes.timeout ? changes.timeout * 1000 : DEFAULT_RECREATE_TIMEOUT);
+      } catch (error: any) {
+        await this.rollBackRecreate(info.Id, newId, name, oldRenamed, wasRunning);
+        throw new Error(`Recreating ${name} failed and was rolled back: ${error.message}`);
+      }
+      
+      // Anonymous volumes now belong to the new container, so they are kept
+      await dockerClient.removeContainer(info.Id, true);
+      
+      const container = await this.getContainer(newId);
+      this.emit('container:recreated', { ...container, previousId: info.Id });
+      return container;
+    } finally {
+      this.recreating.delete(info.Id);
+    }
+  }
+
+  /**
+   * Wait for a container to report healthy or, without a healthcheck, to stay running
+   */
+  private async waitUntilHealthy(id: string, timeout: number): Promise<void> {
+    const startedAt = Date.now();
+    const settleTime = Math.min(RECREATE_SETTLE_TIME, timeout);
+    
+    while (true) {
+      const info = await dockerClient.inspectContainer(id);
+      const state = info.State || {};
+      
+      if (!state.Running || state.Restarting) {
+        throw new Error(`container exited with code ${state.ExitCode ?? 'unknown'}`);
+      }
+      if (state.Health) {
+        if (state.Health.Status === 'healthy') {
+          return;
+        }
+        if (state.Health.Status === 'unhealthy') {
+          const output = state.Health.Log?.[state.Health.Log.length - 1]?.Output?.trim();
+          throw new Error(`container is unhealthy${output ? `: ${output}` : ''}`);
+        }
+      } else if (Date.now() - startedAt >= settleTime) {
+        return;
+      }
+      
+      if (Date.now() - startedAt >= timeout) {
+        throw new Error(`container did not become healthy within ${Math.round(timeout / 1000)} seconds`);
+      }
+      await new Promise(resolve => setTimeout(resolve, RECREATE_POLL_INTERVAL));
+    }
+  }
+
+  /**
+   * Remove a failed replacement and put the old container back, under its
+   * own name if it had already been renamed
+   */
+  private async rollBackRecreate(
+    oldId: string,
+    newId: string,
+    name: string,
+    oldRenamed: boolean,
+    wasRunning: boolean
+  ): Promise<void> {
+    try {
+      await dockerClient.removeContainer(newId, true);
+      if (oldRenamed) {
+        await dockerClient.renameContainer(oldId, name);
+      }
+      if (wasRunning) {
+        await dockerClient.startContainer(oldId);
+      }
+    } catch (error) {
+      console.error(`Error rolling back recreation of container ${name}:`, error);
+    }
   }
 
   /**
@@ -69,8 +281,6 @@ export class ContainerService {
    */
   async startContainer(id: string): Promise<void> {
     await dockerClient.startContainer(id);
-    const container = await this.getContainer(id);
-    this.emit('container:started', container);
   }
 
   /**
@@ -78,8 +288,6 @@ export class ContainerService {
    */
   async stopContainer(id: string): Promise<void> {
     await dockerClient.stopContainer(id);
-    const container = await this.getContainer(id);
-    this.emit('container:stopped', container);
   }
 
   /**
@@ -87,8 +295,6 @@ export class ContainerService {
    */
   async restartContainer(id: string): Promise<void> {
     await dockerClient.restartContainer(id);
-    const container = await this.getContainer(id);
-    this.emit('container:restarted', container);
   }
 
   /**
@@ -99,10 +305,9 @@ export class ContainerService {
     this.stopStatsMonitoring(id);
     
     // Stop any active log streaming
-    this.stopLogStreaming(id);
+    this.stopContainerLogStreaming(id);
     
     await dockerClient.removeContainer(id, force);
-    this.emit('container:removed', { id });
   }
 
   /**
@@ -159,69 +364,216 @@ export class ContainerService {
   }
 
   /**
-   * Start streaming container logs
+   * Start following container logs for one viewer.
+   * Each viewer gets its own stream; returns the stream ID to stop it with.
    */
-  async startLogStreaming(id: string, callback: (log: string) => void): Promise<void> {
-    // Stop any existing log streaming for this container
-    this.stopLogStreaming(id);
+  async startLogStreaming(
+    id: string,
+    callback: (entry: ContainerLogEntry) => void,
+    options: { tail?: number; onEnd?: () => void } = {}
+  ): Promise<string> {
+    const streamId = crypto.randomUUID();
     
-    try {
-      // We need to use a different approach since docker is private
-      // Get the logs with follow option
-      const stream = await dockerClient.getContainerLogs(id, { tail: 0 });
-      
-      // For now, we'll simulate streaming by polling
-      const pollInterval = setInterval(async () => {
-        try {
-          const newLogs = await dockerClient.getContainerLogs(id, { tail: 10 });
-          callback(newLogs);
-          this.emit('container:log', { id, log: newLogs });
-        } catch (error) {
-          console.error(`Error polling logs for container ${id}:`, error);
-          this.stopLogStreaming(id);
-        }
-      }, 1000);
-      
-      this.logStreams.set(id, pollInterval);
-      /*
-      // This would be the ideal implementation if we had access to dockerClient.docker
-      const stream = await container.logs({
-        follow: true,
-        stdout: true,
-        stderr: true,
-        timestamps: true
-      });
-      
-      stream.on('data', (chunk: Buffer) => {
-        const log = chunk.toString('utf-8');
-        callback(log);
-        this.emit('container:log', { id, log });
-      });
-      
-      stream.on('error', (error: Error) => {
-        console.error(`Error streaming logs for container ${id}:`, error);
-        this.stopLogStreaming(id);
-      });
-      
-      this.logStreams.set(id, stream);
-      */
-    } catch (error) {
-      console.error(`Error starting log stream for container ${id}:`, error);
-      throw error;
-    }
+    const stop = await dockerClient.followContainerLogs(id, callback, {
+      tail: options.tail,
+      onEnd: () => {
+        // The container stopped or was removed
+        this.logStreams.delete(streamId);
+        options.onEnd?.();
+      }
+    });
+    
+    this.logStreams.set(streamId, { containerId: id, stop });
+    return streamId;
   }
 
   /**
-   * Stop streaming container logs
+   * Stop a log stream started with startLogStreaming
    */
-  stopLogStreaming(id: string): void {
-    const stream = this.logStreams.get(id);
+  stopLogStreaming(streamId: string): void {
+    const stream = this.logStreams.get(streamId);
     if (stream) {
-      clearInterval(stream);
-      this.logStreams.delete(id);
+      stream.stop();
+      this.logStreams.delete(streamId);
     }
   }
 
+  /**
+   * Stop every viewer's log stream for a container
+   */
+  stopContainerLogStreaming(id: string): void {
+    for (const [streamId, stream] of this.logStreams) {
+      if (stream.containerId === id) {
+        this.stopLogStreaming(streamId);
+      }
+    }
+  }
+
+  /**
+   * Start an interactive shell in a running container.
+   * Returns the session ID to send input to, resize and stop it with.
+   */
+  async startExecSession(
+    id: string,
+    options: ExecOptions,
+    onOutput: (data: string) => void,
+    onExit: (exitCode: number | null) => void
+  ): Promise<string> {
+    const shell = options.shell || '/bin/sh';
+    if (!SHELL_PATTERN.test(shell)) {
+      throw new Error(`Invalid shell: ${shell}`);
+    }
+    if (options.user && !EXEC_USER_PATTERN.test(options.user)) {
+      throw new Error(`Invalid user: ${options.user}`);
+    }
+    
+    const container = await this.getContainer(id);
+    if (container.state !== ContainerState.RUNNING) {
+      throw new Error(`Container ${container.name} is not running`);
+    }
+    
+    const sessionId = crypto.randomUUID();
+    const handle = await dockerClient.startExec(container.id, {
+      shell,
+      user: options.user || undefined,
+      cols: clampTerminalSize(options.cols, 80),
+      rows: clampTerminalSize(options.rows, 24)
+    }, onOutput, (exitCode) => {
+      // The shell exited or the container stopped
+      this.execSessions.delete(sessionId);
+      this.emit('container:exec:ended', { id: container.id, sessionId, exitCode });
+      onExit(exitCode);
+    });
+    
+    this.execSessions.set(sessionId, { containerId: container.id, handle });
+    this.emit('container:exec:started', { id: container.id, sessionId, shell, user: options.user });
+    return sessionId;
+  }
+
+  /**
+   * Send terminal input to an exec session
+   */
+  writeExecSession(sessionId: string, data: string): void {
+    this.execSessions.get(sessionId)?.handle.write(data);
+  }
+
+  /**
+   * Resize an exec session's terminal
+   */
+  async resizeExecSession(sessionId: string, cols: number, rows: number): Promise<void> {
+    await this.execSessions.get(sessionId)?.handle.resize(
+      clampTerminalSize(cols, 80),
+      clampTerminalSize(rows, 24)
+    );
+  }
+
+  /**
+   * Stop an exec session started with startExecSession
+   */
+  stopExecSession(sessionId: string): void {
+    const session = this.execSessions.get(sessionId);
+    if (session) {
+      session.handle.stop();
+      this.execSessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Get all volumes
+   */
+  async getVolumes(): Promise<Volume[]> {
+    return dockerClient.getVolumes();
+  }
+
+  /**
+   * Get volume by name
+   */
+  async getVolume(name: string): Promise<Volume> {
+    return dockerClient.getVolume(name);
+  }
+
+  /**
+   * Create a volume
+   */
+  async createVolume(options: CreateVolumeRequest): Promise<Volume> {
+    const volume = await dockerClient.createVolume(options);
+    this.emit('volume:created', volume);
+    return volume;
+  }
+
+  /**
+   * Remove a volume
+   */
+  async removeVolume(name: string, force: boolean = false): Promise<void> {
+    await dockerClient.removeVolume(name, force);
+    this.emit('volume:removed', { name });
+  }
+
+  /**
+   * Remove volumes no container uses
+   */
+  async pruneVolumes(): Promise<VolumePruneResult> {
+    const result = await dockerClient.pruneVolumes();
+    this.emit('volume:pruned', result);
+    return result;
+  }
+
+  /**
+   * Get all networks
+   */
+  async getNetworks(): Promise<Network[]> {
+    return dockerClient.getNetworks();
+  }
+
+  /**
+   * Get network by ID or name
+   */
+  async getNetwork(id: string): Promise<Network> {
+    return dockerClient.getNetwork(id);
+  }
+
+  /**
+   * Create a network
+   */
+  async createNetwork(options: CreateNetworkRequest): Promise<Network> {
+    const network = await dockerClient.createNetwork(options);
+    this.emit('network:created', network);
+    return network;
+  }
+
+  /**
+   * Remove a network
+   */
+  async removeNetwork(id: string): Promise<void> {
+    await dockerClient.removeNetwork(id);
+    this.emit('network:removed', { id });
+  }
+
+  /**
+   * Remove networks no container is attached to
+   */
+  async pruneNetworks(): Promise<NetworkPruneResult> {
+    const result = await dockerClient.pruneNetworks();
+    this.emit('network:pruned', result);
+    return result;
+  }
+
+  /**
+   * Attach a container to a network
+   */
+  async connectNetwork(id: string, containerId: string, aliases?: string[]): Promise<void> {
+    await dockerClient.connectNetwork(id, containerId, aliases);
+    this.emit('network:connected', { id, containerId });
+  }
+
+  /**
+   * Detach a container from a network
+   */
+  async disconnectNetwork(id: string, containerId: string, force: boolean = false): Promise<void> {
+    await dockerClient.disconnectNetwork(id, containerId, force);
+    this.emit('network:disconnected', { id, containerId });
+  }
+
   /**
    * Get Docker daemon info
    */
@@ -237,5 +589,15 @@ export class ContainerService {
   }
 }
 
+/**
+ * Keep a terminal dimension within sensible bounds
+ */
+function clampTerminalSize(value: number | undefined, fallback: number): number {
+  if (!value || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(Math.max(Math.floor(value), 1), MAX_TERMINAL_SIZE);
+}
+
 // Export a singleton instance
 export const containerService = new ContainerService();
\ No newline at end of file
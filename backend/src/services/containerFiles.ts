@@ -0,0 +1,232 @@
+import path from 'path';
+import { dockerClient } from '../integrations/docker';
+import { ContainerDirectory, ContainerFile } from '../../../shared/src/models';
+import { createTar, createZip, readTar, ArchiveFile, MAX_TAR_NAME_LENGTH } from '../utils/archive';
+
+const MB = 1024 * 1024;
+const MAX_DOWNLOAD_SIZE = parseInt(process.env.CONTAINER_FILES_MAX_DOWNLOAD_MB || '100') * MB;
+export const MAX_UPLOAD_SIZE = parseInt(process.env.CONTAINER_FILES_MAX_UPLOAD_MB || '50') * MB;
+// The form encoding adds a boundary and headers to each file, so whole upload
+// requests may run a little over the limit on their files
+export const MAX_UPLOAD_REQUEST_SIZE = MAX_UPLOAD_SIZE + MB;
+export const UPLOAD_LIMIT_MESSAGE = `Uploads are limited to ${MAX_UPLOAD_SIZE / MB} MB`;
+// Docker has no directory listing, so listings read the directory's archive
+// and stop once this much has gone past
+const MAX_LIST_SCAN_SIZE = 256 * MB;
+const MAX_LIST_ENTRIES = 2000;
+
+export type DownloadFormat = 'raw' | 'tar' | 'zip';
+
+/**
+ * Error raised for a file request that cannot be served, with the HTTP status to answer with
+ */
+export class ContainerFileError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ContainerFileError';
+  }
+}
+
+/**
+ * Normalize an absolute path in a container
+ */
+export function normalizeContainerPath(containerPath: string): string {
+  if (!containerPath.startsWith('/') || containerPath.includes('\0')) {
+    throw new ContainerFileError('Paths must be absolute', 400);
+  }
+  const normalized = path.posix.normalize(containerPath);
+  return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+/**
+ * List a directory in a container
+ */
+export async function listContainerDirectory(id: string, directory: string): Promise<ContainerDirectory> {
+  const target = normalizeContainerPath(directory);
+  const stream = await openArchive(id, target);
+  const entries: ContainerFile[] = [];
+  let root: string | null = null;
+  let truncated = false;
+
+  try {
+    for await (const { entry } of readTar(limitStream(stream, MAX_LIST_SCAN_SIZE))) {
+      // The archive holds the directory itself first, then everything under it
+      if (root === null) {
+        if (entry.type !== 'directory') {
+          throw new ContainerFileError(`Not a directory: ${target}`, 400);
+        }
+        root = trimName(entry.name);
+        continue;
+      }
+
+      const name = relativeName(entry.name, root);
+      if (!name || name.includes('/')) {
+        continue;
+      }
+      if (entries.length >= MAX_LIST_ENTRIES) {
+        truncated = true;
+        break;
+      }
+      entries.push({
+        name,
+        path: path.posix.join(target, name),
+        type: entry.type,
+        size: entry.type === 'directory' ? 0 : entry.size,
+        mode: entry.mode,
+        modifiedAt: entry.mtime,
+        linkTarget: entry.type === 'symlink' ? entry.linkName : undefined
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof ContainerFileError && error.status === 413)) {
+      throw error;
+    }
+    truncated = true;
+  } finally {
+    (stream as any).destroy?.();
+  }
+
+  entries.sort((a, b) =>
+    Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name)
+  );
+  return { path: target, entries, truncated };
+}
+
+/**
+ * Download a file as it is, or a file or directory as a tar or zip archive
+ */
+export async function downloadContainerPath(
+  id: string,
+  filePath: string,
+  format?: DownloadFormat
+): Promise<{ filename: string; contentType: string; data: Buffer }> {
+  const target = normalizeContainerPath(filePath);
+  const baseName = path.posix.basename(target) || 'root';
+  const stream = await openArchive(id, target);
+
+  let archive: Buffer;
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of limitStream(stream, MAX_DOWNLOAD_SIZE)) {
+      chunks.push(chunk);
+    }
+    archive = Buffer.concat(chunks);
+  } finally {
+    (stream as any).destroy?.();
+  }
+
+  const files: ArchiveFile[] = [];
+  for await (const { entry, data } of readTar([archive], true)) {
+    if (entry.type === 'file' || entry.type === 'directory') {
+      files.push({
+        name: entry.name,
+        data: data || Buffer.alloc(0),
+        mode: entry.mode,
+        mtime: entry.mtime,
+        directory: entry.type === 'directory'
+      });
+    }
+  }
+
+  if (!files[0]) {
+    throw new ContainerFileError('Only files and directories can be downloaded', 400);
+  }
+  const isDirectory = Boolean(files[0].directory);
+  const resolved = format || (isDirectory ? 'tar' : 'raw');
+  if (resolved === 'raw') {
+    if (isDirectory) {
+      throw new ContainerFileError('Directories can only be downloaded as an archive', 400);
+    }
+    return { filename: baseName, contentType: 'application/octet-stream', data: files[0].data };
+  }
+  if (resolved === 'zip') {
+    return { filename: `${baseName}.zip`, contentType: 'application/zip', data: createZip(files) };
+  }
+  return { filename: `${baseName}.tar`, contentType: 'application/x-tar', data: archive };
+}
+
+/**
+ * Write files into a directory of a container, replacing any with the same names
+ */
+export async function uploadContainerFiles(
+  id: string,
+  directory: string,
+  files: { name: string; data: Buffer }[]
+): Promise<string[]> {
+  const target = normalizeContainerPath(directory);
+  if (files.length === 0) {
+    throw new ContainerFileError('No files were uploaded', 400);
+  }
+  files.forEach(file => {
+    if (!file.name || file.name === '.' || file.name === '..' || /[/\0]/.test(file.name)) {
+      throw new ContainerFileError(`Invalid file name: ${file.name}`, 400);
+    }
+    if (Buffer.byteLength(file.name) > MAX_TAR_NAME_LENGTH) {
+      throw new ContainerFileError(`File name is too long: ${file.name}`, 400);
+    }
+  });
+  const size = files.reduce((total, file) => total + file.data.length, 0);
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new ContainerFileError(UPLOAD_LIMIT_MESSAGE, 413);
+  }
+
+  try {
+    await dockerClient.putArchive(id, target, createTar(files));
+  } catch (error: any) {
+    throw toFileError(error);
+  }
+  return files.map(file => path.posix.join(target, file.name));
+}
+
+/**
+ * Open the archive of a path, answering 404 when it does not exist
+ */
+async function openArchive(id: string, target: string): Promise<NodeJS.ReadableStream> {
+  try {
+    return await dockerClient.getArchive(id, target);
+  } catch (error: any) {
+    throw toFileError(error);
+  }
+}
+
+/**
+ * Pass a stream's chunks through, failing once more than a limit has been read
+ */
+async function* limitStream(stream: AsyncIterable<string | Buffer>, limit: number): AsyncGenerator<Buffer> {
+  let size = 0;
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > limit) {
+      throw new ContainerFileError(`Downloads are limited to ${Math.round(limit / MB)} MB`, 413);
+    }
+    yield buffer;
+  }
+}
+
+/**
+ * Get an archive entry's name relative to the requested directory
+ */
+function relativeName(name: string, root: string): string | null {
+  const trimmed = trimName(name);
+  if (!root) {
+    return trimmed;
+  }
+  return trimmed.startsWith(`${root}/`) ? trimmed.slice(root.length + 1) : null;
+}
+
+/**
+ * Strip the leading ./ or / and trailing slash of an archive entry's name;
+ * the root directory's archive names its entries from either
+ */
+function trimName(name: string): string {
+  const trimmed = name.replace(/^\.?\//, '').replace(/\/$/, '');
+  return trimmed === '.' ? '' : trimmed;
+}
+
+/**
+ * Turn a missing path reported by Docker into a 404
+ */
+function toFileError(error: Error): Error {
+  return /^No such (file or )?directory/.test(error.message) ? new ContainerFileError(error.message, 404) : error;
+}
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { dockerClient } from '../integrations/docker';
+import { Image, ImagePull, ImagePullStatus, ImagePruneResult } from '../../../shared/src/models';
+import { applyPullEvent, formatImageReference, parseImageReference } from '../utils/imagePull';
+
+// Finished pulls are kept this long, so clients that subscribe late still see the outcome
+const FINISHED_PULL_TTL = 5 * 60 * 1000;
+// Layer progress is published at most this often; status changes are always published
+const PROGRESS_INTERVAL = 250;
+
+/**
+ * Service for managing images
+ */
+export class ImageService {
+  private pulls: Map<string, { pull: ImagePull; done: Promise<ImagePull> }> = new Map();
+  private eventHandlers: Map<string, Function[]> = new Map();
+
+  /**
+   * Register event handler
+   */
+  on(event: string, handler: Function): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)?.push(handler);
+  }
+
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
+  /**
+   * Emit event
+   */
+  private emit(event: string, data: any): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => handler(data));
+    }
+  }
+
+  /**
+   * Get all images
+   */
+  async getImages(): Promise<Image[]> {
+    return dockerClient.getImages();
+  }
+
+  /**
+   * Check whether an image is stored locally
+   */
+  async imageExists(reference: string): Promise<boolean> {
+    return dockerClient.imageExists(reference);
+  }
+
+  /**
+   * Start pulling an image in the background. Progress is published as
+   * image:pull:* events; the returned pull is updated as it runs.
+   */
+  startPull(image: string, tag?: string): ImagePull {
+    return this.runPull(image, tag).pull;
+  }
+
+  /**
+   * Pull an image and wait for it to finish
+   */
+  async pullImage(image: string, tag?: string): Promise<ImagePull> {
+    const pull = await this.runPull(image, tag).done;
+    if (pull.status === ImagePullStatus.FAILED) {
+      throw new Error(pull.error || `Failed to pull image ${pull.image}`);
+    }
+    return pull;
+  }
+
+  /**
+   * Get a running or recently finished pull
+   */
+  getPull(id: string): ImagePull | undefined {
+    return this.pulls.get(id)?.pull;
+  }
+
+  /**
+   * Get running and recently finished pulls
+   */
+  getPulls(): ImagePull[] {
+    return Array.from(this.pulls.values()).map(({ pull }) => pull);
+  }
+
+  /**
+   * Add a tag to an image
+   */
+  async tagImage(id: string, repo: string, tag: string = 'latest'): Promise<void> {
+    await dockerClient.tagImage(id, repo, tag);
+    this.emit('image:tagged', { id, repo, tag });
+  }
+
+  /**
+   * Remove an image or one of its tags
+   */
+  async removeImage(id: string, force: boolean = false): Promise<void> {
+    await dockerClient.removeImage(id, force);
+    this.emit('image:removed', { id });
+  }
+
+  /**
+   * Remove dangling images
+   */
+  async pruneImages(): Promise<ImagePruneResult> {
+    const result = await dockerClient.pruneImages();
+    this.emit('image:pruned', result);
+    return result;
+  }
+
+  /**
+   * Start a pull and track its progress
+   */
+  private runPull(image: string, tag?: string): { pull: ImagePull; done: Promise<ImagePull> } {
+    const { repo, tag: resolvedTag } = parseImageReference(image, tag);
+    const pull: ImagePull = {
+      id: crypto.randomUUID(),
+      image: formatImageReference(repo, resolvedTag),
+      status: ImagePullStatus.PULLING,
+      layers: [],
+      startedAt: Date.now()
+    };
+
+    const lastPublished = new Map<string, { status: string; at: number }>();
+    const onProgress = (event: Parameters<typeof applyPullEvent>[1]) => {
+      const layer = applyPullEvent(pull, event);
+      if (!layer) {
+        return;
+      }
+
+      const now = Date.now();
+      const previous = lastPublished.get(layer.id);
+      if (previous && previous.status === layer.status && now - previous.at < PROGRESS_INTERVAL) {
+        return;
+      }
+      lastPublished.set(layer.id, { status: layer.status, at: now });
+      this.emit('image:pull:progress', { pullId: pull.id, image: pull.image, layer: { ...layer }, message: pull.message });
+    };
+
+    const done = dockerClient.pullImage(pull.image, onProgress)
+      .then(() => {
+        if (pull.status !== ImagePullStatus.FAILED) {
+          pull.status = ImagePullStatus.COMPLETED;
+        }
+      })
+      .catch((error: Error) => {
+        pull.status = ImagePullStatus.FAILED;
+        pull.error = pull.error || error.message;
+      })
+      .then(() => {
+        pull.finishedAt = Date.now();
+        this.emit(pull.status === ImagePullStatus.COMPLETED ? 'image:pull:completed' : 'image:pull:failed', pull);
+        setTimeout(() => this.pulls.delete(pull.id), FINISHED_PULL_TTL);
+        return pull;
+      });
+
+    this.pulls.set(pull.id, { pull, done });
+    this.emit('image:pull:started', pull);
+    return { pull, done };
+  }
+}
+
+// Export a singleton instance
+export const imageService = new ImageService();
@@ -0,0 +1,148 @@
+import { EventEmitter } from 'events';
+import { db } from '../db';
+import { users, loginFailures } from '../db/schema';
+import { and, eq, sql, type SQL } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import crypto from 'crypto';
+
+// Failed logins allowed before an account is locked; each further failure doubles the lock
+const ACCOUNT_LOCK_THRESHOLD = 5;
+// Client addresses may try many accounts, so they get more attempts before being blocked
+const IP_BLOCK_THRESHOLD = 20;
+const BASE_LOCK_DURATION = 60 * 1000; // 1 minute
+const MAX_LOCK_DURATION = 60 * 60 * 1000; // 1 hour
+// Failures are forgotten after this long without another one
+const FAILURE_RESET_AFTER = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * A login refused because the account or client address is locked out
+ */
+export class LoginLockedError extends Error {
+  constructor(public retryAfter: number) {
+    super(`Too many failed login attempts. Try again in ${retryAfter} seconds.`);
+    this.name = 'LoginLockedError';
+  }
+}
+
+/**
+ * Emits 'account:locked' with { userId, email, username, lockedUntil, ipAddress }
+ * when an account is first locked, so the user can be notified
+ */
+export const loginProtectionEvents = new EventEmitter();
+
+/**
+ * How long to lock out after a number of consecutive failures: nothing below the
+ * threshold, then the base duration doubling with each failure, up to the maximum
+ */
+export function getLockDuration(failures: number, threshold: number): number {
+  if (failures < threshold) {
+    return 0;
+  }
+  return Math.min(BASE_LOCK_DURATION * 2 ** (failures - threshold), MAX_LOCK_DURATION);
+}
+
+/**
+ * Refuse the login if the account or client address is locked out
+ */
+export async function assertLoginAllowed(
+  user: { lockedUntil: string | null } | null | undefined,
+  ipAddress?: string
+): Promise<void> {
+  const now = Date.now();
+  let lockedUntil = user?.lockedUntil ? new Date(user.lockedUntil).getTime() : 0;
+
+  if (ipAddress) {
+    const failure = await db.select().from(loginFailures).where(eq(loginFailures.ipAddress, ipAddress)).get();
+    if (failure?.blockedUntil) {
+      lockedUntil = Math.max(lockedUntil, new Date(failure.blockedUntil).getTime());
+    }
+  }
+
+  if (lockedUntil > now) {
+    throw new LoginLockedError(Math.ceil((lockedUntil - now) / 1000));
+  }
+}
+
+/**
+ * Count a failed login against the account, if it exists, and the client address.
+ * The counts are incremented in the database, so concurrent failures all count.
+ */
+export async function recordLoginFailure(
+  user: { id: string; email: string; username: string } | null | undefined,
+  ipAddress?: string
+): Promise<void> {
+  const now = new Date();
+  const resetBefore = new Date(now.getTime() - FAILURE_RESET_AFTER).toISOString();
+
+  if (user) {
+    const [{ failures }] = await db.update(users)
+      .set({
+        failedLoginAttempts: countFailure(users.failedLoginAttempts, users.lastFailedLoginAt, resetBefore),
+        lastFailedLoginAt: now.toISOString()
+      })
+      .where(eq(users.id, user.id))
+      .returning({ failures: users.failedLoginAttempts });
+    const lockDuration = getLockDuration(failures, ACCOUNT_LOCK_THRESHOLD);
+    const lockedUntil = lockDuration ? new Date(now.getTime() + lockDuration).toISOString() : null;
+
+    // A later failure sets its own, longer lock
+    await db.update(users)
+      .set({ lockedUntil })
+      .where(and(eq(users.id, user.id), eq(users.failedLoginAttempts, failures)));
+
+    if (failures === ACCOUNT_LOCK_THRESHOLD) {
+      console.warn(`Account ${user.email} locked after ${failures} failed login attempts`);
+      loginProtectionEvents.emit('account:locked', {
+        userId: user.id,
+        email: user.email,
+        username: user.username,
+        lockedUntil,
+        ipAddress
+      });
+    }
+  }
+
+  if (ipAddress) {
+    const [{ failures }] = await db.insert(loginFailures)
+      .values({ id: crypto.randomUUID(), ipAddress, count: 1, lastFailedAt: now.toISOString(), blockedUntil: null })
+      .onConflictDoUpdate({
+        target: loginFailures.ipAddress,
+        set: { count: countFailure(loginFailures.count, loginFailures.lastFailedAt, resetBefore), lastFailedAt: now.toISOString() }
+      })
+      .returning({ failures: loginFailures.count });
+    const blockDuration = getLockDuration(failures, IP_BLOCK_THRESHOLD);
+
+    await db.update(loginFailures)
+      .set({ blockedUntil: blockDuration ? new Date(now.getTime() + blockDuration).toISOString() : null })
+      .where(and(eq(loginFailures.ipAddress, ipAddress), eq(loginFailures.count, failures)));
+
+    if (failures === IP_BLOCK_THRESHOLD) {
+      console.warn(`Blocking logins from ${ipAddress} after ${failures} failed attempts`);
+    }
+  }
+}
+
+/**
+ * Clear an account's failed logins after it signs in. Client address failures
+ * are kept, so one valid account cannot be used to keep guessing others.
+ */
+export async function recordLoginSuccess(userId: string): Promise<void> {
+  await unlockUser(userId);
+}
+
+/**
+ * Lift an account's lockout and forget its failed logins
+ */
+export async function unlockUser(userId: string): Promise<void> {
+  await db.update(users)
+    .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * The next failure count for a column: one more than before, or 1 if the last
+ * failure was too long ago to still count
+ */
+function countFailure(count: SQLiteColumn, lastFailedAt: SQLiteColumn, resetBefore: string): SQL<number> {
+  return sql<number>`case when ${lastFailedAt} > ${resetBefore} then ${count} + 1 else 1 end`;
+}
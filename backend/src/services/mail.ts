@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import { SmtpClient, SmtpError, SmtpSettings, MailMessage } from '../integrations/smtp';
+import {
+  MailContent,
+  passwordResetEmail,
+  accountCreatedEmail,
+  accountLockedEmail,
+  alertEmail
+} from '../utils/mailTemplates';
+import { configService } from './config';
+import { loginProtectionEvents } from './loginProtection';
+
+/**
+ * The `mail` section of the configuration
+ */
+export interface MailSettings {
+  enabled: boolean;
+  from: string;
+  baseUrl: string; // Frontend address used in links
+  alertRecipients: string[];
+  smtp: SmtpSettings;
+}
+
+export const DEFAULT_MAIL_SETTINGS: MailSettings = {
+  enabled: false,
+  from: 'Kontainers <kontainers@localhost>',
+  baseUrl: 'http://localhost:3000',
+  alertRecipients: [],
+  smtp: {
+    host: 'localhost',
+    port: 25,
+    security: 'none',
+    username: '',
+    password: ''
+  }
+};
+
+interface QueuedMail {
+  id: string;
+  message: Omit<MailMessage, 'from'>;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Service that delivers emails through the configured SMTP server. Messages are
+ * queued and retried with increasing delays, so a slow or unavailable server
+ * does not hold up the request that sent them.
+ */
+export class MailService {
+  private queue: QueuedMail[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private processing = false;
+  private eventHandlers: Map<string, Function[]> = new Map();
+  private maxAttempts: number;
+  private retryDelay: number;
+
+  constructor(options: {
+    maxAttempts?: number;
+    retryDelay?: number;
+  } = {}) {
+    this.maxAttempts = options.maxAttempts || 5;
+    this.retryDelay = options.retryDelay || 30 * 1000;
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: string, handler: Function): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)?.push(handler);
+  }
+
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
+  /**
+   * Emit event
+   */
+  private emit(event: string, data: any): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => handler(data));
+    }
+  }
+
+  /**
+   * Initialize mail service, notifying users when their account is locked
+   */
+  async initialize(): Promise<void> {
+    loginProtectionEvents.on('account:locked', (event: { email: string; username: string; lockedUntil: string; ipAddress?: string }) => {
+      this.enqueue([event.email], accountLockedEmail(event));
+    });
+  }
+
+  /**
+   * Get the mail settings, with defaults for anything not configured
+   */
+  getSettings(): MailSettings {
+    const config = configService.getConfig().mail || {};
+    return {
+      ...DEFAULT_MAIL_SETTINGS,
+      ...config,
+      smtp: { ...DEFAULT_MAIL_SETTINGS.smtp, ...config.smtp }
+    };
+  }
+
+  /**
+   * Send a user the link to choose a new password
+   */
+  sendPasswordReset(user: { username: string; email: string }, token: string, expiresIn: number): boolean {
+    const resetUrl = `${this.getBaseUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+    return this.enqueue([user.email], passwordResetEmail({
+      username: user.username,
+      resetUrl,
+      expiresInMinutes: Math.round(expiresIn / 60000)
+    }));
+  }
+
+  /**
+   * Welcome a new user
+   */
+  sendAccountCreated(user: { username: string; email: string }): boolean {
+    return this.enqueue([user.email], accountCreatedEmail({
+      username: user.username,
+      email: user.email,
+      loginUrl: `${this.getBaseUrl()}/login`
+    }));
+  }
+
+  /**
+   * Alert the configured recipients
+   */
+  sendAlert(title: string, message: string, details?: Record<string, string>): boolean {
+    const recipients = this.getSettings().alertRecipients;
+    if (recipients.length === 0) {
+      return false;
+    }
+    return this.enqueue(recipients, alertEmail({ title, message, details }));
+  }
+
+  /**
+   * Send a test email straight away, so delivery problems are reported to the caller.
+   * Works while mail is disabled, to check the settings before turning it on.
+   */
+  async sendTestEmail(to: string): Promise<void> {
+    const settings = this.getSettings();
+    const content = alertEmail({
+      title: 'Test email',
+      message: 'This test email shows that Kontainers can deliver mail with its current settings.',
+      details: {
+        'SMTP server': `${settings.smtp.host}:${settings.smtp.port}`,
+        'Security': settings.smtp.security
+      }
+    });
+    await new SmtpClient(settings.smtp).send({ from: settings.from, to: [to], ...content });
+  }
+
+  /**
+   * Add a message to the send queue. Returns false if mail is disabled.
+   */
+  enqueue(to: string[], content: MailContent): boolean {
+    if (!this.getSettings().enabled) {
+      console.warn(`Mail is disabled; not sending "${content.subject}" to ${to.join(', ')}`);
+      return false;
+    }
+
+    this.queue.push({
+      id: crypto.randomUUID(),
+      message: { to, ...content },
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    });
+    this.schedule(0);
+    return true;
+  }
+
+  /**
+   * Deliver the messages that are due, then wait for the next retry
+   */
+  async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const settings = this.getSettings();
+      const due = this.queue.filter(mail => mail.nextAttemptAt <= Date.now());
+
+      for (const mail of due) {
+        try {
+          await new SmtpClient(settings.smtp).send({ from: settings.from, ...mail.message });
+          this.remove(mail);
+          this.emit('mail:sent', { id: mail.id, to: mail.message.to, subject: mail.message.subject });
+        } catch (error: any) {
+          mail.attempts++;
+
+          const permanent = error instanceof SmtpError && error.permanent;
+          if (permanent || mail.attempts >= this.maxAttempts) {
+            console.error(`Giving up on "${mail.message.subject}" to ${mail.message.to.join(', ')} after ${mail.attempts} attempts:`, error.message);
+            this.remove(mail);
+            this.emit('mail:failed', { id: mail.id, to: mail.message.to, subject: mail.message.subject, error: error.message });
+          } else {
+            mail.nextAttemptAt = Date.now() + this.retryDelay * 2 ** (mail.attempts - 1);
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    if (this.queue.length > 0) {
+      const next = Math.min(...this.queue.map(mail => mail.nextAttemptAt));
+      this.schedule(Math.max(next - Date.now(), 0));
+    }
+  }
+
+  /**
+   * Process the queue after a delay, replacing any run already scheduled
+   */
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.processQueue().catch(error => console.error('Error processing mail queue:', error));
+    }, delay);
+  }
+
+  private remove(mail: QueuedMail): void {
+    this.queue = this.queue.filter(queued => queued.id !== mail.id);
+  }
+
+  private getBaseUrl(): string {
+    return this.getSettings().baseUrl.replace(/\/+$/, '');
+  }
+}
+
+// Export a singleton instance
+export const mailService = new MailService();
@@ -3,6 +3,7 @@ import { SystemResourceMetrics, HealthStatus, HealthCheckResult } from '../../..
 import { dockerClient } from '../integrations/docker';
 import { nginxManager } from '../integrations/nginx';
 import { configService } from './config';
+import { mailService } from './mail';
 
 /**
  * Service for monitoring system health and resources
@@ -29,6 +30,16 @@ export class MonitoringService {
     this.eventHandlers.get(event)?.push(handler);
   }
 
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
   /**
    * Emit event
    */
@@ -58,6 +69,32 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * Email an alert when a component becomes unhealthy and when it recovers
+   */
+  private alertOnChanges(previous: Map<string, HealthCheckResult>): void {
+    for (const result of this.healthStatus.values()) {
+      const before = previous.get(result.componentId)?.status;
+      if (before === undefined || before === result.status) {
+        continue;
+      }
+      
+      if (result.status === HealthStatus.UNHEALTHY) {
+        mailService.sendAlert(
+          `${result.componentName} is unhealthy`,
+          result.message || `${result.componentName} failed its health check.`,
+          result.details
+        );
+      } else if (before === HealthStatus.UNHEALTHY && result.status === HealthStatus.HEALTHY) {
+        mailService.sendAlert(
+          `${result.componentName} recovered`,
+          result.message || `${result.componentName} is healthy again.`,
+          result.details
+        );
+      }
+    }
+  }
+
   /**
    * Start monitoring
    */
@@ -166,6 +203,7 @@ export class MonitoringService {
    */
   async checkHealth(): Promise<Map<string, HealthCheckResult>> {
     const timestamp = Date.now();
+    const previous = new Map(this.healthStatus);
     
     // Check Docker health
     try {
@@ -281,6 +319,8 @@ export class MonitoringService {
       });
     }
     
+    this.alertOnChanges(previous);
+    
     // Emit health status update
     this.emit('monitoring:health', Array.from(this.healthStatus.values()));
     
@@ -1,4 +1,5 @@
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
@@ -11,9 +12,39 @@ import {
   LetsEncryptStatus
 } from '../../../shared/src/models';
 import { nginxManager } from '../integrations/nginx';
+import { logSystemEvent } from './audit';
 
 const execAsync = promisify(exec);
 
+/**
+ * A single file change in a staged Nginx configuration apply.
+ * A null content deletes the file.
+ */
+export interface NginxConfigChange {
+  path: string;
+  content: string | null;
+}
+
+/**
+ * Error raised when a staged configuration fails `nginx -t`
+ */
+export class NginxConfigTestError extends Error {
+  constructor(public output: string) {
+    super(`Nginx configuration test failed: ${output}`);
+    this.name = 'NginxConfigTestError';
+  }
+}
+
+/**
+ * Error raised when Nginx rejects a reload of a configuration that passed its test
+ */
+export class NginxReloadError extends Error {
+  constructor(public output: string) {
+    super(`Failed to reload Nginx: ${output}`);
+    this.name = 'NginxReloadError';
+  }
+}
+
 /**
  * Service for generating and managing Nginx configurations for domain-based routing
  */
@@ -78,17 +109,18 @@ export class NginxConfigService {
 
     let config = `
 # Domain configuration for ${rule.name} (${rule.domain})
+
+# Enhanced logging for analytics; log formats can only be defined at the http level
+log_format ${rule.id}_analytics_fmt '$remote_addr - $remote_user [$time_local] '
+                   '"$request" $status $body_bytes_sent '
+                   '"$http_referer" "$http_user_agent" '
+                   '$request_time $upstream_response_time $pipe '
+                   '$upstream_cache_status $host';
+
 server {
     listen 80;
     server_name ${rule.domain};
     
-    # Enhanced logging for analytics
-    log_format ${rule.id}_analytics_fmt '$remote_addr - $remote_user [$time_local] '
-                       '"$request" $status $body_bytes_sent '
-                       '"$http_referer" "$http_user_agent" '
-                       '$request_time $upstream_response_time $pipe '
-                       '$upstream_cache_status $host';
-    
     access_log /var/log/nginx/${rule.id}_access.log ${rule.id}_analytics_fmt;
     error_log /var/log/nginx/${rule.id}_error.log;
 `;
@@ -102,20 +134,15 @@ server {
     }
 `;
 
-    // If Let's Encrypt is enabled but SSL is not yet set up, we only need the ACME challenge location
-    if (rule.letsEncryptEnabled && !rule.sslEnabled) {
+    // Add SSL configuration if enabled. Until a Let's Encrypt certificate
+    // has been issued, the domain is served over plain HTTP.
+    if (rule.sslEnabled && rule.sslCertPath && rule.sslKeyPath) {
+      // Redirect HTTP traffic, close the HTTP server block and start an HTTPS server block
       config += `
-    # Redirect all HTTP traffic to HTTPS once certificate is issued
+    # Redirect all other HTTP traffic to HTTPS
     location / {
         return 301 https://$host$request_uri;
     }
-`;
-    }
-
-    // Add SSL configuration if enabled
-    if (rule.sslEnabled && rule.sslCertPath && rule.sslKeyPath) {
-      // Close the HTTP server block and start an HTTPS server block
-      config += `
 }
 
 # HTTPS server for ${rule.name} (${rule.domain})
@@ -146,10 +173,11 @@ server {
 `;
     }
 
-    // Add location block for the main path
+    // Add location block for the main path, balanced across the upstream the rule's config defines
+    const upstream = nginxManager.getUpstream(rule);
     config += `
     location ${rule.sourcePath || '/'} {
-        proxy_pass http://${rule.targetContainer}:${rule.targetPort};
+        proxy_pass http://${upstream.name};
         proxy_http_version 1.1;
         proxy_set_header Host $host;
         proxy_set_header X-Real-IP $remote_addr;
@@ -157,6 +185,12 @@ server {
         proxy_set_header X-Forwarded-Proto $scheme;
 `;
 
+    const stickyCookie = nginxManager.generateStickyCookieConfig(upstream, rule);
+    if (stickyCookie) {
+      config += `        ${stickyCookie}
+`;
+    }
+
     // Add custom headers if specified
     if (rule.headers) {
       Object.entries(rule.headers).forEach(([name, value]) => {
@@ -377,6 +411,16 @@ server {
     return config;
   }
 
+  /**
+   * Get the path of the domain configuration file for a proxy rule
+   * @param ruleId The ID of the proxy rule
+   * @param domain The domain name
+   */
+  getDomainConfigPath(ruleId: string, domain: string): string {
+    const configFileName = `${ruleId}-${domain.replace(/[^a-zA-Z0-9]/g, '-')}.conf`;
+    return path.join(this.domainConfigsDir, configFileName);
+  }
+
   /**
    * Write a domain configuration to a file
    * @param rule The proxy rule containing domain information
@@ -389,8 +433,7 @@ server {
 
     try {
       const configContent = this.generateDomainConfig(rule);
-      const configFileName = `${rule.id}-${rule.domain.replace(/[^a-zA-Z0-9]/g, '-')}.conf`;
-      const configPath = path.join(this.domainConfigsDir, configFileName);
+      const configPath = this.getDomainConfigPath(rule.id, rule.domain);
       
       await fs.writeFile(configPath, configContent);
       console.log(`Domain configuration written to ${configPath}`);
@@ -409,8 +452,7 @@ server {
    */
   async deleteDomainConfig(ruleId: string, domain: string): Promise<void> {
     try {
-      const configFileName = `${ruleId}-${domain.replace(/[^a-zA-Z0-9]/g, '-')}.conf`;
-      const configPath = path.join(this.domainConfigsDir, configFileName);
+      const configPath = this.getDomainConfigPath(ruleId, domain);
       
       try {
         await fs.access(configPath);
@@ -430,29 +472,29 @@ server {
    * Reload Nginx to apply configuration changes
    */
   async reloadNginx(): Promise<void> {
+    // First test the configuration
+    const testResult = await this.testNginxConfig();
+    if (!testResult.valid) {
+      throw new NginxConfigTestError(testResult.message);
+    }
+    
+    // If test passed, reload Nginx
     try {
-      // First test the configuration
-      const testResult = await this.testNginxConfig();
-      if (!testResult.valid) {
-        throw new Error(`Nginx configuration test failed: ${testResult.message}`);
-      }
-      
-      // If test passed, reload Nginx
-      const { stdout, stderr } = await execAsync('nginx -s reload');
+      await execAsync('nginx -s reload');
       console.log('Nginx reloaded successfully');
-      return;
     } catch (error: any) {
       console.error('Error reloading Nginx:', error);
-      throw new Error(`Failed to reload Nginx: ${error.message}`);
+      throw new NginxReloadError(error.stderr || error.message);
     }
   }
 
   /**
    * Test Nginx configuration
+   * @param configPath Optional main configuration file to test instead of the live one
    */
-  async testNginxConfig(): Promise<{ valid: boolean; message: string }> {
+  async testNginxConfig(configPath?: string): Promise<{ valid: boolean; message: string }> {
     try {
-      const { stdout, stderr } = await execAsync('nginx -t');
+      const { stdout, stderr } = await execAsync(configPath ? `nginx -t -c ${configPath}` : 'nginx -t');
       return { valid: true, message: 'Configuration test successful' };
     } catch (error: any) {
       return { 
@@ -462,6 +504,117 @@ server {
     }
   }
 
+  /**
+   * Apply a set of configuration file changes as a single transaction.
+   * The changes are rendered into a scratch copy of the affected directories
+   * and tested with `nginx -t` before any live file is touched. If the test
+   * or the subsequent reload fails, the previous files are restored.
+   * @param changes The files to write or delete
+   */
+  async applyConfigChanges(changes: NginxConfigChange[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kontainers-nginx-'));
+    
+    try {
+      // Stage a copy of every directory touched by the changes
+      const liveDirs = [...new Set(changes.map(change => path.dirname(change.path)))];
+      const stagedDirs = new Map<string, string>();
+      
+      for (const [index, liveDir] of liveDirs.entries()) {
+        const stagedDir = path.join(stagingDir, `${index}-${path.basename(liveDir)}`);
+        await fs.mkdir(stagedDir, { recursive: true });
+        try {
+          await fs.cp(liveDir, stagedDir, { recursive: true });
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        }
+        stagedDirs.set(liveDir, stagedDir);
+      }
+      
+      for (const change of changes) {
+        const stagedPath = path.join(stagedDirs.get(path.dirname(change.path))!, path.basename(change.path));
+        if (change.content === null) {
+          await fs.rm(stagedPath, { force: true });
+        } else {
+          await fs.writeFile(stagedPath, change.content);
+        }
+      }
+      
+      // Point a copy of the main configuration at the staged directories
+      let mainConfig = await fs.readFile(nginxManager.getMainConfigPath(), 'utf-8');
+      const byLength = [...stagedDirs.entries()].sort(([a], [b]) => b.length - a.length);
+      for (const [liveDir, stagedDir] of byLength) {
+        mainConfig = mainConfig.split(`${liveDir}/`).join(`${stagedDir}/`);
+      }
+      const stagedMainConfigPath = path.join(stagingDir, 'nginx.conf');
+      await fs.writeFile(stagedMainConfigPath, mainConfig);
+      
+      const testResult = await this.testNginxConfig(stagedMainConfigPath);
+      if (!testResult.valid) {
+        throw new NginxConfigTestError(testResult.message);
+      }
+      
+      // Swap the tested files in, remembering what they replaced
+      const previous: NginxConfigChange[] = [];
+      try {
+        for (const change of changes) {
+          let previousContent: string | null = null;
+          try {
+            previousContent = await fs.readFile(change.path, 'utf-8');
+          } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+              throw error;
+            }
+          }
+          previous.push({ path: change.path, content: previousContent });
+          
+          if (change.content === null) {
+            await fs.rm(change.path, { force: true });
+          } else {
+            await fs.mkdir(path.dirname(change.path), { recursive: true });
+            await fs.writeFile(change.path, change.content);
+          }
+        }
+        
+        await this.reloadNginx();
+      } catch (error: any) {
+        console.error('Error applying Nginx configuration, rolling back:', error);
+        await this.restoreFiles(previous);
+        throw error;
+      }
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Restore files captured before a failed apply and reload the previous configuration
+   */
+  private async restoreFiles(files: NginxConfigChange[]): Promise<void> {
+    for (const file of files.reverse()) {
+      try {
+        if (file.content === null) {
+          await fs.rm(file.path, { force: true });
+        } else {
+          await fs.writeFile(file.path, file.content);
+        }
+      } catch (error) {
+        console.error(`Error restoring Nginx configuration file ${file.path}:`, error);
+      }
+    }
+    
+    try {
+      await execAsync('nginx -s reload');
+    } catch (error) {
+      console.error('Error reloading Nginx after rollback:', error);
+    }
+  }
+
   /**
    * Store an SSL certificate to the filesystem
    * @param certificate The SSL certificate to store
@@ -509,6 +662,7 @@ server {
     try {
       const certDir = path.join(this.sslCertsDir, certificateId);
       await fs.rm(certDir, { recursive: true, force: true });
+      await logSystemEvent('delete', 'certificate', certificateId);
       console.log(`SSL certificate with ID ${certificateId} deleted`);
     } catch (error: any) {
       console.error(`Error deleting SSL certificate ${certificateId}:`, error);
@@ -0,0 +1,442 @@
+import crypto, { KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { UserRole } from '../../../shared/src/models';
+
+// How long a user has to complete the login at the identity provider
+const AUTH_REQUEST_TTL = 10 * 60 * 1000;
+
+// Anyone can start a login, so only this many are kept at a time
+const MAX_PENDING_REQUESTS = 1000;
+
+// Cookie tying a login to the browser that started it, so a callback URL
+// cannot be handed to someone else to sign them in as the sender
+export const OIDC_STATE_COOKIE = 'kontainers_oidc_state';
+
+// Signature algorithms accepted for ID tokens
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+// Roles from least to most privileged, used when several claim values match
+const ROLE_ORDER = [UserRole.VIEWER, UserRole.USER, UserRole.ADMIN];
+
+/**
+ * Settings for the OpenID Connect provider
+ */
+export interface OidcSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  roleClaim: string;
+  roleMapping: Record<string, UserRole>;
+  defaultRole: UserRole;
+  loginPageUrl: string; // Frontend page that receives the session token after login
+}
+
+/**
+ * The user identified by a verified ID token
+ */
+export interface OidcIdentity {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  username: string;
+  role: UserRole;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingAuthRequest {
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+/**
+ * Parse a role mapping such as "kontainers-admins=admin,developers=user"
+ */
+export function parseRoleMapping(value: string | undefined): Record<string, UserRole> {
+  const mapping: Record<string, UserRole> = {};
+  const roles = Object.values(UserRole) as string[];
+
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const claimValue = entry.substring(0, separator).trim();
+    const role = entry.substring(separator + 1).trim().toLowerCase();
+    if (!roles.includes(role)) {
+      throw new Error(`Invalid role "${role}" in OIDC role mapping`);
+    }
+    mapping[claimValue] = role as UserRole;
+  }
+
+  return mapping;
+}
+
+/**
+ * Map a role claim (a string or list of strings) to the most privileged matching role
+ */
+export function mapClaimToRole(
+  claim: unknown,
+  mapping: Record<string, UserRole>,
+  defaultRole: UserRole
+): UserRole {
+  const values = Array.isArray(claim) ? claim : claim === undefined || claim === null ? [] : [claim];
+  const matched = values
+    .map(value => mapping[String(value)])
+    .filter((role): role is UserRole => !!role);
+
+  if (matched.length === 0) {
+    return defaultRole;
+  }
+  return matched.reduce((best, role) => ROLE_ORDER.indexOf(role) > ROLE_ORDER.indexOf(best) ? role : best);
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Read a nested claim such as "realm_access.roles"
+ */
+function getClaim(claims: Record<string, any>, name: string): unknown {
+  if (name in claims) {
+    return claims[name];
+  }
+  return name.split('.').reduce<any>((value, key) => value?.[key], claims);
+}
+
+/**
+ * Service implementing the OpenID Connect authorization code flow with PKCE
+ */
+export class OidcService {
+  private settings: OidcSettings | null;
+  private metadata: ProviderMetadata | null = null;
+  private keys: Map<string, KeyObject> = new Map();
+  private pending: Map<string, PendingAuthRequest> = new Map();
+  // State cookies only need to outlive the pending requests they refer to
+  private cookieKey = crypto.randomBytes(32);
+
+  constructor(settings?: OidcSettings | null) {
+    this.settings = settings === undefined ? OidcService.settingsFromEnv() : settings;
+  }
+
+  /**
+   * Read provider settings from OIDC_* environment variables; null when SSO is not configured
+   */
+  static settingsFromEnv(env: Record<string, string | undefined> = process.env): OidcSettings | null {
+    if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID || !env.OIDC_REDIRECT_URI) {
+      return null;
+    }
+
+    const defaultRole = (env.OIDC_DEFAULT_ROLE || UserRole.VIEWER).toLowerCase() as UserRole;
+    if (!ROLE_ORDER.includes(defaultRole)) {
+      throw new Error(`Invalid OIDC default role "${defaultRole}"`);
+    }
+
+    return {
+      issuer: env.OIDC_ISSUER.replace(/\/$/, ''),
+      clientId: env.OIDC_CLIENT_ID,
+      clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+      redirectUri: env.OIDC_REDIRECT_URI,
+      scopes: env.OIDC_SCOPES || 'openid profile email',
+      roleClaim: env.OIDC_ROLE_CLAIM || 'groups',
+      roleMapping: parseRoleMapping(env.OIDC_ROLE_MAPPING),
+      defaultRole,
+      loginPageUrl: env.OIDC_LOGIN_PAGE_URL || '/login'
+    };
+  }
+
+  /**
+   * Check whether SSO is configured
+   */
+  isEnabled(): boolean {
+    return this.settings !== null;
+  }
+
+  /**
+   * Build the frontend URL a login returns to, carrying the session tokens or an error
+   */
+  getLoginPageUrl(result: { token: string; refreshToken: string } | { error: string }): string {
+    const loginPageUrl = this.getSettings().loginPageUrl;
+    // Tokens go in the fragment so they never reach server logs
+    if ('error' in result) {
+      return `${loginPageUrl}?sso_error=${encodeURIComponent(result.error)}`;
+    }
+    const fragment = new URLSearchParams({ token: result.token, refresh_token: result.refreshToken });
+    return `${loginPageUrl}#${fragment.toString()}`;
+  }
+
+  /**
+   * Get the attributes of the state cookie; it is only sent back to the callback
+   */
+  getStateCookieOptions(): { httpOnly: true; sameSite: 'lax'; secure: boolean; path: string; maxAge: number } {
+    const redirectUri = new URL(this.getSettings().redirectUri);
+    return {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: redirectUri.protocol === 'https:',
+      path: redirectUri.pathname,
+      maxAge: AUTH_REQUEST_TTL / 1000
+    };
+  }
+
+  /**
+   * Start a login: remember the request and return the provider's authorization
+   * URL, along with the signed state cookie to set in the browser
+   */
+  async createAuthorizationUrl(): Promise<{ url: string; stateCookie: string }> {
+    const settings = this.getSettings();
+    const metadata = await this.getMetadata();
+
+    this.removeExpiredRequests();
+    // Drop the oldest logins in progress rather than grow without limit
+    while (this.pending.size >= MAX_PENDING_REQUESTS) {
+      this.pending.delete(this.pending.keys().next().value!);
+    }
+
+    const state = crypto.randomBytes(16).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    this.pending.set(state, { nonce, codeVerifier, expiresAt: Date.now() + AUTH_REQUEST_TTL });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: settings.clientId,
+      redirect_uri: settings.redirectUri,
+      scope: settings.scopes,
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    }).toString();
+
+    return { url: url.toString(), stateCookie: `${state}.${this.signState(state)}` };
+  }
+
+  /**
+   * Finish a login: check it was started in this browser, exchange the
+   * authorization code and verify the ID token
+   */
+  async handleCallback(code: string, state: string, stateCookie: string | undefined): Promise<OidcIdentity> {
+    const settings = this.getSettings();
+
+    if (this.readStateCookie(stateCookie) !== state) {
+      throw new Error('Login was not started in this browser');
+    }
+
+    // Each state can only be used once
+    const request = this.pending.get(state);
+    this.pending.delete(state);
+    if (!request || request.expiresAt < Date.now()) {
+      throw new Error('Invalid or expired login request');
+    }
+
+    const idToken = await this.exchangeCode(code, request.codeVerifier);
+    const claims = await this.verifyIdToken(idToken);
+
+    if (claims.nonce !== request.nonce) {
+      throw new Error('ID token nonce does not match the login request');
+    }
+    if (!claims.email) {
+      throw new Error('Identity provider did not return an email address');
+    }
+
+    return {
+      subject: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      username: claims.preferred_username || claims.email.split('@')[0],
+      role: mapClaimToRole(getClaim(claims, settings.roleClaim), settings.roleMapping, settings.defaultRole)
+    };
+  }
+
+  /**
+   * Get the provider settings, failing if SSO is not configured
+   */
+  private getSettings(): OidcSettings {
+    if (!this.settings) {
+      throw new Error('Single sign-on is not configured');
+    }
+    return this.settings;
+  }
+
+  /**
+   * Fetch and cache the provider's discovery document
+   */
+  private async getMetadata(): Promise<ProviderMetadata> {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    const settings = this.getSettings();
+    try {
+      const response = await fetch(`${settings.issuer}/.well-known/openid-configuration`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const metadata = await response.json() as ProviderMetadata;
+      if (metadata.issuer.replace(/\/$/, '') !== settings.issuer) {
+        throw new Error(`issuer ${metadata.issuer} does not match ${settings.issuer}`);
+      }
+
+      this.metadata = metadata;
+      return metadata;
+    } catch (error: any) {
+      console.error('Error fetching OIDC discovery document:', error);
+      throw new Error(`Failed to discover OIDC provider: ${error.message}`);
+    }
+  }
+
+  /**
+   * Exchange an authorization code for an ID token
+   */
+  private async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const settings = this.getSettings();
+    const metadata = await this.getMetadata();
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (settings.clientSecret) {
+      const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    try {
+      const response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: settings.redirectUri,
+          client_id: settings.clientId,
+          code_verifier: codeVerifier
+        })
+      });
+
+      const body = await response.json() as { id_token?: string; error?: string; error_description?: string };
+      if (!response.ok || !body.id_token) {
+        throw new Error(body.error_description || body.error || `HTTP ${response.status}`);
+      }
+      return body.id_token;
+    } catch (error: any) {
+      console.error('Error exchanging OIDC authorization code:', error);
+      throw new Error(`Failed to exchange authorization code: ${error.message}`);
+    }
+  }
+
+  /**
+   * Verify an ID token's signature, issuer, audience and expiry
+   */
+  private async verifyIdToken(idToken: string): Promise<Record<string, any>> {
+    const settings = this.getSettings();
+    const metadata = await this.getMetadata();
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) {
+      throw new Error('Malformed ID token');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    try {
+      return jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: settings.clientId
+      }) as Record<string, any>;
+    } catch (error: any) {
+      throw new Error(`Invalid ID token: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a signing key from the provider's JWKS, refetching once for unknown key IDs
+   */
+  private async getSigningKey(kid?: string): Promise<KeyObject> {
+    const find = () => kid ? this.keys.get(kid) : this.keys.size === 1 ? this.keys.values().next().value : undefined;
+
+    let key = find();
+    if (!key) {
+      await this.loadKeys();
+      key = find();
+    }
+    if (!key) {
+      throw new Error(`No signing key found for ID token${kid ? ` (kid ${kid})` : ''}`);
+    }
+    return key;
+  }
+
+  /**
+   * Load the provider's signing keys
+   */
+  private async loadKeys(): Promise<void> {
+    const metadata = await this.getMetadata();
+    try {
+      const response = await fetch(metadata.jwks_uri);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const { keys } = await response.json() as { keys: Array<Record<string, any>> };
+      this.keys = new Map(
+        keys
+          .filter(jwk => !jwk.use || jwk.use === 'sig')
+          .map((jwk, index) => [jwk.kid || String(index), crypto.createPublicKey({ key: jwk as any, format: 'jwk' })])
+      );
+    } catch (error: any) {
+      console.error('Error fetching OIDC signing keys:', error);
+      throw new Error(`Failed to fetch OIDC signing keys: ${error.message}`);
+    }
+  }
+
+  /**
+   * Sign a login state for its cookie
+   */
+  private signState(state: string): string {
+    return crypto.createHmac('sha256', this.cookieKey).update(state).digest('base64url');
+  }
+
+  /**
+   * Get the state a state cookie was issued for, or null if it is missing or forged
+   */
+  private readStateCookie(stateCookie: string | undefined): string | null {
+    const separator = stateCookie?.lastIndexOf('.') ?? -1;
+    if (!stateCookie || separator <= 0) {
+      return null;
+    }
+    const state = stateCookie.substring(0, separator);
+    const signature = Buffer.from(stateCookie.substring(separator + 1));
+    const expected = Buffer.from(this.signState(state));
+    return signature.length === expected.length && crypto.timingSafeEqual(signature, expected) ? state : null;
+  }
+
+  /**
+   * Forget login requests that were never completed
+   */
+  private removeExpiredRequests(): void {
+    const now = Date.now();
+    for (const [state, request] of this.pending) {
+      if (request.expiresAt < now) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const oidcService = new OidcService();
@@ -0,0 +1,253 @@
+import { db } from '../db';
+import { projects, projectMembers, proxyRules, stacks, users } from '../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import {
+  Project,
+  ProjectMember,
+  ProjectRole,
+  UserRole,
+  CreateProjectRequest,
+  UpdateProjectRequest
+} from 'kontainers-shared';
+import { ProjectAccess } from '../middleware/permissions';
+import { containerService } from './container';
+import crypto from 'crypto';
+
+type ProjectRow = typeof projects.$inferSelect;
+
+/**
+ * Get the projects a user can reach and their role in each
+ */
+export async function getProjectAccess(userId: string, role: UserRole): Promise<ProjectAccess> {
+  const memberships = await db.select().from(projectMembers).where(eq(projectMembers.userId, userId)).all();
+  return {
+    role,
+    projects: new Map(memberships.map(membership => [membership.projectId, membership.role as ProjectRole]))
+  };
+}
+
+/**
+ * List the projects a user can reach, with their role in each
+ */
+export async function listProjects(access: ProjectAccess): Promise<Project[]> {
+  const rows = access.role === UserRole.ADMIN
+    ? await db.select().from(projects).all()
+    : access.projects.size > 0
+      ? await db.select().from(projects).where(inArray(projects.id, Array.from(access.projects.keys()))).all()
+      : [];
+
+  return rows
+    .map(row => toProject(row, access.projects.get(row.id)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a project by ID
+ */
+export async function getProject(id: string, access?: ProjectAccess): Promise<Project | null> {
+  const row = await db.select().from(projects).where(eq(projects.id, id)).get();
+  return row ? toProject(row, access?.projects.get(id)) : null;
+}
+
+/**
+ * Create a project, with its creator as owner
+ */
+export async function createProject(data: CreateProjectRequest, ownerId: string): Promise<Project> {
+  const name = data.name.trim();
+  if (!name) {
+    throw new Error('Project name is required');
+  }
+  await assertNameAvailable(name);
+
+  const now = new Date().toISOString();
+  const row = {
+    id: crypto.randomUUID(),
+    name,
+    description: data.description || null,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await db.insert(projects).values(row);
+  await db.insert(projectMembers).values({
+    id: crypto.randomUUID(),
+    projectId: row.id,
+    userId: ownerId,
+    role: ProjectRole.OWNER,
+    createdAt: now
+  });
+
+  return toProject(row, ProjectRole.OWNER);
+}
+
+/**
+ * Rename a project or change its description
+ */
+export async function updateProject(id: string, data: UpdateProjectRequest): Promise<Project> {
+  const existing = await db.select().from(projects).where(eq(projects.id, id)).get();
+  if (!existing) {
+    throw new Error('Project not found');
+  }
+
+  const name = data.name?.trim();
+  if (name !== undefined && name !== existing.name) {
+    if (!name) {
+      throw new Error('Project name is required');
+    }
+    await assertNameAvailable(name);
+  }
+
+  const updates = {
+    name: name || existing.name,
+    description: data.description !== undefined ? data.description || null : existing.description,
+    updatedAt: new Date().toISOString()
+  };
+
+  await db.update(projects).set(updates).where(eq(projects.id, id));
+  return toProject({ ...existing, ...updates });
+}
+
+/**
+ * Delete a project. Its containers and proxy rules must be removed or moved first,
+ * or they would become visible to every user.
+ */
+export async function deleteProject(id: string): Promise<void> {
+  const rules = await db.select().from(proxyRules).where(eq(proxyRules.projectId, id)).all();
+  const projectStacks = await db.select().from(stacks).where(eq(stacks.projectId, id)).all();
+  const containers = (await containerService.getContainers()).filter(container => container.projectId === id);
+
+  if (rules.length > 0 || containers.length > 0 || projectStacks.length > 0) {
+    throw new Error(
+      `Project still has ${containers.length} containers, ${projectStacks.length} stacks and ${rules.length} proxy rules; remove or reassign them first`
+    );
+  }
+
+  await db.delete(projectMembers).where(eq(projectMembers.projectId, id));
+  await db.delete(projects).where(eq(projects.id, id));
+}
+
+/**
+ * List a project's members
+ */
+export async function listMembers(projectId: string): Promise<ProjectMember[]> {
+  const rows = await db.select({ member: projectMembers, username: users.username, email: users.email })
+    .from(projectMembers)
+    .innerJoin(users, eq(projectMembers.userId, users.id))
+    .where(eq(projectMembers.projectId, projectId))
+    .all();
+
+  return rows
+    .map(({ member, username, email }) => ({
+      userId: member.userId,
+      username,
+      email,
+      role: member.role as ProjectRole,
+      createdAt: member.createdAt
+    }))
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+/**
+ * Add a user to a project by username or email, or change their role if they are already a member
+ */
+export async function addMember(projectId: string, usernameOrEmail: string, role: ProjectRole): Promise<ProjectMember> {
+  const user = await db.select().from(users).where(eq(users.username, usernameOrEmail)).get()
+    || await db.select().from(users).where(eq(users.email, usernameOrEmail)).get();
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const existing = await getMembership(projectId, user.id);
+  if (existing) {
+    return await updateMember(projectId, user.id, role);
+  }
+
+  const createdAt = new Date().toISOString();
+  await db.insert(projectMembers).values({
+    id: crypto.randomUUID(),
+    projectId,
+    userId: user.id,
+    role,
+    createdAt
+  });
+
+  return { userId: user.id, username: user.username, email: user.email, role, createdAt };
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMember(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember> {
+  const membership = await getMembership(projectId, userId);
+  if (!membership) {
+    throw new Error('User is not a member of this project');
+  }
+  if (membership.role === ProjectRole.OWNER && role !== ProjectRole.OWNER) {
+    await assertNotLastOwner(projectId);
+  }
+
+  await db.update(projectMembers).set({ role }).where(eq(projectMembers.id, membership.id));
+
+  const member = (await listMembers(projectId)).find(m => m.userId === userId);
+  return member!;
+}
+
+/**
+ * Remove a user from a project
+ */
+export async function removeMember(projectId: string, userId: string): Promise<void> {
+  const membership = await getMembership(projectId, userId);
+  if (!membership) {
+    throw new Error('User is not a member of this project');
+  }
+  if (membership.role === ProjectRole.OWNER) {
+    await assertNotLastOwner(projectId);
+  }
+
+  await db.delete(projectMembers).where(eq(projectMembers.id, membership.id));
+}
+
+/**
+ * Get a user's membership of a project
+ */
+async function getMembership(projectId: string, userId: string) {
+  return await db.select().from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+    .get();
+}
+
+/**
+ * Refuse to leave a project without an owner to manage it
+ */
+async function assertNotLastOwner(projectId: string): Promise<void> {
+  const owners = await db.select().from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.role, ProjectRole.OWNER)))
+    .all();
+  if (owners.length <= 1) {
+    throw new Error('A project must keep at least one owner');
+  }
+}
+
+/**
+ * Refuse a project name that is already taken
+ */
+async function assertNameAvailable(name: string): Promise<void> {
+  const existing = await db.select().from(projects).where(eq(projects.name, name)).get();
+  if (existing) {
+    throw new Error(`A project named "${name}" already exists`);
+  }
+}
+
+/**
+ * Convert a projects row to a Project
+ */
+function toProject(row: ProjectRow, role?: ProjectRole): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    role
+  };
+}
@@ -1,3 +1,22 @@
+import net from 'net';
+import dgram from 'dgram';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { proxyRules, proxyTraffic, proxyErrors } from '../db/schema';
+import { nginxManager } from '../integrations/nginx';
+import { nginxConfigService, NginxConfigChange } from './nginxConfig';
+import {
+  ProxyRule,
+  ProxyTrafficData,
+  ProxyError,
+  ProxyErrorType,
+  ProxyProtocol,
+  ProxyUpstream,
+  LetsEncryptStatus,
+  LoadBalancingMethod
+} from '../../../shared/src/models';
+
+type ProxyRuleRow = typeof proxyRules.$inferSelect;
 
 // Generate UUID v4-like IDs without external dependency
 function generateId(): string {
@@ -7,64 +26,146 @@ function generateId(): string {
     return v.toString(16);
   });
 }
-import { nginxManager } from '../integrations/nginx';
-import { nginxConfigService } from './nginxConfig';
-import { ProxyRule, ProxyTrafficData, ProxyError, ProxyErrorType } from '../../../shared/src/models';
-
-// Mock database functionality for testing
-// This is a simplified version that just returns empty results
-// and doesn't actually do any database operations
-const db = {
-  select: () => ({
-    from: () => ({
-      all: async () => [],
-      where: () => ({
-        orderBy: () => ({
-          limit: () => ({
-            all: async () => []
-          })
-        })
-      })
-    })
-  }),
-  insert: () => ({
-    values: async () => ({})
-  }),
-  update: () => ({
-    set: () => ({
-      where: async () => ({})
-    })
-  }),
-  delete: () => ({
-    where: async () => ({})
-  })
-};
-
-// Mock schema objects with the necessary properties
-const proxyRules = {
-  id: 'id',
-  ruleId: 'ruleId'
-};
-
-const proxyTraffic = {
-  ruleId: 'ruleId',
-  timestamp: 'timestamp'
-};
-
-const proxyErrors = {
-  id: 'id',
-  ruleId: 'ruleId',
-  timestamp: 'timestamp'
-};
-
-// Mock eq function that just returns a condition object
-const eq = () => ({ condition: true });
+
+/**
+ * Error raised for a rule whose settings cannot be turned into a working configuration
+ */
+export class InvalidProxyRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidProxyRuleError';
+  }
+}
+
+/**
+ * Error raised when a rule's source port is taken by another rule or process
+ */
+export class ProxyPortConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProxyPortConflictError';
+  }
+}
+
+// Ports the HTTP server blocks listen on, unavailable to TCP/UDP rules
+const RESERVED_HTTP_PORTS = [80, 443];
+
+// Sticky session cookie names end up in Nginx variables and headers
+const COOKIE_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Check whether a port can be bound on the host
+ */
+function isHostPortAvailable(port: number, protocol: ProxyProtocol): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (protocol === ProxyProtocol.UDP) {
+      const socket = dgram.createSocket('udp4');
+      socket.once('error', () => resolve(false));
+      socket.bind(port, () => socket.close(() => resolve(true)));
+      return;
+    }
+    
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * Parse a JSON column, returning undefined for empty or malformed values
+ */
+function parseJsonColumn<T>(value: string | null): T | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    console.warn('Ignoring malformed JSON column value:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Serialize a value for a JSON column
+ */
+function toJsonColumn(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+/**
+ * Convert a proxy_rules row to a ProxyRule
+ */
+function rowToRule(row: ProxyRuleRow): ProxyRule {
+  return {
+    id: row.id,
+    name: row.name,
+    sourceHost: row.sourceHost,
+    sourcePath: row.sourcePath,
+    sourcePort: row.sourcePort ?? undefined,
+    targetContainer: row.targetContainer,
+    targetPort: row.targetPort,
+    protocol: row.protocol as ProxyProtocol,
+    sslEnabled: row.sslEnabled,
+    sslCertPath: row.sslCertPath ?? undefined,
+    sslKeyPath: row.sslKeyPath ?? undefined,
+    domain: row.domain ?? undefined,
+    headers: parseJsonColumn(row.headers),
+    responseHeaders: parseJsonColumn(row.responseHeaders),
+    healthCheck: parseJsonColumn(row.healthCheck),
+    loadBalancing: parseJsonColumn(row.loadBalancing),
+    advancedConfig: parseJsonColumn(row.advancedConfig),
+    customNginxConfig: row.customNginxConfig ?? undefined,
+    created: parseInt(row.created),
+    enabled: row.enabled,
+    letsEncryptEnabled: row.letsEncryptEnabled ?? undefined,
+    letsEncryptEmail: row.letsEncryptEmail ?? undefined,
+    letsEncryptStatus: (row.letsEncryptStatus as LetsEncryptStatus | null) ?? undefined,
+    letsEncryptLastRenewal: row.letsEncryptLastRenewal ? parseInt(row.letsEncryptLastRenewal) : undefined,
+    managedByContainer: row.managedByContainer ?? undefined,
+    projectId: row.projectId ?? undefined
+  };
+}
+
+/**
+ * Convert a ProxyRule to a proxy_rules row
+ */
+function ruleToRow(rule: ProxyRule): ProxyRuleRow {
+  return {
+    id: rule.id,
+    name: rule.name,
+    sourceHost: rule.sourceHost,
+    sourcePath: rule.sourcePath || '/',
+    sourcePort: rule.sourcePort ?? null,
+    targetContainer: rule.targetContainer,
+    targetPort: rule.targetPort,
+    protocol: rule.protocol,
+    sslEnabled: rule.sslEnabled,
+    sslCertPath: rule.sslCertPath ?? null,
+    sslKeyPath: rule.sslKeyPath ?? null,
+    domain: rule.domain || null,
+    headers: toJsonColumn(rule.headers),
+    responseHeaders: toJsonColumn(rule.responseHeaders),
+    healthCheck: toJsonColumn(rule.healthCheck),
+    loadBalancing: toJsonColumn(rule.loadBalancing),
+    advancedConfig: toJsonColumn(rule.advancedConfig),
+    customNginxConfig: rule.customNginxConfig ?? null,
+    created: String(rule.created),
+    enabled: rule.enabled,
+    letsEncryptEnabled: rule.letsEncryptEnabled ?? false,
+    letsEncryptEmail: rule.letsEncryptEmail ?? null,
+    letsEncryptStatus: rule.letsEncryptStatus ?? null,
+    letsEncryptLastRenewal: rule.letsEncryptLastRenewal !== undefined ? String(rule.letsEncryptLastRenewal) : null,
+    managedByContainer: rule.managedByContainer ?? null,
+    projectId: rule.projectId ?? null
+  };
+}
 
 /**
  * Service for managing proxy rules
  */
 export class ProxyService {
-  private rules: Map<string, ProxyRule> = new Map();
   private trafficData: Map<string, ProxyTrafficData[]> = new Map();
   private errors: Map<string, ProxyError[]> = new Map();
   private eventHandlers: Map<string, Function[]> = new Map();
@@ -84,6 +185,16 @@ export class ProxyService {
     this.eventHandlers.get(event)?.push(handler);
   }
 
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
   /**
    * Emit event
    */
@@ -102,36 +213,29 @@ export class ProxyService {
       await nginxManager.initialize();
       await nginxConfigService.initialize();
       
-      // Load existing rules from database - simplified for tests
-      const storedRules: any[] = [];
+      // Load existing rules from database
+      const storedRules = await this.getRules();
       
-      // Convert stored rules to ProxyRule objects
-      for (const storedRule of storedRules) {
-        const rule: ProxyRule = {
-          id: storedRule.id || '',
-          name: storedRule.name || '',
-          sourceHost: storedRule.sourceHost || '',
-          sourcePath: storedRule.sourcePath || '',
-          targetContainer: storedRule.targetContainer || '',
-          targetPort: storedRule.targetPort || 80,
-          protocol: storedRule.protocol || 'HTTP',
-          sslEnabled: !!storedRule.sslEnabled,
-          domain: storedRule.domain || '',
-          created: Date.now(),
-          enabled: !!storedRule.enabled
-        };
-        
-        // Add rule to in-memory map
-        this.rules.set(rule.id, rule);
-        
+      for (const rule of storedRules) {
         // Initialize traffic data and errors
         this.trafficData.set(rule.id, []);
         this.errors.set(rule.id, []);
         
-        // For testing, we don't need to load traffic data or errors
-        // Just initialize empty arrays
-        this.trafficData.set(rule.id, []);
-        this.errors.set(rule.id, []);
+        if (!rule.enabled) {
+          continue;
+        }
+        
+        // Re-render the Nginx configuration so a restart restores routing
+        try {
+          await nginxManager.createOrUpdateProxyRule(rule);
+        } catch (error: any) {
+          console.error(`Error restoring proxy rule ${rule.id}:`, error);
+          this.emit('proxy:rule:error', {
+            ruleId: rule.id,
+            action: 'restore',
+            error: error.message
+          });
+        }
       }
       
       console.log(`Loaded ${storedRules.length} proxy rules from database`);
@@ -143,18 +247,116 @@ export class ProxyService {
     }
   }
 
+  /**
+   * Build the Nginx configuration file changes needed to move from one
+   * version of a rule to another. A null or disabled rule removes the previous files.
+   */
+  private getConfigChanges(rule: ProxyRule | null, previous?: ProxyRule | null): NginxConfigChange[] {
+    const changes: NginxConfigChange[] = [];
+    const ruleId = rule?.id ?? previous?.id;
+    if (!ruleId) {
+      return changes;
+    }
+    
+    // Disabled rules are taken out of the live configuration
+    const activeRule = rule?.enabled ? rule : null;
+    
+    // Drop the old rule file if the rule was removed or moved between http{} and stream{}
+    const rulePath = activeRule ? nginxManager.getProxyRuleConfigPath(activeRule) : null;
+    const previousPath = previous ? nginxManager.getProxyRuleConfigPath(previous) : null;
+    if (previousPath && previousPath !== rulePath) {
+      changes.push({ path: previousPath, content: null });
+    }
+    
+    if (activeRule && rulePath) {
+      changes.push({ path: rulePath, content: nginxManager.generateProxyRuleConfig(activeRule) });
+    }
+    
+    // Domain routing only applies to HTTP/HTTPS rules
+    const domain = activeRule && !nginxManager.isStreamProtocol(activeRule.protocol) ? activeRule.domain : undefined;
+    
+    // Drop the old domain configuration if the domain changed or was removed
+    if (previous?.domain && previous.domain !== domain) {
+      changes.push({
+        path: nginxConfigService.getDomainConfigPath(ruleId, previous.domain),
+        content: null
+      });
+    }
+    
+    if (activeRule && domain) {
+      changes.push({
+        path: nginxConfigService.getDomainConfigPath(ruleId, domain),
+        content: nginxConfigService.generateDomainConfig(activeRule)
+      });
+    }
+    
+    return changes;
+  }
+
+  /**
+   * Check that a TCP/UDP rule's source host is an address Nginx can bind to.
+   * Stream servers have no server_name, so a hostname would be meaningless.
+   */
+  private validateStreamSourceHost(rule: ProxyRule): void {
+    if (nginxManager.isStreamProtocol(rule.protocol) && !net.isIPv4(rule.sourceHost)) {
+      throw new InvalidProxyRuleError(
+        `${rule.protocol} rules need an IPv4 source host to listen on, such as 0.0.0.0 for every interface: ${rule.sourceHost}`
+      );
+    }
+  }
+
+  /**
+   * Check a rule's load balancing settings. Sticky sessions pick the server
+   * by hashing a cookie, so they replace any other balancing method.
+   */
+  private validateLoadBalancing(rule: ProxyRule): void {
+    const lb = rule.loadBalancing;
+    if (!lb?.sticky) {
+      return;
+    }
+    if (lb.cookieName && !COOKIE_NAME_PATTERN.test(lb.cookieName)) {
+      throw new InvalidProxyRuleError(`Invalid sticky session cookie name: ${lb.cookieName}`);
+    }
+    if (lb.method && lb.method !== LoadBalancingMethod.ROUND_ROBIN) {
+      throw new InvalidProxyRuleError(`Sticky sessions cannot be combined with the ${lb.method} balancing method`);
+    }
+  }
+
+  /**
+   * Return Nginx to a rule's previous configuration after its database write failed
+   */
+  private async restoreConfig(rule: ProxyRule | null, applied: ProxyRule): Promise<void> {
+    try {
+      await nginxConfigService.applyConfigChanges(this.getConfigChanges(rule, applied));
+    } catch (error) {
+      console.error(`Error restoring Nginx configuration of proxy rule ${applied.id}:`, error);
+    }
+  }
+
   /**
    * Get all proxy rules
    */
   async getRules(): Promise<ProxyRule[]> {
-    return Array.from(this.rules.values());
+    const rows = await db.select().from(proxyRules).all();
+    return rows.map(rowToRule);
   }
 
   /**
    * Get proxy rule by ID
    */
   async getRule(id: string): Promise<ProxyRule | null> {
-    return this.rules.get(id) || null;
+    const row = await db.select().from(proxyRules).where(eq(proxyRules.id, id)).get();
+    return row ? rowToRule(row) : null;
+  }
+
+  /**
+   * Get the Nginx upstream an HTTP/HTTPS rule balances traffic across
+   */
+  getRuleUpstream(rule: ProxyRule): ProxyUpstream | null {
+    if (rule.protocol !== ProxyProtocol.HTTP && rule.protocol !== ProxyProtocol.HTTPS) {
+      return null;
+    }
+    return nginxManager.getUpstream(rule);
   }
 
   /**
@@ -178,26 +380,29 @@ export class ProxyService {
         }
       }
       
-      // Save rule to Nginx
-      await nginxManager.createOrUpdateProxyRule(newRule);
+      this.validateStreamSourceHost(newRule);
+      this.validateLoadBalancing(newRule);
       
-      // If domain is specified, generate domain-specific configuration
-      if (newRule.domain) {
-        await nginxConfigService.writeDomainConfig(newRule);
-        await nginxConfigService.reloadNginx();
+      const portConflict = await this.findPortConflict(newRule);
+      if (portConflict) {
+        throw new ProxyPortConflictError(portConflict);
       }
       
-      // Save rule to memory
-      this.rules.set(id, newRule);
+      // Stage, test and apply the Nginx configuration
+      await nginxConfigService.applyConfigChanges(this.getConfigChanges(newRule));
+      
+      // Save rule to database, taking the configuration back out if that fails
+      try {
+        db.insert(proxyRules).values(ruleToRow(newRule)).run();
+      } catch (error) {
+        await this.restoreConfig(null, newRule);
+        throw error;
+      }
       
       // Initialize traffic data and errors
       this.trafficData.set(id, []);
       this.errors.set(id, []);
       
-      // For testing, we'll skip the actual database operation
-      // Just log that we would save to the database
-      console.log(`Would save rule ${newRule.id} to database`);
-      
       this.emit('proxy:rule:created', newRule);
       return newRule;
     } catch (error: any) {
@@ -215,14 +420,16 @@ export class ProxyService {
    * Update a proxy rule
    */
   async updateRule(id: string, updates: Partial<ProxyRule>): Promise<ProxyRule> {
-    const existingRule = this.rules.get(id);
+    const existingRule = await this.getRule(id);
     if (!existingRule) {
       throw new Error(`Proxy rule with ID ${id} not found`);
     }
     
     const updatedRule: ProxyRule = {
       ...existingRule,
-      ...updates
+      ...updates,
+      id,
+      created: existingRule.created
     };
     
     try {
@@ -234,30 +441,27 @@ export class ProxyService {
         }
       }
       
-      // Update rule in Nginx
-      await nginxManager.createOrUpdateProxyRule(updatedRule);
+      this.validateStreamSourceHost(updatedRule);
+      this.validateLoadBalancing(updatedRule);
       
-      // Handle domain configuration updates
-      if (updatedRule.domain) {
-        // If domain changed, delete old domain config if it exists
-        if (existingRule.domain && existingRule.domain !== updatedRule.domain) {
-          await nginxConfigService.deleteDomainConfig(id, existingRule.domain);
-        }
-        
-        // Write new domain config
-        await nginxConfigService.writeDomainConfig(updatedRule);
-        await nginxConfigService.reloadNginx();
-      } else if (existingRule.domain && !updatedRule.domain) {
-        // If domain was removed, delete the domain config
-        await nginxConfigService.deleteDomainConfig(id, existingRule.domain);
-        await nginxConfigService.reloadNginx();
+      const portConflict = await this.findPortConflict(updatedRule);
+      if (portConflict) {
+        throw new ProxyPortConflictError(portConflict);
       }
       
-      // Update rule in memory
-      this.rules.set(id, updatedRule);
+      // Stage, test and apply the Nginx configuration
+      await nginxConfigService.applyConfigChanges(this.getConfigChanges(updatedRule, existingRule));
       
-      // For testing, we'll skip the actual database operation
-      console.log(`Would update rule ${id} in database`);
+      // Update rule in database, putting the previous configuration back if that fails
+      try {
+        db.update(proxyRules)
+          .set(ruleToRow(updatedRule))
+          .where(eq(proxyRules.id, id))
+          .run();
+      } catch (error) {
+        await this.restoreConfig(existingRule, updatedRule);
+        throw error;
+      }
       
       this.emit('proxy:rule:updated', updatedRule);
       return updatedRule;
@@ -276,29 +480,37 @@ export class ProxyService {
    * Delete a proxy rule
    */
   async deleteRule(id: string): Promise<void> {
-    const rule = this.rules.get(id);
+    const rule = await this.getRule(id);
     if (!rule) {
       throw new Error(`Proxy rule with ID ${id} not found`);
     }
     
     try {
-      // Delete rule from Nginx
-      await nginxManager.deleteProxyRule(id);
+      // Delete rule and associated data from database, keeping them to put back
+      // if Nginx cannot stop serving the rule
+      const traffic = db.select().from(proxyTraffic).where(eq(proxyTraffic.ruleId, id)).all();
+      const errors = db.select().from(proxyErrors).where(eq(proxyErrors.ruleId, id)).all();
+      db.transaction((tx) => {
+        tx.delete(proxyTraffic).where(eq(proxyTraffic.ruleId, id)).run();
+        tx.delete(proxyErrors).where(eq(proxyErrors.ruleId, id)).run();
+        tx.delete(proxyRules).where(eq(proxyRules.id, id)).run();
+      });
       
-      // Delete domain configuration if it exists
-      if (rule.domain) {
-        await nginxConfigService.deleteDomainConfig(id, rule.domain);
-        await nginxConfigService.reloadNginx();
+      // Remove the rule's configuration files from Nginx
+      try {
+        await nginxConfigService.applyConfigChanges(this.getConfigChanges(null, rule));
+      } catch (error) {
+        db.transaction((tx) => {
+          tx.insert(proxyRules).values(ruleToRow(rule)).run();
+          traffic.forEach(row => tx.insert(proxyTraffic).values(row).run());
+          errors.forEach(row => tx.insert(proxyErrors).values(row).run());
+        });
+        throw error;
       }
       
-      // Delete rule from memory
-      this.rules.delete(id);
       this.trafficData.delete(id);
       this.errors.delete(id);
       
-      // For testing, we'll skip the actual database operations
-      console.log(`Would delete rule ${id} and associated data from database`);
-      
       this.emit('proxy:rule:deleted', { id });
     } catch (error: any) {
       console.error(`Error deleting proxy rule ${id}:`, error);
@@ -315,7 +527,7 @@ export class ProxyService {
    * Toggle a proxy rule (enable/disable)
    */
   async toggleRule(id: string): Promise<ProxyRule> {
-    const rule = this.rules.get(id);
+    const rule = await this.getRule(id);
     if (!rule) {
       throw new Error(`Proxy rule with ID ${id} not found`);
     }
@@ -326,21 +538,20 @@ export class ProxyService {
     };
     
     try {
-      // Update rule in Nginx
-      await nginxManager.createOrUpdateProxyRule(updatedRule);
+      // Stage, test and apply the Nginx configuration
+      await nginxConfigService.applyConfigChanges(this.getConfigChanges(updatedRule, rule));
       
-      // Update domain configuration if it exists
-      if (updatedRule.domain) {
-        await nginxConfigService.writeDomainConfig(updatedRule);
-        await nginxConfigService.reloadNginx();
+      // Update enabled state in database, putting the previous configuration back if that fails
+      try {
+        db.update(proxyRules)
+          .set({ enabled: updatedRule.enabled })
+          .where(eq(proxyRules.id, id))
+          .run();
+      } catch (error) {
+        await this.restoreConfig(rule, updatedRule);
+        throw error;
       }
       
-      // Update rule in memory
-      this.rules.set(id, updatedRule);
-      
-      // For testing, we'll skip the actual database operation
-      console.log(`Would update rule ${id} enabled state to ${updatedRule.enabled}`);
-      
       this.emit('proxy:rule:toggled', updatedRule);
       return updatedRule;
     } catch (error: any) {
@@ -354,6 +565,39 @@ export class ProxyService {
     }
   }
 
+  /**
+   * Get the port a TCP/UDP rule listens on
+   */
+  private getListenPort(rule: ProxyRule): number {
+    return rule.sourcePort || rule.targetPort;
+  }
+
+  /**
+   * Find a listen port collision between a TCP/UDP rule and the other proxy rules
+   */
+  private async findPortConflict(rule: ProxyRule): Promise<string | null> {
+    if (!rule.enabled || !nginxManager.isStreamProtocol(rule.protocol)) {
+      return null;
+    }
+    
+    const port = this.getListenPort(rule);
+    if (rule.protocol === ProxyProtocol.TCP && RESERVED_HTTP_PORTS.includes(port)) {
+      return `Port ${port}/tcp is reserved for HTTP proxy rules`;
+    }
+    
+    const rules = await this.getRules();
+    const conflict = rules.find(other =>
+      other.id !== rule.id &&
+      other.enabled &&
+      other.protocol === rule.protocol &&
+      this.getListenPort(other) === port
+    );
+    
+    return conflict
+      ? `Port ${port}/${rule.protocol.toLowerCase()} is already used by proxy rule "${conflict.name}"`
+      : null;
+  }
+
   /**
    * Test a proxy rule
    */
@@ -374,6 +618,27 @@ export class ProxyService {
         ...rule
       };
       
+      const portConflict = await this.findPortConflict(testRule);
+      if (portConflict) {
+        return { success: false, message: portConflict };
+      }
+      
+      // Check the listen port is free on the host, unless nginx already holds it for this rule
+      if (nginxManager.isStreamProtocol(testRule.protocol)) {
+        const port = this.getListenPort(testRule);
+        const existingRule = rule.id ? await this.getRule(rule.id) : undefined;
+        const alreadyBound = existingRule?.enabled
+          && existingRule.protocol === testRule.protocol
+          && this.getListenPort(existingRule) === port;
+        
+        if (!alreadyBound && !(await isHostPortAvailable(port, testRule.protocol))) {
+          return {
+            success: false,
+            message: `Port ${port}/${testRule.protocol.toLowerCase()} is already in use on the host`
+          };
+        }
+      }
+      
       // Generate Nginx config but don't apply it
       const configValid = await nginxManager.testConfig();
       
@@ -396,7 +661,7 @@ export class ProxyService {
   async recordTrafficData(data: Omit<ProxyTrafficData, 'id'>): Promise<void> {
     const { ruleId } = data;
     
-    if (!this.rules.has(ruleId)) {
+    if (!(await this.getRule(ruleId))) {
       console.warn(`Attempted to record traffic data for non-existent rule ${ruleId}`);
       return;
     }
@@ -453,7 +718,7 @@ export class ProxyService {
   async recordError(error: Omit<ProxyError, 'id'>): Promise<void> {
     const { ruleId } = error;
     
-    if (!this.rules.has(ruleId)) {
+    if (!(await this.getRule(ruleId))) {
       console.warn(`Attempted to record error for non-existent rule ${ruleId}`);
       return;
     }
@@ -509,6 +774,19 @@ export class ProxyService {
     return filteredErrors;
   }
 
+  /**
+   * Get an error by ID
+   */
+  getError(errorId: string): ProxyError | null {
+    for (const errors of this.errors.values()) {
+      const error = errors.find(e => e.id === errorId);
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  }
+
   /**
    * Mark an error as resolved
    */
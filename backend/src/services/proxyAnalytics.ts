@@ -45,6 +45,16 @@ export class ProxyAnalyticsService {
     this.eventHandlers.get(event)?.push(handler);
   }
 
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
   /**
    * Emit event
    */
@@ -0,0 +1,184 @@
+import { dockerClient, DockerEvent } from '../integrations/docker';
+import { proxyService } from './proxy';
+import { certManagerService } from './certManager';
+import { getLabelProxyRule, hasLabelProxyRuleChanged, keepIssuedCertificate } from '../utils/proxyLabels';
+import { Container, ContainerState, ProxyRule, ProxyProtocol, LetsEncryptStatus } from '../../../shared/src/models';
+
+/**
+ * Service that keeps proxy rules in sync with kontainers.proxy.* container labels
+ */
+export class ProxyDiscoveryService {
+  private stopWatchingEvents: (() => void) | null = null;
+  private pending: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Initialize label discovery: follow container events and reconcile
+   * label-managed rules whenever the events stream (re)connects
+   */
+  async initialize(): Promise<void> {
+    this.stopWatchingEvents?.();
+    this.stopWatchingEvents = dockerClient.watchEvents(
+      (event) => this.handleEvent(event),
+      {
+        filters: { type: ['container'], event: ['start', 'die', 'destroy'] },
+        // Events are lost while the daemon is down, so catch up from the container list
+        onConnect: () => {
+          this.reconcile().catch((error: any) => {
+            console.error('Error reconciling label-managed proxy rules:', error);
+          });
+        }
+      }
+    );
+  }
+
+  /**
+   * Create, update and remove label-managed rules to match all containers
+   */
+  async reconcile(): Promise<void> {
+    const containers = await dockerClient.getContainers(true);
+    const containerIds = new Set(containers.map(container => container.id));
+
+    for (const container of containers) {
+      await this.enqueue(container.id, () => this.syncContainer(container));
+    }
+
+    // Remove rules whose container no longer exists
+    const rules = await proxyService.getRules();
+    for (const rule of rules) {
+      if (rule.managedByContainer && !containerIds.has(rule.managedByContainer)) {
+        await this.enqueue(rule.managedByContainer, () => proxyService.deleteRule(rule.id));
+      }
+    }
+  }
+
+  /**
+   * Handle a container lifecycle event
+   */
+  private handleEvent(event: DockerEvent): void {
+    const containerId = event.Actor.ID;
+
+    switch (event.Action) {
+      case 'start':
+        this.enqueue(containerId, async () => {
+          await this.syncContainer(await dockerClient.getContainer(containerId));
+        });
+        break;
+      case 'die':
+        this.enqueue(containerId, () => this.disableContainerRule(containerId));
+        break;
+      case 'destroy':
+        this.enqueue(containerId, () => this.removeContainerRule(containerId));
+        break;
+    }
+  }
+
+  /**
+   * Run rule changes for a container one at a time, in event order
+   */
+  private enqueue(containerId: string, task: () => Promise<unknown>): Promise<void> {
+    const previous = this.pending.get(containerId) || Promise.resolve();
+    const next = previous
+      .then(task)
+      .then(() => undefined)
+      .catch((error: any) => {
+        console.error(`Error syncing proxy rule for container ${containerId}:`, error);
+      })
+      .finally(() => {
+        if (this.pending.get(containerId) === next) {
+          this.pending.delete(containerId);
+        }
+      });
+
+    this.pending.set(containerId, next);
+    return next;
+  }
+
+  /**
+   * Find the rule managed by a container's labels
+   */
+  private async getContainerRule(containerId: string): Promise<ProxyRule | undefined> {
+    const rules = await proxyService.getRules();
+    return rules.find(rule => rule.managedByContainer === containerId);
+  }
+
+  /**
+   * Create or update the rule declared by a container's labels
+   */
+  private async syncContainer(container: Container): Promise<void> {
+    const labelRule = getLabelProxyRule(container);
+    const existing = await this.getContainerRule(container.id);
+    const enabled = container.state === ContainerState.RUNNING;
+
+    if (!labelRule) {
+      if (existing) {
+        await proxyService.deleteRule(existing.id);
+      }
+      return;
+    }
+
+    const declared = keepIssuedCertificate(labelRule, existing);
+    const sslEnabled = declared.protocol === ProxyProtocol.HTTPS;
+    let rule = existing;
+    if (!existing) {
+      rule = await proxyService.createRule({ ...declared, sslEnabled, enabled });
+    } else if (hasLabelProxyRuleChanged(existing, declared) || existing.enabled !== enabled || existing.sslEnabled !== sslEnabled) {
+      rule = await proxyService.updateRule(existing.id, { ...declared, sslEnabled, enabled });
+    }
+
+    if (rule && enabled && declared.letsEncryptEnabled && !sslEnabled) {
+      await this.issueCertificate(rule);
+    }
+  }
+
+  /**
+   * Request the Let's Encrypt certificate a rule's ssl label asks for and move
+   * the rule to HTTPS once it is issued. Until then the rule serves plain HTTP,
+   * which is also how the certificate authority reaches the ACME challenge.
+   */
+  private async issueCertificate(rule: ProxyRule): Promise<void> {
+    const email = process.env.LETSENCRYPT_EMAIL;
+    if (!email) {
+      console.warn(`Not requesting a certificate for ${rule.domain}: LETSENCRYPT_EMAIL is not set`);
+      return;
+    }
+
+    try {
+      const issued = await certManagerService.applyCertificateToRule(rule, email);
+      await proxyService.updateRule(rule.id, {
+        protocol: ProxyProtocol.HTTPS,
+        sslEnabled: true,
+        sslCertPath: issued.sslCertPath,
+        sslKeyPath: issued.sslKeyPath,
+        letsEncryptEmail: email,
+        letsEncryptStatus: LetsEncryptStatus.VALID,
+        letsEncryptLastRenewal: Date.now()
+      });
+    } catch (error) {
+      await proxyService.updateRule(rule.id, { letsEncryptStatus: LetsEncryptStatus.ERROR });
+      throw error;
+    }
+  }
+
+  /**
+   * Disable the rule of a container that stopped
+   */
+  private async disableContainerRule(containerId: string): Promise<void> {
+    const rule = await this.getContainerRule(containerId);
+    if (rule?.enabled) {
+      await proxyService.updateRule(rule.id, { enabled: false });
+    }
+  }
+
+  /**
+   * Remove the rule of a container that was removed
+   */
+  private async removeContainerRule(containerId: string): Promise<void> {
+    const rule = await this.getContainerRule(containerId);
+    if (rule) {
+      await proxyService.deleteRule(rule.id);
+    }
+  }
+}
+
+// Export a singleton instance
+export const proxyDiscoveryService = new ProxyDiscoveryService();
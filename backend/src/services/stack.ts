@@ -0,0 +1,490 @@
+import crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { stacks } from '../db/schema';
+import { containerService } from './container';
+import { imageService } from './image';
+import { parseCompose, isValidStackName, ComposePlan } from '../utils/compose';
+import {
+  Container,
+  ContainerState,
+  Stack,
+  StackStatus,
+  CreateStackRequest,
+  PROJECT_LABEL,
+  COMPOSE_PROJECT_LABEL,
+  COMPOSE_SERVICE_LABEL,
+  COMPOSE_NETWORK_LABEL,
+  COMPOSE_VOLUME_LABEL
+} from '../../../shared/src/models';
+
+type StackRow = typeof stacks.$inferSelect;
+
+/**
+ * Error raised for a stack operation that cannot be carried out, with the HTTP status to answer with
+ */
+export class StackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'StackError';
+  }
+}
+
+/**
+ * Service for deploying and managing compose stacks
+ */
+export class StackService {
+  private busy: Set<string> = new Set();
+  private eventHandlers: Map<string, Function[]> = new Map();
+
+  /**
+   * Register event handler
+   */
+  on(event: string, handler: Function): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)?.push(handler);
+  }
+
+  /**
+   * Unregister event handler
+   */
+  off(event: string, handler: Function): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      this.eventHandlers.set(event, handlers.filter(h => h !== handler));
+    }
+  }
+
+  /**
+   * Emit event
+   */
+  private emit(event: string, data: any): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => handler(data));
+    }
+  }
+
+  /**
+   * Get all stacks with their member containers
+   */
+  async getStacks(): Promise<Stack[]> {
+    const [rows, containers] = await Promise.all([
+      db.select().from(stacks).all(),
+      containerService.getContainers()
+    ]);
+    return rows
+      .map(row => this.toStack(row, containers))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a stack by ID
+   */
+  async getStack(id: string): Promise<Stack | null> {
+    const row = await db.select().from(stacks).where(eq(stacks.id, id)).get();
+    return row ? this.toStack(row, await containerService.getContainers()) : null;
+  }
+
+  /**
+   * Save a new stack. Returns the parts of the compose file that will be ignored.
+   */
+  async createStack(data: CreateStackRequest): Promise<{ stack: Stack; warnings: string[] }> {
+    const name = data.name.trim();
+    if (!isValidStackName(name)) {
+      throw new StackError('Stack names may only contain lowercase letters, digits, dashes and underscores', 400);
+    }
+    if (await db.select().from(stacks).where(eq(stacks.name, name)).get()) {
+      throw new StackError(`A stack named ${name} already exists`, 409);
+    }
+    const projectId = data.projectId || null;
+    if (await this.isComposeProjectTaken(name, projectId)) {
+      throw new StackError(`Containers, networks or volumes of another compose project named ${name} already exist`, 409);
+    }
+    const { warnings } = this.parseFile(data.compose, name);
+
+    const now = new Date().toISOString();
+    const row: StackRow = {
+      id: crypto.randomUUID(),
+      name,
+      projectId,
+      compose: data.compose,
+      createdAt: now,
+      updatedAt: now,
+      deployedAt: null
+    };
+    await db.insert(stacks).values(row);
+    this.emit('stack:created', { id: row.id, name });
+
+    if (data.deploy) {
+      return { stack: await this.up(row.id), warnings };
+    }
+    return { stack: this.toStack(row, []), warnings };
+  }
+
+  /**
+   * Replace a stack's compose file. Running containers keep their old
+   * definition until the stack is redeployed.
+   */
+  async updateStack(id: string, compose: string): Promise<{ stack: Stack; warnings: string[] }> {
+    const row = await this.getRow(id);
+    const { warnings } = this.parseFile(compose, row.name);
+
+    const updatedAt = new Date().toISOString();
+    await db.update(stacks).set({ compose, updatedAt }).where(eq(stacks.id, id));
+    this.emit('stack:updated', { id, name: row.name });
+
+    return { stack: this.toStack({ ...row, compose, updatedAt }, await containerService.getContainers()), warnings };
+  }
+
+  /**
+   * Take a stack down and forget it. Named volumes are kept unless asked otherwise.
+   */
+  async deleteStack(id: string, removeVolumes: boolean = false): Promise<void> {
+    const row = await this.getRow(id);
+    await this.exclusive(id, async () => {
+      await this.takeDown(row, removeVolumes);
+      await db.delete(stacks).where(eq(stacks.id, id));
+    });
+    this.emit('stack:deleted', { id, name: row.name });
+  }
+
+  /**
+   * Create whatever is missing of a stack and start its containers, dependencies
+   * first. Images that are not on the host are pulled; pull refreshes them all.
+   */
+  async up(id: string, pull: boolean = false): Promise<Stack> {
+    const row = await this.getRow(id);
+    await this.exclusive(id, () => this.bringUp(row, pull));
+    this.emit('stack:up', { id, name: row.name });
+    return (await this.getStack(id))!;
+  }
+
+  /**
+   * Stop and remove a stack's containers and the networks it created
+   */
+  async down(id: string, removeVolumes: boolean = false): Promise<Stack> {
+    const row = await this.getRow(id);
+    await this.exclusive(id, () => this.takeDown(row, removeVolumes));
+    this.emit('stack:down', { id, name: row.name });
+    return (await this.getStack(id))!;
+  }
+
+  /**
+   * Restart a stack's containers, dependencies first
+   */
+  async restart(id: string): Promise<Stack> {
+    const row = await this.getRow(id);
+    await this.exclusive(id, async () => {
+      const members = this.getMembers(row, await containerService.getContainers());
+      if (members.length === 0) {
+        throw new StackError(`Stack ${row.name} is not deployed`, 409);
+      }
+
+      const plan = this.parseFile(row.compose, row.name);
+      for (const container of this.inServiceOrder(members, plan)) {
+        await containerService.restartContainer(container.id);
+      }
+    });
+    this.emit('stack:restarted', { id, name: row.name });
+    return (await this.getStack(id))!;
+  }
+
+  /**
+   * Recreate every container of a stack from its current compose file.
+   * Networks and volumes are kept, and the old containers are only removed
+   * once the file is valid and everything the new ones need is in place.
+   */
+  async redeploy(id: string, pull: boolean = false): Promise<Stack> {
+    const row = await this.getRow(id);
+    await this.exclusive(id, async () => {
+      const plan = await this.prepare(row, pull);
+      await this.removeContainers(row);
+      await this.startServices(row, plan);
+    });
+    this.emit('stack:redeployed', { id, name: row.name });
+    return (await this.getStack(id))!;
+  }
+
+  /**
+   * Create a stack's networks, volumes and containers and start the containers
+   */
+  private async bringUp(row: StackRow, pull: boolean): Promise<void> {
+    await this.startServices(row, await this.prepare(row, pull));
+  }
+
+  /**
+   * Parse a stack's file, create its missing networks and volumes and get its
+   * images, so that its containers can be created
+   */
+  private async prepare(row: StackRow, pull: boolean): Promise<ComposePlan> {
+    const plan = this.parseFile(row.compose, row.name);
+    await this.createNetworks(row, plan);
+    await this.createVolumes(row, plan);
+
+    const images = Array.from(new Set(plan.services.map(service => service.image)));
+    for (const image of images) {
+      if (pull || !await imageService.imageExists(image)) {
+        await imageService.pullImage(image);
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * Create the containers of a stack's services that do not exist yet and
+   * start them all, dependencies first
+   */
+  private async startServices(row: StackRow, plan: ComposePlan): Promise<void> {
+    const members = this.getMembers(row, await containerService.getContainers());
+    for (const service of plan.services) {
+      const existing = members.find(container => container.labels?.[COMPOSE_SERVICE_LABEL] === service.name);
+      if (existing) {
+        if (existing.state !== ContainerState.RUNNING) {
+          await containerService.startContainer(existing.id);
+        }
+        continue;
+      }
+
+      const labels = this.getResourceLabels(row, service.labels, { [COMPOSE_SERVICE_LABEL]: service.name });
+      const container = await containerService.createContainer({
+        name: service.containerName,
+        image: service.image,
+        command: service.command,
+        ports: service.ports,
+        volumes: service.volumes,
+        env: service.env,
+        labels,
+        networks: service.networks,
+        networkAliases: service.aliases
+      });
+      await containerService.startContainer(container.id);
+    }
+
+    await db.update(stacks).set({ deployedAt: new Date().toISOString() }).where(eq(stacks.id, row.id));
+  }
+
+  /**
+   * Remove a stack's containers and networks, and optionally its volumes
+   */
+  private async takeDown(row: StackRow, removeVolumes: boolean): Promise<void> {
+    await this.removeContainers(row);
+
+    const networks = await containerService.getNetworks();
+    for (const network of networks.filter(network => this.isStackResource(row, network.labels))) {
+      await containerService.removeNetwork(network.id);
+    }
+
+    if (removeVolumes) {
+      const volumes = await containerService.getVolumes();
+      for (const volume of volumes.filter(volume => this.isStackResource(row, volume.labels))) {
+        await containerService.removeVolume(volume.name);
+      }
+    }
+  }
+
+  /**
+   * Stop and remove a stack's containers, dependents first
+   */
+  private async removeContainers(row: StackRow): Promise<void> {
+    const members = this.getMembers(row, await containerService.getContainers());
+    let ordered = members;
+    try {
+      ordered = this.inServiceOrder(members, parseCompose(row.compose, row.name)).reverse();
+    } catch (error) {
+      // Containers of a stack whose file no longer parses are still removed
+    }
+
+    for (const container of ordered) {
+      await containerService.removeContainer(container.id, true);
+    }
+  }
+
+  /**
+   * Create the stack's networks that do not exist yet
+   */
+  private async createNetworks(row: StackRow, plan: ComposePlan): Promise<void> {
+    const existing = new Set((await containerService.getNetworks()).map(network => network.name));
+    for (const network of plan.networks) {
+      if (existing.has(network.name)) {
+        continue;
+      }
+      if (network.external) {
+        throw new StackError(`External network ${network.name} does not exist`, 400);
+      }
+      await containerService.createNetwork({
+        name: network.name,
+        driver: network.driver,
+        internal: network.internal,
+        attachable: network.attachable,
+        subnet: network.subnet,
+        gateway: network.gateway,
+        options: network.options,
+        labels: this.getResourceLabels(row, network.labels, { [COMPOSE_NETWORK_LABEL]: network.key })
+      });
+    }
+  }
+
+  /**
+   * Create the stack's named volumes that do not exist yet
+   */
+  private async createVolumes(row: StackRow, plan: ComposePlan): Promise<void> {
+    const existing = new Set((await containerService.getVolumes()).map(volume => volume.name));
+    for (const volume of plan.volumes) {
+      if (existing.has(volume.name)) {
+        continue;
+      }
+      if (volume.external) {
+        throw new StackError(`External volume ${volume.name} does not exist`, 400);
+      }
+      await containerService.createVolume({
+        name: volume.name,
+        driver: volume.driver,
+        driverOpts: volume.driverOpts,
+        labels: this.getResourceLabels(row, volume.labels, { [COMPOSE_VOLUME_LABEL]: volume.key })
+      });
+    }
+  }
+
+  /**
+   * Build the labels of a container, network or volume the stack creates
+   */
+  private getResourceLabels(
+    row: StackRow,
+    declared: Record<string, string> | undefined,
+    compose: Record<string, string>
+  ): Record<string, string> {
+    const labels: Record<string, string> = { ...declared, [COMPOSE_PROJECT_LABEL]: row.name, ...compose };
+    // The project label is only set from the stack, so a compose file cannot name another project
+    delete labels[PROJECT_LABEL];
+    if (row.projectId) {
+      labels[PROJECT_LABEL] = row.projectId;
+    }
+    return labels;
+  }
+
+  /**
+   * Run an operation on a stack, refusing to start another on it meanwhile
+   */
+  private async exclusive<T>(id: string, operation: () => Promise<T>): Promise<T> {
+    if (this.busy.has(id)) {
+      throw new StackError('Another operation is already running on this stack', 409);
+    }
+    this.busy.add(id);
+    try {
+      return await operation();
+    } finally {
+      this.busy.delete(id);
+    }
+  }
+
+  /**
+   * Get a stack's row, failing if it does not exist
+   */
+  private async getRow(id: string): Promise<StackRow> {
+    const row = await db.select().from(stacks).where(eq(stacks.id, id)).get();
+    if (!row) {
+      throw new StackError('Stack not found', 404);
+    }
+    return row;
+  }
+
+  /**
+   * Parse a stack's compose file, refusing it as bad input if it is invalid
+   */
+  private parseFile(compose: string, name: string): ComposePlan {
+    try {
+      return parseCompose(compose, name);
+    } catch (error: any) {
+      throw new StackError(error.message, 400);
+    }
+  }
+
+  /**
+   * Get the containers deployed from a stack
+   */
+  private getMembers(row: StackRow, containers: Container[]): Container[] {
+    return containers.filter(container => this.isStackResource(row, container.labels));
+  }
+
+  /**
+   * Check whether a container, network or volume belongs to a stack: it carries
+   * the stack's compose project name and is in the stack's project. A compose
+   * project of the same name in another project is left alone.
+   */
+  private isStackResource(row: StackRow, labels: Record<string, string> | undefined): boolean {
+    return labels?.[COMPOSE_PROJECT_LABEL] === row.name && (labels[PROJECT_LABEL] || null) === row.projectId;
+  }
+
+  /**
+   * Check whether something on the host already carries a compose project name
+   * and could not have come from a stack of that name in the same project, such
+   * as volumes kept when such a stack was deleted
+   */
+  private async isComposeProjectTaken(name: string, projectId: string | null): Promise<boolean> {
+    const [containers, networks, volumes] = await Promise.all([
+      containerService.getContainers(),
+      containerService.getNetworks(),
+      containerService.getVolumes()
+    ]);
+    return [...containers, ...networks, ...volumes].some(resource =>
+      resource.labels?.[COMPOSE_PROJECT_LABEL] === name && (!projectId || resource.labels[PROJECT_LABEL] !== projectId)
+    );
+  }
+
+  /**
+   * Sort containers in the order their services start in
+   */
+  private inServiceOrder(containers: Container[], plan: ComposePlan): Container[] {
+    const order = plan.services.map(service => service.name);
+    const position = (container: Container) => {
+      const index = order.indexOf(container.labels?.[COMPOSE_SERVICE_LABEL] || '');
+      return index === -1 ? order.length : index;
+    };
+    return [...containers].sort((a, b) => position(a) - position(b));
+  }
+
+  /**
+   * Map a row and the host's containers to a Stack
+   */
+  private toStack(row: StackRow, containers: Container[]): Stack {
+    let services: string[] = [];
+    try {
+      services = parseCompose(row.compose, row.name).services.map(service => service.name);
+    } catch (error) {
+      // Files are checked when saved; list the stack even if that has since changed
+    }
+
+    const members = this.getMembers(row, containers);
+    const running = new Set(members
+      .filter(container => container.state === ContainerState.RUNNING)
+      .map(container => container.labels?.[COMPOSE_SERVICE_LABEL]));
+
+    let status = StackStatus.STOPPED;
+    if (members.length === 0) {
+      status = StackStatus.DOWN;
+    } else if (services.length > 0 && services.every(service => running.has(service))) {
+      status = StackStatus.RUNNING;
+    } else if (running.size > 0) {
+      status = StackStatus.PARTIAL;
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      compose: row.compose,
+      services,
+      status,
+      containers: members,
+      projectId: row.projectId || undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      deployedAt: row.deployedAt || undefined
+    };
+  }
+}
+
+// Export a singleton instance
+export const stackService = new StackService();
@@ -0,0 +1,336 @@
+/**
+ * Tar and zip handling for container file transfers
+ * Docker's archive API reads and writes tar streams. These helpers read such
+ * a stream entry by entry, build the small archives uploads are sent in, and
+ * repackage downloads as zip files.
+ */
+
+import zlib from 'zlib';
+
+const BLOCK_SIZE = 512;
+// Bytes a name may take in a tar header; longer names need extensions createTar does not write
+export const MAX_TAR_NAME_LENGTH = 100;
+
+/**
+ * An entry of a tar archive
+ */
+export interface TarEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  mode: number;
+  mtime: number; // Seconds since the epoch
+  linkName?: string;
+}
+
+/**
+ * A file to put in an archive
+ */
+export interface ArchiveFile {
+  name: string;
+  data: Buffer;
+  mode?: number;
+  mtime?: number; // Seconds since the epoch
+  directory?: boolean;
+}
+
+/**
+ * Read the entries of a tar stream. File contents are only kept when asked
+ * for; otherwise they are skipped as they stream past.
+ */
+export async function* readTar(
+  source: AsyncIterable<Buffer | Uint8Array> | Iterable<Buffer | Uint8Array>,
+  withData: boolean = false
+): AsyncGenerator<{ entry: TarEntry; data?: Buffer }> {
+  let buffer = Buffer.alloc(0);
+  let current: { entry: TarEntry; flag: string } | null = null;
+  let remaining = 0;
+  let padding = 0;
+  let chunks: Buffer[] = [];
+  // Names and link targets too long for the header come in an entry of their own first
+  let override: { path?: string; linkpath?: string } = {};
+
+  for await (const chunk of source) {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : Buffer.from(chunk);
+
+    while (true) {
+      if (current) {
+        const isMeta = ['x', 'g', 'L', 'K'].includes(current.flag);
+        const take = Math.min(remaining, buffer.length);
+        if ((withData || isMeta) && take > 0) {
+          chunks.push(buffer.subarray(0, take));
+        }
+        buffer = buffer.subarray(take);
+        remaining -= take;
+        const skip = Math.min(padding, buffer.length);
+        buffer = buffer.subarray(skip);
+        padding -= skip;
+        if (remaining > 0 || padding > 0) {
+          break;
+        }
+
+        const data = Buffer.concat(chunks);
+        chunks = [];
+        const { entry, flag } = current;
+        current = null;
+
+        if (flag === 'x') {
+          override = { ...override, ...parsePaxHeaders(data) };
+        } else if (flag === 'L') {
+          override.path = data.toString('utf8').replace(/\0+$/, '');
+        } else if (flag === 'K') {
+          override.linkpath = data.toString('utf8').replace(/\0+$/, '');
+        } else if (flag !== 'g') {
+          yield withData && entry.type === 'file' ? { entry, data } : { entry };
+        }
+        continue;
+      }
+
+      if (buffer.length < BLOCK_SIZE) {
+        break;
+      }
+      const header = buffer.subarray(0, BLOCK_SIZE);
+      buffer = buffer.subarray(BLOCK_SIZE);
+      // The archive ends with empty blocks
+      if (header.every(byte => byte === 0)) {
+        continue;
+      }
+
+      const { entry, flag } = parseHeader(header);
+      if (override.path) {
+        entry.name = override.path;
+      }
+      if (override.linkpath) {
+        entry.linkName = override.linkpath;
+      }
+      if (!['x', 'g', 'L', 'K'].includes(flag)) {
+        override = {};
+      }
+
+      current = { entry, flag };
+      remaining = entry.size;
+      padding = (BLOCK_SIZE - (entry.size % BLOCK_SIZE)) % BLOCK_SIZE;
+    }
+  }
+}
+
+/**
+ * Build a tar archive of files
+ */
+export function createTar(files: ArchiveFile[]): Buffer {
+  const blocks: Buffer[] = [];
+  files.forEach(file => {
+    const name = Buffer.from(file.directory ? `${file.name.replace(/\/$/, '')}/` : file.name, 'utf8');
+    if (name.length > MAX_TAR_NAME_LENGTH) {
+      throw new Error(`File name is too long: ${file.name}`);
+    }
+    const size = file.directory ? 0 : file.data.length;
+
+    const header = Buffer.alloc(BLOCK_SIZE);
+    name.copy(header, 0);
+    writeOctal(header, 100, 8, file.mode ?? (file.directory ? 0o755 : 0o644));
+    writeOctal(header, 108, 8, 0);
+    writeOctal(header, 116, 8, 0);
+    writeOctal(header, 124, 12, size);
+    writeOctal(header, 136, 12, file.mtime ?? Math.floor(Date.now() / 1000));
+    header.write(file.directory ? '5' : '0', 156, 'ascii');
+    header.write('ustar\0', 257, 'ascii');
+    header.write('00', 263, 'ascii');
+
+    // The checksum is taken with its own field filled with spaces
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+
+    blocks.push(header);
+    if (size > 0) {
+      blocks.push(file.data, Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE));
+    }
+  });
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Build a zip archive of files, compressing each one
+ */
+export function createZip(files: ArchiveFile[]): Buffer {
+  // Without the zip64 extensions the file count is a 16-bit field
+  if (files.length > 0xffff) {
+    throw new Error('Too many files for a zip archive; download a tar archive instead');
+  }
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = Buffer.from(file.directory ? `${file.name.replace(/\/$/, '')}/` : file.name, 'utf8');
+    const data = file.directory ? Buffer.alloc(0) : file.data;
+    const compressed = data.length > 0 ? zlib.deflateRawSync(data) : data;
+    const method = data.length > 0 ? 8 : 0;
+    const crc = crc32(data);
+    const { time, date } = toDosTime(file.mtime ?? Math.floor(Date.now() / 1000));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, compressed);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(0x0314, 4); // Made by Unix, so the mode below is used
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    const mode = (file.directory ? 0o040000 : 0o100000) | (file.mode ?? (file.directory ? 0o755 : 0o644));
+    entry.writeUInt32LE(((mode << 16) | (file.directory ? 0x10 : 0)) >>> 0, 38);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...central, end]);
+}
+
+/**
+ * Parse a tar header block
+ */
+function parseHeader(header: Buffer): { entry: TarEntry; flag: string } {
+  const flag = String.fromCharCode(header[156] || 0x30);
+  let name = readString(header, 0, 100);
+  // ustar splits long names into a prefix and a name
+  if (header.toString('ascii', 257, 262) === 'ustar') {
+    const prefix = readString(header, 345, 155);
+    if (prefix) {
+      name = `${prefix}/${name}`;
+    }
+  }
+
+  let type: TarEntry['type'] = 'other';
+  if (flag === '0' || flag === '7') {
+    type = 'file';
+  } else if (flag === '5') {
+    type = 'directory';
+  } else if (flag === '2') {
+    type = 'symlink';
+  }
+
+  return {
+    flag,
+    entry: {
+      name,
+      type,
+      size: readNumber(header, 124, 12),
+      mode: readNumber(header, 100, 8) & 0o7777,
+      mtime: readNumber(header, 136, 12),
+      linkName: readString(header, 157, 100) || undefined
+    }
+  };
+}
+
+/**
+ * Parse the `length key=value` records of a PAX extended header
+ */
+function parsePaxHeaders(data: Buffer): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    const length = parseInt(data.toString('ascii', position, space), 10);
+    if (space === -1 || !length) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, position + length - 1);
+    const separator = record.indexOf('=');
+    headers[record.slice(0, separator)] = record.slice(separator + 1);
+    position += length;
+  }
+  return headers;
+}
+
+/**
+ * Read a NUL-terminated header field
+ */
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+}
+
+/**
+ * Read a numeric header field, which is octal, or base-256 for large values
+ */
+function readNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = 0;
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + header[i];
+    }
+    return value;
+  }
+  const field = readString(header, offset, length).trim();
+  return field ? parseInt(field, 8) : 0;
+}
+
+/**
+ * Write an octal header field
+ */
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, 'ascii');
+}
+
+/**
+ * Convert a Unix time to the MS-DOS time and date zip files use
+ */
+function toDosTime(seconds: number): { time: number; date: number } {
+  const date = new Date(seconds * 1000);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+let crcTable: number[] | null = null;
+
+/**
+ * Compute the CRC-32 checksum zip files use
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
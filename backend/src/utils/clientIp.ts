@@ -0,0 +1,74 @@
+/**
+ * Resolving the real client address of a request that may have passed through
+ * reverse proxies, trusting forwarded headers only from known proxies
+ */
+
+import net from 'net';
+
+/**
+ * Normalize an address: strip IPv4-mapped IPv6 prefixes and zone IDs
+ */
+export function normalizeIp(ip: string): string {
+  const trimmed = ip.trim().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  return /^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(trimmed) ? trimmed.substring(7) : trimmed;
+}
+
+/**
+ * Build a matcher from CIDRs such as "10.0.0.0/8" or "fd00::/8"; bare addresses match exactly.
+ * Throws on invalid entries.
+ */
+export function createCidrMatcher(cidrs: string[]): (ip: string) => boolean {
+  const blockList = new net.BlockList();
+
+  for (const cidr of cidrs.filter(entry => entry.trim())) {
+    const [address, prefix] = cidr.trim().split('/');
+    const family = net.isIP(address);
+    if (!family) {
+      throw new Error(`Invalid trusted proxy "${cidr}"`);
+    }
+
+    const type = family === 4 ? 'ipv4' : 'ipv6';
+    const maxPrefix = family === 4 ? 32 : 128;
+    const bits = prefix === undefined ? maxPrefix : parseInt(prefix, 10);
+    if (isNaN(bits) || bits < 0 || bits > maxPrefix) {
+      throw new Error(`Invalid trusted proxy "${cidr}"`);
+    }
+    blockList.addSubnet(address, bits, type);
+  }
+
+  return (ip: string) => {
+    const address = normalizeIp(ip);
+    const family = net.isIP(address);
+    return family !== 0 && blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  };
+}
+
+/**
+ * Find the client address: the connecting address, unless it is a trusted proxy,
+ * in which case X-Forwarded-For is walked from the right past any further trusted proxies
+ */
+export function resolveClientIp(
+  remoteAddress: string | undefined,
+  forwardedFor: string | null,
+  isTrustedProxy: (ip: string) => boolean
+): string | undefined {
+  if (!remoteAddress) {
+    return undefined;
+  }
+
+  let clientIp = normalizeIp(remoteAddress);
+  if (!forwardedFor) {
+    return clientIp;
+  }
+
+  const hops = forwardedFor.split(',').map(normalizeIp).filter(Boolean);
+  while (isTrustedProxy(clientIp) && hops.length > 0) {
+    const hop = hops.pop()!;
+    if (!net.isIP(hop)) {
+      break;
+    }
+    clientIp = hop;
+  }
+
+  return clientIp;
+}
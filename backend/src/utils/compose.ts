@@ -0,0 +1,442 @@
+/**
+ * Compose file parsing
+ * Turns a compose v3 file into the networks, volumes and containers a stack
+ * needs, named the way docker compose names them: networks and volumes are
+ * prefixed with the stack name ("shop_default") and containers are called
+ * "<stack>-<service>-1" unless they set container_name.
+ */
+
+import { parse } from 'yaml';
+import { PROJECT_LABEL } from '../../../shared/src/models';
+
+// Labels docker compose uses to group what it creates, and stacks use to find their resources
+const COMPOSE_LABEL_PREFIX = 'com.docker.compose.';
+
+export interface ComposeNetwork {
+  key: string; // Name in the compose file
+  name: string; // Docker network name
+  external: boolean; // Created outside the stack; never created or removed by it
+  driver?: string;
+  internal?: boolean;
+  attachable?: boolean;
+  subnet?: string;
+  gateway?: string;
+  options?: Record<string, string>;
+  labels?: Record<string, string>;
+}
+
+export interface ComposeVolume {
+  key: string;
+  name: string;
+  external: boolean;
+  driver?: string;
+  driverOpts?: Record<string, string>;
+  labels?: Record<string, string>;
+}
+
+export interface ComposeService {
+  name: string;
+  containerName: string;
+  image: string;
+  command?: string[];
+  env: string[];
+  ports: { internal: number; external?: number; protocol: string }[];
+  volumes: { source: string; destination: string; mode: string }[];
+  networks: string[]; // Docker network names, or a network_mode such as host
+  aliases: string[]; // Names other services reach this one by
+  dependsOn: string[];
+  labels: Record<string, string>;
+}
+
+export interface ComposePlan {
+  services: ComposeService[]; // Dependencies first
+  networks: ComposeNetwork[];
+  volumes: ComposeVolume[];
+  warnings: string[]; // Parts of the file that were ignored
+}
+
+// Compose project names: lowercase letters, digits, dashes and underscores
+const STACK_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const TOP_LEVEL_KEYS = ['version', 'name', 'services', 'networks', 'volumes'];
+const SERVICE_KEYS = [
+  'image', 'container_name', 'command', 'environment', 'ports', 'volumes',
+  'networks', 'network_mode', 'depends_on', 'labels'
+];
+
+/**
+ * Check whether a name can be used as a stack (compose project) name
+ */
+export function isValidStackName(name: string): boolean {
+  return STACK_NAME_PATTERN.test(name);
+}
+
+/**
+ * Parse a compose file into what has to be created for a stack.
+ * Throws on YAML errors and on anything that cannot be deployed as written.
+ */
+export function parseCompose(source: string, stackName: string): ComposePlan {
+  let document: any;
+  try {
+    document = parse(source);
+  } catch (error: any) {
+    throw new Error(`Invalid compose file: ${error.message}`);
+  }
+  if (!isObject(document) || !isObject(document.services) || Object.keys(document.services).length === 0) {
+    throw new Error('Invalid compose file: no services defined');
+  }
+
+  const warnings: string[] = [];
+  Object.keys(document)
+    .filter(key => !TOP_LEVEL_KEYS.includes(key) && !key.startsWith('x-'))
+    .forEach(key => warnings.push(`Top-level ${key} is not supported and was ignored`));
+  if (source.includes('${')) {
+    warnings.push('Variables such as ${NAME} are not substituted');
+  }
+
+  const networks = parseNetworks(document.networks, stackName);
+  const volumes = parseVolumes(document.volumes, stackName);
+  const services = Object.entries(document.services).map(([name, definition]) =>
+    parseService(name, definition, stackName, networks, volumes, warnings)
+  );
+
+  services.forEach(service => {
+    const missing = service.dependsOn.find(dependency => !services.some(other => other.name === dependency));
+    if (missing) {
+      throw new Error(`Service ${service.name} depends on undefined service ${missing}`);
+    }
+  });
+
+  // Services without networks join the stack's default network
+  const usedNetworks = new Set(services.flatMap(service => service.networks));
+  return {
+    services: orderServices(services),
+    networks: networks.filter(network => usedNetworks.has(network.name)),
+    volumes,
+    warnings
+  };
+}
+
+/**
+ * Sort services so that each comes after the services it depends on
+ */
+export function orderServices<T extends { name: string; dependsOn: string[] }>(services: T[]): T[] {
+  const byName = new Map(services.map(service => [service.name, service]));
+  const ordered: T[] = [];
+  const visiting: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (service: T) => {
+    if (visited.has(service.name)) {
+      return;
+    }
+    if (visiting.includes(service.name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(service.name)), service.name];
+      throw new Error(`Circular dependency between services: ${cycle.join(' -> ')}`);
+    }
+
+    visiting.push(service.name);
+    service.dependsOn.forEach(dependency => {
+      const other = byName.get(dependency);
+      if (other) {
+        visit(other);
+      }
+    });
+    visiting.pop();
+
+    visited.add(service.name);
+    ordered.push(service);
+  };
+
+  services.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Split a command string into arguments the way a shell would, honouring quotes
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inArgument = false;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      inArgument = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      inArgument = true;
+    } else if (/\s/.test(char)) {
+      if (inArgument) {
+        args.push(current);
+        current = '';
+        inArgument = false;
+      }
+    } else {
+      current += char;
+      inArgument = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated quote in command: ${command}`);
+  }
+  if (inArgument) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Parse the top-level networks, adding the default network every stack has
+ */
+function parseNetworks(definitions: unknown, stackName: string): ComposeNetwork[] {
+  const entries = Object.entries(isObject(definitions) ? definitions : {});
+  if (!entries.some(([key]) => key === 'default')) {
+    entries.push(['default', null]);
+  }
+
+  return entries.map(([key, value]) => {
+    const definition = isObject(value) ? value : {};
+    const external = Boolean(definition.external);
+    const ipam = Array.isArray(definition.ipam?.config) ? definition.ipam.config[0] : undefined;
+    return {
+      key,
+      name: definition.name || (external ? key : `${stackName}_${key}`),
+      external,
+      driver: definition.driver,
+      internal: definition.internal,
+      attachable: definition.attachable,
+      subnet: ipam?.subnet,
+      gateway: ipam?.gateway,
+      options: toStringRecord(definition.driver_opts),
+      labels: toLabels(definition.labels)
+    };
+  });
+}
+
+/**
+ * Parse the top-level named volumes
+ */
+function parseVolumes(definitions: unknown, stackName: string): ComposeVolume[] {
+  return Object.entries(isObject(definitions) ? definitions : {}).map(([key, value]) => {
+    const definition = isObject(value) ? value : {};
+    const external = Boolean(definition.external);
+    return {
+      key,
+      name: definition.name || (external ? key : `${stackName}_${key}`),
+      external,
+      driver: definition.driver,
+      driverOpts: toStringRecord(definition.driver_opts),
+      labels: toLabels(definition.labels)
+    };
+  });
+}
+
+/**
+ * Parse one service definition
+ */
+function parseService(
+  name: string,
+  value: unknown,
+  stackName: string,
+  networks: ComposeNetwork[],
+  volumes: ComposeVolume[],
+  warnings: string[]
+): ComposeService {
+  if (!isObject(value)) {
+    throw new Error(`Service ${name} must be a mapping`);
+  }
+  if (!value.image) {
+    throw new Error(value.build
+      ? `Service ${name}: building images is not supported; set image instead`
+      : `Service ${name} has no image`);
+  }
+  Object.keys(value)
+    .filter(key => !SERVICE_KEYS.includes(key) && !key.startsWith('x-'))
+    .forEach(key => warnings.push(`Service ${name}: ${key} is not supported and was ignored`));
+
+  const networkMode: string | undefined = value.network_mode;
+  const networkKeys: string[] = Array.isArray(value.networks)
+    ? value.networks
+    : Object.keys(isObject(value.networks) ? value.networks : {});
+  if (networkMode && networkKeys.length > 0) {
+    throw new Error(`Service ${name}: network_mode cannot be combined with networks`);
+  }
+  if (networkMode?.startsWith('service:')) {
+    throw new Error(`Service ${name}: network_mode ${networkMode} is not supported`);
+  }
+
+  return {
+    name,
+    containerName: value.container_name || `${stackName}-${name}-1`,
+    image: String(value.image),
+    command: value.command === undefined
+      ? undefined
+      : Array.isArray(value.command) ? value.command.map(String) : splitCommand(String(value.command)),
+    env: toEnvironment(value.environment),
+    ports: (Array.isArray(value.ports) ? value.ports : []).map((port: unknown) => parsePort(name, port)),
+    volumes: (Array.isArray(value.volumes) ? value.volumes : []).map((volume: unknown) =>
+      parseVolumeMount(name, volume, volumes)
+    ),
+    networks: networkMode
+      ? [networkMode]
+      : (networkKeys.length > 0 ? networkKeys : ['default']).map(key => {
+          const network = networks.find(candidate => candidate.key === key);
+          if (!network) {
+            throw new Error(`Service ${name} uses undefined network ${key}`);
+          }
+          return network.name;
+        }),
+    aliases: networkMode ? [] : [name],
+    dependsOn: Array.isArray(value.depends_on)
+      ? value.depends_on.map(String)
+      : Object.keys(isObject(value.depends_on) ? value.depends_on : {}),
+    labels: toLabels(value.labels) || {}
+  };
+}
+
+/**
+ * Parse a port mapping: "80", "8080:80", "8080:80/udp" or { target, published, protocol }
+ */
+function parsePort(service: string, port: unknown): ComposeService['ports'][number] {
+  if (isObject(port)) {
+    if (port.host_ip) {
+      throw new Error(`Service ${service}: binding ports to a host address is not supported`);
+    }
+    return {
+      internal: toPortNumber(service, port.target),
+      external: port.published === undefined ? undefined : toPortNumber(service, port.published),
+      protocol: port.protocol || 'tcp'
+    };
+  }
+
+  const [mapping, protocol = 'tcp'] = String(port).split('/');
+  const parts = mapping.split(':');
+  if (parts.length > 2) {
+    throw new Error(`Service ${service}: binding ports to a host address is not supported (${port})`);
+  }
+  const [external, internal] = parts.length === 2 ? parts : [undefined, parts[0]];
+  return {
+    internal: toPortNumber(service, internal),
+    external: external ? toPortNumber(service, external) : undefined,
+    protocol
+  };
+}
+
+/**
+ * Parse a volume mount: "data:/var/lib/data:ro", "/host/path:/path" or the long syntax
+ */
+function parseVolumeMount(
+  service: string,
+  mount: unknown,
+  volumes: ComposeVolume[]
+): ComposeService['volumes'][number] {
+  let source: string | undefined;
+  let destination: string | undefined;
+  let mode = 'rw';
+
+  if (isObject(mount)) {
+    source = mount.source;
+    destination = mount.target;
+    mode = mount.read_only ? 'ro' : 'rw';
+  } else {
+    [source, destination, mode = 'rw'] = String(mount).split(':');
+    if (destination === undefined) {
+      destination = source;
+      source = undefined;
+    }
+  }
+
+  if (!destination) {
+    throw new Error(`Service ${service}: volume ${JSON.stringify(mount)} has no target`);
+  }
+  if (!source) {
+    throw new Error(`Service ${service}: anonymous volumes are not supported; name the volume for ${destination}`);
+  }
+  if (source.startsWith('.') || source.startsWith('~')) {
+    throw new Error(`Service ${service}: relative bind mounts are not supported; use an absolute path for ${source}`);
+  }
+  if (source.startsWith('/')) {
+    return { source, destination, mode };
+  }
+
+  const volume = volumes.find(candidate => candidate.key === source);
+  if (!volume) {
+    throw new Error(`Service ${service} uses undefined volume ${source}`);
+  }
+  return { source: volume.name, destination, mode };
+}
+
+/**
+ * Read a port number, rejecting ranges and anything out of bounds
+ */
+function toPortNumber(service: string, value: unknown): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Service ${service}: invalid port ${value}`);
+  }
+  return port;
+}
+
+/**
+ * Read environment variables given as a list of KEY=value or as a mapping
+ */
+function toEnvironment(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return Object.entries(isObject(value) ? value : {}).map(([key, entry]) =>
+    entry === null || entry === undefined ? key : `${key}=${entry}`
+  );
+}
+
+/**
+ * Read labels given as a list of key=value or as a mapping
+ */
+function toLabels(value: unknown): Record<string, string> | undefined {
+  if (Array.isArray(value)) {
+    return Object.fromEntries(value.map(String).map(label => {
+      const index = label.indexOf('=');
+      return index === -1 ? [label, ''] : [label.slice(0, index), label.slice(index + 1)];
+    }));
+  }
+  return toStringRecord(value);
+}
+
+/**
+ * Read a mapping whose values Docker expects as strings
+ */
+function toStringRecord(value: unknown): Record<string, string> | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, String(entry ?? '')]));
+}
+
+/**
+ * Check for a YAML mapping
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Drop the labels that place a resource in a project or a stack, so that a
+ * caller cannot put what it creates into someone else's
+ */
+export function withoutReservedLabels(labels: Record<string, string> | undefined): Record<string, string> {
+  return Object.fromEntries(Object.entries(labels || {}).filter(([key]) =>
+    key !== PROJECT_LABEL && !key.startsWith(COMPOSE_LABEL_PREFIX)
+  ));
+}
@@ -0,0 +1,189 @@
+/**
+ * Conversion of container runtime settings to and from Docker's
+ * HostConfig, Healthcheck and RestartPolicy fields, and of its port mappings
+ */
+
+import {
+  ContainerHealthcheck,
+  ContainerResources,
+  ContainerRestartPolicy,
+  PortMapping,
+  RestartPolicy
+} from '../../../shared/src/models';
+
+// Docker durations are in nanoseconds, and CPU counts in billionths of a CPU
+const NANOSECONDS = 1e9;
+
+/**
+ * Get the HostConfig fields for resource limits. Only the limits given are
+ * set, along with the ones Docker would refuse to combine with them.
+ */
+export function buildResourceConfig(resources: ContainerResources = {}): Record<string, number> {
+  if (resources.cpus && resources.cpuQuota) {
+    throw new Error('Set either a number of CPUs or a CPU quota, not both');
+  }
+  if (resources.memorySwap && resources.memorySwap > 0 && resources.memory && resources.memorySwap < resources.memory) {
+    throw new Error('The swap limit includes memory, so it cannot be lower than the memory limit');
+  }
+
+  const config: Record<string, number> = {};
+  if (resources.memory !== undefined) {
+    config.Memory = resources.memory;
+    // A swap limit below the new memory limit is rejected; let Docker derive it
+    config.MemorySwap = resources.memorySwap ?? 0;
+  } else if (resources.memorySwap !== undefined) {
+    config.MemorySwap = resources.memorySwap;
+  }
+  if (resources.cpus !== undefined) {
+    config.NanoCpus = Math.round(resources.cpus * NANOSECONDS);
+    // Docker refuses NanoCpus alongside a CPU period or quota
+    config.CpuPeriod = 0;
+    config.CpuQuota = 0;
+  }
+  if (resources.cpuQuota !== undefined) {
+    config.CpuQuota = resources.cpuQuota;
+    config.NanoCpus = 0;
+  }
+  if (resources.cpuPeriod !== undefined) {
+    config.CpuPeriod = resources.cpuPeriod;
+  }
+  if (resources.cpuShares !== undefined) {
+    config.CpuShares = resources.cpuShares;
+  }
+  if (resources.pidsLimit !== undefined) {
+    config.PidsLimit = resources.pidsLimit;
+  }
+  return config;
+}
+
+/**
+ * Get the Docker restart policy
+ */
+export function buildRestartPolicy(policy: ContainerRestartPolicy): { Name: string; MaximumRetryCount?: number } {
+  return policy.name === RestartPolicy.ON_FAILURE
+    ? { Name: policy.name, MaximumRetryCount: policy.maximumRetryCount || 0 }
+    : { Name: policy.name };
+}
+
+/**
+ * Get the Docker healthcheck definition
+ */
+export function buildHealthcheck(healthcheck: ContainerHealthcheck): Record<string, any> {
+  if (healthcheck.disabled) {
+    return { Test: ['NONE'] };
+  }
+  if (!healthcheck.command?.trim()) {
+    throw new Error('A healthcheck needs a command');
+  }
+  return {
+    Test: ['CMD-SHELL', healthcheck.command],
+    Interval: toNanoseconds(healthcheck.interval),
+    Timeout: toNanoseconds(healthcheck.timeout),
+    StartPeriod: toNanoseconds(healthcheck.startPeriod),
+    Retries: healthcheck.retries
+  };
+}
+
+/**
+ * Read a container's runtime settings from its inspect data
+ */
+export function readContainerSettings(config: any = {}, hostConfig: any = {}): {
+  command?: string[];
+  entrypoint?: string[];
+  workingDir?: string;
+  user?: string;
+  resources: ContainerResources;
+  restartPolicy?: ContainerRestartPolicy;
+  healthcheck?: ContainerHealthcheck;
+} {
+  const restartPolicy = hostConfig.RestartPolicy?.Name
+    ? {
+        name: hostConfig.RestartPolicy.Name as RestartPolicy,
+        maximumRetryCount: hostConfig.RestartPolicy.Name === RestartPolicy.ON_FAILURE
+          ? hostConfig.RestartPolicy.MaximumRetryCount
+          : undefined
+      }
+    : undefined;
+
+  return {
+    command: config.Cmd || undefined,
+    entrypoint: config.Entrypoint || undefined,
+    workingDir: config.WorkingDir || undefined,
+    user: config.User || undefined,
+    resources: {
+      memory: hostConfig.Memory || undefined,
+      memorySwap: hostConfig.MemorySwap || undefined,
+      cpus: hostConfig.NanoCpus ? hostConfig.NanoCpus / NANOSECONDS : undefined,
+      cpuShares: hostConfig.CpuShares || undefined,
+      cpuQuota: hostConfig.CpuQuota || undefined,
+      cpuPeriod: hostConfig.CpuPeriod || undefined,
+      pidsLimit: hostConfig.PidsLimit || undefined
+    },
+    restartPolicy,
+    healthcheck: config.Healthcheck?.Test ? readHealthcheck(config.Healthcheck) : undefined
+  };
+}
+
+/**
+ * Read a container's port mappings, from the Ports list of listContainers or
+ * the NetworkSettings.Ports of inspect data. Exposed ports that are not
+ * published are kept as private ports in both, the way listContainers reports them.
+ */
+export function readPortMappings(container: any): PortMapping[] {
+  if (Array.isArray(container.Ports)) {
+    return container.Ports.map((port: any) => ({
+      privatePort: port.PrivatePort,
+      publicPort: port.PublicPort,
+      type: port.Type,
+      ip: port.IP || '0.0.0.0'
+    }));
+  }
+
+  const ports: PortMapping[] = [];
+  Object.entries(container.NetworkSettings?.Ports || {}).forEach(([key, value]) => {
+    const [privatePort, type] = key.split('/');
+    // Inspect data has null bindings for ports that are only exposed
+    const bindings: any[] = Array.isArray(value) && value.length > 0 ? value : [null];
+    bindings.forEach(binding => {
+      ports.push({
+        privatePort: parseInt(privatePort),
+        publicPort: binding?.HostPort ? parseInt(binding.HostPort) : undefined,
+        type,
+        ip: binding?.HostIp || '0.0.0.0'
+      });
+    });
+  });
+  return ports;
+}
+
+/**
+ * Read a Docker healthcheck definition
+ */
+function readHealthcheck(healthcheck: any): ContainerHealthcheck {
+  const [kind, ...args] = healthcheck.Test;
+  if (kind === 'NONE') {
+    return { disabled: true };
+  }
+  return {
+    // CMD lists the arguments; CMD-SHELL has the command as one string
+    command: args.join(' '),
+    interval: fromNanoseconds(healthcheck.Interval),
+    timeout: fromNanoseconds(healthcheck.Timeout),
+    startPeriod: fromNanoseconds(healthcheck.StartPeriod),
+    retries: healthcheck.Retries || undefined
+  };
+}
+
+/**
+ * Convert seconds to nanoseconds, leaving unset durations to Docker's defaults
+ */
+function toNanoseconds(seconds?: number): number | undefined {
+  return seconds ? Math.round(seconds * NANOSECONDS) : undefined;
+}
+
+/**
+ * Convert nanoseconds to seconds
+ */
+function fromNanoseconds(nanoseconds?: number): number | undefined {
+  return nanoseconds ? nanoseconds / NANOSECONDS : undefined;
+}
@@ -0,0 +1,186 @@
+/**
+ * Container recreation
+ * A replacement container is created from the current one's inspect data, so
+ * everything it was created with carries over. Settings the old image
+ * supplied (its CMD, default environment, labels...) are left out, so that a
+ * new image's defaults apply instead.
+ */
+
+import { ContainerResources, RecreateContainerRequest } from '../../../shared/src/models';
+import { formatImageReference, parseImageReference } from './imagePull';
+import { buildResourceConfig } from './containerConfig';
+
+/**
+ * Changes to the container, with the image already resolved
+ */
+export interface RecreateChanges {
+  image: string;
+  env?: RecreateContainerRequest['env'];
+  ports?: RecreateContainerRequest['ports'];
+  resources?: ContainerResources;
+}
+
+/**
+ * Options to create the replacement with, and the networks to join once it exists
+ */
+export interface RecreatePlan {
+  create: Record<string, any>;
+  extraNetworks: { name: string; endpoint: Record<string, any> }[];
+}
+
+// Config fields that are copied unless they are the image's own defaults
+const IMAGE_DEFAULT_FIELDS = ['Cmd', 'Entrypoint', 'WorkingDir', 'User', 'Healthcheck', 'StopSignal'];
+// Config fields that only ever come from how the container was created
+const CONTAINER_FIELDS = ['Domainname', 'Tty', 'OpenStdin', 'StdinOnce', 'AttachStdin', 'AttachStdout', 'AttachStderr', 'StopTimeout'];
+
+/**
+ * Get the image the replacement runs: a full reference, a new tag for the
+ * current repository, or the current image
+ */
+export function resolveRecreateImage(current: string, image?: string, tag?: string): string {
+  if (image) {
+    return image;
+  }
+  if (tag) {
+    return formatImageReference(parseImageReference(current).repo, tag);
+  }
+  return current;
+}
+
+/**
+ * Set and remove environment variables, keeping the order of the rest
+ */
+export function applyEnvChanges(env: string[], changes: Record<string, string | null> = {}): string[] {
+  const result = env.filter(variable => !(variable.split('=')[0] in changes));
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value !== null) {
+      result.push(`${key}=${value}`);
+    }
+  });
+  return result;
+}
+
+/**
+ * Build the replacement for a container from its inspect data and the inspect
+ * data of the image it was created from
+ */
+export function buildRecreatePlan(info: any, imageInfo: any, name: string, changes: RecreateChanges): RecreatePlan {
+  const config = info.Config || {};
+  const imageConfig = imageInfo?.Config || {};
+  const hostConfig: Record<string, any> = { ...info.HostConfig };
+
+  const create: Record<string, any> = {
+    name,
+    Image: changes.image,
+    Env: applyEnvChanges(withoutImageEntries(config.Env, imageConfig.Env), changes.env),
+    Labels: withoutImageLabels(config.Labels, imageConfig.Labels),
+    ExposedPorts: withoutImageKeys(config.ExposedPorts, imageConfig.ExposedPorts),
+    Volumes: withoutImageKeys(config.Volumes, imageConfig.Volumes),
+    HostConfig: hostConfig
+  };
+  IMAGE_DEFAULT_FIELDS.forEach(field => {
+    if (config[field] !== undefined && JSON.stringify(config[field]) !== JSON.stringify(imageConfig[field])) {
+      create[field] = config[field];
+    }
+  });
+  CONTAINER_FIELDS.forEach(field => {
+    if (config[field] !== undefined) {
+      create[field] = config[field];
+    }
+  });
+
+  // Docker names containers' hosts after their short ID unless given a hostname
+  if (config.Hostname && !info.Id?.startsWith(config.Hostname)) {
+    create.Hostname = config.Hostname;
+  }
+
+  if (changes.ports) {
+    hostConfig.PortBindings = {};
+    create.ExposedPorts = {};
+    changes.ports.forEach(port => {
+      const key = `${port.internal}/${port.protocol || 'tcp'}`;
+      create.ExposedPorts[key] = {};
+      hostConfig.PortBindings[key] = [
+        ...(hostConfig.PortBindings[key] || []),
+        { HostPort: port.external ? `${port.external}` : '' }
+      ];
+    });
+  }
+
+  Object.assign(hostConfig, buildResourceConfig(changes.resources));
+
+  hostConfig.Binds = [...(hostConfig.Binds || []), ...getAnonymousVolumeBinds(info)];
+
+  const { primary, extraNetworks } = getNetworkEndpoints(info, hostConfig.NetworkMode);
+  if (primary) {
+    create.NetworkingConfig = { EndpointsConfig: { [primary.name]: primary.endpoint } };
+  }
+
+  return { create, extraNetworks };
+}
+
+/**
+ * Mount the container's anonymous volumes in the replacement, so their data is kept
+ */
+function getAnonymousVolumeBinds(info: any): string[] {
+  const binds: string[] = info.HostConfig?.Binds || [];
+  const mounted = new Set([
+    ...binds.map(bind => bind.split(':')[1]),
+    ...(info.HostConfig?.Mounts || []).map((mount: any) => mount.Target)
+  ]);
+
+  return (info.Mounts || [])
+    .filter((mount: any) => mount.Type === 'volume' && mount.Name && !mounted.has(mount.Destination))
+    .map((mount: any) => `${mount.Name}:${mount.Destination}${mount.RW === false ? ':ro' : ''}`);
+}
+
+/**
+ * Get the endpoints of the networks the container is attached to. The one in
+ * its network mode is set at creation; the others are joined afterwards.
+ */
+function getNetworkEndpoints(info: any, networkMode?: string): {
+  primary?: { name: string; endpoint: Record<string, any> };
+  extraNetworks: { name: string; endpoint: Record<string, any> }[];
+} {
+  // host, none and container:<id> modes have no endpoints of their own
+  if (networkMode === 'host' || networkMode === 'none' || networkMode?.startsWith('container:')) {
+    return { extraNetworks: [] };
+  }
+
+  const shortId = (info.Id || '').slice(0, 12);
+  const endpoints = Object.entries(info.NetworkSettings?.Networks || {}).map(([name, network]: [string, any]) => ({
+    name,
+    endpoint: {
+      Aliases: (network.Aliases || []).filter((alias: string) => alias !== shortId),
+      Links: network.Links || undefined,
+      IPAMConfig: network.IPAMConfig || undefined
+    }
+  }));
+
+  const primaryName = !networkMode || networkMode === 'default' ? 'bridge' : networkMode;
+  return {
+    primary: endpoints.find(endpoint => endpoint.name === primaryName),
+    extraNetworks: endpoints.filter(endpoint => endpoint.name !== primaryName)
+  };
+}
+
+/**
+ * Drop the KEY=value entries the image itself sets
+ */
+function withoutImageEntries(values: string[] = [], imageValues: string[] = []): string[] {
+  return values.filter(value => !imageValues.includes(value));
+}
+
+/**
+ * Drop the labels the image itself sets
+ */
+function withoutImageLabels(labels: Record<string, string> = {}, imageLabels: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(labels).filter(([key, value]) => imageLabels[key] !== value));
+}
+
+/**
+ * Drop the keys of a set the image itself declares, such as its exposed ports
+ */
+function withoutImageKeys(values: Record<string, object> = {}, imageValues: Record<string, object> = {}): Record<string, object> {
+  return Object.fromEntries(Object.entries(values).filter(([key]) => !(key in imageValues)));
+}
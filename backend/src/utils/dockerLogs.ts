@@ -0,0 +1,90 @@
+/**
+ * Docker log stream decoding
+ * Containers without a TTY multiplex stdout and stderr into a single stream of
+ * frames, each prefixed with an 8-byte header: [stream type, 0, 0, 0, size (uint32 BE)]
+ */
+
+import { ContainerLogEntry } from '../../../shared/src/models';
+
+type LogStream = ContainerLogEntry['stream'];
+
+const HEADER_LENGTH = 8;
+const STDERR = 2;
+
+// RFC 3339 timestamp Docker prefixes each line with when timestamps are requested
+const TIMESTAMP_REGEX = /^(\d{4}-\d{2}-\d{2}T\S+Z) (.*)$/s;
+
+/**
+ * Split a log line into its timestamp and message
+ */
+export function parseLogLine(containerId: string, stream: LogStream, line: string): ContainerLogEntry {
+  const match = TIMESTAMP_REGEX.exec(line);
+  return match
+    ? { containerId, stream, timestamp: match[1], message: match[2] }
+    : { containerId, stream, message: line };
+}
+
+/**
+ * Decodes a raw Docker log stream into one entry per line
+ */
+export class DockerLogDemuxer {
+  private buffer: Buffer = Buffer.alloc(0);
+  private partialLines: Record<LogStream, string> = { stdout: '', stderr: '' };
+
+  /**
+   * @param multiplexed False for TTY containers, whose output is a raw stdout stream
+   */
+  constructor(
+    private containerId: string,
+    private onEntry: (entry: ContainerLogEntry) => void,
+    private multiplexed: boolean = true
+  ) {}
+
+  /**
+   * Feed a chunk of the raw stream; frames may be split across chunks
+   */
+  write(chunk: Buffer): void {
+    if (!this.multiplexed) {
+      this.pushText('stdout', chunk.toString('utf-8'));
+      return;
+    }
+
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= HEADER_LENGTH) {
+      const size = this.buffer.readUInt32BE(4);
+      if (this.buffer.length < HEADER_LENGTH + size) {
+        break;
+      }
+
+      const stream: LogStream = this.buffer[0] === STDERR ? 'stderr' : 'stdout';
+      const payload = this.buffer.subarray(HEADER_LENGTH, HEADER_LENGTH + size);
+      this.buffer = this.buffer.subarray(HEADER_LENGTH + size);
+      this.pushText(stream, payload.toString('utf-8'));
+    }
+  }
+
+  /**
+   * Emit any trailing output that did not end with a newline
+   */
+  flush(): void {
+    for (const stream of Object.keys(this.partialLines) as LogStream[]) {
+      if (this.partialLines[stream]) {
+        this.onEntry(parseLogLine(this.containerId, stream, this.partialLines[stream]));
+        this.partialLines[stream] = '';
+      }
+    }
+  }
+
+  /**
+   * Emit complete lines, keeping an unterminated line for the next frame
+   */
+  private pushText(stream: LogStream, text: string): void {
+    const lines = (this.partialLines[stream] + text).split('\n');
+    this.partialLines[stream] = lines.pop() || '';
+
+    for (const line of lines) {
+      this.onEntry(parseLogLine(this.containerId, stream, line.replace(/\r$/, '')));
+    }
+  }
+}
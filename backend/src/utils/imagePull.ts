@@ -0,0 +1,84 @@
+/**
+ * Docker image pull progress
+ * The daemon reports a pull as a stream of JSON events, most of them about one
+ * layer: { status: "Downloading", id: "a2abf6c4d29d", progressDetail: { current, total } }
+ */
+
+import { ImagePull, ImagePullStatus } from '../../../shared/src/models';
+
+/**
+ * One event from the pull progress stream
+ */
+export interface PullProgressEvent {
+  status?: string;
+  id?: string;
+  progress?: string;
+  progressDetail?: { current?: number; total?: number };
+  error?: string;
+  errorDetail?: { message?: string };
+}
+
+// Layers are identified by a short hex digest; other events carry the tag as id
+const LAYER_ID_REGEX = /^[0-9a-f]{12,64}$/;
+
+/**
+ * Split an image reference into repository and tag. A digest or tag in the
+ * reference wins over the separate tag; with neither, the tag is latest.
+ */
+export function parseImageReference(image: string, tag?: string): { repo: string; tag: string } {
+  const reference = image.trim();
+
+  const digestIndex = reference.indexOf('@');
+  if (digestIndex !== -1) {
+    return { repo: reference.slice(0, digestIndex), tag: reference.slice(digestIndex + 1) };
+  }
+
+  // A colon after the last slash separates the tag; one before it is a registry port
+  const colonIndex = reference.lastIndexOf(':');
+  if (colonIndex > reference.lastIndexOf('/')) {
+    return { repo: reference.slice(0, colonIndex), tag: reference.slice(colonIndex + 1) };
+  }
+
+  return { repo: reference, tag: tag || 'latest' };
+}
+
+/**
+ * Format a repository and tag as a reference Docker can pull
+ */
+export function formatImageReference(repo: string, tag: string): string {
+  return tag.startsWith('sha256:') ? `${repo}@${tag}` : `${repo}:${tag}`;
+}
+
+/**
+ * Record a progress event on a pull, returning the layer it updated, if any
+ */
+export function applyPullEvent(pull: ImagePull, event: PullProgressEvent): ImagePull['layers'][number] | undefined {
+  if (event.error || event.errorDetail?.message) {
+    pull.status = ImagePullStatus.FAILED;
+    pull.error = event.errorDetail?.message || event.error;
+    return undefined;
+  }
+
+  if (!event.id || !LAYER_ID_REGEX.test(event.id)) {
+    if (event.status) {
+      pull.message = event.status;
+    }
+    return undefined;
+  }
+
+  let layer = pull.layers.find(existing => existing.id === event.id);
+  if (!layer) {
+    layer = { id: event.id, status: '' };
+    pull.layers.push(layer);
+  }
+
+  layer.status = event.status || layer.status;
+  if (event.progressDetail?.total) {
+    layer.current = event.progressDetail.current;
+    layer.total = event.progressDetail.total;
+  } else if (/complete|already exists/i.test(layer.status) && layer.total) {
+    layer.current = layer.total;
+  }
+
+  return layer;
+}
@@ -0,0 +1,93 @@
+import { escapeHtml } from './sanitize';
+
+/**
+ * The subject and bodies of an email
+ */
+export interface MailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * A paragraph of an email, optionally with a link below it
+ */
+interface Section {
+  text: string;
+  link?: { label: string; url: string };
+}
+
+/**
+ * Email asking a user to choose a new password
+ */
+export function passwordResetEmail(data: { username: string; resetUrl: string; expiresInMinutes: number }): MailContent {
+  return render('Reset your Kontainers password', data.username, [
+    { text: 'Someone asked to reset the password of your Kontainers account.' },
+    { text: 'Choose a new password with the link below.', link: { label: 'Reset password', url: data.resetUrl } },
+    { text: `The link expires in ${data.expiresInMinutes} minutes and can be used once. If you did not ask for this, you can ignore this email.` }
+  ]);
+}
+
+/**
+ * Email welcoming a new user
+ */
+export function accountCreatedEmail(data: { username: string; email: string; loginUrl: string }): MailContent {
+  return render('Your Kontainers account', data.username, [
+    { text: `A Kontainers account was created for ${data.email} with the username ${data.username}.` },
+    { text: 'Sign in with the link below.', link: { label: 'Sign in', url: data.loginUrl } }
+  ]);
+}
+
+/**
+ * Email telling a user their account was locked after failed logins
+ */
+export function accountLockedEmail(data: { username: string; lockedUntil: string; ipAddress?: string }): MailContent {
+  const source = data.ipAddress ? ` from ${data.ipAddress}` : '';
+  return render('Your Kontainers account was locked', data.username, [
+    { text: `Your account was locked after repeated failed sign-in attempts${source}.` },
+    { text: `You can sign in again after ${new Date(data.lockedUntil).toUTCString()}. Further failures extend the lock.` },
+    { text: 'If these attempts were not yours, change your password and enable two-factor authentication.' }
+  ]);
+}
+
+/**
+ * Email alerting administrators to a problem
+ */
+export function alertEmail(data: { title: string; message: string; details?: Record<string, string> }): MailContent {
+  const details = Object.entries(data.details || {}).map(([key, value]) => ({ text: `${key}: ${value}` }));
+  return render(`Kontainers alert: ${data.title}`, undefined, [
+    { text: data.message },
+    ...details
+  ]);
+}
+
+/**
+ * Lay out the sections of an email as plain text and HTML
+ */
+function render(subject: string, username: string | undefined, sections: Section[]): MailContent {
+  const greeting = username ? `Hello ${username},` : 'Hello,';
+
+  const text = [
+    greeting,
+    ...sections.map(section => section.link ? `${section.text}\n${section.link.url}` : section.text),
+    '-- \nKontainers'
+  ].join('\n\n');
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: sans-serif; color: #1f2937; line-height: 1.5;">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...sections.map(section => {
+      const paragraph = `<p>${escapeHtml(section.text)}</p>`;
+      if (!section.link) {
+        return paragraph;
+      }
+      const url = escapeHtml(section.link.url);
+      return `${paragraph}\n<p><a href="${url}" style="background: #2563eb; color: #ffffff; padding: 8px 16px; border-radius: 4px; text-decoration: none;">${escapeHtml(section.link.label)}</a></p>`;
+    }),
+    '<p style="color: #6b7280; font-size: 12px;">Kontainers</p>',
+    '</body></html>'
+  ].join('\n');
+
+  return { subject, text, html };
+}
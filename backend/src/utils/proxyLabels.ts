@@ -0,0 +1,104 @@
+/**
+ * Docker label parsing for label-managed proxy rules
+ * Containers declare routing with kontainers.proxy.* labels
+ */
+
+import { Container, ProxyRule, ProxyProtocol } from '../../../shared/src/models';
+
+// Prefix shared by all proxy routing labels
+export const PROXY_LABEL_PREFIX = 'kontainers.proxy.';
+
+export const PROXY_LABELS = {
+  host: `${PROXY_LABEL_PREFIX}host`,
+  port: `${PROXY_LABEL_PREFIX}port`,
+  path: `${PROXY_LABEL_PREFIX}path`,
+  ssl: `${PROXY_LABEL_PREFIX}ssl`
+};
+
+/**
+ * Proxy rule fields derived from a container's labels
+ */
+export type LabelProxyRule = Pick<
+  ProxyRule,
+  'name' | 'sourceHost' | 'sourcePath' | 'targetContainer' | 'targetPort' | 'protocol' |
+  'domain' | 'letsEncryptEnabled' | 'managedByContainer' | 'projectId'
+>;
+
+/**
+ * Parse a boolean label value
+ */
+function parseBooleanLabel(value: string | undefined): boolean {
+  return ['true', '1', 'yes', 'on'].includes((value || '').trim().toLowerCase());
+}
+
+/**
+ * Build the proxy rule a container declares through its labels,
+ * or null if the container has no kontainers.proxy.host label
+ */
+export function getLabelProxyRule(container: Container): LabelProxyRule | null {
+  const labels = container.labels || {};
+  const host = labels[PROXY_LABELS.host]?.trim();
+  if (!host) {
+    return null;
+  }
+
+  // Fall back to the lowest exposed TCP port, then 80; Docker lists ports in
+  // no particular order, so the first one could change between reads
+  let port = parseInt(labels[PROXY_LABELS.port] || '', 10);
+  if (isNaN(port)) {
+    const tcpPorts = container.ports.filter(p => p.type === 'tcp').map(p => p.privatePort);
+    port = tcpPorts.length > 0 ? Math.min(...tcpPorts) : 80;
+  }
+  if (port < 1 || port > 65535) {
+    throw new Error(`Invalid ${PROXY_LABELS.port} label on container ${container.name}: ${labels[PROXY_LABELS.port]}`);
+  }
+
+  let path = labels[PROXY_LABELS.path]?.trim() || '/';
+  if (!path.startsWith('/')) {
+    path = `/${path}`;
+  }
+
+  // SSL rules serve plain HTTP on their domain until Let's Encrypt has issued
+  // the certificate; only then are they moved to HTTPS (see keepIssuedCertificate)
+  const ssl = parseBooleanLabel(labels[PROXY_LABELS.ssl]);
+
+  return {
+    name: container.name,
+    sourceHost: host,
+    sourcePath: path,
+    targetContainer: container.name,
+    targetPort: port,
+    protocol: ProxyProtocol.HTTP,
+    domain: ssl ? host : undefined,
+    letsEncryptEnabled: ssl,
+    managedByContainer: container.id,
+    // The rule belongs to the container's project
+    projectId: container.projectId
+  };
+}
+
+/**
+ * Check whether a rule has a Let's Encrypt certificate to serve HTTPS with
+ */
+function hasIssuedCertificate(rule: ProxyRule): boolean {
+  return Boolean(rule.letsEncryptEnabled && rule.sslEnabled && rule.sslCertPath && rule.sslKeyPath);
+}
+
+/**
+ * Keep a rule on HTTPS once the certificate its labels asked for has been issued.
+ * A rule whose domain changed starts over on plain HTTP.
+ */
+export function keepIssuedCertificate(declared: LabelProxyRule, rule: ProxyRule | undefined): LabelProxyRule {
+  if (!declared.letsEncryptEnabled || !rule || !hasIssuedCertificate(rule) || rule.domain !== declared.domain) {
+    return declared;
+  }
+  return { ...declared, protocol: ProxyProtocol.HTTPS };
+}
+
+/**
+ * Check whether a proxy rule differs from the one its container's labels declare
+ */
+export function hasLabelProxyRuleChanged(rule: ProxyRule, declared: LabelProxyRule): boolean {
+  return (Object.keys(declared) as (keyof LabelProxyRule)[])
+    .some(key => (rule[key] ?? undefined) !== (declared[key] ?? undefined));
+}
@@ -0,0 +1,37 @@
+/**
+ * Short, human-readable device descriptions for the session list
+ */
+
+// Checked in order: several browsers include the tokens of the ones they are based on
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/[\d.]+.*Safari\//, 'Safari'],
+  [/^curl\//, 'curl']
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Describe a user agent, e.g. "Firefox on Linux"
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent || userAgent === 'unknown') {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+    || userAgent.split(/[/\s]/)[0];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return os ? `${browser} on ${os}` : browser;
+}
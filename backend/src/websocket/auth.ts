@@ -0,0 +1,113 @@
+import { verifyToken, verifySessionToken } from '../services/auth';
+import { configService } from '../services/config';
+import { UserRole } from '../../../shared/src/models';
+
+// Close codes sent when a connection is not, or no longer, authenticated
+export const WS_CLOSE_AUTH_REQUIRED = 4001;
+export const WS_CLOSE_TOKEN_EXPIRED = 4002;
+
+// How long a connection may stay open without authenticating
+const AUTH_TIMEOUT_MS = 10000;
+
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2147483647;
+
+/**
+ * The authenticated user of a websocket connection
+ */
+export interface ConnectionUser {
+  userId: string;
+  role: UserRole;
+  sessionId?: string;
+  exp?: number;
+}
+
+interface ConnectionAuth {
+  user?: ConnectionUser;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const connections = new WeakMap<object, ConnectionAuth>();
+
+/**
+ * Get the authenticated user of a connection, if any
+ */
+export function getConnectionUser(connection: object): ConnectionUser | undefined {
+  return connections.get(connection)?.user;
+}
+
+/**
+ * Close the connection unless it authenticates within the timeout
+ */
+export function awaitAuthentication(ws: any, connection: object): void {
+  clearConnectionAuth(connection);
+  connections.set(connection, {
+    timer: setTimeout(() => {
+      ws.close(WS_CLOSE_AUTH_REQUIRED, 'Authentication required');
+    }, AUTH_TIMEOUT_MS)
+  });
+}
+
+/**
+ * Authenticate a connection with a JWT. A later token replaces the current
+ * one, so clients can renew without reconnecting. Closes the socket if invalid.
+ */
+export function authenticateConnection(ws: any, connection: object, token: string): ConnectionUser | null {
+  let user: ConnectionUser;
+  try {
+    user = verifyToken(token);
+  } catch (error) {
+    clearConnectionAuth(connection);
+    ws.close(WS_CLOSE_AUTH_REQUIRED, 'Invalid or expired token');
+    return null;
+  }
+
+  clearConnectionAuth(connection);
+  const auth: ConnectionAuth = { user };
+
+  // Drop the session when the token expires mid-session
+  if (user.exp) {
+    auth.timer = setTimeout(() => {
+      connections.delete(connection);
+      ws.close(WS_CLOSE_TOKEN_EXPIRED, 'Token expired');
+    }, Math.min(Math.max(user.exp * 1000 - Date.now(), 0), MAX_TIMER_MS));
+  }
+
+  connections.set(connection, auth);
+
+  // The signature check above is synchronous; drop the connection if the
+  // session has been revoked or the user deactivated
+  verifySessionToken(token).catch(() => {
+    if (connections.get(connection) === auth) {
+      clearConnectionAuth(connection);
+      ws.close(WS_CLOSE_AUTH_REQUIRED, 'Session has been revoked');
+    }
+  });
+
+  return user;
+}
+
+/**
+ * Forget a connection's authentication and cancel its timers
+ */
+export function clearConnectionAuth(connection: object): void {
+  const auth = connections.get(connection);
+  if (auth?.timer) {
+    clearTimeout(auth.timer);
+  }
+  connections.delete(connection);
+}
+
+/**
+ * Check whether a user may subscribe to a channel
+ */
+export function canSubscribe(user: ConnectionUser, channel: string): boolean {
+  // A shell in a container can do anything its processes can, so viewers never get one
+  if (channel === 'container-exec') {
+    return user.role === UserRole.ADMIN || user.role === UserRole.USER;
+  }
+  if (channel === 'container-logs' && user.role === UserRole.VIEWER) {
+    return !configService.getConfig().security?.restrictViewerContainerLogs;
+  }
+  return true;
+}
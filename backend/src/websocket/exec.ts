@@ -0,0 +1,107 @@
+import { containerService } from '../services/container';
+import { logAuditEvent } from '../services/audit';
+import { getClientIp } from '../middleware/clientIp';
+import { ExecOptions } from '../../../shared/src/models';
+import { ConnectionUser } from './auth';
+import { Release } from './subscriptions';
+
+// Exec sessions of each connection, by container ID. The session ID is
+// pending until Docker has started the exec.
+const connectionSessions = new WeakMap<object, Map<string, Promise<string | null>>>();
+
+/**
+ * Start a shell in a container for one connection. Output is sent as
+ * exec-output messages and the end of the shell as exec-exit.
+ */
+export function startConnectionExec(
+  ws: any,
+  connection: object,
+  user: ConnectionUser,
+  containerId: string,
+  options: ExecOptions,
+  onExit: () => void
+): Release {
+  const sessions = connectionSessions.get(connection) || new Map<string, Promise<string | null>>();
+  connectionSessions.set(connection, sessions);
+  
+  const startedAt = Date.now();
+  const audit = (action: string, details: Record<string, unknown>) => {
+    logAuditEvent(user.userId, action, 'container', containerId, details, ...getConnectionClient(ws))
+      .catch(error => console.error('Failed to audit exec session:', error));
+  };
+  
+  const sessionId = containerService.startExecSession(containerId, options, (data) => {
+    ws.send(JSON.stringify({ type: 'exec-output', id: containerId, data }));
+  }, (exitCode) => {
+    sessions.delete(containerId);
+    ws.send(JSON.stringify({ type: 'exec-exit', id: containerId, exitCode }));
+    audit('exec_end', { exitCode, duration: Date.now() - startedAt });
+    onExit();
+  }).then((id) => {
+    audit('exec', { shell: options.shell || '/bin/sh', user: options.user, sessionId: id });
+    return id;
+  }).catch((error: any) => {
+    sessions.delete(containerId);
+    ws.send(JSON.stringify({ type: 'error', channel: 'container-exec', id: containerId, message: error.message }));
+    onExit();
+    return null;
+  });
+  
+  sessions.set(containerId, sessionId);
+  
+  return () => {
+    if (sessions.get(containerId) === sessionId) {
+      sessions.delete(containerId);
+    }
+    sessionId.then(id => {
+      if (id) {
+        containerService.stopExecSession(id);
+      }
+    });
+  };
+}
+
+/**
+ * Send terminal input to a connection's exec session
+ */
+export async function writeConnectionExec(connection: object, containerId: string, data: string): Promise<boolean> {
+  const sessionId = await getSession(connection, containerId);
+  if (sessionId) {
+    containerService.writeExecSession(sessionId, data);
+  }
+  return Boolean(sessionId);
+}
+
+/**
+ * Resize the terminal of a connection's exec session
+ */
+export async function resizeConnectionExec(
+  connection: object,
+  containerId: string,
+  cols: number,
+  rows: number
+): Promise<boolean> {
+  const sessionId = await getSession(connection, containerId);
+  if (sessionId) {
+    await containerService.resizeExecSession(sessionId, cols, rows);
+  }
+  return Boolean(sessionId);
+}
+
+/**
+ * Get the ID of a connection's exec session in a container
+ */
+function getSession(connection: object, containerId: string): Promise<string | null> {
+  return connectionSessions.get(connection)?.get(containerId) ?? Promise.resolve(null);
+}
+
+/**
+ * Get the client address and user agent of a connection's upgrade request
+ */
+function getConnectionClient(ws: any): [string | undefined, string] {
+  const request: Request | undefined = ws.data?.request;
+  if (!request) {
+    return [undefined, 'unknown'];
+  }
+  return [getClientIp(request), request.headers.get('user-agent') || 'unknown'];
+}
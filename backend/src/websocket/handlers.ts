@@ -1,15 +1,31 @@
 import { containerService } from '../services/container';
+import { imageService } from '../services/image';
 import { proxyService } from '../services/proxy';
 import { monitoringService } from '../services/monitoring';
 import { proxyAnalyticsService } from '../services/proxyAnalytics';
+import { Release } from './subscriptions';
+import { ProjectScope } from './projectScope';
+
+/**
+ * Register service event handlers, returning a function that unregisters them
+ */
+function registerHandlers(
+  service: { on(event: string, handler: Function): void; off(event: string, handler: Function): void },
+  handlers: Record<string, Function>
+): Release {
+  Object.entries(handlers).forEach(([event, handler]) => service.on(event, handler));
+  return () => {
+    Object.entries(handlers).forEach(([event, handler]) => service.off(event, handler));
+  };
+}
 
 /**
  * Handle container events and send them to the WebSocket client
  */
-export function handleContainerEvents(ws: any, containerId?: string) {
+export function handleContainerEvents(ws: any, scope: ProjectScope, containerId?: string): Release {
   // Handler for container created events
   const containerCreatedHandler = (container: any) => {
-    if (!containerId || container.id === containerId) {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
       ws.send(JSON.stringify({
         type: 'container-event',
         event: 'created',
@@ -20,7 +36,7 @@ export function handleContainerEvents(ws: any, containerId?: string) {
   
   // Handler for container started events
   const containerStartedHandler = (container: any) => {
-    if (!containerId || container.id === containerId) {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
       ws.send(JSON.stringify({
         type: 'container-event',
         event: 'started',
@@ -31,7 +47,7 @@ export function handleContainerEvents(ws: any, containerId?: string) {
   
   // Handler for container stopped events
   const containerStoppedHandler = (container: any) => {
-    if (!containerId || container.id === containerId) {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
       ws.send(JSON.stringify({
         type: 'container-event',
         event: 'stopped',
@@ -42,7 +58,7 @@ export function handleContainerEvents(ws: any, containerId?: string) {
   
   // Handler for container restarted events
   const containerRestartedHandler = (container: any) => {
-    if (!containerId || container.id === containerId) {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
       ws.send(JSON.stringify({
         type: 'container-event',
         event: 'restarted',
@@ -51,9 +67,42 @@ export function handleContainerEvents(ws: any, containerId?: string) {
     }
   };
   
+  // Handler for container died events (exited or crashed)
+  const containerDiedHandler = (container: any) => {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
+      ws.send(JSON.stringify({
+        type: 'container-event',
+        event: 'died',
+        container
+      }));
+    }
+  };
+  
+  // Handler for container out-of-memory events
+  const containerOomHandler = (container: any) => {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
+      ws.send(JSON.stringify({
+        type: 'container-event',
+        event: 'oom',
+        container
+      }));
+    }
+  };
+  
+  // Handler for container healthcheck status changes
+  const containerHealthHandler = (container: any) => {
+    if ((!containerId || container.id === containerId) && scope.canSee(container.projectId)) {
+      ws.send(JSON.stringify({
+        type: 'container-event',
+        event: 'health',
+        container
+      }));
+    }
+  };
+  
   // Handler for container removed events
   const containerRemovedHandler = (data: any) => {
-    if (!containerId || data.id === containerId) {
+    if ((!containerId || data.id === containerId) && scope.canSee(data.projectId)) {
       ws.send(JSON.stringify({
         type: 'container-event',
         event: 'removed',
@@ -62,9 +111,24 @@ export function handleContainerEvents(ws: any, containerId?: string) {
     }
   };
   
-  // Handler for container stats events
+  return registerHandlers(containerService, {
+    'container:created': containerCreatedHandler,
+    'container:started': containerStartedHandler,
+    'container:stopped': containerStoppedHandler,
+    'container:restarted': containerRestartedHandler,
+    'container:died': containerDiedHandler,
+    'container:oom': containerOomHandler,
+    'container:health': containerHealthHandler,
+    'container:removed': containerRemovedHandler
+  });
+}
+
+/**
+ * Send a container's stats to the WebSocket client
+ */
+export function handleContainerStatsEvents(ws: any, containerId: string): Release {
   const containerStatsHandler = (stats: any) => {
-    if (!containerId || stats.containerId === containerId) {
+    if (stats.containerId === containerId) {
       ws.send(JSON.stringify({
         type: 'container-stats',
         stats
@@ -72,32 +136,18 @@ export function handleContainerEvents(ws: any, containerId?: string) {
     }
   };
   
-  // Register event handlers
-  containerService.on('container:created', containerCreatedHandler);
-  containerService.on('container:started', containerStartedHandler);
-  containerService.on('container:stopped', containerStoppedHandler);
-  containerService.on('container:restarted', containerRestartedHandler);
-  containerService.on('container:removed', containerRemovedHandler);
-  containerService.on('container:stats', containerStatsHandler);
-  
-  // Store handlers on the WebSocket object for cleanup
-  ws.containerEventHandlers = {
-    'container:created': containerCreatedHandler,
-    'container:started': containerStartedHandler,
-    'container:stopped': containerStoppedHandler,
-    'container:restarted': containerRestartedHandler,
-    'container:removed': containerRemovedHandler,
+  return registerHandlers(containerService, {
     'container:stats': containerStatsHandler
-  };
+  });
 }
 
 /**
  * Handle proxy events and send them to the WebSocket client
  */
-export function handleProxyEvents(ws: any, ruleId?: string) {
+export function handleProxyEvents(ws: any, scope: ProjectScope, ruleId?: string): Release {
   // Handler for proxy rule created events
   const proxyRuleCreatedHandler = (rule: any) => {
-    if (!ruleId || rule.id === ruleId) {
+    if ((!ruleId || rule.id === ruleId) && scope.canSee(rule.projectId)) {
       ws.send(JSON.stringify({
         type: 'proxy-event',
         event: 'created',
@@ -108,7 +158,7 @@ export function handleProxyEvents(ws: any, ruleId?: string) {
   
   // Handler for proxy rule updated events
   const proxyRuleUpdatedHandler = (rule: any) => {
-    if (!ruleId || rule.id === ruleId) {
+    if ((!ruleId || rule.id === ruleId) && scope.canSee(rule.projectId)) {
       ws.send(JSON.stringify({
         type: 'proxy-event',
         event: 'updated',
@@ -119,7 +169,7 @@ export function handleProxyEvents(ws: any, ruleId?: string) {
   
   // Handler for proxy rule deleted events
   const proxyRuleDeletedHandler = (data: any) => {
-    if (!ruleId || data.id === ruleId) {
+    if ((!ruleId || data.id === ruleId) && scope.canSeeRule(data.id)) {
       ws.send(JSON.stringify({
         type: 'proxy-event',
         event: 'deleted',
@@ -130,7 +180,7 @@ export function handleProxyEvents(ws: any, ruleId?: string) {
   
   // Handler for proxy traffic events
   const proxyTrafficHandler = (traffic: any) => {
-    if (!ruleId || traffic.ruleId === ruleId) {
+    if ((!ruleId || traffic.ruleId === ruleId) && scope.canSeeRule(traffic.ruleId)) {
       ws.send(JSON.stringify({
         type: 'proxy-traffic',
         traffic
@@ -140,7 +190,7 @@ export function handleProxyEvents(ws: any, ruleId?: string) {
   
   // Handler for proxy error events
   const proxyErrorHandler = (error: any) => {
-    if (!ruleId || error.ruleId === ruleId) {
+    if ((!ruleId || error.ruleId === ruleId) && scope.canSeeRule(error.ruleId)) {
       ws.send(JSON.stringify({
         type: 'proxy-error',
         error
@@ -148,30 +198,23 @@ export function handleProxyEvents(ws: any, ruleId?: string) {
     }
   };
   
-  // Register event handlers
-  proxyService.on('proxy:rule-created', proxyRuleCreatedHandler);
-  proxyService.on('proxy:rule-updated', proxyRuleUpdatedHandler);
-  proxyService.on('proxy:rule-deleted', proxyRuleDeletedHandler);
-  proxyService.on('proxy:traffic', proxyTrafficHandler);
-  proxyService.on('proxy:error', proxyErrorHandler);
-  
-  // Store handlers on the WebSocket object for cleanup
-  ws.proxyEventHandlers = {
-    'proxy:rule-created': proxyRuleCreatedHandler,
-    'proxy:rule-updated': proxyRuleUpdatedHandler,
-    'proxy:rule-deleted': proxyRuleDeletedHandler,
-    'proxy:traffic': proxyTrafficHandler,
-    'proxy:error': proxyErrorHandler
-  };
+  return registerHandlers(proxyService, {
+    'proxy:rule:created': proxyRuleCreatedHandler,
+    'proxy:rule:updated': proxyRuleUpdatedHandler,
+    'proxy:rule:toggled': proxyRuleUpdatedHandler,
+    'proxy:rule:deleted': proxyRuleDeletedHandler,
+    'proxy:traffic:recorded': proxyTrafficHandler,
+    'proxy:error:recorded': proxyErrorHandler
+  });
 }
 
 /**
  * Handle proxy analytics events and send them to the WebSocket client
  */
-export function handleProxyAnalyticsEvents(ws: any, ruleId?: string) {
+export function handleProxyAnalyticsEvents(ws: any, scope: ProjectScope, ruleId?: string): Release {
   // Handler for traffic data events
   const trafficDataHandler = (data: any) => {
-    if (!ruleId || data.ruleId === ruleId) {
+    if ((!ruleId || data.ruleId === ruleId) && scope.canSeeRule(data.ruleId)) {
       ws.send(JSON.stringify({
         event: `proxy:traffic:${data.ruleId}`,
         data
@@ -181,7 +224,7 @@ export function handleProxyAnalyticsEvents(ws: any, ruleId?: string) {
   
   // Handler for error events
   const errorHandler = (data: any) => {
-    if (!ruleId || data.ruleId === ruleId) {
+    if ((!ruleId || data.ruleId === ruleId) && scope.canSeeRule(data.ruleId)) {
       ws.send(JSON.stringify({
         event: `proxy:error:${data.ruleId}`,
         data
@@ -191,7 +234,7 @@ export function handleProxyAnalyticsEvents(ws: any, ruleId?: string) {
   
   // Handler for analytics update events
   const analyticsUpdatedHandler = (data: any) => {
-    if (!ruleId || data.ruleId === ruleId) {
+    if ((!ruleId || data.ruleId === ruleId) && scope.canSeeRule(data.ruleId)) {
       ws.send(JSON.stringify({
         event: `proxy:analytics:updated:${data.ruleId}`,
         data
@@ -199,23 +242,63 @@ export function handleProxyAnalyticsEvents(ws: any, ruleId?: string) {
     }
   };
   
-  // Register event handlers
-  proxyAnalyticsService.on('proxy:traffic:recorded', trafficDataHandler);
-  proxyAnalyticsService.on('proxy:error:recorded', errorHandler);
-  proxyAnalyticsService.on('analytics:updated', analyticsUpdatedHandler);
-  
-  // Store handlers on the WebSocket object for cleanup
-  ws.proxyAnalyticsEventHandlers = {
+  return registerHandlers(proxyAnalyticsService, {
     'proxy:traffic:recorded': trafficDataHandler,
     'proxy:error:recorded': errorHandler,
     'analytics:updated': analyticsUpdatedHandler
+  });
+}
+
+/**
+ * Handle image pull events and send them to the WebSocket client. Subscribing to
+ * one pull sends its progress so far first, as the pull starts before the subscription.
+ */
+export function handleImagePullEvents(ws: any, pullId?: string): Release {
+  if (pullId) {
+    const pull = imageService.getPull(pullId);
+    if (pull) {
+      ws.send(JSON.stringify({
+        type: 'image-pull-event',
+        event: 'snapshot',
+        pull
+      }));
+    }
+  }
+  
+  // Handler for pull started, completed and failed events
+  const pullHandler = (event: string) => (pull: any) => {
+    if (!pullId || pull.id === pullId) {
+      ws.send(JSON.stringify({
+        type: 'image-pull-event',
+        event,
+        pull
+      }));
+    }
   };
+  
+  // Handler for layer progress events
+  const progressHandler = (progress: any) => {
+    if (!pullId || progress.pullId === pullId) {
+      ws.send(JSON.stringify({
+        type: 'image-pull-event',
+        event: 'progress',
+        ...progress
+      }));
+    }
+  };
+  
+  return registerHandlers(imageService, {
+    'image:pull:started': pullHandler('started'),
+    'image:pull:progress': progressHandler,
+    'image:pull:completed': pullHandler('completed'),
+    'image:pull:failed': pullHandler('failed')
+  });
 }
 
 /**
  * Handle system events and send them to the WebSocket client
  */
-export function handleSystemEvents(ws: any) {
+export function handleSystemEvents(ws: any): Release {
   // Handler for system metrics events
   const systemMetricsHandler = (metrics: any) => {
     ws.send(JSON.stringify({
@@ -232,50 +315,8 @@ export function handleSystemEvents(ws: any) {
     }));
   };
   
-  // Register event handlers
-  monitoringService.on('system:metrics', systemMetricsHandler);
-  monitoringService.on('system:health', systemHealthHandler);
-  
-  // Store handlers on the WebSocket object for cleanup
-  ws.systemEventHandlers = {
-    'system:metrics': systemMetricsHandler,
-    'system:health': systemHealthHandler
-  };
+  return registerHandlers(monitoringService, {
+    'monitoring:metrics': systemMetricsHandler,
+    'monitoring:health': systemHealthHandler
+  });
 }
-
-/**
- * Clean up event handlers for a WebSocket connection
- */
-export function cleanupEventHandlers(ws: any) {
-  // Since we don't have an 'off' method in our services,
-  // we'll just remove the references to the handlers
-  // In a real implementation, we would unregister these handlers
-  
-  // Clean up container event handlers
-  if (ws.containerEventHandlers) {
-    console.log('Cleaning up container event handlers');
-    // In a real implementation with proper event unsubscription:
-    // Object.entries(ws.containerEventHandlers).forEach(([event, handler]) => {
-    //   containerService.off(event, handler);
-    // });
-    delete ws.containerEventHandlers;
-  }
-  
-  // Clean up proxy event handlers
-  if (ws.proxyEventHandlers) {
-    console.log('Cleaning up proxy event handlers');
-    delete ws.proxyEventHandlers;
-  }
-  
-  // Clean up proxy analytics event handlers
-  if (ws.proxyAnalyticsEventHandlers) {
-    console.log('Cleaning up proxy analytics event handlers');
-    delete ws.proxyAnalyticsEventHandlers;
-  }
-  
-  // Clean up system event handlers
-  if (ws.systemEventHandlers) {
-    console.log('Cleaning up system event handlers');
-    delete ws.systemEventHandlers;
-  }
-}
\ No newline at end of file
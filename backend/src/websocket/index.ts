@@ -1,15 +1,30 @@
 import { Elysia } from 'elysia';
 import { websocket } from '@elysiajs/websocket';
 import { containerService } from '../services/container';
+import { imageService } from '../services/image';
 import { proxyService } from '../services/proxy';
 import { monitoringService } from '../services/monitoring';
 import { proxyAnalyticsService } from '../services/proxyAnalytics';
 import {
   handleContainerEvents,
+  handleContainerStatsEvents,
   handleProxyEvents,
   handleSystemEvents,
-  handleProxyAnalyticsEvents
+  handleProxyAnalyticsEvents,
+  handleImagePullEvents
 } from './handlers';
+import { subscriptionRegistry, Release } from './subscriptions';
+import { startConnectionExec, writeConnectionExec, resizeConnectionExec } from './exec';
+import { ProjectScope } from './projectScope';
+import {
+  authenticateConnection,
+  awaitAuthentication,
+  canSubscribe,
+  clearConnectionAuth,
+  getConnectionUser,
+  ConnectionUser,
+  WS_CLOSE_AUTH_REQUIRED
+} from './auth';
 
 /**
  * WebSocket server for real-time updates
@@ -20,26 +35,64 @@ export const websocketServer = new Elysia()
     open(ws) {
       console.log('WebSocket connection opened');
       
+      // Authenticate from the query string, or wait for an auth message
+      const token = (ws.data as any).query?.token;
+      if (token) {
+        if (!authenticateConnection(ws, getConnectionKey(ws), token)) {
+          return;
+        }
+      } else {
+        awaitAuthentication(ws, getConnectionKey(ws));
+      }
+      
       // Send initial data
       ws.send(JSON.stringify({
         type: 'connected',
+        authenticated: Boolean(token),
         message: 'Connected to Kontainers WebSocket server'
       }));
     },
     message(ws, message) {
       try {
         const data = JSON.parse(message as string);
+        const connection = getConnectionKey(ws);
+        
+        if (data.type === 'auth') {
+          const user = authenticateConnection(ws, connection, data.token);
+          if (user) {
+            ws.send(JSON.stringify({ type: 'authenticated', requestId: data.requestId, role: user.role }));
+          }
+          return;
+        }
+        
+        if (!getConnectionUser(connection)) {
+          ws.close(WS_CLOSE_AUTH_REQUIRED, 'Authentication required');
+          return;
+        }
         
         // Handle different message types
         switch (data.type) {
           case 'subscribe':
-            handleSubscription(ws, data);
+            // Starting a subscription can fail in Docker, after the checks have passed
+            handleSubscription(ws, data).catch((error: any) => {
+              console.error(`Error subscribing to ${data.channel}:`, error);
+              ws.send(JSON.stringify({ type: 'error', requestId: data.requestId, message: error.message }));
+            });
             break;
             
           case 'unsubscribe':
             handleUnsubscription(ws, data);
             break;
             
+          case 'exec-input':
+            handleExecMessage(ws, data, () => writeConnectionExec(connection, data.id, String(data.data ?? '')));
+            break;
+            
+          case 'exec-resize':
+            handleExecMessage(ws, data, () => resizeConnectionExec(connection, data.id, Number(data.cols), Number(data.rows)));
+            break;
+            
+
           default:
             ws.send(JSON.stringify({
               type: 'error',
@@ -58,82 +111,258 @@ export const websocketServer = new Elysia()
       console.log('WebSocket connection closed');
       // Clean up any subscriptions
       cleanupSubscriptions(ws);
+      clearConnectionAuth(getConnectionKey(ws));
     }
   });
 
+/**
+ * Get the key that identifies a connection across handler calls
+ */
+function getConnectionKey(ws: any): object {
+  return ws.raw ?? ws;
+}
+
 /**
  * Handle subscription requests
  */
-function handleSubscription(ws: any, data: any) {
+async function handleSubscription(ws: any, data: any) {
+  const { channel, id, requestId } = data;
+  
+  const connection = getConnectionKey(ws);
+  const user = getConnectionUser(connection);
+  if (!user || !canSubscribe(user, channel)) {
+    ws.send(JSON.stringify({
+      type: 'error',
+      requestId,
+      message: `Insufficient permissions for channel: ${channel}`
+    }));
+    return;
+  }
+  
+  let start: (() => Release) | null;
+  try {
+    start = await getSubscriptionStarter(ws, data, user);
+  } catch (error: any) {
+    ws.send(JSON.stringify({ type: 'error', requestId, message: error.message }));
+    return;
+  }
+  
+  // Closing clears the connection's user, so this also catches connections
+  // that closed, or signed in as someone else, while the checks ran
+  const current = getConnectionUser(connection);
+  if (current?.userId !== user.userId || current.role !== user.role) {
+    return;
+  }
+  
+  if (!start) {
+    ws.send(JSON.stringify({
+      type: 'error',
+      requestId,
+      message: `Unknown channel: ${channel}`
+    }));
+    return;
+  }
+  
+  const subscription = subscriptionRegistry.subscribe(connection, channel, id, start);
+  ws.send(JSON.stringify({
+    type: 'ack',
+    action: 'subscribe',
+    requestId,
+    channel,
+    id,
+    subscriptionId: subscription.id
+  }));
+}
+
+/**
+ * Get the function that starts a channel subscription and returns its release.
+ * Subscribers only see containers and proxy rules in projects they can reach.
+ */
+async function getSubscriptionStarter(ws: any, data: any, user: ConnectionUser): Promise<(() => Release) | null> {
   const { channel, id } = data;
+  const requireId = () => {
+    if (!id) {
+      throw new Error(`Channel ${channel} requires an id`);
+    }
+  };
+  
+  // Images and system status are not kept in projects
+  const scope = channel === 'system' || channel === 'image-pull' ? null : await ProjectScope.forUser(user);
+  const requireVisibleContainer = async () => {
+    requireId();
+    const container = await containerService.getContainer(id);
+    if (!scope!.canSee(container.projectId)) {
+      throw new Error(`Insufficient permissions for container: ${id}`);
+    }
+  };
+  const requireVisibleRule = () => {
+    if (id && !scope!.canSeeRule(id)) {
+      throw new Error(`Insufficient permissions for proxy rule: ${id}`);
+    }
+  };
   
   switch (channel) {
     case 'containers':
-      handleContainerEvents(ws, id);
-      break;
-      
-    case 'container-stats':
       if (id) {
-        containerService.startStatsMonitoring(id);
+        await requireVisibleContainer();
       }
-      break;
+      return () => handleContainerEvents(ws, scope!, id);
       
-    case 'container-logs':
-      if (id) {
-        containerService.startLogStreaming(id, (log) => {
-          ws.send(JSON.stringify({ type: 'container-log', id, log }));
+    case 'container-stats':
+      await requireVisibleContainer();
+      return () => {
+        // One stats monitor per container, shared by all subscribed connections
+        const releaseMonitor = subscriptionRegistry.acquire(`container-stats:${id}`, () => {
+          containerService.startStatsMonitoring(id);
+          return () => containerService.stopStatsMonitoring(id);
         });
+        const releaseHandlers = handleContainerStatsEvents(ws, id);
+        return () => {
+          releaseHandlers();
+          releaseMonitor();
+        };
+      };
+      
+    case 'container-logs':
+      await requireVisibleContainer();
+      return () => startConnectionLogStream(ws, id, data.tail);
+      
+    case 'container-exec': {
+      requireId();
+      const container = await containerService.getContainer(id);
+      if (!scope!.canOperate(container.projectId)) {
+        throw new Error(`Insufficient permissions for container: ${id}`);
       }
-      break;
+      const options = { shell: data.shell, user: data.user, cols: data.cols, rows: data.rows };
+      return () => startConnectionExec(ws, getConnectionKey(ws), user, id, options, () => {
+        // Drop the finished subscription so the client can open another shell
+        const connection = getConnectionKey(ws);
+        const subscription = subscriptionRegistry.findSubscription(connection, 'container-exec', id);
+        if (subscription) {
+          subscriptionRegistry.unsubscribe(connection, subscription.id);
+        }
+      });
+    }
       
     case 'proxy':
-      handleProxyEvents(ws, id);
-      break;
+      requireVisibleRule();
+      return () => withRuleTracking(scope!, handleProxyEvents(ws, scope!, id));
       
     case 'proxy-analytics':
-      handleProxyAnalyticsEvents(ws, id);
-      break;
+      requireVisibleRule();
+      return () => withRuleTracking(scope!, handleProxyAnalyticsEvents(ws, scope!, id));
+      
+    case 'image-pull':
+      if (id && !imageService.getPull(id)) {
+        throw new Error(`Image pull not found: ${id}`);
+      }
+      return () => handleImagePullEvents(ws, id);
       
     case 'system':
-      handleSystemEvents(ws);
-      break;
+      return () => handleSystemEvents(ws);
       
     default:
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: `Unknown channel: ${channel}`
-      }));
+      return null;
   }
 }
 
 /**
- * Handle unsubscription requests
+ * Keep a scope's rule projects current for as long as a subscription lasts
+ */
+function withRuleTracking(scope: ProjectScope, releaseHandlers: Release): Release {
+  const stopFollowing = scope.followRules();
+  return () => {
+    releaseHandlers();
+    stopFollowing();
+  };
+}
+
+/**
+ * Handle unsubscription requests, by subscription id or by channel and id
  */
 function handleUnsubscription(ws: any, data: any) {
-  const { channel, id } = data;
+  const { channel, id, subscriptionId, requestId } = data;
+  const connection = getConnectionKey(ws);
   
-  switch (channel) {
-    case 'container-stats':
-      if (id) {
-        containerService.stopStatsMonitoring(id);
+  const targetId = subscriptionId ?? subscriptionRegistry.findSubscription(connection, channel, id)?.id;
+  const subscription = targetId ? subscriptionRegistry.unsubscribe(connection, targetId) : undefined;
+  
+  if (!subscription) {
+    ws.send(JSON.stringify({
+      type: 'error',
+      requestId,
+      message: 'Subscription not found'
+    }));
+    return;
+  }
+  
+  ws.send(JSON.stringify({
+    type: 'ack',
+    action: 'unsubscribe',
+    requestId,
+    channel: subscription.channel,
+    id: subscription.targetId,
+    subscriptionId: subscription.id
+  }));
+}
+
+/**
+ * Pass terminal input or a resize to the connection's exec session in a container
+ */
+function handleExecMessage(ws: any, data: any, send: () => Promise<boolean>) {
+  send()
+    .then((found) => {
+      if (!found) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          requestId: data.requestId,
+          message: `No exec session for container: ${data.id}`
+        }));
       }
-      break;
+    })
+    .catch((error: any) => {
+      ws.send(JSON.stringify({ type: 'error', requestId: data.requestId, message: error.message }));
+    });
+}
+
+/**
+ * Follow a container's logs for this connection only
+ */
+function startConnectionLogStream(ws: any, containerId: string, tail?: number): Release {
+  const streamId = containerService.startLogStreaming(containerId, (entry) => {
+    ws.send(JSON.stringify({ type: 'container-log', id: containerId, ...entry }));
+  }, {
+    tail,
+    onEnd: () => {
+      ws.send(JSON.stringify({ type: 'container-log-end', id: containerId }));
       
-    case 'container-logs':
+      // Drop the finished subscription so the client can subscribe again
+      const connection = getConnectionKey(ws);
+      const subscription = subscriptionRegistry.findSubscription(connection, 'container-logs', containerId);
+      if (subscription) {
+        subscriptionRegistry.unsubscribe(connection, subscription.id);
+      }
+    }
+  }).catch((error: any) => {
+    ws.send(JSON.stringify({ type: 'error', message: error.message }));
+    return null;
+  });
+  
+  return () => {
+    streamId.then(id => {
       if (id) {
         containerService.stopLogStreaming(id);
       }
-      break;
-  }
+    });
+  };
 }
 
 /**
  * Clean up subscriptions when a connection is closed
  */
 function cleanupSubscriptions(ws: any) {
-  // This would ideally track active subscriptions per connection
-  // For now, we'll just log that cleanup would happen here
-  console.log('Cleaning up subscriptions for closed connection');
+  const count = subscriptionRegistry.unsubscribeAll(getConnectionKey(ws));
+  console.log(`Cleaned up ${count} subscriptions for closed connection`);
 }
 
 export default websocketServer;
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { proxyService } from '../services/proxy';
+import { getProjectAccess } from '../services/project';
+import { Permission, ProjectAccess, hasProjectPermission } from '../middleware/permissions';
+import { ProxyRule } from '../../../shared/src/models';
+import { ConnectionUser } from './auth';
+import { Release } from './subscriptions';
+
+/**
+ * The containers and proxy rules whose events a subscription may see.
+ * Memberships are read when the subscription starts; rules are followed
+ * as they are created and moved between projects.
+ */
+export class ProjectScope {
+  private ruleProjects: Map<string, string | undefined> = new Map();
+
+  constructor(private access: ProjectAccess) {}
+
+  /**
+   * Build the scope of a connection's user
+   */
+  static async forUser(user: ConnectionUser): Promise<ProjectScope> {
+    const scope = new ProjectScope(await getProjectAccess(user.userId, user.role));
+    (await proxyService.getRules()).forEach(rule => scope.trackRule(rule));
+    return scope;
+  }
+
+  /**
+   * Check whether resources in a project, or in no project, are visible
+   */
+  canSee(projectId?: string): boolean {
+    return hasProjectPermission(this.access, projectId, Permission.READ);
+  }
+
+  /**
+   * Check whether containers in a project, or in no project, may be operated
+   */
+  canOperate(projectId?: string): boolean {
+    return hasProjectPermission(this.access, projectId, Permission.OPERATE);
+  }
+
+  /**
+   * Check whether a proxy rule's events are visible
+   */
+  canSeeRule(ruleId: string): boolean {
+    return this.canSee(this.ruleProjects.get(ruleId));
+  }
+
+  /**
+   * Remember which project a rule belongs to. Deleted rules are kept, so
+   * their deletion is only sent to those who could see them.
+   */
+  trackRule(rule: Pick<ProxyRule, 'id' | 'projectId'>): void {
+    this.ruleProjects.set(rule.id, rule.projectId);
+  }
+
+  /**
+   * Track rules as they change, until the returned function is called
+   */
+  followRules(): Release {
+    const track = (rule: ProxyRule) => this.trackRule(rule);
+    const events = ['proxy:rule:created', 'proxy:rule:updated', 'proxy:rule:toggled'];
+    events.forEach(event => proxyService.on(event, track));
+    return () => events.forEach(event => proxyService.off(event, track));
+  }
+}
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+
+/**
+ * Stops whatever a subscription started
+ */
+export type Release = () => void;
+
+/**
+ * A channel subscription held by one websocket connection
+ */
+export interface Subscription {
+  id: string;
+  channel: string;
+  targetId?: string;
+  release: Release;
+}
+
+/**
+ * Registry of websocket subscriptions, keyed by connection.
+ * Resources shared between connections (such as a container's stats
+ * monitor) are reference-counted and stopped when the last subscriber leaves.
+ */
+export class SubscriptionRegistry {
+  private connections: Map<object, Map<string, Subscription>> = new Map();
+  private shared: Map<string, { refs: number; release: Release }> = new Map();
+
+  /**
+   * Subscribe a connection to a channel. Subscribing again to the same
+   * channel and target returns the existing subscription.
+   */
+  subscribe(connection: object, channel: string, targetId: string | undefined, start: () => Release): Subscription {
+    const existing = this.findSubscription(connection, channel, targetId);
+    if (existing) {
+      return existing;
+    }
+
+    const subscription: Subscription = {
+      id: crypto.randomUUID(),
+      channel,
+      targetId,
+      release: start()
+    };
+
+    const subscriptions = this.connections.get(connection) || new Map<string, Subscription>();
+    subscriptions.set(subscription.id, subscription);
+    this.connections.set(connection, subscriptions);
+
+    return subscription;
+  }
+
+  /**
+   * Acquire a resource shared by all connections, starting it for the first
+   * subscriber. The returned release stops it once every holder has released.
+   */
+  acquire(key: string, start: () => Release): Release {
+    const resource = this.shared.get(key);
+    if (resource) {
+      resource.refs++;
+    } else {
+      this.shared.set(key, { refs: 1, release: start() });
+    }
+
+    let released = false;
+    return () => {
+      const current = this.shared.get(key);
+      if (released || !current) {
+        return;
+      }
+      released = true;
+
+      current.refs--;
+      if (current.refs === 0) {
+        this.shared.delete(key);
+        current.release();
+      }
+    };
+  }
+
+  /**
+   * Find a connection's subscription to a channel and target
+   */
+  findSubscription(connection: object, channel: string, targetId?: string): Subscription | undefined {
+    const subscriptions = this.connections.get(connection);
+    if (!subscriptions) {
+      return undefined;
+    }
+
+    for (const subscription of subscriptions.values()) {
+      if (subscription.channel === channel && subscription.targetId === targetId) {
+        return subscription;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove one of a connection's subscriptions
+   */
+  unsubscribe(connection: object, subscriptionId: string): Subscription | undefined {
+    const subscriptions = this.connections.get(connection);
+    const subscription = subscriptions?.get(subscriptionId);
+    if (!subscriptions || !subscription) {
+      return undefined;
+    }
+
+    subscriptions.delete(subscriptionId);
+    if (subscriptions.size === 0) {
+      this.connections.delete(connection);
+    }
+
+    subscription.release();
+    return subscription;
+  }
+
+  /**
+   * Remove every subscription held by a connection
+   */
+  unsubscribeAll(connection: object): number {
+    const subscriptions = this.connections.get(connection);
+    if (!subscriptions) {
+      return 0;
+    }
+
+    this.connections.delete(connection);
+    for (const subscription of subscriptions.values()) {
+      try {
+        subscription.release();
+      } catch (error) {
+        console.error(`Error releasing ${subscription.channel} subscription:`, error);
+      }
+    }
+    return subscriptions.size;
+  }
+
+  /**
+   * Get the subscriptions held by a connection
+   */
+  getSubscriptions(connection: object): Subscription[] {
+    return Array.from(this.connections.get(connection)?.values() || []);
+  }
+
+  /**
+   * Get the number of holders of a shared resource
+   */
+  getReferenceCount(key: string): number {
+    return this.shared.get(key)?.refs || 0;
+  }
+}
+
+// Export a singleton instance
+export const subscriptionRegistry = new SubscriptionRegistry();
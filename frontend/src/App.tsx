@@ -6,6 +6,8 @@ import Dashboard from './components/dashboard/Dashboard';
 import ContainerList from './components/containers/ContainerList';
 import ContainerDetail from './components/containers/ContainerDetail';
 import ContainerCreationForm from './components/containers/ContainerCreationForm';
+import StackList from './components/stacks/StackList';
+import StackForm from './components/stacks/StackForm';
 import ProxyRuleList from './components/proxy/ProxyRuleList';
 import ProxyRuleDetail from './components/proxy/ProxyRuleDetail';
 import ProxyRuleForm from './components/proxy/ProxyRuleForm';
@@ -13,6 +15,7 @@ import ProxyTrafficMonitor from './components/proxy/ProxyTrafficMonitor';
 import MetricsDashboard from './components/metrics/MetricsDashboard';
 import ConfigurationForm from './components/settings/ConfigurationForm';
 import BackupRestorePanel from './components/settings/BackupRestorePanel';
+import AuditLog from './components/audit/AuditLog';
 import NotFound from './components/common/NotFound';
 
 // Create a client
@@ -38,6 +41,11 @@ const App = () => {
           <Route path="/containers/new" element={<ContainerCreationForm />} />
           <Route path="/containers/:id" element={<ContainerDetail />} />
           
+          {/* Stack Routes */}
+          <Route path="/stacks" element={<StackList />} />
+          <Route path="/stacks/new" element={<StackForm />} />
+          <Route path="/stacks/:id/edit" element={<StackForm />} />
+          
           {/* Proxy Routes */}
           <Route path="/proxy" element={<ProxyRuleList />} />
           <Route path="/proxy/new" element={<ProxyRuleForm />} />
@@ -52,6 +60,9 @@ const App = () => {
           <Route path="/settings" element={<ConfigurationForm />} />
           <Route path="/settings/backup" element={<BackupRestorePanel />} />
           
+          {/* Audit Routes */}
+          <Route path="/audit" element={<AuditLog />} />
+          
           {/* 404 Route */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { AuditLogEntry, AuditLogQuery } from '../../../../shared/src/models';
+import { fetchAuditLogs, exportAuditLogs } from '../../services/auditService';
+
+const RESOURCES = ['container', 'proxy_rule', 'proxy_error', 'config', 'backup', 'user', 'session', 'api_token', 'audit_log', 'project', 'stack', 'certificate'];
+
+type Filters = Omit<AuditLogQuery, 'cursor' | 'limit'>;
+
+/**
+ * Render an entry's details: changed fields as before → after, anything else as JSON
+ */
+const AuditDetails: React.FC<{ details: any }> = ({ details }) => {
+  if (details === undefined || details === null) {
+    return null;
+  }
+
+  if (typeof details === 'object' && (details.before || details.after)) {
+    const fields = Array.from(new Set([
+      ...Object.keys(details.before || {}),
+      ...Object.keys(details.after || {})
+    ]));
+    const format = (value: unknown) => value === undefined ? '—' : JSON.stringify(value);
+
+    return (
+      <ul className="space-y-1 font-mono text-xs">
+        {fields.map(field => (
+          <li key={field}>
+            <span className="text-gray-900">{field}</span>:{' '}
+            <span className="text-red-700">{format(details.before?.[field])}</span>
+            {' → '}
+            <span className="text-green-700">{format(details.after?.[field])}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return <code className="break-all text-xs">{JSON.stringify(details)}</code>;
+};
+
+const AuditLog: React.FC = () => {
+  const [filters, setFilters] = useState<Filters>({});
+  const [appliedFilters, setAppliedFilters] = useState<Filters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEntries(appliedFilters);
+  }, [appliedFilters]);
+
+  const loadEntries = async (query: Filters, cursor?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await fetchAuditLogs({ ...query, cursor });
+      setEntries(cursor ? [...entries, ...page.entries] : page.entries);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Datetime inputs are in local time; the API expects ISO timestamps
+  const toQuery = (values: Filters): Filters => ({
+    ...values,
+    from: values.from ? new Date(values.from).toISOString() : undefined,
+    to: values.to ? new Date(values.to).toISOString() : undefined
+  });
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(toQuery(filters));
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setError(null);
+      await exportAuditLogs(appliedFilters, format);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to export audit log');
+    }
+  };
+
+  const updateFilter = (field: keyof Filters, value: string) => {
+    setFilters({ ...filters, [field]: value || undefined });
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Audit Log</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Changes made to containers, proxy rules, configuration, backups and users.
+          </p>
+        </div>
+        <div className="mt-4 flex space-x-2 sm:mt-0 sm:ml-16">
+          <button
+            type="button"
+            onClick={() => handleExport('csv')}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExport('json')}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleFilter} className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-6">
+        <div>
+          <label htmlFor="audit-user" className="block text-sm font-medium text-gray-700">User ID</label>
+          <input
+            id="audit-user"
+            type="text"
+            value={filters.userId || ''}
+            onChange={(e) => updateFilter('userId', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-resource" className="block text-sm font-medium text-gray-700">Resource</label>
+          <select
+            id="audit-resource"
+            value={filters.resource || ''}
+            onChange={(e) => updateFilter('resource', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {RESOURCES.map(resource => <option key={resource} value={resource}>{resource}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-action" className="block text-sm font-medium text-gray-700">Action</label>
+          <input
+            id="audit-action"
+            type="text"
+            value={filters.action || ''}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            placeholder="update"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-from" className="block text-sm font-medium text-gray-700">From</label>
+          <input
+            id="audit-from"
+            type="datetime-local"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-to" className="block text-sm font-medium text-gray-700">To</label>
+          <input
+            id="audit-to"
+            type="datetime-local"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4">
+          <h3 className="text-sm font-medium text-red-800">{error}</h3>
+        </div>
+      )}
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">Time</th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">User</th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Action</th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Resource</th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Details</th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">IP Address</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {!loading && entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="py-4 text-center text-sm text-gray-500">No matching entries</td>
+              </tr>
+            ) : entries.map(entry => (
+              <tr key={entry.id}>
+                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-500 sm:pl-6">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                  {entry.username || entry.userId || <span className="text-gray-400">{entry.userAgent === 'system' ? 'system' : 'anonymous'}</span>}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-gray-900">{entry.action}</td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                  {entry.resource}
+                  {entry.resourceId && <code className="ml-1 text-xs">{entry.resourceId.slice(0, 12)}</code>}
+                </td>
+                <td className="px-3 py-4 text-sm text-gray-500">
+                  <AuditDetails details={entry.details} />
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.ipAddress}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {loading && (
+        <div className="mt-6 flex justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent"></div>
+        </div>
+      )}
+
+      {!loading && nextCursor && (
+        <div className="mt-6 flex justify-center">
+          <button
+            type="button"
+            onClick={() => loadEntries(appliedFilters, nextCursor)}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { ApiToken, ApiTokenScope } from 'kontainers-shared';
+import authService from '../../services/authService';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  [ApiTokenScope.CONTAINERS_READ]: 'Read containers',
+  [ApiTokenScope.CONTAINERS_WRITE]: 'Manage containers',
+  [ApiTokenScope.PROXY_READ]: 'Read proxy rules',
+  [ApiTokenScope.PROXY_WRITE]: 'Manage proxy rules',
+  [ApiTokenScope.CONFIG_READ]: 'Read configuration',
+  [ApiTokenScope.CONFIG_ADMIN]: 'Administer configuration and users'
+};
+
+const ApiTokens: React.FC = () => {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | ''>(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const loadTokens = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTokens(await authService.getApiTokens());
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load API tokens');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || scopes.length === 0) {
+      setError('A name and at least one scope are required');
+      return;
+    }
+
+    try {
+      setError(null);
+      const result = await authService.createApiToken({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiresInDays === '' ? undefined : expiresInDays
+      });
+      setNewToken(result.token);
+      setTokens([...tokens, result.apiToken]);
+      setName('');
+      setScopes([]);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to create API token');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!window.confirm('Revoke this token? Scripts using it will stop working.')) {
+      return;
+    }
+
+    try {
+      await authService.revokeApiToken(id);
+      setTokens(tokens.map(token =>
+        token.id === id ? { ...token, revokedAt: new Date().toISOString() } : token
+      ));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to revoke API token');
+    }
+  };
+
+  const getStatus = (token: ApiToken) => {
+    if (token.revokedAt) {
+      return { label: 'Revoked', className: 'bg-gray-100 text-gray-800' };
+    }
+    if (token.expiresAt && new Date(token.expiresAt) < new Date()) {
+      return { label: 'Expired', className: 'bg-yellow-100 text-yellow-800' };
+    }
+    return { label: 'Active', className: 'bg-green-100 text-green-800' };
+  };
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-lg font-semibold text-gray-900">API Tokens</h2>
+      <p className="mt-2 text-sm text-gray-700">
+        Long-lived tokens for scripts and CI. Send them as <code>Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4">
+          <h3 className="text-sm font-medium text-red-800">{error}</h3>
+        </div>
+      )}
+
+      {newToken && (
+        <div className="mt-4 rounded-md bg-green-50 p-4">
+          <h3 className="text-sm font-medium text-green-800">
+            Copy your new token now. It will not be shown again.
+          </h3>
+          <code className="mt-2 block break-all rounded bg-white p-2 text-sm text-gray-900">{newToken}</code>
+          <button
+            onClick={() => setNewToken(null)}
+            className="mt-2 text-sm font-medium text-green-700 hover:text-green-600"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-6 space-y-4 rounded-lg bg-white p-4 shadow ring-1 ring-black ring-opacity-5">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="token-name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="token-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="deploy-pipeline"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="token-expiry" className="block text-sm font-medium text-gray-700">Expires in (days)</label>
+            <input
+              id="token-expiry"
+              type="number"
+              min={1}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+              placeholder="Never"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700">Scopes</legend>
+          <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {Object.values(ApiTokenScope).map(scope => (
+              <label key={scope} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-2"><code>{scope}</code> — {SCOPE_LABELS[scope]}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <button
+          type="submit"
+          className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          Create Token
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="mt-6 flex justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent"></div>
+        </div>
+      ) : (
+        <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">Name</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Scopes</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Expires</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Last Used</th>
+                <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {tokens.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-4 text-center text-sm text-gray-500">No API tokens</td>
+                </tr>
+              ) : tokens.map(token => {
+                const status = getStatus(token);
+                return (
+                  <tr key={token.id}>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm sm:pl-6">
+                      <div className="font-medium text-gray-900">{token.name}</div>
+                      <code className="text-xs text-gray-500">{token.prefix}…</code>
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-500">
+                      {token.scopes.map(scope => (
+                        <code key={scope} className="mr-1 inline-block rounded bg-gray-100 px-1 text-xs">{scope}</code>
+                      ))}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {token.expiresAt ? new Date(token.expiresAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                      {!token.revokedAt && (
+                        <button
+                          onClick={() => handleRevoke(token.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokens;
@@ -1,6 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
+import authService from '../../services/authService';
+import { TwoFactorChallenge, TwoFactorSetup } from 'kontainers-shared';
+import { TwoFactorSetupDetails, RecoveryCodeList } from './TwoFactorSettings';
 
 const LoginForm: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -9,8 +12,40 @@ const LoginForm: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+  
+  // Second login step
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  
   const navigate = useNavigate();
-  const { login } = useAuthStore();
+  const { login, completeSsoLogin, verifyTwoFactor, loadUser } = useAuthStore();
+  
+  // Finish a single sign-on login: the backend redirects back here with the tokens or an error
+  useEffect(() => {
+    const fragment = new URLSearchParams(window.location.hash.substring(1));
+    const token = fragment.get('token');
+    const refreshToken = fragment.get('refresh_token');
+    const ssoError = new URLSearchParams(window.location.search).get('sso_error');
+    
+    if (token || ssoError) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    
+    if (ssoError) {
+      setError(ssoError);
+    } else if (token && refreshToken) {
+      completeSsoLogin(token, refreshToken)
+        .then(() => navigate('/dashboard'))
+        .catch((err: any) => setError(err.message || 'Single sign-on failed'));
+    }
+    
+    authService.getSsoConfig()
+      .then(config => setSsoEnabled(config.enabled))
+      .catch(() => setSsoEnabled(false));
+  }, []);
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,8 +58,17 @@ const LoginForm: React.FC = () => {
     try {
       setIsSubmitting(true);
       setError('');
-      await login(email, password);
-      navigate('/dashboard');
+      const pendingChallenge = await login(email, password);
+      
+      if (!pendingChallenge) {
+        navigate('/dashboard');
+        return;
+      }
+      
+      setChallenge(pendingChallenge);
+      if (pendingChallenge.setupRequired) {
+        setTwoFactorSetup(await authService.setupTwoFactorForLogin(pendingChallenge.challengeToken));
+      }
     } catch (err: any) {
       setError(err.response?.data?.message || 'Login failed. Please check your credentials.');
     } finally {
@@ -32,6 +76,34 @@ const LoginForm: React.FC = () => {
     }
   };
   
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!challenge || !twoFactorCode) {
+      setError('Please enter your authentication code');
+      return;
+    }
+    
+    try {
+      setIsSubmitting(true);
+      setError('');
+      
+      if (challenge.setupRequired) {
+        // Show the new recovery codes before continuing
+        const result = await authService.enableTwoFactorForLogin(challenge.challengeToken, twoFactorCode);
+        await loadUser();
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        await verifyTwoFactor(challenge.challengeToken, twoFactorCode);
+        navigate('/dashboard');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Invalid authentication code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
   return (
     <div className="flex min-h-full flex-col justify-center py-12 sm:px-6 lg:px-8">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
@@ -52,75 +124,145 @@ const LoginForm: React.FC = () => {
             </div>
           )}
           
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1">
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 placeholder-gray-400 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
-                />
-              </div>
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1">
-                <input
-                  id="password"
-                  name="password"
-                  type="password"
-                  autoComplete="current-password"
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 placeholder-gray-400 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
-                />
-              </div>
+          {recoveryCodes && (
+            <div className="space-y-6">
+              <RecoveryCodeList codes={recoveryCodes} />
+              <button
+                type="button"
+                onClick={() => navigate('/dashboard')}
+                className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Continue
+              </button>
             </div>
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <input
-                  id="remember-me"
-                  name="remember-me"
-                  type="checkbox"
-                  checked={rememberMe}
-                  onChange={(e) => setRememberMe(e.target.checked)}
-                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-900">
-                  Remember me
+          )}
+          
+          {challenge && !recoveryCodes && (
+            <form className="space-y-6" onSubmit={handleTwoFactorSubmit}>
+              {challenge.setupRequired ? (
+                <>
+                  <p className="text-sm text-gray-700">
+                    Your account requires two-factor authentication. Add Kontainers to your authenticator app, then enter the code it shows.
+                  </p>
+                  {twoFactorSetup && <TwoFactorSetupDetails setup={twoFactorSetup} />}
+                </>
+              ) : (
+                <p className="text-sm text-gray-700">
+                  Enter the code from your authenticator app, or one of your recovery codes.
+                </p>
+              )}
+              
+              <div>
+                <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700">
+                  Authentication code
                 </label>
+                <div className="mt-1">
+                  <input
+                    id="two-factor-code"
+                    name="two-factor-code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 placeholder-gray-400 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
               </div>
-
-              <div className="text-sm">
-                <Link to="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
-                  Forgot your password?
-                </Link>
-              </div>
-            </div>
-
-            <div>
+              
               <button
                 type="submit"
                 disabled={isSubmitting}
                 className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-75"
               >
-                {isSubmitting ? 'Signing in...' : 'Sign in'}
+                {isSubmitting ? 'Verifying...' : 'Verify'}
               </button>
+            </form>
+          )}
+          
+          {!challenge && (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 placeholder-gray-400 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 placeholder-gray-400 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="remember-me"
+                    name="remember-me"
+                    type="checkbox"
+                    checked={rememberMe}
+                    onChange={(e) => setRememberMe(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-900">
+                    Remember me
+                  </label>
+                </div>
+
+                <div className="text-sm">
+                  <Link to="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+                    Forgot your password?
+                  </Link>
+                </div>
+              </div>
+
+              <div>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-75"
+                >
+                  {isSubmitting ? 'Signing in...' : 'Sign in'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {ssoEnabled && !challenge && (
+            <div className="mt-6">
+              <a
+                href={authService.getSsoLoginUrl()}
+                className="flex w-full justify-center rounded-md border border-gray-300 bg-white py-2 px-4 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Sign in with SSO
+              </a>
             </div>
-          </form>
+          )}
 
           <div className="mt-6">
             <div className="relative">
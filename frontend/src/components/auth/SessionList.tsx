@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Session } from 'kontainers-shared';
+import authService from '../../services/authService';
+
+const SessionList: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSessions(await authService.getSessions());
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    const message = session.current
+      ? 'Sign out of this browser?'
+      : `Sign out ${session.device}?`;
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    try {
+      await authService.revokeSession(session.id);
+      setSessions(sessions.filter(s => s.id !== session.id));
+      if (session.current) {
+        authService.logout();
+        window.location.href = '/login';
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to revoke session');
+    }
+  };
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-lg font-semibold text-gray-900">Active Sessions</h2>
+      <p className="mt-2 text-sm text-gray-700">
+        Browsers and devices signed in to your account. Revoke any you do not recognize.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4">
+          <h3 className="text-sm font-medium text-red-800">{error}</h3>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="mt-6 flex justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent"></div>
+        </div>
+      ) : (
+        <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">Device</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">IP Address</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Signed In</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Last Seen</th>
+                <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {sessions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-4 text-center text-sm text-gray-500">No active sessions</td>
+                </tr>
+              ) : sessions.map(session => (
+                <tr key={session.id}>
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm sm:pl-6">
+                    <div className="font-medium text-gray-900" title={session.userAgent}>{session.device}</div>
+                    {session.current && (
+                      <span className="inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800">
+                        This browser
+                      </span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{session.ipAddress || 'Unknown'}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                    {new Date(session.createdAt).toLocaleString()}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                    {new Date(session.lastSeenAt).toLocaleString()}
+                  </td>
+                  <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
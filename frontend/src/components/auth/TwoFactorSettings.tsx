@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { TwoFactorSetup } from 'kontainers-shared';
+import authService from '../../services/authService';
+import { useAuthStore } from '../../store/authStore';
+
+/**
+ * Secret and provisioning URI for adding Kontainers to an authenticator app
+ */
+export const TwoFactorSetupDetails: React.FC<{ setup: TwoFactorSetup }> = ({ setup }) => (
+  <div className="rounded-md bg-gray-50 p-4 text-sm text-gray-700">
+    <p>
+      Scan the provisioning URI as a QR code, or open it on the device with your authenticator app.
+      You can also enter the secret manually.
+    </p>
+    <a href={setup.otpauthUri} className="mt-2 block break-all font-mono text-xs text-blue-600 hover:text-blue-500">
+      {setup.otpauthUri}
+    </a>
+    <p className="mt-2">
+      Secret: <code className="font-mono text-gray-900">{setup.secret.match(/.{1,4}/g)?.join(' ')}</code>
+    </p>
+  </div>
+);
+
+/**
+ * One-time recovery codes, shown once after they are generated
+ */
+export const RecoveryCodeList: React.FC<{ codes: string[] }> = ({ codes }) => (
+  <div className="rounded-md bg-yellow-50 p-4">
+    <h3 className="text-sm font-medium text-yellow-800">
+      Save these recovery codes. Each can be used once if you lose your authenticator, and they will not be shown again.
+    </h3>
+    <ul className="mt-2 grid grid-cols-2 gap-1 font-mono text-sm text-gray-900">
+      {codes.map(code => <li key={code}>{code}</li>)}
+    </ul>
+  </div>
+);
+
+const TwoFactorSettings: React.FC = () => {
+  const { user, loadUser } = useAuthStore();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+      setCode('');
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Two-factor request failed');
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setRecoveryCodes(null);
+    setSetup(await authService.setupTwoFactor());
+  });
+
+  const handleEnable = () => run(async () => {
+    const result = await authService.enableTwoFactor(code);
+    setSetup(null);
+    setRecoveryCodes(result.recoveryCodes);
+    await loadUser();
+  });
+
+  const handleDisable = () => run(async () => {
+    await authService.disableTwoFactor(code);
+    setRecoveryCodes(null);
+    await loadUser();
+  });
+
+  const handleRegenerate = () => run(async () => {
+    const result = await authService.regenerateRecoveryCodes(code);
+    setRecoveryCodes(result.recoveryCodes);
+  });
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="123456"
+      className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+    />
+  );
+
+  const buttonClass = 'inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2';
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-lg font-semibold text-gray-900">Two-Factor Authentication</h2>
+      <p className="mt-2 text-sm text-gray-700">
+        {user?.twoFactorEnabled
+          ? 'Two-factor authentication is enabled. Sign-ins require a code from your authenticator app.'
+          : 'Require a code from an authenticator app in addition to your password when signing in.'}
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4">
+          <h3 className="text-sm font-medium text-red-800">{error}</h3>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-4">
+        {recoveryCodes && <RecoveryCodeList codes={recoveryCodes} />}
+
+        {!user?.twoFactorEnabled && !setup && (
+          <button type="button" onClick={handleStart} className={buttonClass}>
+            Set up two-factor authentication
+          </button>
+        )}
+
+        {!user?.twoFactorEnabled && setup && (
+          <>
+            <TwoFactorSetupDetails setup={setup} />
+            <div className="flex items-center space-x-2">
+              {codeInput}
+              <button type="button" onClick={handleEnable} className={buttonClass}>
+                Confirm and enable
+              </button>
+            </div>
+          </>
+        )}
+
+        {user?.twoFactorEnabled && (
+          <div className="flex items-center space-x-2">
+            {codeInput}
+            <button type="button" onClick={handleRegenerate} className={buttonClass}>
+              New recovery codes
+            </button>
+            <button
+              type="button"
+              onClick={handleDisable}
+              className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-red-600 shadow-sm hover:bg-gray-50"
+            >
+              Disable
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,6 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { UserDTO, UserRole } from 'kontainers-shared';
 import { useAuthStore } from '../../store/authStore';
+import ApiTokens from './ApiTokens';
+import TwoFactorSettings from './TwoFactorSettings';
+import SessionList from './SessionList';
+import authService from '../../services/authService';
 
 const UserManagement: React.FC = () => {
   const [users, setUsers] = useState<UserDTO[]>([]);
@@ -76,6 +80,32 @@ const UserManagement: React.FC = () => {
     }
   };
   
+  const handleResetTwoFactor = async (userId: string) => {
+    if (!window.confirm('Reset two-factor authentication for this user? They will need to enroll again.')) {
+      return;
+    }
+    
+    try {
+      await authService.resetUserTwoFactor(userId);
+      setUsers(users.map(user => 
+        user.id === userId ? { ...user, twoFactorEnabled: false } : user
+      ));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to reset two-factor authentication');
+    }
+  };
+  
+  const handleUnlock = async (userId: string) => {
+    try {
+      await authService.unlockUser(userId);
+      setUsers(users.map(user => 
+        user.id === userId ? { ...user, lockedUntil: undefined } : user
+      ));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to unlock user');
+    }
+  };
+  
   const openUserModal = (user: UserDTO) => {
     setSelectedUser(user);
     setIsModalOpen(true);
@@ -181,6 +211,19 @@ const UserManagement: React.FC = () => {
                             />
                           </button>
                           <span className="ml-3">{user.isActive ? 'Active' : 'Inactive'}</span>
+                          {user.twoFactorEnabled && (
+                            <span className="ml-2 inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800">
+                              2FA
+                            </span>
+                          )}
+                          {user.lockedUntil && (
+                            <span
+                              className="ml-2 inline-flex rounded-full bg-red-100 px-2 text-xs font-semibold leading-5 text-red-800"
+                              title={`Locked after failed logins until ${new Date(user.lockedUntil).toLocaleString()}`}
+                            >
+                              Locked
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
@@ -193,6 +236,22 @@ const UserManagement: React.FC = () => {
                         >
                           Edit
                         </button>
+                        {user.lockedUntil && (
+                          <button
+                            onClick={() => handleUnlock(user.id)}
+                            className="text-red-600 hover:text-red-900 mr-4"
+                          >
+                            Unlock
+                          </button>
+                        )}
+                        {user.twoFactorEnabled && (
+                          <button
+                            onClick={() => handleResetTwoFactor(user.id)}
+                            className="text-yellow-600 hover:text-yellow-900 mr-4"
+                          >
+                            Reset 2FA
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDeleteUser(user.id)}
                           className="text-red-600 hover:text-red-900"
@@ -209,6 +268,12 @@ const UserManagement: React.FC = () => {
         </div>
       </div>
       
+      <TwoFactorSettings />
+      
+      <SessionList />
+      
+      <ApiTokens />
+      
       {/* User Edit Modal would go here */}
       {isModalOpen && selectedUser && (
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
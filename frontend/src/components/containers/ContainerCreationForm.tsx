@@ -1,10 +1,16 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { createContainer } from '../../services/containerService';
+import { pullImage, waitForPull } from '../../services/imageService';
+import { fetchVolumes } from '../../services/volumeService';
+import { fetchNetworks } from '../../services/networkService';
+import { useProjectStore } from '../../store/projectStore';
 import Card from '../common/Card';
 import Button from '../common/Button';
 import Alert from '../common/Alert';
+import ImagePullProgress from './ImagePullProgress';
+import { ImagePull, ImagePullStatus, Volume, Network, RestartPolicy } from '../../../../shared/src/models';
 
 interface PortMapping {
   privatePort: number;
@@ -23,6 +29,34 @@ interface EnvironmentVariable {
   value: string;
 }
 
+// Numeric settings are kept as typed and only converted on submit
+interface ResourceLimits {
+  memory: string; // MB
+  memorySwap: string; // MB
+  cpus: string;
+  cpuShares: string;
+  cpuQuota: string;
+  cpuPeriod: string;
+  pidsLimit: string;
+}
+
+interface Healthcheck {
+  command: string;
+  interval: string;
+  timeout: string;
+  startPeriod: string;
+  retries: string;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Parse a number field, leaving it out when empty
+ */
+const parseNumber = (value: string, scale: number = 1): number | undefined => {
+  return value.trim() === '' ? undefined : Number(value) * scale;
+};
+
 const ContainerCreationForm: React.FC = () => {
   const navigate = useNavigate();
   
@@ -34,6 +68,22 @@ const ContainerCreationForm: React.FC = () => {
   const [envVars, setEnvVars] = useState<EnvironmentVariable[]>([]);
   const [networks, setNetworks] = useState<string[]>([]);
   const [newNetwork, setNewNetwork] = useState('');
+  const [command, setCommand] = useState('');
+  const [entrypoint, setEntrypoint] = useState('');
+  const [workingDir, setWorkingDir] = useState('');
+  const [user, setUser] = useState('');
+  const [limits, setLimits] = useState<ResourceLimits>({
+    memory: '', memorySwap: '', cpus: '', cpuShares: '', cpuQuota: '', cpuPeriod: '', pidsLimit: ''
+  });
+  const [restartPolicy, setRestartPolicy] = useState<RestartPolicy>(RestartPolicy.NO);
+  const [maxRetries, setMaxRetries] = useState('');
+  const [healthcheck, setHealthcheck] = useState<Healthcheck>({
+    command: '', interval: '', timeout: '', startPeriod: '', retries: ''
+  });
+  const [disableHealthcheck, setDisableHealthcheck] = useState(false);
+  const [pullFirst, setPullFirst] = useState(false);
+  const [pull, setPull] = useState<ImagePull | null>(null);
+  const [isPulling, setIsPulling] = useState(false);
   
   // Temporary state for adding new items
   const [newPort, setNewPort] = useState<PortMapping>({ privatePort: 80, type: 'tcp' });
@@ -43,6 +93,19 @@ const ContainerCreationForm: React.FC = () => {
   // Form validation
   const [errors, setErrors] = useState<Record<string, string>>({});
   
+  // New containers go into the selected project
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
+  
+  // Existing volumes and networks to pick from
+  const { data: availableVolumes = [] } = useQuery<Volume[]>({
+    queryKey: ['volumes'],
+    queryFn: fetchVolumes,
+  });
+  const { data: availableNetworks = [] } = useQuery<Network[]>({
+    queryKey: ['networks'],
+    queryFn: fetchNetworks,
+  });
+  
   // Create container mutation
   const createContainerMutation = useMutation({
     mutationFn: createContainer,
@@ -65,17 +128,51 @@ const ContainerCreationForm: React.FC = () => {
       newErrors.image = 'Image name is required';
     }
     
+    const numbers = [
+      ...Object.values(limits),
+      maxRetries,
+      healthcheck.interval,
+      healthcheck.timeout,
+      healthcheck.startPeriod,
+      healthcheck.retries
+    ];
+    if (numbers.some(value => value.trim() !== '' && isNaN(Number(value)))) {
+      newErrors.limits = 'Limits, retries and durations must be numbers';
+    }
+    if (limits.cpus.trim() && limits.cpuQuota.trim()) {
+      newErrors.limits = 'Set either a number of CPUs or a CPU quota, not both';
+    }
+    
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) {
       return;
     }
     
+    // Pull the image first, showing each layer's progress
+    if (pullFirst) {
+      setIsPulling(true);
+      try {
+        const started = await pullImage(image);
+        setPull(started);
+        const finished = await waitForPull(started, setPull);
+        if (finished.status === ImagePullStatus.FAILED) {
+          setErrors({ submit: finished.error || `Failed to pull image ${image}` });
+          return;
+        }
+      } catch (error: any) {
+        setErrors({ submit: error.response?.data?.error || error.message });
+        return;
+      } finally {
+        setIsPulling(false);
+      }
+    }
+    
     // Prepare environment variables in the format expected by the API
     const envArray = envVars.map(env => `${env.key}=${env.value}`);
     
@@ -86,9 +183,38 @@ const ContainerCreationForm: React.FC = () => {
       volumes,
       networks,
       env: envArray,
+      command: command.trim() || undefined,
+      entrypoint: entrypoint.trim() || undefined,
+      workingDir: workingDir.trim() || undefined,
+      user: user.trim() || undefined,
+      resources: {
+        memory: parseNumber(limits.memory, MB),
+        memorySwap: limits.memorySwap.trim() === '-1' ? -1 : parseNumber(limits.memorySwap, MB),
+        cpus: parseNumber(limits.cpus),
+        cpuShares: parseNumber(limits.cpuShares),
+        cpuQuota: parseNumber(limits.cpuQuota),
+        cpuPeriod: parseNumber(limits.cpuPeriod),
+        pidsLimit: parseNumber(limits.pidsLimit)
+      },
+      restartPolicy: {
+        name: restartPolicy,
+        maximumRetryCount: restartPolicy === RestartPolicy.ON_FAILURE ? parseNumber(maxRetries) : undefined
+      },
+      healthcheck: disableHealthcheck
+        ? { disabled: true }
+        : healthcheck.command.trim()
+          ? {
+              command: healthcheck.command.trim(),
+              interval: parseNumber(healthcheck.interval),
+              timeout: parseNumber(healthcheck.timeout),
+              startPeriod: parseNumber(healthcheck.startPeriod),
+              retries: parseNumber(healthcheck.retries)
+            }
+          : undefined,
       state: 'CREATED',
       status: 'Created',
-      labels: {}
+      labels: {},
+      projectId: currentProjectId || undefined
     });
   };
   
@@ -188,8 +314,26 @@ const ContainerCreationForm: React.FC = () => {
               {errors.image && (
                 <p className="mt-2 text-sm text-red-600">{errors.image}</p>
               )}
+              <div className="mt-2 flex items-center">
+                <input
+                  type="checkbox"
+                  id="pullFirst"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={pullFirst}
+                  onChange={(e) => setPullFirst(e.target.checked)}
+                />
+                <label htmlFor="pullFirst" className="ml-2 text-sm text-gray-700">
+                  Pull the image before creating the container
+                </label>
+              </div>
             </div>
           </div>
+          
+          {pull && (
+            <div className="mt-6">
+              <ImagePullProgress pull={pull} />
+            </div>
+          )}
         </Card>
         
         <Card title="Port Mappings">
@@ -273,15 +417,23 @@ const ContainerCreationForm: React.FC = () => {
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
               <div>
                 <label htmlFor="source" className="block text-sm font-medium text-gray-700">
-                  Host Path
+                  Host Path or Volume
                 </label>
                 <input
                   type="text"
                   id="source"
+                  list="volumeOptions"
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                   value={newVolume.source}
                   onChange={(e) => setNewVolume({ ...newVolume, source: e.target.value })}
                 />
+                <datalist id="volumeOptions">
+                  {availableVolumes.map((volume: Volume) => (
+                    <option key={volume.name} value={volume.name}>
+                      {volume.driver}
+                    </option>
+                  ))}
+                </datalist>
               </div>
               
               <div>
@@ -412,13 +564,21 @@ const ContainerCreationForm: React.FC = () => {
                 <label htmlFor="network" className="block text-sm font-medium text-gray-700">
                   Network
                 </label>
-                <input
-                  type="text"
+                <select
                   id="network"
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                   value={newNetwork}
                   onChange={(e) => setNewNetwork(e.target.value)}
-                />
+                >
+                  <option value="">Select a network</option>
+                  {availableNetworks
+                    .filter((network: Network) => !networks.includes(network.name))
+                    .map((network: Network) => (
+                      <option key={network.id} value={network.name}>
+                        {network.name} ({network.driver})
+                      </option>
+                    ))}
+                </select>
               </div>
               
               <div className="flex items-end">
@@ -431,6 +591,7 @@ const ContainerCreationForm: React.FC = () => {
             {networks.length > 0 && (
               <div className="mt-4">
                 <h4 className="text-sm font-medium text-gray-700 mb-2">Added Networks</h4>
+                <p className="text-xs text-gray-500 mb-2">The first network is the container's primary network.</p>
                 <div className="flex flex-wrap gap-2">
                   {networks.map((network) => (
                     <div key={network} className="inline-flex items-center bg-blue-100 text-blue-800 rounded-full px-3 py-1 text-sm">
@@ -456,6 +617,299 @@ const ContainerCreationForm: React.FC = () => {
           </div>
         </Card>
         
+        <Card title="Command">
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="command" className="block text-sm font-medium text-gray-700">
+                Command (optional)
+              </label>
+              <input
+                type="text"
+                id="command"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="Overrides the image's CMD"
+                value={command}
+                onChange={(e) => setCommand(e.target.value)}
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="entrypoint" className="block text-sm font-medium text-gray-700">
+                Entrypoint (optional)
+              </label>
+              <input
+                type="text"
+                id="entrypoint"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="Overrides the image's ENTRYPOINT"
+                value={entrypoint}
+                onChange={(e) => setEntrypoint(e.target.value)}
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="workingDir" className="block text-sm font-medium text-gray-700">
+                Working Directory (optional)
+              </label>
+              <input
+                type="text"
+                id="workingDir"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="e.g., /app"
+                value={workingDir}
+                onChange={(e) => setWorkingDir(e.target.value)}
+              />
+            </div>
+            
+            <div>
+              <label htmlFor="user" className="block text-sm font-medium text-gray-700">
+                User (optional)
+              </label>
+              <input
+                type="text"
+                id="user"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="user, uid or uid:gid"
+                value={user}
+                onChange={(e) => setUser(e.target.value)}
+              />
+            </div>
+          </div>
+        </Card>
+        
+        <Card title="Resource Limits">
+          <div className="space-y-4">
+            {errors.limits && (
+              <p className="text-sm text-red-600">{errors.limits}</p>
+            )}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div>
+                <label htmlFor="memory" className="block text-sm font-medium text-gray-700">
+                  Memory (MB)
+                </label>
+                <input
+                  type="text"
+                  id="memory"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="No limit"
+                  value={limits.memory}
+                  onChange={(e) => setLimits({ ...limits, memory: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="memorySwap" className="block text-sm font-medium text-gray-700">
+                  Memory + Swap (MB)
+                </label>
+                <input
+                  type="text"
+                  id="memorySwap"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="-1 for unlimited swap"
+                  value={limits.memorySwap}
+                  onChange={(e) => setLimits({ ...limits, memorySwap: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="cpus" className="block text-sm font-medium text-gray-700">
+                  CPUs
+                </label>
+                <input
+                  type="text"
+                  id="cpus"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="e.g., 0.5"
+                  value={limits.cpus}
+                  onChange={(e) => setLimits({ ...limits, cpus: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="pidsLimit" className="block text-sm font-medium text-gray-700">
+                  Max Processes
+                </label>
+                <input
+                  type="text"
+                  id="pidsLimit"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="No limit"
+                  value={limits.pidsLimit}
+                  onChange={(e) => setLimits({ ...limits, pidsLimit: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="cpuShares" className="block text-sm font-medium text-gray-700">
+                  CPU Shares
+                </label>
+                <input
+                  type="text"
+                  id="cpuShares"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="1024"
+                  value={limits.cpuShares}
+                  onChange={(e) => setLimits({ ...limits, cpuShares: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="cpuQuota" className="block text-sm font-medium text-gray-700">
+                  CPU Quota (µs)
+                </label>
+                <input
+                  type="text"
+                  id="cpuQuota"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="Instead of CPUs"
+                  value={limits.cpuQuota}
+                  onChange={(e) => setLimits({ ...limits, cpuQuota: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="cpuPeriod" className="block text-sm font-medium text-gray-700">
+                  CPU Period (µs)
+                </label>
+                <input
+                  type="text"
+                  id="cpuPeriod"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="100000"
+                  value={limits.cpuPeriod}
+                  onChange={(e) => setLimits({ ...limits, cpuPeriod: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        </Card>
+        
+        <Card title="Restart Policy and Healthcheck">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="restartPolicy" className="block text-sm font-medium text-gray-700">
+                  Restart Policy
+                </label>
+                <select
+                  id="restartPolicy"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  value={restartPolicy}
+                  onChange={(e) => setRestartPolicy(e.target.value as RestartPolicy)}
+                >
+                  <option value={RestartPolicy.NO}>Never</option>
+                  <option value={RestartPolicy.ON_FAILURE}>On failure</option>
+                  <option value={RestartPolicy.UNLESS_STOPPED}>Unless stopped</option>
+                  <option value={RestartPolicy.ALWAYS}>Always</option>
+                </select>
+              </div>
+              
+              {restartPolicy === RestartPolicy.ON_FAILURE && (
+                <div>
+                  <label htmlFor="maxRetries" className="block text-sm font-medium text-gray-700">
+                    Maximum Retries
+                  </label>
+                  <input
+                    type="text"
+                    id="maxRetries"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="0 retries forever"
+                    value={maxRetries}
+                    onChange={(e) => setMaxRetries(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="disableHealthcheck"
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={disableHealthcheck}
+                onChange={(e) => setDisableHealthcheck(e.target.checked)}
+              />
+              <label htmlFor="disableHealthcheck" className="ml-2 text-sm text-gray-700">
+                Disable the image's healthcheck
+              </label>
+            </div>
+            
+            {!disableHealthcheck && (
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+                <div className="sm:col-span-4">
+                  <label htmlFor="healthcheckCommand" className="block text-sm font-medium text-gray-700">
+                    Healthcheck Command (optional)
+                  </label>
+                  <input
+                    type="text"
+                    id="healthcheckCommand"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="e.g., curl -f http://localhost/ || exit 1"
+                    value={healthcheck.command}
+                    onChange={(e) => setHealthcheck({ ...healthcheck, command: e.target.value })}
+                  />
+                </div>
+                
+                <div>
+                  <label htmlFor="healthcheckInterval" className="block text-sm font-medium text-gray-700">
+                    Interval (s)
+                  </label>
+                  <input
+                    type="text"
+                    id="healthcheckInterval"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="30"
+                    value={healthcheck.interval}
+                    onChange={(e) => setHealthcheck({ ...healthcheck, interval: e.target.value })}
+                  />
+                </div>
+                
+                <div>
+                  <label htmlFor="healthcheckTimeout" className="block text-sm font-medium text-gray-700">
+                    Timeout (s)
+                  </label>
+                  <input
+                    type="text"
+                    id="healthcheckTimeout"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="30"
+                    value={healthcheck.timeout}
+                    onChange={(e) => setHealthcheck({ ...healthcheck, timeout: e.target.value })}
+                  />
+                </div>
+                
+                <div>
+                  <label htmlFor="healthcheckStartPeriod" className="block text-sm font-medium text-gray-700">
+                    Start Period (s)
+                  </label>
+                  <input
+                    type="text"
+                    id="healthcheckStartPeriod"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="0"
+                    value={healthcheck.startPeriod}
+                    onChange={(e) => setHealthcheck({ ...healthcheck, startPeriod: e.target.value })}
+                  />
+                </div>
+                
+                <div>
+                  <label htmlFor="healthcheckRetries" className="block text-sm font-medium text-gray-700">
+                    Retries
+                  </label>
+                  <input
+                    type="text"
+                    id="healthcheckRetries"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="3"
+                    value={healthcheck.retries}
+                    onChange={(e) => setHealthcheck({ ...healthcheck, retries: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </Card>
+        
         <div className="flex justify-end space-x-3">
           <Button
             type="button"
@@ -467,9 +921,9 @@ const ContainerCreationForm: React.FC = () => {
           <Button
             type="submit"
             variant="primary"
-            isLoading={createContainerMutation.isPending}
+            isLoading={isPulling || createContainerMutation.isPending}
           >
-            Create Container
+            {isPulling ? 'Pulling Image...' : 'Create Container'}
           </Button>
         </div>
       </form>
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Container, DetailedContainerStats } from '../../../shared/src/models';
+import { Container, ContainerResources, DetailedContainerStats, RestartPolicy, UserRole } from '../../../shared/src/models';
 import { 
   fetchContainerById, 
   fetchDetailedContainerStats, 
@@ -14,6 +14,7 @@ import {
   deleteContainer
 } from '../../services/containerService';
 import { useContainerStore } from '../../store/containerStore';
+import { useAuthStore } from '../../store/authStore';
 import Card from '../common/Card';
 import Button from '../common/Button';
 import LoadingIndicator from '../common/LoadingIndicator';
@@ -22,13 +23,55 @@ import Modal, { useModal } from '../common/Modal';
 import ContainerStatusBadge from './ContainerStatusBadge';
 import ContainerStats from './ContainerStats';
 import ContainerLogs from './ContainerLogs';
+import ContainerTerminal from './ContainerTerminal';
+import ContainerFiles from './ContainerFiles';
+
+/**
+ * Format a byte count for display
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+/**
+ * Describe a container's resource limits, one entry per limit that is set
+ */
+const describeLimits = (resources: ContainerResources = {}): string[] => {
+  const limits: string[] = [];
+  if (resources.memory) {
+    limits.push(`Memory: ${formatBytes(resources.memory)}`);
+  }
+  if (resources.memorySwap) {
+    limits.push(`Memory + swap: ${resources.memorySwap === -1 ? 'unlimited' : formatBytes(resources.memorySwap)}`);
+  }
+  if (resources.cpus) {
+    limits.push(`CPUs: ${resources.cpus}`);
+  }
+  if (resources.cpuQuota) {
+    limits.push(`CPU quota: ${resources.cpuQuota} µs per ${resources.cpuPeriod || 100000} µs`);
+  }
+  if (resources.cpuShares) {
+    limits.push(`CPU shares: ${resources.cpuShares}`);
+  }
+  if (resources.pidsLimit && resources.pidsLimit > 0) {
+    limits.push(`Processes: ${resources.pidsLimit}`);
+  }
+  return limits;
+};
 
 const ContainerDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { setSelectedContainer } = useContainerStore();
-  const [activeTab, setActiveTab] = useState<'overview' | 'stats' | 'logs'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'stats' | 'logs' | 'terminal' | 'files'>('overview');
+  
+  // Viewers cannot open a shell in a container or browse its files
+  const hasRole = useAuthStore(state => state.hasRole);
+  const canExec = !hasRole(UserRole.VIEWER);
   const deleteModal = useModal();
   
   // Fetch container details
@@ -277,6 +320,30 @@ const ContainerDetail: React.FC = () => {
             >
               Logs
             </button>
+            {canExec && (
+              <button
+                className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${
+                  activeTab === 'terminal'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+                onClick={() => setActiveTab('terminal')}
+              >
+                Terminal
+              </button>
+            )}
+            {canExec && (
+              <button
+                className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${
+                  activeTab === 'files'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+                onClick={() => setActiveTab('files')}
+              >
+                Files
+              </button>
+            )}
           </nav>
         </div>
 
@@ -302,6 +369,62 @@ const ContainerDetail: React.FC = () => {
                 </div>
               </Card>
 
+              <Card title="Runtime Settings">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Command</h3>
+                    <p className="mt-1 text-sm text-gray-900 font-mono">
+                      {[...(container.entrypoint || []), ...(container.command || [])].join(' ') || '-'}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Working Directory</h3>
+                    <p className="mt-1 text-sm text-gray-900 font-mono">{container.workingDir || '-'}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">User</h3>
+                    <p className="mt-1 text-sm text-gray-900">{container.user || 'Image default'}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Restart Policy</h3>
+                    <p className="mt-1 text-sm text-gray-900">
+                      {container.restartPolicy?.name || RestartPolicy.NO}
+                      {container.restartPolicy?.name === RestartPolicy.ON_FAILURE &&
+                        ` (${container.restartPolicy.maximumRetryCount ? `up to ${container.restartPolicy.maximumRetryCount} retries` : 'unlimited retries'})`}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Resource Limits</h3>
+                    {describeLimits(container.resources).length > 0 ? (
+                      <ul className="mt-1 text-sm text-gray-900">
+                        {describeLimits(container.resources).map(limit => (
+                          <li key={limit}>{limit}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-1 text-sm text-gray-900">None</p>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Healthcheck</h3>
+                    {container.healthcheck?.command ? (
+                      <div className="mt-1 text-sm text-gray-900">
+                        <p className="font-mono">{container.healthcheck.command}</p>
+                        <p className="text-gray-500">
+                          Every {container.healthcheck.interval || 30}s, timeout {container.healthcheck.timeout || 30}s,
+                          {' '}{container.healthcheck.retries || 3} retries
+                          {container.healthcheck.startPeriod ? `, ${container.healthcheck.startPeriod}s start period` : ''}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="mt-1 text-sm text-gray-900">
+                        {container.healthcheck?.disabled ? 'Disabled' : 'None'}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </Card>
+
               <Card title="Ports">
                 {container.ports.length > 0 ? (
                   <div className="overflow-x-auto">
@@ -484,6 +607,17 @@ const ContainerDetail: React.FC = () => {
               onRefresh={refetchLogs}
             />
           )}
+
+          {activeTab === 'terminal' && canExec && (
+            <ContainerTerminal
+              containerId={container.id}
+              isRunning={container.state === 'RUNNING'}
+            />
+          )}
+
+          {activeTab === 'files' && canExec && (
+            <ContainerFiles containerId={container.id} />
+          )}
         </div>
       </div>
 
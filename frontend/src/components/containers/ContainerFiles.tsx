@@ -0,0 +1,248 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchContainerFiles, downloadContainerFile, uploadContainerFiles } from '../../services/containerService';
+import { ContainerDirectory, ContainerFile } from '../../../../shared/src/models';
+import Button from '../common/Button';
+import Alert from '../common/Alert';
+import LoadingIndicator from '../common/LoadingIndicator';
+
+interface ContainerFilesProps {
+  containerId: string;
+}
+
+/**
+ * Format a file size for display
+ */
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Format permission bits the way ls does, such as rwxr-xr-x
+ */
+const formatMode = (mode: number): string => {
+  return [6, 3, 0]
+    .map(shift => {
+      const bits = (mode >> shift) & 7;
+      return `${bits & 4 ? 'r' : '-'}${bits & 2 ? 'w' : '-'}${bits & 1 ? 'x' : '-'}`;
+    })
+    .join('');
+};
+
+/**
+ * Get the error message of a failed request; the error middleware puts its
+ * details in message, the file routes in error
+ */
+const getErrorMessage = (error: any): string => {
+  const data = error.response?.data;
+  return data?.message || data?.error || error.message;
+};
+
+/**
+ * Browser for a container's filesystem, with downloads and uploads
+ */
+const ContainerFiles: React.FC<ContainerFilesProps> = ({ containerId }) => {
+  const queryClient = useQueryClient();
+  const [path, setPath] = useState('/');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: directory, isLoading, error: listError } = useQuery<ContainerDirectory>({
+    queryKey: ['container-files', containerId, path],
+    queryFn: () => fetchContainerFiles(containerId, path),
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => uploadContainerFiles(containerId, path, files),
+    onSuccess: (paths: string[]) => {
+      setError(null);
+      setMessage(`Uploaded ${paths.length} file${paths.length === 1 ? '' : 's'} to ${path}`);
+      queryClient.invalidateQueries({ queryKey: ['container-files', containerId, path] });
+    },
+    onError: (uploadError: any) => {
+      setMessage(null);
+      setError(getErrorMessage(uploadError));
+    }
+  });
+
+  const handleDownload = async (filePath: string, format: 'raw' | 'tar' | 'zip') => {
+    try {
+      setError(null);
+      await downloadContainerFile(containerId, filePath, format);
+    } catch (downloadError: any) {
+      // Blob responses carry the error as JSON text
+      const text = await downloadError.response?.data?.text?.();
+      setError(text ? JSON.parse(text).error : downloadError.message);
+    }
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      uploadMutation.mutate(files);
+    }
+    e.target.value = '';
+  };
+
+  const openDirectory = (newPath: string) => {
+    setError(null);
+    setMessage(null);
+    setPath(newPath);
+  };
+
+  // Breadcrumbs from the root to the current directory
+  const segments = path.split('/').filter(Boolean);
+  const crumbs = [
+    { name: '/', path: '/' },
+    ...segments.map((segment, index) => ({ name: segment, path: `/${segments.slice(0, index + 1).join('/')}` }))
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <nav className="flex flex-wrap items-center text-sm font-mono">
+          {crumbs.map((crumb, index) => (
+            <React.Fragment key={crumb.path}>
+              {index > 1 && <span className="mx-1 text-gray-400">/</span>}
+              <button
+                type="button"
+                className="text-blue-600 hover:text-blue-800"
+                onClick={() => openDirectory(crumb.path)}
+              >
+                {crumb.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+
+        <div className="flex space-x-2">
+          <Button variant="secondary" size="sm" onClick={() => handleDownload(path, 'zip')}>
+            Download Folder
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            isLoading={uploadMutation.isPending}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Upload Files
+          </Button>
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleUpload} />
+        </div>
+      </div>
+
+      {error && <Alert variant="error" title="File operation failed" message={error} />}
+      {message && <Alert variant="success" message={message} />}
+      {listError && <Alert variant="error" title="Could not list directory" message={getErrorMessage(listError)} />}
+      {directory?.truncated && (
+        <Alert
+          variant="warning"
+          message="This directory is too large to list completely. Download it or open a subdirectory instead."
+        />
+      )}
+
+      {isLoading ? (
+        <LoadingIndicator />
+      ) : directory && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Size
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Permissions
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Modified
+                </th>
+                <th scope="col" className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {path !== '/' && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-2 text-sm">
+                    <button
+                      type="button"
+                      className="font-mono text-blue-600 hover:text-blue-800"
+                      onClick={() => openDirectory(path.slice(0, path.lastIndexOf('/')) || '/')}
+                    >
+                      ..
+                    </button>
+                  </td>
+                </tr>
+              )}
+              {directory.entries.map((file: ContainerFile) => (
+                <tr key={file.path}>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm font-mono">
+                    {file.type === 'directory' ? (
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:text-blue-800"
+                        onClick={() => openDirectory(file.path)}
+                      >
+                        {file.name}/
+                      </button>
+                    ) : (
+                      <span className="text-gray-900">
+                        {file.name}
+                        {file.linkTarget && <span className="text-gray-500"> → {file.linkTarget}</span>}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {file.type === 'file' ? formatSize(file.size) : '-'}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500 font-mono">
+                    {formatMode(file.mode)}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(file.modifiedAt * 1000).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-right text-sm space-x-2">
+                    {file.type === 'file' && (
+                      <Button variant="secondary" size="sm" onClick={() => handleDownload(file.path, 'raw')}>
+                        Download
+                      </Button>
+                    )}
+                    {file.type === 'directory' && (
+                      <>
+                        <Button variant="secondary" size="sm" onClick={() => handleDownload(file.path, 'zip')}>
+                          Zip
+                        </Button>
+                        <Button variant="secondary" size="sm" onClick={() => handleDownload(file.path, 'tar')}>
+                          Tar
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {directory.entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-sm text-gray-500">
+                    This directory is empty
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContainerFiles;
@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import { Container, ContainerState } from '../../../shared/src/models';
 import { fetchContainers } from '../../services/containerService';
 import { useContainerStore } from '../../store/containerStore';
+import { useProjectStore } from '../../store/projectStore';
 import Card from '../common/Card';
 import Button from '../common/Button';
 import Table, { Column } from '../common/Table';
@@ -18,10 +19,11 @@ const ContainerList: React.FC = () => {
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   
   const { setContainers } = useContainerStore();
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
   
   const { data: containers, isLoading, error, refetch } = useQuery<Container[]>({
-    queryKey: ['containers'],
-    queryFn: fetchContainers,
+    queryKey: ['containers', currentProjectId],
+    queryFn: () => fetchContainers(currentProjectId),
   });
 
   useEffect(() => {
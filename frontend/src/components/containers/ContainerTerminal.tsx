@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import { openExecSession, ExecSession } from '../../services/execService';
+import Button from '../common/Button';
+import Alert from '../common/Alert';
+
+interface ContainerTerminalProps {
+  containerId: string;
+  isRunning: boolean;
+}
+
+/**
+ * Interactive shell in a running container
+ */
+const ContainerTerminal: React.FC<ContainerTerminalProps> = ({ containerId, isRunning }) => {
+  const [shell, setShell] = useState('/bin/sh');
+  const [user, setUser] = useState('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const fitAddonRef = useRef<FitAddon | null>(null);
+  const sessionRef = useRef<ExecSession | null>(null);
+  
+  // Create the terminal once and keep it sized to its container
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+    
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+      fontSize: 13,
+      theme: { background: '#111827' }
+    });
+    const fitAddon = new FitAddon();
+    terminal.loadAddon(fitAddon);
+    terminal.open(containerRef.current);
+    fitAddon.fit();
+    
+    terminal.onData((data: string) => sessionRef.current?.write(data));
+    terminal.onResize(({ cols, rows }: { cols: number; rows: number }) => sessionRef.current?.resize(cols, rows));
+    
+    const observer = new ResizeObserver(() => fitAddon.fit());
+    observer.observe(containerRef.current);
+    
+    terminalRef.current = terminal;
+    fitAddonRef.current = fitAddon;
+    
+    return () => {
+      observer.disconnect();
+      sessionRef.current?.close();
+      sessionRef.current = null;
+      terminal.dispose();
+    };
+  }, []);
+  
+  const connect = () => {
+    const terminal = terminalRef.current;
+    if (!terminal) {
+      return;
+    }
+    
+    setError(null);
+    terminal.reset();
+    fitAddonRef.current?.fit();
+    
+    sessionRef.current = openExecSession(containerId, {
+      shell,
+      user: user || undefined,
+      cols: terminal.cols,
+      rows: terminal.rows
+    }, {
+      onOutput: (data) => terminal.write(data),
+      onExit: (exitCode) => {
+        terminal.write(`\r\n[Process exited${exitCode !== null ? ` with code ${exitCode}` : ''}]\r\n`);
+        sessionRef.current = null;
+        setIsConnected(false);
+      },
+      onError: (message) => {
+        setError(message);
+        sessionRef.current?.close();
+        sessionRef.current = null;
+        setIsConnected(false);
+      }
+    });
+    
+    setIsConnected(true);
+    terminal.focus();
+  };
+  
+  const disconnect = () => {
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    setIsConnected(false);
+  };
+  
+  return (
+    <div className="space-y-4">
+      {!isRunning && (
+        <Alert
+          variant="warning"
+          title="Container is not running"
+          message="Start the container to open a shell in it."
+        />
+      )}
+      
+      {error && (
+        <Alert
+          variant="error"
+          title="Terminal error"
+          message={error}
+        />
+      )}
+      
+      <div className="flex items-end space-x-3">
+        <div>
+          <label htmlFor="execShell" className="block text-sm font-medium text-gray-700">
+            Shell
+          </label>
+          <select
+            id="execShell"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            value={shell}
+            disabled={isConnected}
+            onChange={(e) => setShell(e.target.value)}
+          >
+            <option value="/bin/sh">/bin/sh</option>
+            <option value="/bin/bash">/bin/bash</option>
+            <option value="/bin/ash">/bin/ash</option>
+            <option value="/bin/zsh">/bin/zsh</option>
+          </select>
+        </div>
+        
+        <div>
+          <label htmlFor="execUser" className="block text-sm font-medium text-gray-700">
+            User (optional)
+          </label>
+          <input
+            type="text"
+            id="execUser"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            placeholder="e.g., root or 1000:1000"
+            value={user}
+            disabled={isConnected}
+            onChange={(e) => setUser(e.target.value)}
+          />
+        </div>
+        
+        {isConnected ? (
+          <Button variant="secondary" onClick={disconnect}>
+            Disconnect
+          </Button>
+        ) : (
+          <Button variant="primary" onClick={connect} disabled={!isRunning}>
+            Connect
+          </Button>
+        )}
+      </div>
+      
+      <div ref={containerRef} className="h-96 rounded-md bg-gray-900 p-2" />
+    </div>
+  );
+};
+
+export default ContainerTerminal;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ImagePull, ImagePullStatus } from '../../../../shared/src/models';
+
+interface ImagePullProgressProps {
+  pull: ImagePull;
+}
+
+/**
+ * Format a byte count for display
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Progress of an image pull, one bar per layer
+ */
+const ImagePullProgress: React.FC<ImagePullProgressProps> = ({ pull }) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-gray-700">Pulling {pull.image}</span>
+        <span className={pull.status === ImagePullStatus.FAILED ? 'text-red-600' : 'text-gray-500'}>
+          {pull.status === ImagePullStatus.FAILED ? pull.error : pull.message}
+        </span>
+      </div>
+
+      {pull.layers.map((layer) => {
+        const percent = layer.total ? Math.round(((layer.current || 0) / layer.total) * 100) : 0;
+        return (
+          <div key={layer.id} className="text-xs text-gray-600">
+            <div className="flex justify-between">
+              <span className="font-mono">{layer.id}</span>
+              <span>
+                {layer.status}
+                {layer.total ? ` ${formatBytes(layer.current || 0)} / ${formatBytes(layer.total)}` : ''}
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 w-full rounded-full bg-gray-200">
+              <div className="h-1.5 rounded-full bg-blue-600" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ImagePullProgress;
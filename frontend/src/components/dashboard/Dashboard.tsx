@@ -8,6 +8,7 @@ import { Container, HealthStatus, ProxyRule, SystemResourceMetrics } from '../..
 import { useContainerStore } from '../../store/containerStore';
 import { useProxyStore } from '../../store/proxyStore';
 import { useHealthStore } from '../../store/healthStore';
+import { useProjectStore } from '../../store/projectStore';
 import { fetchContainers } from '../../services/containerService';
 import { fetchProxyRules } from '../../services/proxyService';
 import { fetchSystemHealth } from '../../services/healthService';
@@ -18,15 +19,16 @@ const Dashboard: React.FC = () => {
   const { setContainers } = useContainerStore();
   const { setProxyRules } = useProxyStore();
   const { setSystemHealth } = useHealthStore();
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
 
   const { data: containers, isLoading: containersLoading } = useQuery<Container[]>({
-    queryKey: ['containers'],
-    queryFn: fetchContainers,
+    queryKey: ['containers', currentProjectId],
+    queryFn: () => fetchContainers(currentProjectId),
   });
 
   const { data: proxyRules, isLoading: proxyLoading } = useQuery<ProxyRule[]>({
-    queryKey: ['proxyRules'],
-    queryFn: fetchProxyRules,
+    queryKey: ['proxyRules', currentProjectId],
+    queryFn: () => fetchProxyRules(currentProjectId),
   });
 
   const { data: systemHealth, isLoading: healthLoading } = useQuery<{
@@ -1,14 +1,18 @@
-import React, { ReactNode, useState } from 'react';
+import React, { ReactNode, useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { 
   HomeIcon, 
   CubeIcon, 
+  Square3Stack3DIcon,
   ArrowPathIcon, 
   ChartBarIcon, 
   Cog6ToothIcon,
+  ClipboardDocumentListIcon,
   Bars3Icon,
   XMarkIcon
 } from '@heroicons/react/24/outline';
+import ProjectSwitcher from './ProjectSwitcher';
+import { useProjectStore } from '../../store/projectStore';
 
 interface LayoutProps {
   children: ReactNode;
@@ -23,14 +27,21 @@ interface NavItem {
 const navigation: NavItem[] = [
   { name: 'Dashboard', to: '/', icon: HomeIcon },
   { name: 'Containers', to: '/containers', icon: CubeIcon },
+  { name: 'Stacks', to: '/stacks', icon: Square3Stack3DIcon },
   { name: 'Proxy Rules', to: '/proxy', icon: ArrowPathIcon },
   { name: 'Metrics', to: '/metrics', icon: ChartBarIcon },
+  { name: 'Audit Log', to: '/audit', icon: ClipboardDocumentListIcon },
   { name: 'Settings', to: '/settings', icon: Cog6ToothIcon },
 ];
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
+  const loadProjects = useProjectStore(state => state.loadProjects);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
 
   const isActive = (path: string) => {
     if (path === '/') {
@@ -57,6 +68,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <XMarkIcon className="h-6 w-6" aria-hidden="true" />
               </button>
             </div>
+            <div className="mt-5">
+              <ProjectSwitcher />
+            </div>
             <nav className="mt-5 flex-1 px-2 space-y-1">
               {navigation.map((item) => (
                 <Link
@@ -91,6 +105,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <h1 className="text-xl font-bold text-gray-900">Kontainers</h1>
         </div>
         <div className="flex-1 flex flex-col overflow-y-auto">
+          <ProjectSwitcher />
           <nav className="flex-1 px-2 py-4 space-y-1">
             {navigation.map((item) => (
               <Link
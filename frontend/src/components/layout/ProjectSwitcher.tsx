@@ -0,0 +1,68 @@
+import React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useProjectStore } from '../../store/projectStore';
+import { useAuthStore } from '../../store/authStore';
+import { createProject } from '../../services/projectService';
+
+// Select value that starts creating a project instead of switching
+const NEW_PROJECT = '__new__';
+
+/**
+ * Select the project whose containers and proxy rules are shown
+ */
+const ProjectSwitcher: React.FC = () => {
+  const { projects, currentProjectId, loadProjects, setCurrentProject } = useProjectStore();
+  const { isAdmin } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  const switchTo = (projectId: string | null) => {
+    setCurrentProject(projectId);
+    queryClient.invalidateQueries({ queryKey: ['containers'] });
+    queryClient.invalidateQueries({ queryKey: ['proxyRules'] });
+  };
+
+  const handleNewProject = async () => {
+    const name = window.prompt('Project name');
+    if (!name?.trim()) {
+      return;
+    }
+
+    try {
+      const project = await createProject({ name: name.trim() });
+      await loadProjects();
+      switchTo(project.id);
+    } catch (err: any) {
+      window.alert(err.response?.data?.message || 'Failed to create project');
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === NEW_PROJECT) {
+      handleNewProject();
+      return;
+    }
+    switchTo(e.target.value || null);
+  };
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200">
+      <label htmlFor="project-switcher" className="block text-xs font-medium uppercase tracking-wide text-gray-500">
+        Project
+      </label>
+      <select
+        id="project-switcher"
+        value={currentProjectId || ''}
+        onChange={handleChange}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+      >
+        <option value="">All projects</option>
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+        {isAdmin() && <option value={NEW_PROJECT}>New project…</option>}
+      </select>
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
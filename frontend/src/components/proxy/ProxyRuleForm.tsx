@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useProxyStore } from '../../store/proxyStore';
-import { ProxyRule, ProxyProtocol } from '../../../shared/src/models';
+import { useProjectStore } from '../../store/projectStore';
+import { ProxyRule, ProxyProtocol, LoadBalancingMethod } from '../../../shared/src/models';
 
 interface ProxyRuleFormProps {
   initialRule?: ProxyRule;
@@ -14,6 +15,7 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
   onCancel
 }) => {
   const { containers } = useProxyStore();
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
   
   const [rule, setRule] = useState<ProxyRule>(
     initialRule || {
@@ -42,7 +44,7 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
         successCodes: '200-299'
       },
       loadBalancing: {
-        method: 'round-robin',
+        method: LoadBalancingMethod.ROUND_ROBIN,
         sticky: false,
         cookieName: '',
         cookieExpiry: 3600,
@@ -95,7 +97,9 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
       },
       customNginxConfig: '',
       created: new Date().toISOString(),
-      updated: new Date().toISOString()
+      updated: new Date().toISOString(),
+      // New rules go into the selected project
+      projectId: currentProjectId || undefined
     }
   );
 
@@ -122,12 +126,18 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
     }
   }, [containers]);
 
+  const isStreamRule = rule.protocol === ProxyProtocol.TCP || rule.protocol === ProxyProtocol.UDP;
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
     
     // Basic validation
     if (!rule.name.trim()) newErrors.name = 'Name is required';
-    if (!rule.sourceHost.trim()) newErrors.sourceHost = 'Source host is required';
+    if (!rule.sourceHost.trim()) {
+      newErrors.sourceHost = 'Source host is required';
+    } else if (isStreamRule && !/^\d{1,3}(\.\d{1,3}){3}$/.test(rule.sourceHost.trim())) {
+      newErrors.sourceHost = 'TCP/UDP rules listen on an IPv4 address, such as 0.0.0.0 for every interface';
+    }
     if (!rule.targetContainer && rule.loadBalancing.targets.length === 0) {
       newErrors.targetContainer = 'Target container or load balancing targets are required';
     }
@@ -142,6 +152,11 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
       newErrors.targetPort = 'Port must be between 1 and 65535';
     }
     
+    if (isStreamRule && rule.sourcePort !== undefined &&
+        (isNaN(rule.sourcePort) || rule.sourcePort < 1 || rule.sourcePort > 65535)) {
+      newErrors.sourcePort = 'Port must be between 1 and 65535';
+    }
+    
     // SSL validation
     if (rule.sslEnabled && !rule.letsEncryptEnabled) {
       if (!rule.sslCertPath.trim()) newErrors.sslCertPath = 'SSL certificate path is required';
@@ -172,6 +187,11 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
     // Load balancing validation
     if (rule.loadBalancing.sticky && !rule.loadBalancing.cookieName.trim()) {
       newErrors['loadBalancing.cookieName'] = 'Cookie name is required for sticky sessions';
+    } else if (rule.loadBalancing.sticky && !/^[A-Za-z0-9_]+$/.test(rule.loadBalancing.cookieName)) {
+      newErrors['loadBalancing.cookieName'] = 'Cookie name may only contain letters, digits and underscores';
+    }
+    if (rule.loadBalancing.sticky && rule.loadBalancing.method !== LoadBalancingMethod.ROUND_ROBIN) {
+      newErrors['loadBalancing.method'] = 'Sticky sessions choose the server by cookie and only work with Round Robin';
     }
     
     setErrors(newErrors);
@@ -467,7 +487,7 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
               name="sourceHost"
               value={rule.sourceHost}
               onChange={handleChange}
-              placeholder="example.com"
+              placeholder={isStreamRule ? '0.0.0.0' : 'example.com'}
               className={`w-full px-3 py-2 border rounded-md ${
                 errors.sourceHost ? 'border-red-500' : 'border-gray-300'
               }`}
@@ -501,10 +521,10 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md"
             >
-              <option value="http">HTTP</option>
-              <option value="https">HTTPS</option>
-              <option value="tcp">TCP</option>
-              <option value="udp">UDP</option>
+              <option value={ProxyProtocol.HTTP}>HTTP</option>
+              <option value={ProxyProtocol.HTTPS}>HTTPS</option>
+              <option value={ProxyProtocol.TCP}>TCP</option>
+              <option value={ProxyProtocol.UDP}>UDP</option>
             </select>
           </div>
         </div>
@@ -556,6 +576,35 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
               <p className="mt-1 text-sm text-red-500">{errors.targetPort}</p>
             )}
           </div>
+          
+          {isStreamRule && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Listen Port
+              </label>
+              <input
+                type="number"
+                name="sourcePort"
+                value={rule.sourcePort ?? ''}
+                onChange={(e) => setRule(prev => ({
+                  ...prev,
+                  sourcePort: e.target.value ? parseInt(e.target.value) : undefined
+                }))}
+                min="1"
+                max="65535"
+                placeholder={String(rule.targetPort)}
+                className={`w-full px-3 py-2 border rounded-md ${
+                  errors.sourcePort ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Port Nginx listens on; defaults to the target port
+              </p>
+              {errors.sourcePort && (
+                <p className="mt-1 text-sm text-red-500">{errors.sourcePort}</p>
+              )}
+            </div>
+          )}
         </div>
         
         <div className="mt-4">
@@ -968,11 +1017,14 @@ export const ProxyRuleForm: React.FC<ProxyRuleFormProps> = ({
             onChange={handleChange}
             className="w-full px-3 py-2 border border-gray-300 rounded-md"
           >
-            <option value="round-robin">Round Robin</option>
-            <option value="least-connections">Least Connections</option>
-            <option value="ip-hash">IP Hash</option>
-            <option value="weighted">Weighted</option>
+            <option value={LoadBalancingMethod.ROUND_ROBIN}>Round Robin</option>
+            <option value={LoadBalancingMethod.LEAST_CONN}>Least Connections</option>
+            <option value={LoadBalancingMethod.IP_HASH}>IP Hash</option>
+            <option value={LoadBalancingMethod.RANDOM}>Random</option>
           </select>
+          {errors['loadBalancing.method'] && (
+            <p className="mt-1 text-sm text-red-500">{errors['loadBalancing.method']}</p>
+          )}
         </div>
         
         <div>
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useProxyStore } from '../../store/proxyStore';
+import { useProjectStore } from '../../store/projectStore';
 import { ProxyRule, ProxyProtocol } from '../../../shared/src/models';
 import { fetchProxyRules, enableProxyRule, disableProxyRule, deleteProxyRule } from '../../services/proxyService';
 import Card from '../common/Card';
@@ -20,12 +21,13 @@ export const ProxyRuleList: React.FC<ProxyRuleListProps> = ({ onSelectRule, onCr
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [filterText, setFilterText] = useState('');
   const [filterProtocol, setFilterProtocol] = useState<ProxyProtocol | 'ALL'>('ALL');
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
 
   useEffect(() => {
     const loadProxyRules = async () => {
       try {
         setLoading(true);
-        const rules = await fetchProxyRules();
+        const rules = await fetchProxyRules(currentProjectId);
         setProxyRules(rules);
         setError(null);
       } catch (err) {
@@ -43,7 +45,10 @@ export const ProxyRuleList: React.FC<ProxyRuleListProps> = ({ onSelectRule, onCr
     });
 
     const handleRuleCreated = (rule: ProxyRule) => {
-      setProxyRules([...proxyRules, rule]);
+      // Events cover every project the user can see
+      if (!currentProjectId || rule.projectId === currentProjectId) {
+        setProxyRules([...proxyRules, rule]);
+      }
     };
 
     const handleRuleUpdated = (rule: ProxyRule) => {
@@ -65,7 +70,7 @@ export const ProxyRuleList: React.FC<ProxyRuleListProps> = ({ onSelectRule, onCr
       websocketService.removeEventListener(WebSocketEventType.PROXY_RULE_DELETED, handleRuleDeleted);
       websocketService.removeEventListener(WebSocketEventType.PROXY_RULE_STATE_CHANGED, handleRuleUpdated);
     };
-  }, [proxyRules, setProxyRules, setLoading, setError]);
+  }, [proxyRules, currentProjectId, setProxyRules, setLoading, setError]);
 
   const handleSort = (field: keyof ProxyRule) => {
     if (sortField === field) {
@@ -144,7 +149,22 @@ export const ProxyRuleList: React.FC<ProxyRuleListProps> = ({ onSelectRule, onCr
   });
 
   const columns = [
-    { header: 'Name', accessor: 'name' as keyof ProxyRule },
+    {
+      header: 'Name',
+      accessor: (rule: ProxyRule) => (
+        <div className="flex items-center gap-2">
+          <span>{rule.name}</span>
+          {rule.managedByContainer && (
+            <span
+              className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+              title="Managed by kontainers.proxy.* labels on the container"
+            >
+              Labels
+            </span>
+          )}
+        </div>
+      )
+    },
     {
       header: 'Domain',
       accessor: (rule: ProxyRule) => rule.domain || '-'
@@ -173,20 +193,25 @@ export const ProxyRuleList: React.FC<ProxyRuleListProps> = ({ onSelectRule, onCr
           >
             View
           </Button>
-          <Button 
-            variant={rule.enabled ? "warning" : "success"} 
-            size="sm" 
-            onClick={() => handleToggleStatus(rule)}
-          >
-            {rule.enabled ? 'Disable' : 'Enable'}
-          </Button>
-          <Button 
-            variant="danger" 
-            size="sm" 
-            onClick={() => handleDeleteRule(rule)}
-          >
-            Delete
-          </Button>
+          {/* Label-managed rules follow their container and are read-only */}
+          {!rule.managedByContainer && (
+            <>
+              <Button 
+                variant={rule.enabled ? "warning" : "success"} 
+                size="sm" 
+                onClick={() => handleToggleStatus(rule)}
+              >
+                {rule.enabled ? 'Disable' : 'Enable'}
+              </Button>
+              <Button 
+                variant="danger" 
+                size="sm" 
+                onClick={() => handleDeleteRule(rule)}
+              >
+                Delete
+              </Button>
+            </>
+          )}
         </div>
       )
     }
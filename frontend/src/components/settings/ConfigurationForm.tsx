@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { sendTestEmail } from '../../services/configService';
 
 interface ConfigurationFormProps {
   onSave: (config: SystemConfiguration) => Promise<void>;
@@ -32,15 +33,20 @@ interface SystemConfiguration {
       burstSize: number;
     };
     authMethods: string[];
+    requireAdminTwoFactor: boolean;
+    trustedProxies: string[];
   };
   notifications: {
     email: {
       enabled: boolean;
+      from: string;
+      baseUrl: string;
+      alertRecipients: string[];
       smtpServer: string;
       smtpPort: number;
       smtpUsername: string;
       smtpPassword: string;
-      useTLS: boolean;
+      security: 'none' | 'starttls' | 'tls';
     };
     slack: {
       enabled: boolean;
@@ -89,15 +95,20 @@ const defaultConfig: SystemConfiguration = {
       burstSize: 10,
     },
     authMethods: ['basic', 'jwt'],
+    requireAdminTwoFactor: false,
+    trustedProxies: ['127.0.0.0/8', '::1/128'],
   },
   notifications: {
     email: {
       enabled: false,
+      from: 'Kontainers <kontainers@localhost>',
+      baseUrl: 'http://localhost:3000',
+      alertRecipients: [],
       smtpServer: '',
       smtpPort: 587,
       smtpUsername: '',
       smtpPassword: '',
-      useTLS: true,
+      security: 'starttls',
     },
     slack: {
       enabled: false,
@@ -131,6 +142,9 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
   const [newIP, setNewIP] = useState<string>('');
   const [newEnvVarKey, setNewEnvVarKey] = useState<string>('');
   const [newEnvVarValue, setNewEnvVarValue] = useState<string>('');
+  const [testEmailTo, setTestEmailTo] = useState<string>('');
+  const [testEmailResult, setTestEmailResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [isSendingTestEmail, setIsSendingTestEmail] = useState<boolean>(false);
 
   // Tab options
   const tabs = [
@@ -233,6 +247,23 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
     });
   };
 
+  // Send a test email with the saved mail settings
+  const handleSendTestEmail = async () => {
+    if (testEmailTo.trim() === '') return;
+    
+    setIsSendingTestEmail(true);
+    setTestEmailResult(null);
+    
+    try {
+      const result = await sendTestEmail(testEmailTo.trim());
+      setTestEmailResult({ success: true, message: result.message });
+    } catch (error: any) {
+      setTestEmailResult({ success: false, message: error.response?.data?.error || error.message });
+    } finally {
+      setIsSendingTestEmail(false);
+    }
+  };
+
   // Validate form
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
@@ -259,6 +290,11 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
       errors['proxy.maxConnections'] = 'Max connections must be at least 1';
     }
     
+    // Notifications section validation
+    if (config.notifications.email.enabled && !config.notifications.email.smtpServer.trim()) {
+      errors['notifications.email.smtpServer'] = 'SMTP server is required';
+    }
+    
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -512,6 +548,48 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
                 </div>
               </div>
 
+              <div className="sm:col-span-6">
+                <div className="flex items-start">
+                  <div className="flex items-center h-5">
+                    <input
+                      id="requireAdminTwoFactor"
+                      type="checkbox"
+                      checked={config.security.requireAdminTwoFactor}
+                      onChange={(e) => handleChange('security', 'requireAdminTwoFactor', e.target.checked)}
+                      className="focus:ring-blue-500 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                  </div>
+                  <div className="ml-3 text-sm">
+                    <label htmlFor="requireAdminTwoFactor" className="font-medium text-gray-700">
+                      Require Two-Factor Authentication for Admins
+                    </label>
+                    <p className="text-gray-500">
+                      Administrators must enroll an authenticator app before they can sign in with a password.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="sm:col-span-6">
+                <label htmlFor="trustedProxies" className="block text-sm font-medium text-gray-700">
+                  Trusted Proxies
+                </label>
+                <div className="mt-1">
+                  <textarea
+                    id="trustedProxies"
+                    rows={3}
+                    value={(config.security.trustedProxies || []).join('\n')}
+                    onChange={(e) => handleChange('security', 'trustedProxies', e.target.value.split('\n').map(entry => entry.trim()))}
+                    placeholder="10.0.0.0/8"
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+                  />
+                </div>
+                <p className="mt-2 text-sm text-gray-500">
+                  One address or CIDR per line. X-Forwarded-For is only trusted from these reverse proxies when
+                  identifying clients for rate limiting, login lockout and audit logs.
+                </p>
+              </div>
+
               <div className="sm:col-span-6">
                 <label className="block text-sm font-medium text-gray-700">
                   Allowed IPs
@@ -598,6 +676,9 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
                         className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
                       />
                     </div>
+                    {validationErrors['notifications.email.smtpServer'] && (
+                      <p className="mt-2 text-sm text-red-600">{validationErrors['notifications.email.smtpServer']}</p>
+                    )}
                   </div>
 
                   <div className="sm:col-span-3">
@@ -614,6 +695,137 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
                       />
                     </div>
                   </div>
+
+                  <div className="sm:col-span-3">
+                    <label htmlFor="smtpSecurity" className="block text-sm font-medium text-gray-700">
+                      Connection Security
+                    </label>
+                    <div className="mt-1">
+                      <select
+                        id="smtpSecurity"
+                        value={config.notifications.email.security}
+                        onChange={(e) => handleNestedChange('notifications', 'email', 'security', e.target.value)}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                      >
+                        <option value="starttls">STARTTLS</option>
+                        <option value="tls">TLS</option>
+                        <option value="none">None</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="sm:col-span-3">
+                    <label htmlFor="smtpUsername" className="block text-sm font-medium text-gray-700">
+                      SMTP Username
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="text"
+                        id="smtpUsername"
+                        value={config.notifications.email.smtpUsername}
+                        onChange={(e) => handleNestedChange('notifications', 'email', 'smtpUsername', e.target.value)}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="sm:col-span-3">
+                    <label htmlFor="smtpPassword" className="block text-sm font-medium text-gray-700">
+                      SMTP Password
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="password"
+                        id="smtpPassword"
+                        value={config.notifications.email.smtpPassword}
+                        onChange={(e) => handleNestedChange('notifications', 'email', 'smtpPassword', e.target.value)}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                      />
+                    </div>
+                    <p className="mt-2 text-sm text-gray-500">
+                      The saved password is shown masked; leave it as is to keep it.
+                    </p>
+                  </div>
+
+                  <div className="sm:col-span-3">
+                    <label htmlFor="mailFrom" className="block text-sm font-medium text-gray-700">
+                      From Address
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="text"
+                        id="mailFrom"
+                        value={config.notifications.email.from}
+                        onChange={(e) => handleNestedChange('notifications', 'email', 'from', e.target.value)}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="sm:col-span-3">
+                    <label htmlFor="mailBaseUrl" className="block text-sm font-medium text-gray-700">
+                      Kontainers URL
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="url"
+                        id="mailBaseUrl"
+                        value={config.notifications.email.baseUrl}
+                        onChange={(e) => handleNestedChange('notifications', 'email', 'baseUrl', e.target.value)}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="sm:col-span-6">
+                    <label htmlFor="alertRecipients" className="block text-sm font-medium text-gray-700">
+                      Alert Recipients
+                    </label>
+                    <div className="mt-1">
+                      <textarea
+                        id="alertRecipients"
+                        rows={3}
+                        value={config.notifications.email.alertRecipients.join('\n')}
+                        onChange={(e) => handleNestedChange('notifications', 'email', 'alertRecipients', e.target.value.split('\n').map(entry => entry.trim()))}
+                        className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                      />
+                    </div>
+                    <p className="mt-2 text-sm text-gray-500">
+                      One address per line. They are emailed when a component becomes unhealthy or recovers.
+                    </p>
+                  </div>
+
+                  <div className="sm:col-span-6">
+                    <label htmlFor="testEmailTo" className="block text-sm font-medium text-gray-700">
+                      Send Test Email
+                    </label>
+                    <div className="mt-1 flex rounded-md shadow-sm">
+                      <input
+                        type="email"
+                        id="testEmailTo"
+                        value={testEmailTo}
+                        onChange={(e) => setTestEmailTo(e.target.value)}
+                        placeholder="you@example.com"
+                        className="focus:ring-blue-500 focus:border-blue-500 flex-1 block w-full rounded-none rounded-l-md sm:text-sm border-gray-300"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleSendTestEmail}
+                        disabled={isSendingTestEmail}
+                        className="inline-flex items-center px-3 rounded-r-md border border-l-0 border-gray-300 bg-gray-50 text-gray-500 sm:text-sm disabled:opacity-50"
+                      >
+                        {isSendingTestEmail ? 'Sending...' : 'Send'}
+                      </button>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-500">
+                      Uses the saved settings, so save your changes first.
+                    </p>
+                    {testEmailResult && (
+                      <p className={`mt-2 text-sm ${testEmailResult.success ? 'text-green-600' : 'text-red-600'}`}>
+                        {testEmailResult.message}
+                      </p>
+                    )}
+                  </div>
                 </>
               )}
             </div>
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Stack } from '../../../../shared/src/models';
+import { fetchStack, createStack, updateStack, SavedStack } from '../../services/stackService';
+import { useProjectStore } from '../../store/projectStore';
+import Card from '../common/Card';
+import Button from '../common/Button';
+import Alert from '../common/Alert';
+import LoadingIndicator from '../common/LoadingIndicator';
+
+const EXAMPLE_COMPOSE = `services:
+  web:
+    image: nginx:alpine
+    ports:
+      - "8080:80"
+    depends_on:
+      - api
+  api:
+    image: node:20-alpine
+    command: node server.js
+    environment:
+      NODE_ENV: production
+    volumes:
+      - data:/data
+
+volumes:
+  data:
+`;
+
+/**
+ * Create a stack from a compose file, or edit an existing stack's file
+ */
+const StackForm: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
+  
+  const [name, setName] = useState('');
+  const [compose, setCompose] = useState(EXAMPLE_COMPOSE);
+  const [deploy, setDeploy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  
+  const { data: stack, isLoading } = useQuery<Stack>({
+    queryKey: ['stack', id],
+    queryFn: () => fetchStack(id!),
+    enabled: isEditing,
+  });
+  
+  useEffect(() => {
+    if (stack) {
+      setName(stack.name);
+      setCompose(stack.compose);
+    }
+  }, [stack]);
+  
+  const saveMutation = useMutation({
+    mutationFn: (): Promise<SavedStack> => isEditing
+      ? updateStack(id!, compose)
+      : createStack({ name, compose, deploy, projectId: currentProjectId || undefined }),
+    onSuccess: (saved: SavedStack) => {
+      queryClient.invalidateQueries({ queryKey: ['stacks'] });
+      if (saved.warnings.length > 0) {
+        // Stay on the form so the ignored settings can be reviewed
+        setWarnings(saved.warnings);
+        return;
+      }
+      navigate('/stacks');
+    },
+    onError: (err: any) => {
+      setError(err.response?.data?.error || err.message);
+    }
+  });
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setWarnings([]);
+    
+    if (!isEditing && !/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+      setError('Stack names may only contain lowercase letters, digits, dashes and underscores');
+      return;
+    }
+    saveMutation.mutate();
+  };
+  
+  if (isEditing && isLoading) {
+    return <LoadingIndicator />;
+  }
+  
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold text-gray-900">
+        {isEditing ? `Edit Stack ${name}` : 'Deploy Stack'}
+      </h1>
+      
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <Alert variant="error" title="Error saving stack" message={error} />
+        )}
+        
+        {warnings.length > 0 && (
+          <Alert
+            variant="warning"
+            title="Stack saved; some settings were ignored"
+            message={warnings.join('. ')}
+          />
+        )}
+        
+        <Card>
+          <div className="space-y-4">
+            {!isEditing && (
+              <div>
+                <label htmlFor="stackName" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="stackName"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="e.g., shop"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Used as the compose project name and to prefix the stack's networks and volumes.
+                </p>
+              </div>
+            )}
+            
+            <div>
+              <label htmlFor="compose" className="block text-sm font-medium text-gray-700">
+                Compose File
+              </label>
+              <textarea
+                id="compose"
+                rows={24}
+                spellCheck={false}
+                className="mt-1 block w-full rounded-md border-gray-300 font-mono text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                value={compose}
+                onChange={(e) => setCompose(e.target.value)}
+              />
+              {isEditing && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Running containers keep their current settings until the stack is redeployed.
+                </p>
+              )}
+            </div>
+            
+            {!isEditing && (
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="deploy"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={deploy}
+                  onChange={(e) => setDeploy(e.target.checked)}
+                />
+                <label htmlFor="deploy" className="ml-2 text-sm text-gray-700">
+                  Bring the stack up once saved
+                </label>
+              </div>
+            )}
+          </div>
+        </Card>
+        
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="secondary" onClick={() => navigate('/stacks')}>
+            {warnings.length > 0 ? 'Done' : 'Cancel'}
+          </Button>
+          <Button type="submit" variant="primary" isLoading={saveMutation.isPending}>
+            {isEditing ? 'Save' : deploy ? 'Deploy' : 'Save'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default StackForm;
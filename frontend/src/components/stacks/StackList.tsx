@@ -0,0 +1,175 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Stack, StackStatus, COMPOSE_SERVICE_LABEL } from '../../../../shared/src/models';
+import {
+  fetchStacks,
+  stackUp,
+  stackDown,
+  restartStack,
+  redeployStack,
+  deleteStack
+} from '../../services/stackService';
+import { useProjectStore } from '../../store/projectStore';
+import Card from '../common/Card';
+import Button from '../common/Button';
+import LoadingIndicator from '../common/LoadingIndicator';
+import Alert from '../common/Alert';
+import ContainerStatusBadge from '../containers/ContainerStatusBadge';
+
+const STATUS_STYLES: Record<StackStatus, { className: string; label: string }> = {
+  [StackStatus.RUNNING]: { className: 'bg-green-100 text-green-800', label: 'Running' },
+  [StackStatus.PARTIAL]: { className: 'bg-yellow-100 text-yellow-800', label: 'Partially running' },
+  [StackStatus.STOPPED]: { className: 'bg-red-100 text-red-800', label: 'Stopped' },
+  [StackStatus.DOWN]: { className: 'bg-gray-100 text-gray-800', label: 'Down' }
+};
+
+type StackAction = 'up' | 'down' | 'restart' | 'redeploy' | 'delete';
+
+const StackList: React.FC = () => {
+  const queryClient = useQueryClient();
+  const currentProjectId = useProjectStore(state => state.currentProjectId);
+  
+  const { data: stacks, isLoading, error } = useQuery<Stack[]>({
+    queryKey: ['stacks', currentProjectId],
+    queryFn: () => fetchStacks(currentProjectId),
+    refetchInterval: 10000,
+  });
+  
+  const actionMutation = useMutation({
+    mutationFn: ({ stack, action }: { stack: Stack; action: StackAction }) => {
+      switch (action) {
+        case 'up':
+          return stackUp(stack.id);
+        case 'down':
+          return stackDown(stack.id);
+        case 'restart':
+          return restartStack(stack.id);
+        case 'redeploy':
+          return redeployStack(stack.id, true);
+        case 'delete':
+          return deleteStack(stack.id);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['stacks'] });
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    }
+  });
+  
+  const runAction = (stack: Stack, action: StackAction) => {
+    if (action === 'delete' && !window.confirm(`Take down and delete stack ${stack.name}? Named volumes are kept.`)) {
+      return;
+    }
+    actionMutation.mutate({ stack, action });
+  };
+  
+  const isRunning = (stack: Stack, action: StackAction) =>
+    actionMutation.isPending && actionMutation.variables?.stack.id === stack.id && actionMutation.variables?.action === action;
+  
+  if (isLoading) {
+    return <LoadingIndicator />;
+  }
+  
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-900">Stacks</h1>
+        <Link to="/stacks/new">
+          <Button variant="primary">Deploy Stack</Button>
+        </Link>
+      </div>
+      
+      {error && (
+        <Alert variant="error" title="Error loading stacks" message={(error as Error).message} />
+      )}
+      
+      {actionMutation.error && (
+        <Alert
+          variant="error"
+          title="Stack operation failed"
+          message={(actionMutation.error as any).response?.data?.error || (actionMutation.error as Error).message}
+        />
+      )}
+      
+      {stacks && stacks.length === 0 && (
+        <Card>
+          <p className="text-sm text-gray-500">No stacks yet. Deploy one from a compose file.</p>
+        </Card>
+      )}
+      
+      {stacks?.map((stack: Stack) => (
+        <Card key={stack.id}>
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div>
+              <div className="flex items-center space-x-3">
+                <h2 className="text-lg font-medium text-gray-900">{stack.name}</h2>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[stack.status].className}`}>
+                  {STATUS_STYLES[stack.status].label}
+                </span>
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                {stack.services.length} services
+                {stack.deployedAt && ` · deployed ${new Date(stack.deployedAt).toLocaleString()}`}
+              </p>
+            </div>
+            
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="primary" isLoading={isRunning(stack, 'up')} onClick={() => runAction(stack, 'up')}>
+                Up
+              </Button>
+              <Button size="sm" variant="secondary" isLoading={isRunning(stack, 'restart')} onClick={() => runAction(stack, 'restart')}>
+                Restart
+              </Button>
+              <Button size="sm" variant="secondary" isLoading={isRunning(stack, 'redeploy')} onClick={() => runAction(stack, 'redeploy')}>
+                Redeploy
+              </Button>
+              <Button size="sm" variant="secondary" isLoading={isRunning(stack, 'down')} onClick={() => runAction(stack, 'down')}>
+                Down
+              </Button>
+              <Link to={`/stacks/${stack.id}/edit`}>
+                <Button size="sm" variant="secondary">Edit</Button>
+              </Link>
+              <Button size="sm" variant="danger" isLoading={isRunning(stack, 'delete')} onClick={() => runAction(stack, 'delete')}>
+                Delete
+              </Button>
+            </div>
+          </div>
+          
+          {stack.containers.length > 0 && (
+            <table className="mt-4 min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Service</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Container</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Image</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {stack.containers.map((container) => (
+                  <tr key={container.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {container.labels?.[COMPOSE_SERVICE_LABEL]}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link to={`/containers/${container.id}`} className="text-blue-600 hover:text-blue-900 font-medium">
+                        {container.name}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{container.image}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <ContainerStatusBadge state={container.state} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default StackList;
@@ -0,0 +1,32 @@
+import axios from 'axios';
+import { AuditLogQuery, AuditLogPage } from '../../../shared/src/models';
+
+const API_BASE_URL = '/api/audit';
+
+/**
+ * Fetches a page of audit log entries, newest first
+ */
+export const fetchAuditLogs = async (query: AuditLogQuery): Promise<AuditLogPage> => {
+  const response = await axios.get<AuditLogPage>(API_BASE_URL, { params: query });
+  return response.data;
+};
+
+/**
+ * Downloads every entry matching the filters as a CSV or JSON file
+ */
+export const exportAuditLogs = async (
+  query: Omit<AuditLogQuery, 'cursor' | 'limit'>,
+  format: 'csv' | 'json'
+): Promise<void> => {
+  const response = await axios.get<Blob>(`${API_BASE_URL}/export`, {
+    params: { ...query, format },
+    responseType: 'blob'
+  });
+
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,5 +1,20 @@
 import axios from 'axios';
-import { LoginRequest, LoginResponse, CreateUserRequest, UserDTO, PasswordResetRequest, PasswordResetConfirmRequest } from 'kontainers-shared';
+import {
+  LoginRequest,
+  LoginResponse,
+  CreateUserRequest,
+  UserDTO,
+  PasswordResetRequest,
+  PasswordResetConfirmRequest,
+  ApiToken,
+  CreateApiTokenRequest,
+  CreateApiTokenResponse,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorEnableResponse,
+  RefreshTokenResponse,
+  Session
+} from 'kontainers-shared';
 
 const API_URL = '/api/auth';
 
@@ -7,30 +22,153 @@ const API_URL = '/api/auth';
 const authAxios = axios.create();
 
 // Add auth token to requests if available
-authAxios.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
+const attachToken = (config: any) => {
+  const token = localStorage.getItem('token');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+};
+
+authAxios.interceptors.request.use(attachToken, (error: any) => Promise.reject(error));
+
+// Every API route except login, registration and password reset requires a token
+axios.interceptors.request.use(attachToken, (error: any) => Promise.reject(error));
+
+// Store the tokens of a new or refreshed session
+const storeTokens = (tokens: RefreshTokenResponse) => {
+  localStorage.setItem('token', tokens.token);
+  localStorage.setItem('refreshToken', tokens.refreshToken);
+};
+
+const clearTokens = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+};
+
+// Concurrent requests that fail with 401 share one refresh
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        return null;
+      }
+      try {
+        const response = await axios.post(`${API_URL}/refresh`, { refreshToken });
+        storeTokens(response.data);
+        return response.data.token as string;
+      } catch (error: any) {
+        // The session was revoked or has expired
+        clearTokens();
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Access tokens are short-lived: refresh once and retry when a request is rejected
+const retryWithRefreshedToken = async (error: any) => {
+  const config = error.config;
+  const url: string = config?.url || '';
+  if (
+    error.response?.status !== 401 ||
+    !config ||
+    config._retried ||
+    url.startsWith(`${API_URL}/login`) ||
+    url === `${API_URL}/refresh`
+  ) {
+    return Promise.reject(error);
+  }
+
+  const token = await refreshAccessToken();
+  if (!token) {
+    return Promise.reject(error);
+  }
+
+  config._retried = true;
+  config.headers.Authorization = `Bearer ${token}`;
+  return axios.request(config);
+};
+
+authAxios.interceptors.response.use((response: any) => response, retryWithRefreshedToken);
+axios.interceptors.response.use((response: any) => response, retryWithRefreshedToken);
 
 export const authService = {
   /**
    * Login user
    */
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
+  async login(credentials: LoginRequest): Promise<LoginResponse | TwoFactorChallenge> {
     const response = await axios.post(`${API_URL}/login`, credentials);
     
-    // Store token in localStorage
-    localStorage.setItem('token', response.data.token);
+    // Store tokens in localStorage, unless a second factor is still needed
+    if (response.data.token) {
+      storeTokens(response.data);
+    }
     
     return response.data;
   },
   
+  /**
+   * Complete a login with a two-factor or recovery code
+   */
+  async verifyTwoFactor(challengeToken: string, code: string): Promise<LoginResponse> {
+    const response = await axios.post(`${API_URL}/login/2fa`, { challengeToken, code });
+    storeTokens(response.data);
+    return response.data;
+  },
+  
+  /**
+   * Start the two-factor enrollment required before signing in
+   */
+  async setupTwoFactorForLogin(challengeToken: string): Promise<TwoFactorSetup> {
+    const response = await axios.post(`${API_URL}/login/2fa/setup`, { challengeToken });
+    return response.data;
+  },
+  
+  /**
+   * Finish the enrollment required before signing in
+   */
+  async enableTwoFactorForLogin(challengeToken: string, code: string): Promise<LoginResponse & TwoFactorEnableResponse> {
+    const response = await axios.post(`${API_URL}/login/2fa/enable`, { challengeToken, code });
+    storeTokens(response.data);
+    return response.data;
+  },
+  
+  /**
+   * Check whether single sign-on is available
+   */
+  async getSsoConfig(): Promise<{ enabled: boolean }> {
+    const response = await axios.get(`${API_URL}/oidc/config`);
+    return response.data;
+  },
+  
+  /**
+   * URL that starts a single sign-on login
+   */
+  getSsoLoginUrl(): string {
+    return `${API_URL}/oidc/login`;
+  },
+  
+  /**
+   * Store the session tokens issued by single sign-on
+   */
+  setTokens(token: string, refreshToken: string): void {
+    storeTokens({ token, refreshToken });
+  },
+  
+  /**
+   * Get a new access token with the stored refresh token; null if the session has ended
+   */
+  refreshToken(): Promise<string | null> {
+    return refreshAccessToken();
+  },
+  
   /**
    * Register new user
    */
@@ -58,7 +196,7 @@ export const authService = {
   /**
    * Request password reset
    */
-  async requestPasswordReset(email: string): Promise<{ message: string; token: string }> {
+  async requestPasswordReset(email: string): Promise<{ message: string }> {
     const response = await axios.post(`${API_URL}/password-reset/request`, { email });
     return response.data;
   },
@@ -71,6 +209,78 @@ export const authService = {
     return response.data;
   },
   
+  /**
+   * Start two-factor enrollment for the current user
+   */
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await authAxios.post(`${API_URL}/2fa/setup`);
+    return response.data;
+  },
+  
+  /**
+   * Confirm two-factor enrollment with a code from the authenticator app
+   */
+  async enableTwoFactor(code: string): Promise<TwoFactorEnableResponse> {
+    const response = await authAxios.post(`${API_URL}/2fa/enable`, { code });
+    return response.data;
+  },
+  
+  /**
+   * Turn off two-factor authentication
+   */
+  async disableTwoFactor(code: string): Promise<{ message: string }> {
+    const response = await authAxios.post(`${API_URL}/2fa/disable`, { code });
+    return response.data;
+  },
+  
+  /**
+   * Replace the current user's recovery codes
+   */
+  async regenerateRecoveryCodes(code: string): Promise<TwoFactorEnableResponse> {
+    const response = await authAxios.post(`${API_URL}/2fa/recovery-codes`, { code });
+    return response.data;
+  },
+  
+  /**
+   * Get the current user's API tokens
+   */
+  async getApiTokens(): Promise<ApiToken[]> {
+    const response = await authAxios.get(`${API_URL}/tokens`);
+    return response.data;
+  },
+  
+  /**
+   * Create an API token; the token value is only returned once
+   */
+  async createApiToken(tokenData: CreateApiTokenRequest): Promise<CreateApiTokenResponse> {
+    const response = await authAxios.post(`${API_URL}/tokens`, tokenData);
+    return response.data;
+  },
+  
+  /**
+   * Revoke an API token
+   */
+  async revokeApiToken(id: string): Promise<{ message: string }> {
+    const response = await authAxios.delete(`${API_URL}/tokens/${id}`);
+    return response.data;
+  },
+  
+  /**
+   * Get the current user's active sessions
+   */
+  async getSessions(): Promise<Session[]> {
+    const response = await authAxios.get(`${API_URL}/sessions`);
+    return response.data;
+  },
+  
+  /**
+   * Revoke one of the current user's sessions
+   */
+  async revokeSession(id: string): Promise<{ message: string }> {
+    const response = await authAxios.delete(`${API_URL}/sessions/${id}`);
+    return response.data;
+  },
+  
   /**
    * Admin: Get all users
    */
@@ -95,6 +305,22 @@ export const authService = {
     return response.data;
   },
   
+  /**
+   * Admin: Reset a user's two-factor authentication
+   */
+  async resetUserTwoFactor(id: string): Promise<{ message: string }> {
+    const response = await authAxios.delete(`${API_URL}/users/${id}/2fa`);
+    return response.data;
+  },
+  
+  /**
+   * Admin: Lift a lockout caused by failed logins
+   */
+  async unlockUser(id: string): Promise<{ message: string }> {
+    const response = await authAxios.post(`${API_URL}/users/${id}/unlock`);
+    return response.data;
+  },
+  
   /**
    * Admin: Delete user
    */
@@ -111,10 +337,18 @@ export const authService = {
   },
   
   /**
-   * Logout user
+   * Logout user, ending the session on the server as well
    */
   logout(): void {
-    localStorage.removeItem('token');
+    const token = localStorage.getItem('token');
+    clearTokens();
+    
+    if (token) {
+      axios.post(`${API_URL}/logout`, undefined, { headers: { Authorization: `Bearer ${token}` } })
+        .catch(() => {
+          // The session may already have expired
+        });
+    }
   }
 };
 
@@ -105,4 +105,12 @@ export const validateConfiguration = async (config: Record<string, any>): Promis
   }>(`${API_BASE_URL}/validate`, config);
   
   return response.data;
-};
\ No newline at end of file
+};
+
+/**
+ * Sends a test email with the saved mail settings
+ */
+export const sendTestEmail = async (to: string): Promise<{ success: boolean; message: string }> => {
+  const response = await axios.post<{ success: boolean; message: string }>(`${API_BASE_URL}/mail/test`, { to });
+  return response.data;
+};
@@ -1,13 +1,14 @@
 import axios from 'axios';
-import { Container, ContainerStats, DetailedContainerStats } from '../../../shared/src/models';
+import { Container, ContainerDirectory, ContainerStats, DetailedContainerStats } from '../../../shared/src/models';
 
 const API_BASE_URL = '/api/containers';
 
 /**
- * Fetches all containers
+ * Fetches all containers the user can see, or only those in one project
  */
-export const fetchContainers = async (): Promise<Container[]> => {
-  const response = await axios.get<Container[]>(API_BASE_URL);
+export const fetchContainers = async (projectId?: string | null): Promise<Container[]> => {
+  const params = projectId ? { projectId } : {};
+  const response = await axios.get<Container[]>(API_BASE_URL, { params });
   return response.data;
 };
 
@@ -47,7 +48,13 @@ export const fetchContainerLogs = async (id: string, tail?: number): Promise<str
 /**
  * Creates a new container
  */
-export const createContainer = async (containerData: Omit<Container, 'id' | 'created'>): Promise<Container> => {
+export const createContainer = async (
+  containerData: Omit<Container, 'id' | 'created' | 'command' | 'entrypoint'> & {
+    // Split into arguments the way a shell would
+    command?: string;
+    entrypoint?: string;
+  }
+): Promise<Container> => {
   const response = await axios.post<Container>(API_BASE_URL, containerData);
   return response.data;
 };
@@ -105,4 +112,46 @@ export const pauseContainer = async (id: string): Promise<Container> => {
 export const unpauseContainer = async (id: string): Promise<Container> => {
   const response = await axios.post<Container>(`${API_BASE_URL}/${id}/unpause`);
   return response.data;
-};
\ No newline at end of file
+};
+
+/**
+ * Lists a directory in a container
+ */
+export const fetchContainerFiles = async (id: string, path: string): Promise<ContainerDirectory> => {
+  const response = await axios.get<ContainerDirectory>(`${API_BASE_URL}/${id}/files`, { params: { path } });
+  return response.data;
+};
+
+/**
+ * Downloads a file as it is, or a file or directory as a tar or zip archive
+ */
+export const downloadContainerFile = async (
+  id: string,
+  path: string,
+  format: 'raw' | 'tar' | 'zip'
+): Promise<void> => {
+  const response = await axios.get<Blob>(`${API_BASE_URL}/${id}/files/download`, {
+    params: { path, format },
+    responseType: 'blob'
+  });
+
+  const name = path.split('/').pop() || 'root';
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = format === 'raw' ? name : `${name}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Uploads files into a directory of a container
+ */
+export const uploadContainerFiles = async (id: string, path: string, files: File[]): Promise<string[]> => {
+  const form = new FormData();
+  files.forEach(file => form.append('files', file));
+  const response = await axios.post<{ paths: string[] }>(`${API_BASE_URL}/${id}/files/upload`, form, {
+    params: { path }
+  });
+  return response.data.paths;
+};
@@ -0,0 +1,78 @@
+import { ExecOptions } from '../../../shared/src/models';
+
+/**
+ * Callbacks for an interactive shell session
+ */
+export interface ExecSessionHandlers {
+  onOutput: (data: string) => void;
+  onExit: (exitCode: number | null) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * An open shell in a container
+ */
+export interface ExecSession {
+  write: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  close: () => void;
+}
+
+/**
+ * Opens a shell in a running container over its own websocket connection,
+ * so terminal traffic does not compete with the shared event stream
+ */
+export const openExecSession = (
+  containerId: string,
+  options: ExecOptions,
+  handlers: ExecSessionHandlers
+): ExecSession => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  let exited = false;
+
+  const send = (message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  socket.onopen = () => {
+    send({ type: 'auth', token: localStorage.getItem('token') });
+  };
+
+  socket.onmessage = (event: MessageEvent) => {
+    const message = JSON.parse(event.data);
+    switch (message.type) {
+      case 'authenticated':
+        send({ type: 'subscribe', channel: 'container-exec', id: containerId, ...options });
+        break;
+      case 'exec-output':
+        handlers.onOutput(message.data);
+        break;
+      case 'exec-exit':
+        exited = true;
+        handlers.onExit(message.exitCode);
+        socket.close(1000);
+        break;
+      case 'error':
+        handlers.onError(message.message);
+        break;
+    }
+  };
+
+  socket.onclose = (event: CloseEvent) => {
+    if (!exited && event.code !== 1000) {
+      handlers.onError(event.reason || 'Connection to the server was lost');
+    }
+  };
+
+  return {
+    write: (data: string) => send({ type: 'exec-input', id: containerId, data }),
+    resize: (cols: number, rows: number) => send({ type: 'exec-resize', id: containerId, cols, rows }),
+    close: () => {
+      exited = true;
+      socket.close(1000);
+    }
+  };
+};
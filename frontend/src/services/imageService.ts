@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { Image, ImagePull, ImagePullStatus, ImagePruneResult } from '../../../shared/src/models';
+
+const API_BASE_URL = '/api/images';
+
+/**
+ * Fetches all images stored on the host
+ */
+export const fetchImages = async (): Promise<Image[]> => {
+  const response = await axios.get<{ images: Image[] }>(API_BASE_URL);
+  return response.data.images;
+};
+
+/**
+ * Starts pulling an image
+ */
+export const pullImage = async (image: string, tag?: string): Promise<ImagePull> => {
+  const response = await axios.post<ImagePull>(`${API_BASE_URL}/pull`, { image, tag });
+  return response.data;
+};
+
+/**
+ * Fetches a pull and the progress of its layers
+ */
+export const fetchPull = async (id: string): Promise<ImagePull> => {
+  const response = await axios.get<ImagePull>(`${API_BASE_URL}/pulls/${id}`);
+  return response.data;
+};
+
+/**
+ * Polls a pull until it finishes, reporting each update
+ */
+export const waitForPull = async (
+  pull: ImagePull,
+  onUpdate: (pull: ImagePull) => void,
+  interval: number = 500
+): Promise<ImagePull> => {
+  let current = pull;
+  while (current.status === ImagePullStatus.PULLING) {
+    await new Promise(resolve => setTimeout(resolve, interval));
+    current = await fetchPull(pull.id);
+    onUpdate(current);
+  }
+  return current;
+};
+
+/**
+ * Adds a tag to an image
+ */
+export const tagImage = async (id: string, repo: string, tag?: string): Promise<void> => {
+  await axios.post(`${API_BASE_URL}/${encodeURIComponent(id)}/tag`, { repo, tag });
+};
+
+/**
+ * Removes an image
+ */
+export const removeImage = async (id: string, force: boolean = false): Promise<void> => {
+  await axios.delete(`${API_BASE_URL}/${encodeURIComponent(id)}`, { params: { force } });
+};
+
+/**
+ * Removes dangling images
+ */
+export const pruneImages = async (): Promise<ImagePruneResult> => {
+  const response = await axios.post<ImagePruneResult>(`${API_BASE_URL}/prune`);
+  return response.data;
+};
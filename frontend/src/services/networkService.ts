@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { Network, CreateNetworkRequest, NetworkPruneResult } from '../../../shared/src/models';
+
+const API_BASE_URL = '/api/networks';
+
+/**
+ * Fetches all networks, with the containers attached to each
+ */
+export const fetchNetworks = async (): Promise<Network[]> => {
+  const response = await axios.get<{ networks: Network[] }>(API_BASE_URL);
+  return response.data.networks;
+};
+
+/**
+ * Fetches a network by ID or name
+ */
+export const fetchNetwork = async (id: string): Promise<Network> => {
+  const response = await axios.get<Network>(`${API_BASE_URL}/${encodeURIComponent(id)}`);
+  return response.data;
+};
+
+/**
+ * Creates a network
+ */
+export const createNetwork = async (network: CreateNetworkRequest): Promise<Network> => {
+  const response = await axios.post<Network>(API_BASE_URL, network);
+  return response.data;
+};
+
+/**
+ * Removes a network
+ */
+export const removeNetwork = async (id: string): Promise<void> => {
+  await axios.delete(`${API_BASE_URL}/${encodeURIComponent(id)}`);
+};
+
+/**
+ * Removes networks no container is attached to
+ */
+export const pruneNetworks = async (): Promise<NetworkPruneResult> => {
+  const response = await axios.post<NetworkPruneResult>(`${API_BASE_URL}/prune`);
+  return response.data;
+};
+
+/**
+ * Attaches a container to a network
+ */
+export const connectNetwork = async (id: string, container: string, aliases?: string[]): Promise<void> => {
+  await axios.post(`${API_BASE_URL}/${encodeURIComponent(id)}/connect`, { container, aliases });
+};
+
+/**
+ * Detaches a container from a network
+ */
+export const disconnectNetwork = async (id: string, container: string, force: boolean = false): Promise<void> => {
+  await axios.post(`${API_BASE_URL}/${encodeURIComponent(id)}/disconnect`, { container, force });
+};
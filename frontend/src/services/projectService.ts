@@ -0,0 +1,72 @@
+import axios from 'axios';
+import {
+  Project,
+  ProjectMember,
+  ProjectRole,
+  CreateProjectRequest,
+  UpdateProjectRequest
+} from '../../../shared/src/models';
+
+const API_BASE_URL = '/api/projects';
+
+/**
+ * Fetches the projects the current user can reach
+ */
+export const fetchProjects = async (): Promise<Project[]> => {
+  const response = await axios.get<{ projects: Project[] }>(API_BASE_URL);
+  return response.data.projects;
+};
+
+/**
+ * Creates a project owned by the current user
+ */
+export const createProject = async (project: CreateProjectRequest): Promise<Project> => {
+  const response = await axios.post<Project>(API_BASE_URL, project);
+  return response.data;
+};
+
+/**
+ * Renames a project or changes its description
+ */
+export const updateProject = async (id: string, project: UpdateProjectRequest): Promise<Project> => {
+  const response = await axios.put<Project>(`${API_BASE_URL}/${id}`, project);
+  return response.data;
+};
+
+/**
+ * Deletes a project that has no containers or proxy rules left
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  await axios.delete(`${API_BASE_URL}/${id}`);
+};
+
+/**
+ * Fetches a project's members
+ */
+export const fetchProjectMembers = async (id: string): Promise<ProjectMember[]> => {
+  const response = await axios.get<{ members: ProjectMember[] }>(`${API_BASE_URL}/${id}/members`);
+  return response.data.members;
+};
+
+/**
+ * Adds a member to a project by username or email
+ */
+export const addProjectMember = async (id: string, user: string, role: ProjectRole): Promise<ProjectMember> => {
+  const response = await axios.post<ProjectMember>(`${API_BASE_URL}/${id}/members`, { user, role });
+  return response.data;
+};
+
+/**
+ * Changes a project member's role
+ */
+export const updateProjectMember = async (id: string, userId: string, role: ProjectRole): Promise<ProjectMember> => {
+  const response = await axios.put<ProjectMember>(`${API_BASE_URL}/${id}/members/${userId}`, { role });
+  return response.data;
+};
+
+/**
+ * Removes a member from a project
+ */
+export const removeProjectMember = async (id: string, userId: string): Promise<void> => {
+  await axios.delete(`${API_BASE_URL}/${id}/members/${userId}`);
+};
@@ -12,10 +12,11 @@ import {
 const API_BASE_URL = '/api/proxy';
 
 /**
- * Fetches all proxy rules
+ * Fetches all proxy rules the user can see, or only those in one project
  */
-export const fetchProxyRules = async (): Promise<ProxyRule[]> => {
-  const response = await axios.get<ProxyRule[]>(API_BASE_URL);
+export const fetchProxyRules = async (projectId?: string | null): Promise<ProxyRule[]> => {
+  const params = projectId ? { projectId } : {};
+  const response = await axios.get<ProxyRule[]>(API_BASE_URL, { params });
   return response.data;
 };
 
@@ -0,0 +1,82 @@
+import axios from 'axios';
+import { Stack, CreateStackRequest } from '../../../shared/src/models';
+
+const API_BASE_URL = '/api/stacks';
+
+/**
+ * A saved stack, with the parts of its compose file that are not supported
+ */
+export type SavedStack = Stack & { warnings: string[] };
+
+/**
+ * Fetches the stacks the user can see, optionally only one project's
+ */
+export const fetchStacks = async (projectId?: string | null): Promise<Stack[]> => {
+  const response = await axios.get<{ stacks: Stack[] }>(API_BASE_URL, {
+    params: projectId ? { projectId } : undefined
+  });
+  return response.data.stacks;
+};
+
+/**
+ * Fetches a stack by ID
+ */
+export const fetchStack = async (id: string): Promise<Stack> => {
+  const response = await axios.get<Stack>(`${API_BASE_URL}/${id}`);
+  return response.data;
+};
+
+/**
+ * Saves a new stack from a compose file
+ */
+export const createStack = async (stack: CreateStackRequest): Promise<SavedStack> => {
+  const response = await axios.post<SavedStack>(API_BASE_URL, stack);
+  return response.data;
+};
+
+/**
+ * Replaces a stack's compose file
+ */
+export const updateStack = async (id: string, compose: string): Promise<SavedStack> => {
+  const response = await axios.put<SavedStack>(`${API_BASE_URL}/${id}`, { compose });
+  return response.data;
+};
+
+/**
+ * Takes a stack down and deletes it
+ */
+export const deleteStack = async (id: string, removeVolumes: boolean = false): Promise<void> => {
+  await axios.delete(`${API_BASE_URL}/${id}`, { params: { removeVolumes } });
+};
+
+/**
+ * Creates and starts whatever is missing of a stack
+ */
+export const stackUp = async (id: string, pull: boolean = false): Promise<Stack> => {
+  const response = await axios.post<Stack>(`${API_BASE_URL}/${id}/up`, { pull });
+  return response.data;
+};
+
+/**
+ * Removes a stack's containers and networks
+ */
+export const stackDown = async (id: string, removeVolumes: boolean = false): Promise<Stack> => {
+  const response = await axios.post<Stack>(`${API_BASE_URL}/${id}/down`, { removeVolumes });
+  return response.data;
+};
+
+/**
+ * Restarts a stack's containers
+ */
+export const restartStack = async (id: string): Promise<Stack> => {
+  const response = await axios.post<Stack>(`${API_BASE_URL}/${id}/restart`);
+  return response.data;
+};
+
+/**
+ * Recreates a stack's containers from its current compose file
+ */
+export const redeployStack = async (id: string, pull: boolean = false): Promise<Stack> => {
+  const response = await axios.post<Stack>(`${API_BASE_URL}/${id}/redeploy`, { pull });
+  return response.data;
+};
@@ -0,0 +1,43 @@
+import axios from 'axios';
+import { Volume, CreateVolumeRequest, VolumePruneResult } from '../../../shared/src/models';
+
+const API_BASE_URL = '/api/volumes';
+
+/**
+ * Fetches all volumes, with the containers using each
+ */
+export const fetchVolumes = async (): Promise<Volume[]> => {
+  const response = await axios.get<{ volumes: Volume[] }>(API_BASE_URL);
+  return response.data.volumes;
+};
+
+/**
+ * Fetches a volume by name
+ */
+export const fetchVolume = async (name: string): Promise<Volume> => {
+  const response = await axios.get<Volume>(`${API_BASE_URL}/${encodeURIComponent(name)}`);
+  return response.data;
+};
+
+/**
+ * Creates a volume
+ */
+export const createVolume = async (volume: CreateVolumeRequest): Promise<Volume> => {
+  const response = await axios.post<Volume>(API_BASE_URL, volume);
+  return response.data;
+};
+
+/**
+ * Removes a volume
+ */
+export const removeVolume = async (name: string, force: boolean = false): Promise<void> => {
+  await axios.delete(`${API_BASE_URL}/${encodeURIComponent(name)}`, { params: { force } });
+};
+
+/**
+ * Removes volumes no container uses
+ */
+export const pruneVolumes = async (): Promise<VolumePruneResult> => {
+  const response = await axios.post<VolumePruneResult>(`${API_BASE_URL}/prune`);
+  return response.data;
+};
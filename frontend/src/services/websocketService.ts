@@ -2,10 +2,16 @@
  * WebSocket service for real-time communication
  */
 
+import authService from './authService';
+
 type MessageHandler = (data: any) => void;
 type ConnectionHandler = () => void;
 type ErrorHandler = (error: string) => void;
 
+// Close codes the server uses for missing/invalid and expired tokens
+const AUTH_CLOSE_CODES = [4001, 4002];
+const TOKEN_EXPIRED_CLOSE_CODE = 4002;
+
 class WebSocketService {
   private socket: WebSocket | null = null;
   private isConnected = false;
@@ -145,6 +151,13 @@ class WebSocketService {
    */
   private handleOpen(): void {
     console.log('WebSocket connected');
+    
+    // Authenticate with the first message rather than the URL, which ends up in logs
+    const token = localStorage.getItem('token');
+    if (token && this.socket) {
+      this.socket.send(JSON.stringify({ type: 'auth', token }));
+    }
+    
     this.isConnected = true;
     this.reconnectAttempts = 0;
     this.notifyConnectHandlers();
@@ -158,8 +171,18 @@ class WebSocketService {
     this.isConnected = false;
     this.notifyDisconnectHandlers();
     
-    // Attempt to reconnect if not a clean close
-    if (event.code !== 1000) {
+    // Access tokens are short-lived: reconnect with a refreshed one
+    if (event.code === TOKEN_EXPIRED_CLOSE_CODE) {
+      authService.refreshToken().then(token => {
+        if (token) {
+          this.attemptReconnect();
+        }
+      });
+      return;
+    }
+    
+    // Attempt to reconnect if not a clean close or an authentication failure
+    if (event.code !== 1000 && !AUTH_CLOSE_CODES.includes(event.code)) {
       this.attemptReconnect();
     }
   }
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { UserDTO, UserRole } from 'kontainers-shared';
+import { UserDTO, UserRole, TwoFactorChallenge } from 'kontainers-shared';
 import authService from '../services/authService';
 
 interface AuthState {
@@ -9,7 +9,9 @@ interface AuthState {
   error: string | null;
   
   // Actions
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  completeSsoLogin: (token: string, refreshToken: string) => Promise<void>;
   register: (username: string, email: string, password: string) => Promise<void>;
   logout: () => void;
   loadUser: () => Promise<void>;
@@ -36,11 +38,19 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       set({ isLoading: true, error: null });
       const response = await authService.login({ email, password });
+      
+      // The caller completes the login with a second factor
+      if ('twoFactorRequired' in response) {
+        set({ isLoading: false });
+        return response;
+      }
+      
       set({ 
         isAuthenticated: true, 
         user: response.user,
         isLoading: false 
       });
+      return null;
     } catch (error: any) {
       set({ 
         error: error.response?.data?.message || 'Login failed', 
@@ -51,6 +61,32 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
   
+  verifyTwoFactor: async (challengeToken, code) => {
+    try {
+      set({ isLoading: true, error: null });
+      const response = await authService.verifyTwoFactor(challengeToken, code);
+      set({ 
+        isAuthenticated: true, 
+        user: response.user,
+        isLoading: false 
+      });
+    } catch (error: any) {
+      set({ 
+        error: error.response?.data?.message || 'Invalid two-factor code', 
+        isLoading: false
+      });
+      throw error;
+    }
+  },
+  
+  completeSsoLogin: async (token, refreshToken) => {
+    authService.setTokens(token, refreshToken);
+    await get().loadUser();
+    if (!get().isAuthenticated) {
+      throw new Error(get().error || 'Single sign-on failed');
+    }
+  },
+  
   register: async (username, email, password) => {
     try {
       set({ isLoading: true, error: null });
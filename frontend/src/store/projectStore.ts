@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { Project } from '../../../shared/src/models';
+import { fetchProjects } from '../services/projectService';
+
+// Remembers the selected project across reloads
+const CURRENT_PROJECT_KEY = 'currentProjectId';
+
+interface ProjectState {
+  projects: Project[];
+  // Project whose containers and proxy rules are shown; null shows everything the user can see
+  currentProjectId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  loadProjects: () => Promise<void>;
+  setCurrentProject: (projectId: string | null) => void;
+  getCurrentProject: () => Project | undefined;
+}
+
+export const useProjectStore = create<ProjectState>((set, get) => ({
+  projects: [],
+  currentProjectId: localStorage.getItem(CURRENT_PROJECT_KEY),
+  isLoading: false,
+  error: null,
+  
+  loadProjects: async () => {
+    try {
+      set({ isLoading: true, error: null });
+      const projects = await fetchProjects();
+      
+      // Forget a project the user has since left or that was deleted
+      const { currentProjectId } = get();
+      if (currentProjectId && !projects.some(project => project.id === currentProjectId)) {
+        get().setCurrentProject(null);
+      }
+      
+      set({ projects, isLoading: false });
+    } catch (error: any) {
+      set({ error: error.response?.data?.message || 'Failed to load projects', isLoading: false });
+    }
+  },
+  
+  setCurrentProject: (projectId) => {
+    if (projectId) {
+      localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
+    } else {
+      localStorage.removeItem(CURRENT_PROJECT_KEY);
+    }
+    set({ currentProjectId: projectId });
+  },
+  
+  getCurrentProject: () => {
+    const { projects, currentProjectId } = get();
+    return projects.find(project => project.id === currentProjectId);
+  }
+}));
@@ -0,0 +1,43 @@
+/**
+ * Audit log models for Kontainers application
+ */
+
+/**
+ * A recorded action, with the user who performed it
+ */
+export interface AuditLogEntry {
+  id: string;
+  userId?: string;
+  username?: string;
+  action: string;
+  resource: string;
+  resourceId?: string;
+  timestamp: string;
+  ipAddress?: string;
+  userAgent?: string;
+  /**
+   * Action details; updates record the changed fields as { before, after }
+   */
+  details?: any;
+}
+
+/**
+ * Filters for querying the audit log
+ */
+export interface AuditLogQuery {
+  userId?: string;
+  resource?: string;
+  action?: string;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * A page of audit log entries, newest first
+ */
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor?: string; // Pass as `cursor` to get the next page
+}
@@ -2,6 +2,8 @@
  * Container-related models for Kontainers application
  */
 
+import { HealthStatus } from './health';
+
 /**
  * Represents a Docker container with its properties.
  */
@@ -17,6 +19,25 @@ export interface Container {
   created: number;
   labels?: Record<string, string>;
   env?: string[];
+  /**
+   * Result of the container's Docker healthcheck, if it defines one
+   */
+  health?: HealthStatus;
+  /**
+   * Project the container belongs to, from its kontainers.project label.
+   * Containers without one are shared by all users.
+   */
+  projectId?: string;
+  /**
+   * Runtime settings, only set when a single container is fetched
+   */
+  command?: string[];
+  entrypoint?: string[];
+  workingDir?: string;
+  user?: string;
+  resources?: ContainerResources;
+  restartPolicy?: ContainerRestartPolicy;
+  healthcheck?: ContainerHealthcheck;
 }
 
 /**
@@ -49,4 +70,113 @@ export interface VolumeMount {
   source: string;
   destination: string;
   mode: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Represents a single line of container output.
+ */
+export interface ContainerLogEntry {
+  containerId: string;
+  stream: 'stdout' | 'stderr';
+  timestamp?: string;
+  message: string;
+}
+
+/**
+ * A container using a volume or attached to a network.
+ */
+export interface AttachedContainer {
+  id: string;
+  name: string;
+  projectId?: string;
+  ipv4Address?: string; // Networks only
+  macAddress?: string; // Networks only
+}
+
+/**
+ * Options for an interactive shell in a running container.
+ */
+export interface ExecOptions {
+  shell?: string; // Defaults to /bin/sh
+  user?: string; // user, uid or user:group; defaults to the container's user
+  cols?: number;
+  rows?: number;
+}
+
+/**
+ * CPU, memory and process limits of a container. Zero removes a limit.
+ */
+export interface ContainerResources {
+  memory?: number; // Bytes
+  memorySwap?: number; // Bytes of memory plus swap; -1 for unlimited swap
+  cpus?: number; // Number of CPUs, such as 0.5
+  cpuShares?: number; // Relative weight against other containers; Docker's default is 1024
+  cpuQuota?: number; // Microseconds of CPU time per period; an alternative to cpus
+  cpuPeriod?: number; // Microseconds; defaults to 100000
+  pidsLimit?: number; // Maximum number of processes; -1 for unlimited
+}
+
+/**
+ * When Docker restarts a container that exits.
+ */
+export enum RestartPolicy {
+  NO = 'no',
+  ON_FAILURE = 'on-failure',
+  UNLESS_STOPPED = 'unless-stopped',
+  ALWAYS = 'always'
+}
+
+/**
+ * Restart policy of a container.
+ */
+export interface ContainerRestartPolicy {
+  name: RestartPolicy;
+  maximumRetryCount?: number; // on-failure only; 0 retries forever
+}
+
+/**
+ * Docker healthcheck of a container. Durations are in seconds.
+ */
+export interface ContainerHealthcheck {
+  command?: string; // Run with the container's shell
+  disabled?: boolean; // Turn off the healthcheck the image defines
+  interval?: number;
+  timeout?: number;
+  startPeriod?: number;
+  retries?: number;
+}
+
+/**
+ * Changes to apply when recreating a container; anything not given is kept.
+ */
+export interface RecreateContainerRequest {
+  image?: string; // Full image reference
+  tag?: string; // New tag for the current image's repository
+  env?: Record<string, string | null>; // Variables to set; null removes one
+  ports?: { internal: number; external?: number; protocol?: string }[]; // Replaces every port binding
+  resources?: ContainerResources;
+  pull?: boolean; // Pull the image first; defaults to true
+  timeout?: number; // Seconds the new container has to become healthy; defaults to 60
+}
+
+/**
+ * A file or directory in a container's filesystem.
+ */
+export interface ContainerFile {
+  name: string;
+  path: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number; // Bytes; 0 for directories
+  mode: number; // Permission bits
+  modifiedAt: number; // Seconds since the epoch
+  linkTarget?: string; // Symlinks only
+}
+
+/**
+ * The contents of a directory in a container.
+ */
+export interface ContainerDirectory {
+  path: string;
+  entries: ContainerFile[];
+  truncated: boolean; // The directory was too large to read completely
+}
@@ -0,0 +1,68 @@
+/**
+ * Image-related models for Kontainers application
+ */
+
+/**
+ * A Docker image stored on the host.
+ */
+export interface Image {
+  id: string;
+  repoTags: string[];
+  repoDigests: string[];
+  size: number; // Bytes
+  created: number; // Unix seconds
+  labels?: Record<string, string>;
+  /**
+   * Number of containers, running or stopped, created from the image
+   */
+  containers: number;
+  /**
+   * Untagged image no longer referenced by any tag
+   */
+  dangling: boolean;
+}
+
+export enum ImagePullStatus {
+  PULLING = 'pulling',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+/**
+ * Download and extraction progress of one image layer.
+ */
+export interface ImageLayerProgress {
+  id: string;
+  status: string; // Docker's status, such as "Downloading" or "Pull complete"
+  current?: number; // Bytes
+  total?: number; // Bytes
+}
+
+/**
+ * An image pull and the progress of each of its layers.
+ */
+export interface ImagePull {
+  id: string;
+  image: string; // Reference being pulled, such as nginx:latest
+  status: ImagePullStatus;
+  layers: ImageLayerProgress[];
+  message?: string; // Latest status not tied to a layer, such as the digest
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface PullImageRequest {
+  image: string;
+  tag?: string; // Defaults to the tag in image, or latest
+}
+
+export interface TagImageRequest {
+  repo: string;
+  tag?: string;
+}
+
+export interface ImagePruneResult {
+  imagesDeleted: string[];
+  spaceReclaimed: number; // Bytes
+}
@@ -6,6 +6,10 @@
 // Container-related models
 export * from './container';
 export * from './container-stats';
+export * from './image';
+export * from './volume';
+export * from './network';
+export * from './stack';
 
 // Proxy-related models
 export * from './proxy';
@@ -17,4 +21,6 @@ export * from './health';
 export * from './configuration';
 
 // User-related models
-export * from './user';
\ No newline at end of file
+export * from './user';
+export * from './audit';
+export * from './project';
\ No newline at end of file
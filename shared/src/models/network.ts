@@ -0,0 +1,58 @@
+/**
+ * Network-related models for Kontainers application
+ */
+
+import { AttachedContainer } from './container';
+
+/**
+ * An address range of a network.
+ */
+export interface NetworkSubnet {
+  subnet: string; // CIDR, such as 172.20.0.0/16
+  gateway?: string;
+}
+
+/**
+ * A Docker network.
+ */
+export interface Network {
+  id: string;
+  name: string;
+  driver: string;
+  scope: string;
+  internal: boolean; // No access to outside networks
+  attachable: boolean;
+  subnets: NetworkSubnet[];
+  created: string;
+  labels?: Record<string, string>;
+  options?: Record<string, string>; // Driver options
+  /**
+   * Containers, running or stopped, attached to the network
+   */
+  containers: AttachedContainer[];
+}
+
+export interface CreateNetworkRequest {
+  name: string;
+  driver?: string; // Defaults to bridge
+  internal?: boolean;
+  attachable?: boolean;
+  subnet?: string;
+  gateway?: string;
+  options?: Record<string, string>;
+  labels?: Record<string, string>;
+}
+
+export interface ConnectNetworkRequest {
+  container: string; // Container ID or name
+  aliases?: string[];
+}
+
+export interface DisconnectNetworkRequest {
+  container: string;
+  force?: boolean;
+}
+
+export interface NetworkPruneResult {
+  networksDeleted: string[];
+}
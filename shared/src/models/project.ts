@@ -0,0 +1,45 @@
+/**
+ * Project models for Kontainers application
+ * Projects give teams sharing a host ownership of their containers and proxy rules
+ */
+
+// Docker label holding the ID of the project a container belongs to
+export const PROJECT_LABEL = 'kontainers.project';
+
+export enum ProjectRole {
+  OWNER = 'owner', // Operate the project's resources and manage its members
+  OPERATOR = 'operator', // Run containers and manage proxy rules in the project
+  VIEWER = 'viewer' // View the project's containers and proxy rules
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  role?: ProjectRole; // The caller's role; unset for admins who are not members
+}
+
+export interface ProjectMember {
+  userId: string;
+  username: string;
+  email: string;
+  role: ProjectRole;
+  createdAt: string;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  description?: string;
+}
+
+export interface AddProjectMemberRequest {
+  user: string; // Username or email
+  role: ProjectRole;
+}
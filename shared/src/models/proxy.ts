@@ -10,6 +10,10 @@ export interface ProxyRule {
   name: string;
   sourceHost: string;
   sourcePath: string;
+  /**
+   * Port a TCP/UDP rule listens on; defaults to targetPort
+   */
+  sourcePort?: number;
   targetContainer: string;
   targetPort: number;
   protocol: ProxyProtocol;
@@ -38,6 +42,17 @@ export interface ProxyRule {
   letsEncryptEmail?: string;
   letsEncryptStatus?: LetsEncryptStatus;
   letsEncryptLastRenewal?: number;
+  
+  /**
+   * ID of the container whose kontainers.proxy.* labels manage this rule.
+   * Label-managed rules are read-only through the API.
+   */
+  managedByContainer?: string;
+  
+  /**
+   * Project the rule belongs to. Rules without one are shared by all users.
+   */
+  projectId?: string;
 }
 
 /**
@@ -107,6 +122,17 @@ export interface LoadBalancingTarget {
   weight: number;
 }
 
+/**
+ * Represents the Nginx upstream generated for a proxy rule.
+ */
+export interface ProxyUpstream {
+  name: string;
+  method: LoadBalancingMethod;
+  servers: LoadBalancingTarget[];
+  sticky: boolean;
+  cookieName?: string;
+}
+
 /**
  * Represents the load balancing method.
  */
@@ -0,0 +1,47 @@
+/**
+ * Stack-related models for Kontainers application
+ * A stack is a set of containers, networks and volumes deployed from a compose file
+ */
+
+import { Container } from './container';
+
+// Labels docker compose puts on what it creates; stacks use the same ones,
+// so `docker compose` and Kontainers see each other's deployments
+export const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+export const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service';
+export const COMPOSE_NETWORK_LABEL = 'com.docker.compose.network';
+export const COMPOSE_VOLUME_LABEL = 'com.docker.compose.volume';
+
+export enum StackStatus {
+  RUNNING = 'running', // Every service has a running container
+  PARTIAL = 'partial', // Some services are running
+  STOPPED = 'stopped', // Containers exist but none is running
+  DOWN = 'down' // No containers
+}
+
+/**
+ * A compose stack and the containers deployed from it.
+ */
+export interface Stack {
+  id: string;
+  name: string; // Also the compose project name
+  compose: string; // Compose file, as YAML
+  services: string[];
+  status: StackStatus;
+  containers: Container[];
+  projectId?: string;
+  createdAt: string;
+  updatedAt: string;
+  deployedAt?: string;
+}
+
+export interface CreateStackRequest {
+  name: string;
+  compose: string;
+  projectId?: string;
+  deploy?: boolean; // Bring the stack up once saved
+}
+
+export interface UpdateStackRequest {
+  compose: string;
+}
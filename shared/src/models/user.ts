@@ -14,6 +14,13 @@ export interface User {
   updatedAt: string;
   lastLogin?: string;
   isActive: boolean;
+  oidcSubject?: string; // Identity provider subject for single sign-on users
+  totpSecret?: string; // Never sent to frontend
+  twoFactorEnabled: boolean;
+  totpLastCounter?: number;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: string;
+  lockedUntil?: string;
 }
 
 export interface UserDTO {
@@ -25,6 +32,8 @@ export interface UserDTO {
   updatedAt: string;
   lastLogin?: string;
   isActive: boolean;
+  twoFactorEnabled: boolean;
+  lockedUntil?: string; // Set while the account is locked after failed logins
 }
 
 export interface CreateUserRequest {
@@ -48,10 +57,55 @@ export interface LoginRequest {
 }
 
 export interface LoginResponse {
-  token: string;
+  token: string; // Short-lived access token
+  refreshToken: string; // Exchanged for new tokens at /api/auth/refresh
   user: UserDTO;
 }
 
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken: string; // Replaces the refresh token that was sent
+}
+
+export interface Session {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
+/**
+ * Returned by login instead of a token when a second factor is needed.
+ * When setupRequired is set the user must enroll before they can sign in.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  setupRequired: boolean;
+  challengeToken: string;
+}
+
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code: string; // TOTP code or recovery code
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string; // Encode as a QR code for authenticator apps
+}
+
+export interface TwoFactorEnableResponse {
+  recoveryCodes: string[]; // Only returned once
+}
+
 export interface PasswordResetRequest {
   email: string;
 }
@@ -64,4 +118,36 @@ export interface PasswordResetConfirmRequest {
 export interface TokenPayload {
   userId: string;
   role: UserRole;
-}
\ No newline at end of file
+  sessionId: string;
+}
+export enum ApiTokenScope {
+  CONTAINERS_READ = 'containers:read',
+  CONTAINERS_WRITE = 'containers:write',
+  PROXY_READ = 'proxy:read',
+  PROXY_WRITE = 'proxy:write',
+  CONFIG_READ = 'config:read',
+  CONFIG_ADMIN = 'config:admin'
+}
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // First characters of the token, shown to identify it
+  scopes: ApiTokenScope[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number;
+}
+
+export interface CreateApiTokenResponse {
+  token: string; // Only returned once, at creation
+  apiToken: ApiToken;
+}
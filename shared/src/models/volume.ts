@@ -0,0 +1,34 @@
+/**
+ * Volume-related models for Kontainers application
+ */
+
+import { AttachedContainer } from './container';
+
+/**
+ * A Docker volume.
+ */
+export interface Volume {
+  name: string;
+  driver: string;
+  mountpoint: string;
+  scope: 'local' | 'global';
+  createdAt?: string;
+  labels?: Record<string, string>;
+  options?: Record<string, string>; // Driver options
+  /**
+   * Containers, running or stopped, that mount the volume
+   */
+  containers: AttachedContainer[];
+}
+
+export interface CreateVolumeRequest {
+  name?: string; // Docker generates one if omitted
+  driver?: string; // Defaults to local
+  driverOpts?: Record<string, string>;
+  labels?: Record<string, string>;
+}
+
+export interface VolumePruneResult {
+  volumesDeleted: string[];
+  spaceReclaimed: number; // Bytes
+}
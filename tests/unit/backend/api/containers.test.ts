@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { Elysia } from 'elysia';
+import { UserRole, ProjectRole, ContainerState, Container } from '../../../../shared/src/models';
+import type { AuthenticatedUser } from '../../../../backend/src/middleware/auth';
+import type { ProjectAccess } from '../../../../backend/src/middleware/permissions';
+
+const bcryptMock = { hash: async () => '', compare: async () => false };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+
+// Uploads reach Docker as one archive; everything else goes through the container service
+const putArchive = mock(async (_id: string, _path: string, _archive: Buffer) => {});
+mock.module('../../../../backend/src/integrations/docker', () => ({ dockerClient: { putArchive } }));
+
+// Requests made by these tests carry their user here; other requests are left to the real middleware
+const testUsers = new WeakMap<Request, AuthenticatedUser>();
+const auth = await import('../../../../backend/src/middleware/auth');
+const realGetRequestUser = auth.getRequestUser;
+mock.module('../../../../backend/src/middleware/auth', () => ({
+  ...auth,
+  getRequestUser: (request: Request) => testUsers.get(request) ?? realGetRequestUser(request)
+}));
+
+// Bun keeps the exports of the first stub of a module, so each file stubs the same ones
+mock.module('../../../../backend/src/services/project', () => ({
+  getProject: async () => null,
+  getProjectAccess: async (_userId: string, role: UserRole): Promise<ProjectAccess> => ({
+    role,
+    projects: new Map([['project-1', ProjectRole.OPERATOR]])
+  })
+}));
+
+const audit = await import('../../../../backend/src/middleware/audit');
+const auditRequest = mock(async (..._args: any[]) => {});
+mock.module('../../../../backend/src/middleware/audit', () => ({ ...audit, auditRequest }));
+
+const { containerService } = await import('../../../../backend/src/services/container');
+const { MAX_UPLOAD_REQUEST_SIZE } = await import('../../../../backend/src/services/containerFiles');
+const { errorMiddleware } = await import('../../../../backend/src/middleware/error');
+// The query gives this file its own copy bound to the mocks
+const routesPath = '../../../../backend/src/api/containers?test-mocks';
+const { containersRoutes } = await import(routesPath) as typeof import('../../../../backend/src/api/containers');
+
+const app = new Elysia().use(errorMiddleware).use(containersRoutes);
+
+/**
+ * Upload files to /data of the web container as a user, with the headers given
+ */
+async function upload(files: File[], headers: Record<string, string> = {}) {
+  const form = new FormData();
+  files.forEach(file => form.append('files', file));
+  const encoded = new Response(form);
+  const contentType = encoded.headers.get('content-type')!;
+  const body = new Uint8Array(await encoded.arrayBuffer());
+  const request = new Request('http://localhost/containers/web/files/upload?path=/data', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType, 'Content-Length': String(body.length), ...headers },
+    body
+  });
+  testUsers.set(request, { userId: 'user-1', role: UserRole.USER });
+  return app.handle(request);
+}
+
+describe('Container file uploads', () => {
+  beforeEach(() => {
+    putArchive.mockClear();
+    const container: Container = {
+      id: 'abc123',
+      name: 'web',
+      image: 'nginx:latest',
+      state: ContainerState.RUNNING,
+      status: 'Up 1 second',
+      ports: [],
+      volumes: [],
+      networks: ['bridge'],
+      created: 0,
+      labels: {},
+      projectId: 'project-1'
+    };
+    spyOn(containerService, 'getContainer').mockResolvedValue(container);
+    // The error middleware logs each refused upload
+    spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should write the files into the container as an archive', async () => {
+    const response = await upload([new File(['hello'], 'hello.txt')]);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, paths: ['/data/hello.txt'] });
+    expect(putArchive.mock.calls[0].slice(0, 2)).toEqual(['web', '/data']);
+  });
+
+  it('should refuse uploads that do not give their length with 411', async () => {
+    const response = await upload([new File(['hello'], 'hello.txt')], { 'Content-Length': '' });
+
+    expect(response.status).toBe(411);
+    expect(putArchive).not.toHaveBeenCalled();
+  });
+
+  it('should refuse uploads over the limit from their length with 413', async () => {
+    const response = await upload([new File(['hello'], 'hello.txt')], { 'Content-Length': String(MAX_UPLOAD_REQUEST_SIZE + 1) });
+
+    expect(response.status).toBe(413);
+    expect(putArchive).not.toHaveBeenCalled();
+  });
+
+  it('should refuse names too long for the archive with 400', async () => {
+    const response = await upload([new File(['hello'], `${'é'.repeat(51)}.txt`)]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: `File name is too long: ${'é'.repeat(51)}.txt` });
+    expect(putArchive).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { Elysia } from 'elysia';
+import { UserRole, ProjectRole, PROJECT_LABEL, Container, Network } from '../../../../shared/src/models';
+import type { AuthenticatedUser } from '../../../../backend/src/middleware/auth';
+import type { ProjectAccess } from '../../../../backend/src/middleware/permissions';
+
+const bcryptMock = { hash: async () => '', compare: async () => false };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+
+// The routes only reach Docker through the container service, whose methods each test stubs
+mock.module('../../../../backend/src/integrations/docker', () => ({ dockerClient: {} }));
+
+// Requests made by these tests carry their user here; other requests are left to the real middleware
+const testUsers = new WeakMap<Request, AuthenticatedUser>();
+const auth = await import('../../../../backend/src/middleware/auth');
+const realGetRequestUser = auth.getRequestUser;
+mock.module('../../../../backend/src/middleware/auth', () => ({
+  ...auth,
+  getRequestUser: (request: Request) => testUsers.get(request) ?? realGetRequestUser(request)
+}));
+
+// The user of these tests operates project-1 and only views project-2
+mock.module('../../../../backend/src/services/project', () => ({
+  getProject: async () => null,
+  getProjectAccess: async (_userId: string, role: UserRole): Promise<ProjectAccess> => ({
+    role,
+    projects: new Map([['project-1', ProjectRole.OPERATOR], ['project-2', ProjectRole.VIEWER]])
+  })
+}));
+
+const audit = await import('../../../../backend/src/middleware/audit');
+const auditRequest = mock(async (..._args: any[]) => {});
+mock.module('../../../../backend/src/middleware/audit', () => ({ ...audit, auditRequest }));
+
+const { containerService } = await import('../../../../backend/src/services/container');
+const { errorMiddleware } = await import('../../../../backend/src/middleware/error');
+// The query gives this file its own copy bound to the mocks
+const routesPath = '../../../../backend/src/api/networks?test-mocks';
+const { networkRoutes } = await import(routesPath) as typeof import('../../../../backend/src/api/networks');
+
+const app = new Elysia().use(errorMiddleware).use(networkRoutes);
+
+/**
+ * Send a JSON request to the network routes as a user
+ */
+async function send(method: string, path: string, body?: unknown) {
+  const request = new Request(`http://localhost/networks${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  testUsers.set(request, { userId: 'user-1', role: UserRole.USER });
+  return app.handle(request);
+}
+
+/**
+ * A network, in a project if given
+ */
+function makeNetwork(projectId?: string): Network {
+  return {
+    id: 'net-1',
+    name: 'shop_default',
+    driver: 'bridge',
+    scope: 'local',
+    internal: false,
+    attachable: true,
+    subnets: [],
+    created: '2024-06-01T12:00:00.000Z',
+    labels: projectId ? { [PROJECT_LABEL]: projectId } : {},
+    containers: [
+      { id: 'c1', name: 'web', projectId: 'project-1' },
+      { id: 'c2', name: 'db', projectId: 'project-3' }
+    ]
+  };
+}
+
+/**
+ * A container, in a project if given
+ */
+function makeContainer(projectId?: string): Container {
+  return { id: 'c1', name: 'web', projectId } as Container;
+}
+
+describe('Network routes', () => {
+  let connectNetwork: ReturnType<typeof spyOn>;
+  let disconnectNetwork: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    auditRequest.mockClear();
+    connectNetwork = spyOn(containerService, 'connectNetwork').mockResolvedValue(undefined);
+    disconnectNetwork = spyOn(containerService, 'disconnectNetwork').mockResolvedValue(undefined);
+    spyOn(containerService, 'getContainer').mockResolvedValue(makeContainer('project-1'));
+    spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should hide attached containers from projects the user cannot see', async () => {
+    spyOn(containerService, 'getNetwork').mockResolvedValue(makeNetwork());
+
+    const response = await send('GET', '/net-1');
+
+    expect((await response.json()).containers.map((container: any) => container.name)).toEqual(['web']);
+  });
+
+  it('should not let callers set project or compose labels on new networks', async () => {
+    const createNetwork = spyOn(containerService, 'createNetwork').mockResolvedValue(makeNetwork());
+
+    const response = await send('POST', '/', {
+      name: 'shop_default',
+      labels: { [PROJECT_LABEL]: 'project-2', 'com.docker.compose.project': 'shop', team: 'web' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(createNetwork.mock.calls[0][0]).toEqual({ name: 'shop_default', labels: { team: 'web' } });
+  });
+
+  it('should connect containers to networks in projects the user operates', async () => {
+    spyOn(containerService, 'getNetwork').mockResolvedValue(makeNetwork('project-1'));
+
+    const response = await send('POST', '/shop_default/connect', { container: 'web', aliases: ['app'] });
+
+    expect(response.status).toBe(200);
+    expect(connectNetwork).toHaveBeenCalledWith('net-1', 'c1', ['app']);
+    expect(auditRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to connect to or disconnect from a network of a project the user cannot operate', async () => {
+    for (const projectId of ['project-2', 'project-3']) {
+      spyOn(containerService, 'getNetwork').mockResolvedValue(makeNetwork(projectId));
+
+      expect((await send('POST', '/net-1/connect', { container: 'web' })).status).toBe(403);
+      expect((await send('POST', '/net-1/disconnect', { container: 'web' })).status).toBe(403);
+    }
+
+    expect(connectNetwork).not.toHaveBeenCalled();
+    expect(disconnectNetwork).not.toHaveBeenCalled();
+    expect(auditRequest).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to attach containers of a project the user cannot operate', async () => {
+    spyOn(containerService, 'getNetwork').mockResolvedValue(makeNetwork());
+    spyOn(containerService, 'getContainer').mockResolvedValue(makeContainer('project-2'));
+
+    expect((await send('POST', '/net-1/connect', { container: 'web' })).status).toBe(403);
+    expect((await send('POST', '/net-1/disconnect', { container: 'web', force: true })).status).toBe(403);
+    expect(connectNetwork).not.toHaveBeenCalled();
+    expect(disconnectNetwork).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { Elysia } from 'elysia';
+import { UserRole, ProjectRole, PROJECT_LABEL, Volume } from '../../../../shared/src/models';
+import type { AuthenticatedUser } from '../../../../backend/src/middleware/auth';
+import type { ProjectAccess } from '../../../../backend/src/middleware/permissions';
+
+const bcryptMock = { hash: async () => '', compare: async () => false };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+
+// The routes only reach Docker through the container service, whose methods each test stubs
+mock.module('../../../../backend/src/integrations/docker', () => ({ dockerClient: {} }));
+
+// Requests made by these tests carry their user here; other requests are left to the real middleware
+const testUsers = new WeakMap<Request, AuthenticatedUser>();
+const auth = await import('../../../../backend/src/middleware/auth');
+const realGetRequestUser = auth.getRequestUser;
+mock.module('../../../../backend/src/middleware/auth', () => ({
+  ...auth,
+  getRequestUser: (request: Request) => testUsers.get(request) ?? realGetRequestUser(request)
+}));
+
+// The user of these tests is only a member of project-1
+mock.module('../../../../backend/src/services/project', () => ({
+  getProject: async () => null,
+  getProjectAccess: async (_userId: string, role: UserRole): Promise<ProjectAccess> => ({
+    role,
+    projects: new Map([['project-1', ProjectRole.OPERATOR]])
+  })
+}));
+
+const audit = await import('../../../../backend/src/middleware/audit');
+const auditRequest = mock(async (..._args: any[]) => {});
+mock.module('../../../../backend/src/middleware/audit', () => ({ ...audit, auditRequest }));
+
+const { containerService } = await import('../../../../backend/src/services/container');
+const { errorMiddleware } = await import('../../../../backend/src/middleware/error');
+// The query gives this file its own copy bound to the mocks
+const routesPath = '../../../../backend/src/api/volumes?test-mocks';
+const { volumeRoutes } = await import(routesPath) as typeof import('../../../../backend/src/api/volumes');
+
+const app = new Elysia().use(errorMiddleware).use(volumeRoutes);
+
+/**
+ * Send a JSON request to the volume routes as a user
+ */
+async function send(method: string, path: string, body?: unknown) {
+  const request = new Request(`http://localhost/volumes${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  testUsers.set(request, { userId: 'user-1', role: UserRole.USER });
+  return app.handle(request);
+}
+
+/**
+ * A volume mounted by containers in two projects
+ */
+function makeVolume(): Volume {
+  return {
+    name: 'shop_data',
+    driver: 'local',
+    mountpoint: '/var/lib/docker/volumes/shop_data/_data',
+    scope: 'local',
+    labels: {},
+    containers: [
+      { id: 'c1', name: 'web', projectId: 'project-1' },
+      { id: 'c2', name: 'db', projectId: 'project-2' },
+      { id: 'c3', name: 'backup' }
+    ]
+  };
+}
+
+describe('Volume routes', () => {
+  beforeEach(() => {
+    auditRequest.mockClear();
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should hide containers from projects the user cannot see', async () => {
+    spyOn(containerService, 'getVolumes').mockResolvedValue([makeVolume()]);
+    spyOn(containerService, 'getVolume').mockResolvedValue(makeVolume());
+
+    const { volumes } = await (await send('GET', '/')).json();
+    const volume = await (await send('GET', '/shop_data')).json();
+
+    expect(volumes[0].containers.map((container: any) => container.name)).toEqual(['web', 'backup']);
+    expect(volume.containers.map((container: any) => container.name)).toEqual(['web', 'backup']);
+  });
+
+  it('should not let callers set project or compose labels on new volumes', async () => {
+    const createVolume = spyOn(containerService, 'createVolume').mockResolvedValue(makeVolume());
+
+    const response = await send('POST', '/', {
+      name: 'shop_data',
+      labels: { [PROJECT_LABEL]: 'project-2', 'com.docker.compose.volume': 'data', backup: 'daily' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(createVolume.mock.calls[0][0]).toEqual({ name: 'shop_data', labels: { backup: 'daily' } });
+    expect(auditRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'bun:test';
+import { NginxManager } from '../../../../backend/src/integrations/nginx';
+import { ProxyRule, ProxyProtocol, LoadBalancingMethod } from '../../../../shared/src/models';
+
+const baseRule: ProxyRule = {
+  id: 'rule-1',
+  name: 'Web',
+  sourceHost: 'example.com',
+  sourcePath: '/',
+  targetContainer: 'web',
+  targetPort: 8080,
+  protocol: ProxyProtocol.HTTP,
+  sslEnabled: false,
+  created: Date.now(),
+  enabled: true
+};
+
+describe('NginxManager', () => {
+  const manager = new NginxManager({ configDir: '/tmp/kontainers-nginx-test' });
+
+  describe('Upstream generation', () => {
+    it('should fall back to the target container as a single server', () => {
+      const upstream = manager.getUpstream(baseRule);
+
+      expect(upstream.name).toBe('kontainers_rule_1');
+      expect(upstream.method).toBe(LoadBalancingMethod.ROUND_ROBIN);
+      expect(upstream.servers).toEqual([{ container: 'web', port: 8080, weight: 1 }]);
+
+      const config = manager.generateProxyRuleConfig(baseRule);
+      expect(config).toContain('upstream kontainers_rule_1 {');
+      expect(config).toContain('server web:8080 weight=1;');
+      expect(config).toContain('proxy_pass http://kontainers_rule_1;');
+    });
+
+    it('should honour the balancing method and target weights', () => {
+      const config = manager.generateProxyRuleConfig({
+        ...baseRule,
+        loadBalancing: {
+          method: LoadBalancingMethod.LEAST_CONN,
+          sticky: false,
+          targets: [
+            { container: 'web-a', port: 80, weight: 3 },
+            { container: 'web-b', port: 80, weight: 1 }
+          ]
+        }
+      });
+
+      expect(config).toContain('least_conn;');
+      expect(config).toContain('server web-a:80 weight=3;');
+      expect(config).toContain('server web-b:80 weight=1;');
+    });
+
+    it('should emit the directive for each method', () => {
+      const directives: Record<LoadBalancingMethod, string | null> = {
+        [LoadBalancingMethod.ROUND_ROBIN]: null,
+        [LoadBalancingMethod.LEAST_CONN]: 'least_conn;',
+        [LoadBalancingMethod.IP_HASH]: 'ip_hash;',
+        [LoadBalancingMethod.RANDOM]: 'random;'
+      };
+
+      for (const [method, directive] of Object.entries(directives)) {
+        const config = manager.generateProxyRuleConfig({
+          ...baseRule,
+          loadBalancing: { method: method as LoadBalancingMethod, sticky: false, targets: [] }
+        });
+
+        if (directive) {
+          expect(config).toContain(directive);
+        } else {
+          expect(config).not.toMatch(/least_conn;|ip_hash;|random;/);
+        }
+      }
+    });
+
+    it('should pin clients with a cookie when sticky sessions are enabled', () => {
+      const config = manager.generateProxyRuleConfig({
+        ...baseRule,
+        loadBalancing: {
+          method: LoadBalancingMethod.ROUND_ROBIN,
+          sticky: true,
+          cookieName: 'route',
+          cookieExpiry: 3600,
+          targets: [{ container: 'web-a', port: 80, weight: 1 }]
+        }
+      });
+
+      expect(config).toContain('map $cookie_route $kontainers_sticky_rule_1 {');
+      expect(config).toContain('hash $kontainers_sticky_rule_1 consistent;');
+      expect(config).toContain('add_header Set-Cookie "route=$kontainers_sticky_rule_1; Path=/; HttpOnly; Max-Age=3600";');
+    });
+  });
+
+  describe('Stream generation', () => {
+    const tcpRule: ProxyRule = {
+      ...baseRule,
+      sourceHost: '0.0.0.0',
+      protocol: ProxyProtocol.TCP,
+      targetContainer: 'db',
+      targetPort: 5432,
+      sourcePort: 15432
+    };
+
+    it('should place TCP/UDP rules outside the HTTP sites directory', () => {
+      expect(manager.getProxyRuleConfigPath(tcpRule)).toBe('/tmp/kontainers-nginx-test/streams-enabled/rule-1.conf');
+      expect(manager.getProxyRuleConfigPath(baseRule)).toBe('/tmp/kontainers-nginx-test/sites-enabled/rule-1.conf');
+    });
+
+    it('should listen on the source port and proxy to the target', () => {
+      const config = manager.generateProxyRuleConfig(tcpRule);
+
+      expect(config).toContain('listen 0.0.0.0:15432;');
+      expect(config).toContain('proxy_pass db:5432;');
+      expect(config).not.toContain('location');
+    });
+
+    it('should fall back to the target port and mark UDP listeners', () => {
+      const config = manager.generateProxyRuleConfig({
+        ...tcpRule,
+        sourceHost: 'dns.local',
+        protocol: ProxyProtocol.UDP,
+        sourcePort: undefined
+      });
+
+      expect(config).toContain('listen 5432 udp;');
+    });
+  });
+});
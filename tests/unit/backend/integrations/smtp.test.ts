@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import net from 'net';
+import { SmtpClient, SmtpError, buildMimeMessage, encodeHeader, extractAddress } from '../../../../backend/src/integrations/smtp';
+import { passwordResetEmail } from '../../../../backend/src/utils/mailTemplates';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+  auth?: string;
+}
+
+/**
+ * A local SMTP catch-all that accepts every message and keeps it for inspection
+ */
+function startCatchAll(options: { rejectRecipient?: string } = {}) {
+  const received: ReceivedMail[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+    let inData = false;
+
+    socket.write('220 catch-all ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            received.push(mail);
+            mail = { from: '', to: [], data: '' };
+            socket.write('250 Queued\r\n');
+          } else {
+            mail.data += `${line}\r\n`;
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-catch-all\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          mail.auth = Buffer.from(line.slice(11), 'base64').toString();
+          socket.write('235 Authenticated\r\n');
+        } else if (line.startsWith('MAIL FROM:')) {
+          mail.from = line.slice(10).replace(/[<>]/g, '');
+          socket.write('250 OK\r\n');
+        } else if (line.startsWith('RCPT TO:')) {
+          const recipient = line.slice(8).replace(/[<>]/g, '');
+          if (recipient === options.rejectRecipient) {
+            socket.write('550 No such user\r\n');
+          } else {
+            mail.to.push(recipient);
+            socket.write('250 OK\r\n');
+          }
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+  });
+
+  return { server, received };
+}
+
+function listen(server: net.Server): Promise<number> {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+  });
+}
+
+describe('SmtpClient', () => {
+  const catchAll = startCatchAll({ rejectRecipient: 'nobody@example.com' });
+  let port: number;
+
+  beforeAll(async () => {
+    port = await listen(catchAll.server);
+  });
+
+  afterAll(() => {
+    catchAll.server.close();
+  });
+
+  it('should deliver a message with text and HTML parts', async () => {
+    const client = new SmtpClient({ host: '127.0.0.1', port, security: 'none', username: 'mailer', password: 'secret' });
+    const content = passwordResetEmail({ username: 'alice', resetUrl: 'https://kontainers.example/reset-password?token=abc', expiresInMinutes: 60 });
+
+    await client.send({ from: 'Kontainers <noreply@kontainers.example>', to: ['alice@example.com'], ...content });
+
+    const mail = catchAll.received[catchAll.received.length - 1];
+    expect(mail.auth).toBe('\0mailer\0secret');
+    expect(mail.from).toBe('noreply@kontainers.example');
+    expect(mail.to).toEqual(['alice@example.com']);
+    expect(mail.data).toContain('Subject: Reset your Kontainers password');
+    expect(mail.data).toContain('multipart/alternative');
+
+    const bodies = mail.data.split(/\r\n\r\n/).slice(1).map(part => part.split('\r\n--')[0]);
+    const decoded = bodies.map(body => Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString());
+    expect(decoded.some(body => body.includes('https://kontainers.example/reset-password?token=abc'))).toBe(true);
+    expect(decoded.some(body => body.includes('<a href="https://kontainers.example/reset-password?token=abc"'))).toBe(true);
+  });
+
+  it('should report a refused recipient as a permanent error', async () => {
+    const client = new SmtpClient({ host: '127.0.0.1', port, security: 'none' });
+
+    const error = await client.send({
+      from: 'noreply@kontainers.example',
+      to: ['nobody@example.com'],
+      subject: 'Hello',
+      text: 'Hello'
+    }).catch(error => error);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(error.permanent).toBe(true);
+  });
+
+  it('should fail when the server is not reachable', async () => {
+    const closed = net.createServer();
+    const closedPort = await listen(closed);
+    closed.close();
+
+    const client = new SmtpClient({ host: '127.0.0.1', port: closedPort, security: 'none' });
+    await expect(client.send({ from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', text: 'Hi' })).rejects.toThrow();
+  });
+});
+
+describe('MIME messages', () => {
+  it('should encode subjects that are not ASCII', () => {
+    expect(encodeHeader('Hello')).toBe('Hello');
+    expect(encodeHeader('Grüße')).toBe(`=?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+  });
+
+  it('should refuse addresses that would inject commands', () => {
+    expect(extractAddress('Kontainers <noreply@example.com>')).toBe('noreply@example.com');
+    expect(() => extractAddress('a@example.com\r\nRCPT TO:<b@example.com>')).toThrow();
+  });
+
+  it('should send a single text part without HTML', () => {
+    const message = buildMimeMessage({ from: 'a@example.com', to: ['b@example.com'], subject: 'Hi', text: 'Plain' });
+
+    expect(message).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(message).not.toContain('multipart');
+    expect(message).toContain(Buffer.from('Plain').toString('base64'));
+  });
+});
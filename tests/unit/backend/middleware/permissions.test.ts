@@ -0,0 +1,196 @@
+import { describe, it, expect, mock, beforeAll } from 'bun:test';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import jwt from 'jsonwebtoken';
+import { Elysia } from 'elysia';
+import { UserRole, ApiTokenScope, ProjectRole } from '../../../../shared/src/models';
+import {
+  Permission,
+  ROUTE_PERMISSIONS,
+  getRouteAccess,
+  hasPermission,
+  hasScopeForRoute,
+  hasProjectPermission,
+  canManageProject
+} from '../../../../backend/src/middleware/permissions';
+
+const bcryptMock = { hash: async () => '', compare: async () => false };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+
+const JWT_SECRET = process.env.JWT_SECRET || 'kontainers-jwt-secret-key-change-in-production';
+const API_DIR = join(import.meta.dir, '../../../../backend/src/api');
+
+const tokenFor = (role: UserRole) =>
+  jwt.sign({ userId: 'user-1', role, sessionId: 'session-1' }, JWT_SECRET, { expiresIn: '1h' });
+
+describe('Route permissions', () => {
+  describe('getRouteAccess', () => {
+    it('should resolve parameterised routes', () => {
+      expect(getRouteAccess('GET', '/api/containers/abc123')).toBe(Permission.READ);
+      expect(getRouteAccess('post', '/api/containers/abc123/start')).toBe(Permission.OPERATE);
+      expect(getRouteAccess('PUT', '/api/config')).toBe(Permission.CONFIGURE);
+    });
+
+    it('should prefer static segments over parameters', () => {
+      expect(getRouteAccess('POST', '/api/proxy/rules/test')).toBe(Permission.OPERATE);
+      expect(getRouteAccess('GET', '/api/health')).toBe('public');
+    });
+
+    it('should require configure access for unmapped routes', () => {
+      expect(getRouteAccess('GET', '/api/unknown')).toBe(Permission.CONFIGURE);
+      expect(getRouteAccess('PATCH', '/api/containers/abc123')).toBe(Permission.CONFIGURE);
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should grant permissions by role', () => {
+      expect(hasPermission(UserRole.ADMIN, Permission.CONFIGURE)).toBe(true);
+      expect(hasPermission(UserRole.USER, Permission.OPERATE)).toBe(true);
+      expect(hasPermission(UserRole.USER, Permission.CONFIGURE)).toBe(false);
+      expect(hasPermission(UserRole.VIEWER, Permission.READ)).toBe(true);
+      expect(hasPermission(UserRole.VIEWER, Permission.OPERATE)).toBe(false);
+    });
+  });
+
+  describe('hasScopeForRoute', () => {
+    it('should match scopes to the route resource', () => {
+      const scopes = [ApiTokenScope.CONTAINERS_READ, ApiTokenScope.PROXY_WRITE];
+      expect(hasScopeForRoute(scopes, 'GET', '/api/containers/x/logs')).toBe(true);
+      expect(hasScopeForRoute(scopes, 'POST', '/api/containers/x/restart')).toBe(false);
+      expect(hasScopeForRoute(scopes, 'GET', '/api/proxy/rules')).toBe(true);
+      expect(hasScopeForRoute(scopes, 'DELETE', '/api/proxy/rules/x')).toBe(true);
+      expect(hasScopeForRoute(scopes, 'GET', '/api/config')).toBe(false);
+      expect(hasScopeForRoute(scopes, 'GET', '/api/health/detailed')).toBe(true);
+    });
+
+    it('should require config:admin for configure routes', () => {
+      expect(hasScopeForRoute([ApiTokenScope.CONFIG_READ], 'PUT', '/api/config')).toBe(false);
+      expect(hasScopeForRoute([ApiTokenScope.CONFIG_ADMIN], 'PUT', '/api/config')).toBe(true);
+      expect(hasScopeForRoute([ApiTokenScope.CONFIG_ADMIN], 'GET', '/api/auth/users')).toBe(true);
+    });
+
+    it('should not let API tokens manage API tokens or two-factor authentication', () => {
+      const scopes = Object.values(ApiTokenScope);
+      expect(hasScopeForRoute(scopes, 'GET', '/api/auth/me')).toBe(true);
+      expect(hasScopeForRoute(scopes, 'POST', '/api/auth/tokens')).toBe(false);
+      expect(hasScopeForRoute(scopes, 'DELETE', '/api/auth/tokens/x')).toBe(false);
+      expect(hasScopeForRoute(scopes, 'POST', '/api/auth/2fa/disable')).toBe(false);
+    });
+  });
+
+  describe('project permissions', () => {
+    const accessFor = (role: UserRole, projectRole?: ProjectRole) => ({
+      role,
+      projects: new Map(projectRole ? [['project-1', projectRole]] : [])
+    });
+
+    it('should let the global role decide for resources outside any project', () => {
+      expect(hasProjectPermission(accessFor(UserRole.USER), undefined, Permission.OPERATE)).toBe(true);
+      expect(hasProjectPermission(accessFor(UserRole.VIEWER), undefined, Permission.OPERATE)).toBe(false);
+    });
+
+    it('should only let members reach a project', () => {
+      expect(hasProjectPermission(accessFor(UserRole.USER), 'project-1', Permission.READ)).toBe(false);
+      expect(hasProjectPermission(accessFor(UserRole.ADMIN), 'project-1', Permission.OPERATE)).toBe(true);
+      expect(hasProjectPermission(accessFor(UserRole.USER, ProjectRole.VIEWER), 'project-1', Permission.READ)).toBe(true);
+      expect(hasProjectPermission(accessFor(UserRole.USER, ProjectRole.VIEWER), 'project-1', Permission.OPERATE)).toBe(false);
+      expect(hasProjectPermission(accessFor(UserRole.USER, ProjectRole.OPERATOR), 'project-2', Permission.READ)).toBe(false);
+    });
+
+    it('should not grant more than the global role allows', () => {
+      expect(hasProjectPermission(accessFor(UserRole.VIEWER, ProjectRole.OWNER), 'project-1', Permission.OPERATE)).toBe(false);
+      expect(canManageProject(accessFor(UserRole.VIEWER, ProjectRole.OWNER), 'project-1')).toBe(false);
+      expect(canManageProject(accessFor(UserRole.USER, ProjectRole.OWNER), 'project-1')).toBe(true);
+      expect(canManageProject(accessFor(UserRole.USER, ProjectRole.OPERATOR), 'project-1')).toBe(false);
+    });
+  });
+
+  it('should cover every route declared by the API modules', () => {
+    const missing: string[] = [];
+
+    for (const file of readdirSync(API_DIR).filter(name => name.endsWith('.ts'))) {
+      const source = readFileSync(join(API_DIR, file), 'utf-8');
+      const prefix = source.match(/prefix:\s*'([^']*)'/)?.[1] ?? '';
+
+      for (const [, method, path] of source.matchAll(/^\s*\.(get|post|put|delete|patch)\('([^']*)'/gm)) {
+        const route = `${method.toUpperCase()} /api${prefix}${path === '/' ? '' : path}`;
+        if (!(route in ROUTE_PERMISSIONS)) {
+          missing.push(route);
+        }
+      }
+    }
+
+    expect(missing).toEqual([]);
+  });
+
+  describe('enforcePermissions', () => {
+    let app: Elysia;
+
+    beforeAll(async () => {
+      // Session lookups need the database; treat every signed token as a live session
+      const auth = await import('../../../../backend/src/services/auth');
+      mock.module('../../../../backend/src/services/auth', () => ({
+        ...auth,
+        verifySessionToken: async (token: string) => ({ ...auth.verifyToken(token), sessionId: 'session-1' })
+      }));
+
+      const { enforcePermissions } = await import('../../../../backend/src/middleware/auth');
+      const { errorMiddleware } = await import('../../../../backend/src/middleware/error');
+
+      // Stub handler for every mapped route
+      app = new Elysia().use(errorMiddleware).use(enforcePermissions) as any;
+      for (const route of Object.keys(ROUTE_PERMISSIONS)) {
+        const [method, path] = route.split(' ');
+        (app as any)[method.toLowerCase()](path, () => 'ok');
+      }
+    });
+
+    const request = (method: string, path: string, role?: UserRole) =>
+      app.handle(new Request(`http://localhost${path}`, {
+        method,
+        headers: role ? { Authorization: `Bearer ${tokenFor(role)}` } : {}
+      }));
+
+    it('should reject anonymous requests to protected routes', async () => {
+      for (const route of Object.keys(ROUTE_PERMISSIONS)) {
+        if (ROUTE_PERMISSIONS[route] === 'public') {
+          continue;
+        }
+        const [method, path] = route.split(' ');
+        const response = await request(method, path.replace(/:[^/]+/g, 'x'));
+        expect({ route, status: response.status }).toEqual({ route, status: 401 });
+      }
+    });
+
+    it('should reject invalid tokens', async () => {
+      const response = await app.handle(new Request('http://localhost/api/containers', {
+        headers: { Authorization: 'Bearer not-a-token' }
+      }));
+      expect(response.status).toBe(401);
+    });
+
+    it('should allow public routes without a token', async () => {
+      expect((await request('GET', '/api/health')).status).toBe(200);
+      expect((await request('POST', '/api/auth/login')).status).toBe(200);
+    });
+
+    it('should enforce role permissions', async () => {
+      expect((await request('GET', '/api/containers', UserRole.VIEWER)).status).toBe(200);
+      expect((await request('POST', '/api/containers/x/stop', UserRole.VIEWER)).status).toBe(403);
+      expect((await request('POST', '/api/containers/x/stop', UserRole.USER)).status).toBe(200);
+      expect((await request('PUT', '/api/config', UserRole.USER)).status).toBe(403);
+      expect((await request('GET', '/api/auth/users', UserRole.USER)).status).toBe(403);
+      expect((await request('PUT', '/api/config', UserRole.ADMIN)).status).toBe(200);
+      expect((await request('GET', '/api/auth/me', UserRole.VIEWER)).status).toBe(200);
+    });
+
+    it('should accept a query token on stream routes only', async () => {
+      const token = tokenFor(UserRole.VIEWER);
+      const stream = await app.handle(new Request(`http://localhost/api/containers/x/logs/stream?token=${token}`));
+      const other = await app.handle(new Request(`http://localhost/api/containers/x/logs?token=${token}`));
+      expect(stream.status).toBe(200);
+      expect(other.status).toBe(401);
+    });
+  });
+});
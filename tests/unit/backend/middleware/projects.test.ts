@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { UserRole, ProjectRole } from '../../../../shared/src/models';
+import type { AuthenticatedUser } from '../../../../backend/src/middleware/auth';
+import type { ProjectAccess } from '../../../../backend/src/middleware/permissions';
+
+const bcryptMock = { hash: async () => '', compare: async () => false };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+
+// Requests made by these tests carry their user and memberships here; other requests are left to the real middleware
+const testUsers = new WeakMap<Request, AuthenticatedUser>();
+const testAccess = new Map<string, ProjectAccess>();
+
+const auth = await import('../../../../backend/src/middleware/auth');
+const realGetRequestUser = auth.getRequestUser;
+const getRequestUser = mock((request: Request) => testUsers.get(request) ?? realGetRequestUser(request));
+mock.module('../../../../backend/src/middleware/auth', () => ({ ...auth, getRequestUser }));
+
+// The project service needs Docker, so only its lookups are provided
+const getProjectAccess = mock(async (userId: string, role: UserRole): Promise<ProjectAccess> =>
+  testAccess.get(userId) ?? { role, projects: new Map() }
+);
+mock.module('../../../../backend/src/services/project', () => ({ getProject: async () => null, getProjectAccess }));
+
+// The query gives this file its own copy bound to the mocks
+const projectsPath = '../../../../backend/src/middleware/projects?access-mock';
+const { filterByProject, assertProjectPermission, getRequestProjectAccess } =
+  await import(projectsPath) as typeof import('../../../../backend/src/middleware/projects');
+const { AuthenticationError, AuthorizationError } = auth;
+const { Permission } = await import('../../../../backend/src/middleware/permissions');
+
+/**
+ * A request made by a user with the given global role and project memberships
+ */
+function requestFrom(role: UserRole, projects: Record<string, ProjectRole> = {}): Request {
+  const request = new Request('http://localhost/api/containers');
+  const userId = `user-${crypto.randomUUID()}`;
+  testUsers.set(request, { userId, role });
+  testAccess.set(userId, { role, projects: new Map(Object.entries(projects)) });
+  return request;
+}
+
+const resources = [
+  { id: 'shared', projectId: undefined },
+  { id: 'web', projectId: 'project-1' },
+  { id: 'db', projectId: 'project-2' }
+];
+
+describe('Project middleware', () => {
+  beforeEach(() => {
+    getProjectAccess.mockClear();
+  });
+
+  describe('filterByProject', () => {
+    it('should keep resources outside any project and those in the user\'s projects', async () => {
+      const request = requestFrom(UserRole.USER, { 'project-1': ProjectRole.VIEWER });
+
+      const visible = await filterByProject(request, resources);
+
+      expect(visible.map(resource => resource.id)).toEqual(['shared', 'web']);
+    });
+
+    it('should let admins see every project', async () => {
+      const visible = await filterByProject(requestFrom(UserRole.ADMIN), resources);
+
+      expect(visible.map(resource => resource.id)).toEqual(['shared', 'web', 'db']);
+    });
+
+    it('should narrow to one project, still only if the user can see it', async () => {
+      const request = requestFrom(UserRole.USER, { 'project-1': ProjectRole.OPERATOR });
+
+      expect((await filterByProject(request, resources, 'project-1')).map(resource => resource.id)).toEqual(['web']);
+      expect(await filterByProject(request, resources, 'project-2')).toEqual([]);
+    });
+
+    it('should look up the user\'s memberships once per request', async () => {
+      const request = requestFrom(UserRole.USER);
+
+      await filterByProject(request, resources);
+      await filterByProject(request, resources, 'project-1');
+
+      expect(getProjectAccess).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse requests without a user', async () => {
+      const request = new Request('http://localhost/api/containers');
+
+      await expect(filterByProject(request, resources)).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(getRequestProjectAccess(request)).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe('assertProjectPermission', () => {
+    it('should refuse operations in projects the user only views', async () => {
+      const request = requestFrom(UserRole.USER, { 'project-1': ProjectRole.VIEWER });
+
+      await expect(assertProjectPermission(request, 'project-1', Permission.READ)).resolves.toBeUndefined();
+      await expect(assertProjectPermission(request, 'project-1', Permission.OPERATE)).rejects.toBeInstanceOf(AuthorizationError);
+      await expect(assertProjectPermission(request, 'project-2', Permission.READ)).rejects.toBeInstanceOf(AuthorizationError);
+      await expect(assertProjectPermission(request, undefined, Permission.OPERATE)).resolves.toBeUndefined();
+    });
+  });
+});
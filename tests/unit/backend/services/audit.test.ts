@@ -0,0 +1,104 @@
+import { describe, it, expect, mock } from 'bun:test';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import * as schema from '../../../../backend/src/db/schema';
+
+// An in-memory database holding the audit log
+const sqlite = new Database(':memory:');
+sqlite.exec(`
+  CREATE TABLE audit_logs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    action TEXT NOT NULL,
+    resource TEXT NOT NULL,
+    resource_id TEXT,
+    timestamp TEXT NOT NULL,
+    ip_address TEXT,
+    user_agent TEXT,
+    details TEXT
+  );
+`);
+const testDb = drizzle(sqlite, { schema });
+
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+mock.module('../../../../backend/src/db', () => ({ db: testDb }));
+
+// Other test files load the service first; the query gives this file its own copy bound to the test database
+const auditPath = '../../../../backend/src/services/audit?test-db';
+const { diffChanges, redact, auditLogsToCsv, logSystemEvent, SYSTEM_ACTOR } =
+  await import(auditPath) as typeof import('../../../../backend/src/services/audit');
+
+describe('Audit', () => {
+  describe('diffChanges', () => {
+    it('should keep only changed fields', () => {
+      const before = { name: 'web', port: 80, enabled: true };
+      const after = { name: 'web', port: 8080, enabled: true };
+      expect(diffChanges(before, after)).toEqual({ before: { port: 80 }, after: { port: 8080 } });
+    });
+
+    it('should compare nested objects field by field', () => {
+      const before = { uiSettings: { theme: 'light', refreshInterval: 5 }, headers: ['a'] };
+      const after = { uiSettings: { theme: 'dark', refreshInterval: 5 }, headers: ['a', 'b'] };
+      expect(diffChanges(before, after)).toEqual({
+        before: { uiSettings: { theme: 'light' }, headers: ['a'] },
+        after: { uiSettings: { theme: 'dark' }, headers: ['a', 'b'] }
+      });
+    });
+
+    it('should record added and removed fields on one side only', () => {
+      expect(diffChanges({ a: 1 }, { b: 2 })).toEqual({ before: { a: 1 }, after: { b: 2 } });
+      expect(diffChanges(null, { a: 1 })).toEqual({ before: {}, after: { a: 1 } });
+    });
+  });
+
+  describe('redact', () => {
+    it('should hide sensitive values at any depth', () => {
+      expect(redact({
+        after: { username: 'jane', password: 'hunter2' },
+        sso: { clientSecret: 'x', refreshToken: null }
+      })).toEqual({
+        after: { username: 'jane', password: '[redacted]' },
+        sso: { clientSecret: '[redacted]', refreshToken: null }
+      });
+    });
+  });
+
+  describe('logSystemEvent', () => {
+    it('should record actions without a user, under the system actor', async () => {
+      await logSystemEvent('renew', 'certificate', 'le-example-com', { domain: 'example.com' });
+
+      expect(testDb.select().from(schema.auditLogs).all()).toEqual([expect.objectContaining({
+        userId: null,
+        action: 'renew',
+        resource: 'certificate',
+        resourceId: 'le-example-com',
+        ipAddress: null,
+        userAgent: SYSTEM_ACTOR,
+        details: '{"domain":"example.com"}'
+      })]);
+      expect(SYSTEM_ACTOR).toBe('system');
+    });
+  });
+
+  describe('auditLogsToCsv', () => {
+    it('should quote fields and serialize details', () => {
+      const csv = auditLogsToCsv([{
+        id: '1',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        userId: 'u1',
+        username: 'jane',
+        action: 'update',
+        resource: 'proxy_rule',
+        resourceId: 'r1',
+        userAgent: 'Mozilla/5.0 (X11, Linux)',
+        details: { before: { port: 80 }, after: { port: 8080 } }
+      }]);
+
+      expect(csv.split('\r\n')).toEqual([
+        'timestamp,userId,username,action,resource,resourceId,ipAddress,userAgent,details',
+        '2024-01-01T00:00:00.000Z,u1,jane,update,proxy_rule,r1,,"Mozilla/5.0 (X11, Linux)","{""before"":{""port"":80},""after"":{""port"":8080}}"',
+        ''
+      ]);
+    });
+  });
+});
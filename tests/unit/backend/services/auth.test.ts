@@ -1,4 +1,8 @@
-import { describe, it, expect, beforeEach, jest } from 'bun:test';
+import { describe, it, expect, beforeEach, jest, mock } from 'bun:test';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { eq } from 'drizzle-orm';
+import * as schema from '../../../../backend/src/db/schema';
 
 // Simple mock implementations for testing
 const mockBcrypt = {
@@ -184,3 +188,142 @@ describe('Auth Service', () => {
     });
   });
 });
+
+// An in-memory database holding the tables sessions use
+const sqlite = new Database(':memory:');
+sqlite.exec(`
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    email TEXT NOT NULL UNIQUE,
+    password TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_login TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    oidc_subject TEXT UNIQUE,
+    totp_secret TEXT,
+    two_factor_enabled INTEGER NOT NULL DEFAULT 0,
+    totp_last_counter INTEGER,
+    failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+    last_failed_login_at TEXT,
+    locked_until TEXT
+  );
+  CREATE TABLE login_failures (
+    id TEXT PRIMARY KEY,
+    ip_address TEXT NOT NULL UNIQUE,
+    count INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TEXT NOT NULL,
+    blocked_until TEXT
+  );
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id),
+    refresh_token_hash TEXT NOT NULL UNIQUE,
+    previous_refresh_token_hash TEXT,
+    device TEXT NOT NULL,
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT
+  );
+`);
+const testDb = drizzle(sqlite, { schema });
+
+// Every password matches; these tests are about what happens after login
+const bcryptMock = { hash: async () => 'hash', compare: async () => true };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+mock.module('../../../../backend/src/db', () => ({ db: testDb }));
+
+// Other test files load the service first; the query gives this file its own copy bound to the test database
+const authPath = '../../../../backend/src/services/auth?test-db';
+const { loginUser, refreshSession, verifySessionToken } = await import(authPath) as typeof import('../../../../backend/src/services/auth');
+
+/**
+ * Read the test user's only session as stored
+ */
+function getSession() {
+  return testDb.select().from(schema.sessions).where(eq(schema.sessions.userId, 'user-1')).get()!;
+}
+
+/**
+ * Log in as the test user and return the session's tokens
+ */
+async function login() {
+  return await loginUser({ email: 'jane@example.com', password: 'secret' }, { ipAddress: '10.0.0.1' }) as { token: string; refreshToken: string };
+}
+
+describe('Session refresh', () => {
+  beforeEach(() => {
+    sqlite.exec('DELETE FROM sessions; DELETE FROM login_failures; DELETE FROM users;');
+    const now = new Date().toISOString();
+    testDb.insert(schema.users).values({
+      id: 'user-1',
+      username: 'jane',
+      email: 'jane@example.com',
+      password: 'hash',
+      createdAt: now,
+      updatedAt: now
+    }).run();
+  });
+
+  it('should rotate the refresh token and keep the session', async () => {
+    const first = await login();
+    const sessionId = getSession().id;
+
+    const second = await refreshSession(first.refreshToken, { ipAddress: '10.0.0.2' });
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect((await verifySessionToken(second.token)).sessionId).toBe(sessionId);
+    expect(getSession()).toMatchObject({ id: sessionId, ipAddress: '10.0.0.2', revokedAt: null });
+
+    // The new token can be rotated in turn
+    const third = await refreshSession(second.refreshToken);
+    expect(third.refreshToken).not.toBe(second.refreshToken);
+  });
+
+  it('should only store hashes of refresh tokens', async () => {
+    const { refreshToken } = await login();
+    const session = getSession();
+
+    expect(session.refreshTokenHash).not.toBe(refreshToken);
+    expect(session.refreshTokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should revoke the session when a rotated-out refresh token is presented again', async () => {
+    const stolen = await login();
+    const rotated = await refreshSession(stolen.refreshToken);
+
+    await expect(refreshSession(stolen.refreshToken)).rejects.toThrow('Invalid refresh token');
+
+    expect(getSession().revokedAt).not.toBeNull();
+    // Whoever holds the current tokens is logged out too
+    await expect(refreshSession(rotated.refreshToken)).rejects.toThrow('Session has expired or been revoked');
+    await expect(verifySessionToken(rotated.token)).rejects.toThrow('Session has expired or been revoked');
+  });
+
+  it('should refuse unknown refresh tokens without touching any session', async () => {
+    await login();
+
+    await expect(refreshSession('not-a-token')).rejects.toThrow('Invalid refresh token');
+    expect(getSession().revokedAt).toBeNull();
+  });
+
+  it('should refuse expired sessions', async () => {
+    const { refreshToken } = await login();
+    testDb.update(schema.sessions).set({ expiresAt: new Date(Date.now() - 1000).toISOString() }).run();
+
+    await expect(refreshSession(refreshToken)).rejects.toThrow('Session has expired or been revoked');
+  });
+
+  it('should revoke the session of a user who has been deactivated', async () => {
+    const { refreshToken } = await login();
+    testDb.update(schema.users).set({ isActive: false }).run();
+
+    await expect(refreshSession(refreshToken)).rejects.toThrow('User account is inactive');
+    expect(getSession().revokedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { Container, ContainerState, PROJECT_LABEL } from '../../../../shared/src/models';
+
+// The Docker client the service talks to, with each test setting the answers it needs
+const dockerClient = {
+  watchEvents: mock((_onEvent: (event: any) => Promise<void>, _options?: any) => () => {}),
+  getContainer: mock(async (_id: string): Promise<Container> => makeContainer(_id)),
+  startExec: mock(async (_id: string, _options: any, _onOutput: (data: string) => void, _onExit: (exitCode: number | null) => void) => makeExecHandle()),
+  inspectContainer: mock(async (_id: string): Promise<any> => ({})),
+  inspectImage: mock(async (_id: string): Promise<any> => ({ Config: {} })),
+  createContainerFromConfig: mock(async (_options: any, _extraNetworks?: any[]) => 'new-id'),
+  stopContainer: mock(async (_id: string) => {}),
+  renameContainer: mock(async (_id: string, _name: string) => {}),
+  startContainer: mock(async (_id: string) => {}),
+  removeContainer: mock(async (_id: string, _force?: boolean) => {})
+};
+
+mock.module('../../../../backend/src/integrations/docker', () => ({ dockerClient }));
+
+const { ContainerService } = await import('../../../../backend/src/services/container');
+
+/**
+ * A container as inspected
+ */
+function makeContainer(id: string): Container {
+  return {
+    id,
+    name: 'web',
+    image: 'nginx:latest',
+    state: ContainerState.RUNNING,
+    status: 'Up 1 second',
+    ports: [],
+    volumes: [],
+    networks: ['bridge'],
+    created: 0,
+    labels: {}
+  };
+}
+
+/**
+ * A running exec, as returned by the Docker client
+ */
+function makeExecHandle() {
+  return { write: mock((_data: string) => {}), resize: mock(async (_cols: number, _rows: number) => {}), stop: mock(() => {}) };
+}
+
+/**
+ * A Docker container event
+ */
+function makeEvent(action: string, attributes: Record<string, string> = {}) {
+  return { Type: 'container', Action: action, Actor: { ID: 'abc123', Attributes: attributes }, time: 0 };
+}
+
+describe('ContainerService', () => {
+  beforeEach(() => {
+    dockerClient.watchEvents.mockClear();
+    dockerClient.getContainer.mockReset();
+    dockerClient.getContainer.mockRejectedValue(new Error('No such container'));
+    dockerClient.startExec.mockClear();
+  });
+
+  describe('Docker events', () => {
+    let service: InstanceType<typeof ContainerService>;
+    let emitted: { event: string; data: any }[];
+
+    /**
+     * Deliver a Docker event the way the events stream does
+     */
+    async function deliver(event: ReturnType<typeof makeEvent>) {
+      const onEvent = dockerClient.watchEvents.mock.calls[0][0];
+      await onEvent(event);
+    }
+
+    beforeEach(async () => {
+      service = new ContainerService();
+      emitted = [];
+      ['created', 'started', 'restarted', 'stopped', 'died', 'oom', 'health', 'removed'].forEach(name => {
+        service.on(`container:${name}`, (data: any) => emitted.push({ event: `container:${name}`, data }));
+      });
+      await service.initialize();
+    });
+
+    it('should only ask Docker for the container events it publishes', () => {
+      expect(dockerClient.watchEvents.mock.calls[0][1]).toEqual({
+        filters: {
+          type: ['container'],
+          event: ['create', 'start', 'restart', 'stop', 'die', 'oom', 'health_status', 'destroy']
+        }
+      });
+    });
+
+    it('should publish lifecycle events with the container as inspected', async () => {
+      const container = makeContainer('abc123');
+      dockerClient.getContainer.mockResolvedValue(container);
+
+      for (const action of ['create', 'start', 'restart', 'stop', 'die', 'oom']) {
+        await deliver(makeEvent(action));
+      }
+
+      expect(emitted.map(({ event }) => event)).toEqual([
+        'container:created',
+        'container:started',
+        'container:restarted',
+        'container:stopped',
+        'container:died',
+        'container:oom'
+      ]);
+      expect(emitted.every(({ data }) => data === container)).toBe(true);
+      expect(dockerClient.getContainer).toHaveBeenCalledWith('abc123');
+    });
+
+    it('should publish health changes, which carry their status in the action', async () => {
+      dockerClient.getContainer.mockResolvedValue(makeContainer('abc123'));
+
+      await deliver(makeEvent('health_status: unhealthy'));
+
+      expect(emitted.map(({ event }) => event)).toEqual(['container:health']);
+    });
+
+    it('should publish removals from the event labels without inspecting the container', async () => {
+      const stopStats = mock(() => {});
+      const stopLogs = mock(() => {});
+      service.stopStatsMonitoring = stopStats;
+      service.stopContainerLogStreaming = stopLogs;
+
+      await deliver(makeEvent('destroy', { [PROJECT_LABEL]: 'project-1', name: 'web' }));
+
+      expect(emitted).toEqual([{ event: 'container:removed', data: { id: 'abc123', projectId: 'project-1' } }]);
+      expect(dockerClient.getContainer).not.toHaveBeenCalled();
+      expect(stopStats).toHaveBeenCalledWith('abc123');
+      expect(stopLogs).toHaveBeenCalledWith('abc123');
+    });
+
+    it('should ignore other actions and containers that are gone before they are inspected', async () => {
+      await deliver(makeEvent('pause'));
+      await deliver(makeEvent('start'));
+
+      expect(emitted).toEqual([]);
+      expect(dockerClient.getContainer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Exec sessions', () => {
+    let service: InstanceType<typeof ContainerService>;
+    const noop = () => {};
+
+    beforeEach(() => {
+      service = new ContainerService();
+      dockerClient.getContainer.mockResolvedValue(makeContainer('abc123'));
+    });
+
+    it('should start the shell as the user asked for, with a sized terminal', async () => {
+      await service.startExecSession('web', { shell: '/bin/bash', user: '1000:1000', cols: 5000 }, noop, noop);
+
+      expect(dockerClient.startExec.mock.calls[0][0]).toBe('abc123');
+      expect(dockerClient.startExec.mock.calls[0][1]).toEqual({ shell: '/bin/bash', user: '1000:1000', cols: 1000, rows: 24 });
+    });
+
+    it('should default to /bin/sh as the container\'s user', async () => {
+      await service.startExecSession('web', {}, noop, noop);
+
+      expect(dockerClient.startExec.mock.calls[0][1]).toEqual({ shell: '/bin/sh', user: undefined, cols: 80, rows: 24 });
+    });
+
+    it('should refuse shells that are not absolute paths and malformed users before reaching Docker', async () => {
+      for (const shell of ['sh', '/bin/sh -c id', '/bin/sh;id', '$(id)']) {
+        await expect(service.startExecSession('web', { shell }, noop, noop)).rejects.toThrow(`Invalid shell: ${shell}`);
+      }
+      for (const user of ['root --privileged', 'a:b:c', '../root']) {
+        await expect(service.startExecSession('web', { user }, noop, noop)).rejects.toThrow(`Invalid user: ${user}`);
+      }
+
+      expect(dockerClient.getContainer).not.toHaveBeenCalled();
+      expect(dockerClient.startExec).not.toHaveBeenCalled();
+    });
+
+    it('should refuse containers that are not running', async () => {
+      dockerClient.getContainer.mockResolvedValue({ ...makeContainer('abc123'), state: ContainerState.STOPPED });
+
+      await expect(service.startExecSession('web', {}, noop, noop)).rejects.toThrow('Container web is not running');
+      expect(dockerClient.startExec).not.toHaveBeenCalled();
+    });
+
+    it('should pass input on and stop the exec until it ends', async () => {
+      const handle = makeExecHandle();
+      dockerClient.startExec.mockResolvedValueOnce(handle);
+      const sessionId = await service.startExecSession('web', {}, noop, noop);
+
+      service.writeExecSession(sessionId, 'ls\n');
+      service.stopExecSession(sessionId);
+      service.writeExecSession(sessionId, 'id\n');
+      service.stopExecSession(sessionId);
+
+      expect(handle.write.mock.calls).toEqual([['ls\n']]);
+      expect(handle.stop).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget sessions whose shell exits', async () => {
+      const handle = makeExecHandle();
+      dockerClient.startExec.mockResolvedValueOnce(handle);
+      const onExit = mock((_exitCode: number | null) => {});
+      const ended = mock((_data: any) => {});
+      service.on('container:exec:ended', ended);
+      const sessionId = await service.startExecSession('web', {}, noop, onExit);
+
+      const dockerExit = dockerClient.startExec.mock.calls[0][3];
+      dockerExit(0);
+      service.writeExecSession(sessionId, 'ls\n');
+
+      expect(onExit).toHaveBeenCalledWith(0);
+      expect(ended).toHaveBeenCalledWith({ id: 'abc123', sessionId, exitCode: 0 });
+      expect(handle.write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Recreating containers', () => {
+    let service: InstanceType<typeof ContainerService>;
+    // Docker calls that change the host, in order
+    let changes: string[];
+
+    beforeEach(() => {
+      service = new ContainerService();
+      changes = [];
+      dockerClient.inspectContainer.mockReset();
+      dockerClient.inspectContainer.mockImplementation(async (id: string) => id === 'new-id'
+        ? { Id: 'new-id', State: { Running: false, ExitCode: 1 } }
+        : { Id: 'old-id', Name: '/web', Image: 'sha256:abc', Config: { Image: 'nginx:latest' }, HostConfig: {}, State: { Running: true } }
+      );
+      dockerClient.stopContainer.mockImplementation(async (id: string) => {
+        changes.push(`stop ${id}`);
+      });
+      dockerClient.renameContainer.mockReset();
+      dockerClient.renameContainer.mockImplementation(async (id: string, name: string) => {
+        changes.push(`rename ${id} ${name.replace(/-[0-9a-f]{6}$/, '')}`);
+      });
+      dockerClient.startContainer.mockImplementation(async (id: string) => {
+        changes.push(`start ${id}`);
+      });
+      dockerClient.removeContainer.mockImplementation(async (id: string) => {
+        changes.push(`remove ${id}`);
+      });
+      spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      mock.restore();
+    });
+
+    it('should create the replacement from the planned settings', async () => {
+      await service.recreateContainer('web', { pull: false }).catch(() => {});
+
+      const [options] = dockerClient.createContainerFromConfig.mock.calls[0];
+      expect(options).toMatchObject({ Image: 'nginx:latest', HostConfig: {} });
+      expect(options.name).toMatch(/^web-recreate-[0-9a-f]{6}$/);
+    });
+
+    it('should put the old container back when the replacement does not stay up', async () => {
+      await expect(service.recreateContainer('web', { pull: false })).rejects.toThrow(
+        'Recreating web failed and was rolled back: container exited with code 1'
+      );
+
+      expect(changes).toEqual([
+        'stop old-id',
+        'rename old-id web-old',
+        'rename new-id web',
+        'start new-id',
+        'remove new-id',
+        'rename old-id web',
+        'start old-id'
+      ]);
+    });
+
+    it('should give the old container its name back when the replacement cannot take it', async () => {
+      dockerClient.renameContainer.mockImplementation(async (id: string, name: string) => {
+        if (id === 'new-id') {
+          throw new Error('Conflict. The container name "/web" is already in use');
+        }
+        changes.push(`rename ${id} ${name.replace(/-[0-9a-f]{6}$/, '')}`);
+      });
+
+      await expect(service.recreateContainer('web', { pull: false })).rejects.toThrow('already in use');
+
+      expect(changes).toEqual([
+        'stop old-id',
+        'rename old-id web-old',
+        'remove new-id',
+        'rename old-id web',
+        'start old-id'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, mock, setSystemTime } from 'bun:test';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { eq } from 'drizzle-orm';
+import * as schema from '../../../../backend/src/db/schema';
+
+// An in-memory database holding the tables login protection uses
+const sqlite = new Database(':memory:');
+sqlite.exec(`
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    email TEXT NOT NULL UNIQUE,
+    password TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_login TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    oidc_subject TEXT UNIQUE,
+    totp_secret TEXT,
+    two_factor_enabled INTEGER NOT NULL DEFAULT 0,
+    totp_last_counter INTEGER,
+    failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+    last_failed_login_at TEXT,
+    locked_until TEXT
+  );
+  CREATE TABLE login_failures (
+    id TEXT PRIMARY KEY,
+    ip_address TEXT NOT NULL UNIQUE,
+    count INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TEXT NOT NULL,
+    blocked_until TEXT
+  );
+`);
+const testDb = drizzle(sqlite, { schema });
+
+mock.module('../../../../backend/src/db', () => ({ db: testDb }));
+
+const {
+  getLockDuration,
+  assertLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockUser,
+  loginProtectionEvents,
+  LoginLockedError
+} = await import('../../../../backend/src/services/loginProtection');
+
+const MINUTE = 60 * 1000;
+const START = new Date('2024-06-01T12:00:00.000Z');
+
+/**
+ * Read the test user as stored
+ */
+function getUser() {
+  return testDb.select().from(schema.users).where(eq(schema.users.id, 'user-1')).get()!;
+}
+
+/**
+ * Fail to log in as the test user a number of times
+ */
+async function failLogins(times: number, ipAddress?: string): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await recordLoginFailure(getUser(), ipAddress);
+  }
+}
+
+/**
+ * Get the number of seconds a login would be refused for, or 0 if it is allowed
+ */
+async function getRetryAfter(user: { lockedUntil: string | null } | null, ipAddress?: string): Promise<number> {
+  try {
+    await assertLoginAllowed(user, ipAddress);
+    return 0;
+  } catch (error) {
+    expect(error).toBeInstanceOf(LoginLockedError);
+    return (error as InstanceType<typeof LoginLockedError>).retryAfter;
+  }
+}
+
+describe('Login protection', () => {
+  beforeEach(() => {
+    setSystemTime(START);
+    sqlite.exec('DELETE FROM users; DELETE FROM login_failures;');
+    testDb.insert(schema.users).values({
+      id: 'user-1',
+      username: 'jane',
+      email: 'jane@example.com',
+      password: 'hash',
+      createdAt: START.toISOString(),
+      updatedAt: START.toISOString()
+    }).run();
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    loginProtectionEvents.removeAllListeners();
+  });
+
+  describe('getLockDuration', () => {
+    it('should not lock below the threshold, then double from a minute up to an hour', () => {
+      expect(getLockDuration(4, 5)).toBe(0);
+      expect(getLockDuration(5, 5)).toBe(MINUTE);
+      expect(getLockDuration(6, 5)).toBe(2 * MINUTE);
+      expect(getLockDuration(8, 5)).toBe(8 * MINUTE);
+      expect(getLockDuration(20, 5)).toBe(60 * MINUTE);
+    });
+  });
+
+  describe('Accounts', () => {
+    it('should lock the account at the fifth failure and notify once', async () => {
+      const locked = mock(() => {});
+      loginProtectionEvents.on('account:locked', locked);
+
+      await failLogins(4);
+      expect(getUser().lockedUntil).toBeNull();
+      expect(await getRetryAfter(getUser())).toBe(0);
+
+      await failLogins(1, '10.0.0.1');
+      expect(getUser().failedLoginAttempts).toBe(5);
+      expect(await getRetryAfter(getUser())).toBe(60);
+      expect(locked).toHaveBeenCalledTimes(1);
+      expect(locked).toHaveBeenCalledWith({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        username: 'jane',
+        lockedUntil: new Date(START.getTime() + MINUTE).toISOString(),
+        ipAddress: '10.0.0.1'
+      });
+
+      // Each further failure doubles the lock, without another notification
+      await failLogins(1);
+      expect(await getRetryAfter(getUser())).toBe(120);
+      expect(locked).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count every failure when several arrive at once', async () => {
+      const locked = mock(() => {});
+      loginProtectionEvents.on('account:locked', locked);
+
+      // Each request read the account before any of the failures were recorded
+      const user = getUser();
+      await Promise.all(Array.from({ length: 5 }, () => recordLoginFailure(user, '10.0.0.1')));
+
+      expect(getUser().failedLoginAttempts).toBe(5);
+      expect(await getRetryAfter(getUser())).toBe(60);
+      expect(locked).toHaveBeenCalledTimes(1);
+      expect(testDb.select().from(schema.loginFailures).get()?.count).toBe(5);
+    });
+
+    it('should allow logins again once the lock has expired', async () => {
+      await failLogins(5);
+      setSystemTime(new Date(START.getTime() + MINUTE + 1000));
+
+      expect(await getRetryAfter(getUser())).toBe(0);
+    });
+
+    it('should forget failures after 24 hours without another one', async () => {
+      await failLogins(4);
+      setSystemTime(new Date(START.getTime() + 24 * 60 * MINUTE + 1000));
+
+      await failLogins(1);
+      expect(getUser().failedLoginAttempts).toBe(1);
+      expect(getUser().lockedUntil).toBeNull();
+    });
+
+    it('should clear failures and the lock when unlocked or after signing in', async () => {
+      await failLogins(5);
+      await unlockUser('user-1');
+      expect(getUser()).toMatchObject({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+      expect(await getRetryAfter(getUser())).toBe(0);
+
+      await failLogins(3);
+      await recordLoginSuccess('user-1');
+      expect(getUser().failedLoginAttempts).toBe(0);
+    });
+  });
+
+  describe('Client addresses', () => {
+    it('should block an address after 20 failures, whatever accounts it tried', async () => {
+      for (let i = 0; i < 19; i++) {
+        await recordLoginFailure(null, '10.0.0.1');
+      }
+      expect(await getRetryAfter(null, '10.0.0.1')).toBe(0);
+
+      await recordLoginFailure(null, '10.0.0.1');
+      expect(await getRetryAfter(null, '10.0.0.1')).toBe(60);
+      // Even for accounts that are not locked, and only from that address
+      expect(await getRetryAfter(getUser(), '10.0.0.1')).toBe(60);
+      expect(await getRetryAfter(getUser(), '10.0.0.2')).toBe(0);
+    });
+
+    it('should block an address whose failures arrive at once', async () => {
+      await Promise.all(Array.from({ length: 20 }, () => recordLoginFailure(null, '10.0.0.1')));
+
+      expect(testDb.select().from(schema.loginFailures).all()).toHaveLength(1);
+      expect(await getRetryAfter(null, '10.0.0.1')).toBe(60);
+    });
+
+    it('should keep counting an address after one of its accounts signs in', async () => {
+      await failLogins(4, '10.0.0.1');
+      await recordLoginSuccess('user-1');
+
+      const failure = testDb.select().from(schema.loginFailures).get();
+      expect(failure?.count).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import * as childProcess from 'child_process';
+import { ProxyProtocol, LoadBalancingMethod } from '../../../../shared/src/models';
+
+// Answers for the nginx commands, keyed by how the command starts; anything else runs for real
+const realExec = childProcess.exec;
+let nginxResults: Record<string, { stderr: string } | null> = {};
+const commands: string[] = [];
+const exec = mock((command: string, callback: (error: any, result?: any) => void) => {
+  if (!command.startsWith('nginx')) {
+    return realExec(command, (error, stdout, stderr) => callback(error, { stdout, stderr }));
+  }
+  commands.push(command);
+  const key = Object.keys(nginxResults).find(prefix => command.startsWith(prefix));
+  const failure = key ? nginxResults[key] : null;
+  if (failure) {
+    callback(Object.assign(new Error('nginx failed'), failure));
+  } else {
+    callback(null, { stdout: '', stderr: '' });
+  }
+});
+
+mock.module('child_process', () => ({ ...childProcess, exec }));
+
+// Other test files load the service first; the query gives this file its own copy bound to the mock
+const servicePath = '../../../../backend/src/services/nginxConfig?exec-mock';
+const { NginxConfigService, NginxConfigTestError, NginxReloadError } =
+  await import(servicePath) as typeof import('../../../../backend/src/services/nginxConfig');
+const { nginxManager } = await import('../../../../backend/src/integrations/nginx');
+
+describe('NginxConfigService', () => {
+  describe('generateDomainConfig', () => {
+    it('should proxy to the rule\'s upstream and hand out its sticky cookie', () => {
+      const service = new NginxConfigService({ configDir: '/tmp/kontainers-nginx-test' });
+      const config = service.generateDomainConfig({
+        id: 'rule-1',
+        name: 'Web',
+        sourceHost: 'example.com',
+        sourcePath: '/',
+        targetContainer: 'web',
+        targetPort: 8080,
+        protocol: ProxyProtocol.HTTP,
+        sslEnabled: false,
+        created: Date.now(),
+        enabled: true,
+        domain: 'app.example.com',
+        loadBalancing: {
+          method: LoadBalancingMethod.ROUND_ROBIN,
+          sticky: true,
+          cookieName: 'SERVERID',
+          targets: [
+            { container: 'web-a', port: 8080, weight: 1 },
+            { container: 'web-b', port: 8080, weight: 1 }
+          ]
+        }
+      });
+
+      expect(config).toContain('proxy_pass http://kontainers_rule_1;');
+      expect(config).not.toContain('proxy_pass http://web:8080;');
+      expect(config).toContain('add_header Set-Cookie "SERVERID=$kontainers_sticky_rule_1; Path=/; HttpOnly";');
+    });
+  });
+
+  describe('applyConfigChanges', () => {
+    let configDir: string;
+    let sitesDir: string;
+    let service: InstanceType<typeof NginxConfigService>;
+
+    beforeEach(async () => {
+      configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kontainers-nginx-config-test-'));
+      sitesDir = path.join(configDir, 'sites-enabled');
+      await fs.mkdir(sitesDir);
+      await fs.writeFile(path.join(sitesDir, 'web.conf'), 'old web');
+      const mainConfigPath = path.join(configDir, 'nginx.conf');
+      await fs.writeFile(mainConfigPath, `http { include ${sitesDir}/*.conf; }`);
+      spyOn(nginxManager, 'getMainConfigPath').mockReturnValue(mainConfigPath);
+
+      service = new NginxConfigService({ configDir });
+      nginxResults = {};
+      commands.length = 0;
+    });
+
+    afterEach(async () => {
+      mock.restore();
+      await fs.rm(configDir, { recursive: true, force: true });
+    });
+
+    it('should test a staged copy, then swap the files in and reload', async () => {
+      await service.applyConfigChanges([
+        { path: path.join(sitesDir, 'web.conf'), content: 'new web' },
+        { path: path.join(sitesDir, 'api.conf'), content: 'new api' }
+      ]);
+
+      // The staged main configuration includes the staged directory, not the live one
+      expect(commands[0]).toMatch(/^nginx -t -c .*kontainers-nginx-.*\/nginx\.conf$/);
+      expect(commands.slice(1)).toEqual(['nginx -t', 'nginx -s reload']);
+      expect(await fs.readFile(path.join(sitesDir, 'web.conf'), 'utf-8')).toBe('new web');
+      expect(await fs.readFile(path.join(sitesDir, 'api.conf'), 'utf-8')).toBe('new api');
+    });
+
+    it('should leave the live files alone when the staged test fails', async () => {
+      nginxResults['nginx -t -c'] = { stderr: 'unknown directive "bogus"' };
+
+      const apply = service.applyConfigChanges([
+        { path: path.join(sitesDir, 'web.conf'), content: 'bogus' }
+      ]);
+
+      await expect(apply).rejects.toBeInstanceOf(NginxConfigTestError);
+      await expect(apply).rejects.toMatchObject({ output: 'unknown directive "bogus"' });
+      expect(commands).toHaveLength(1);
+      expect(await fs.readFile(path.join(sitesDir, 'web.conf'), 'utf-8')).toBe('old web');
+    });
+
+    it('should restore the previous files and reload them when the reload fails', async () => {
+      nginxResults['nginx -s reload'] = { stderr: 'bind() to 0.0.0.0:80 failed' };
+
+      const apply = service.applyConfigChanges([
+        { path: path.join(sitesDir, 'web.conf'), content: 'new web' },
+        { path: path.join(sitesDir, 'api.conf'), content: 'new api' }
+      ]);
+
+      await expect(apply).rejects.toBeInstanceOf(NginxReloadError);
+      await expect(apply).rejects.toMatchObject({ output: 'bind() to 0.0.0.0:80 failed' });
+      expect(await fs.readFile(path.join(sitesDir, 'web.conf'), 'utf-8')).toBe('old web');
+      await expect(fs.access(path.join(sitesDir, 'api.conf'))).rejects.toThrow();
+      // One reload for the change and one for the rollback
+      expect(commands.filter(command => command === 'nginx -s reload')).toHaveLength(2);
+    });
+  });
+});
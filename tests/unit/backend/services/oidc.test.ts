@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { UserRole } from '../../../../shared/src/models';
+import {
+  OidcService,
+  OidcSettings,
+  parseRoleMapping,
+  mapClaimToRole
+} from '../../../../backend/src/services/oidc';
+
+const CLIENT_ID = 'kontainers';
+const REDIRECT_URI = 'http://localhost:3000/api/auth/oidc/callback';
+
+/**
+ * Minimal OpenID Connect provider: discovery, JWKS and a token endpoint that
+ * issues an ID token for the code returned by /authorize
+ */
+function startMockProvider() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' };
+  const codes = new Map<string, { nonce: string; codeChallenge: string }>();
+  const provider = {
+    claims: {} as Record<string, any>,
+    tokenRequests: [] as URLSearchParams[]
+  };
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      const url = new URL(request.url);
+      const issuer = url.origin;
+
+      switch (url.pathname) {
+        case '/.well-known/openid-configuration':
+          return Response.json({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`
+          });
+        case '/jwks':
+          return Response.json({ keys: [jwk] });
+        case '/authorize': {
+          const code = crypto.randomUUID();
+          codes.set(code, {
+            nonce: url.searchParams.get('nonce')!,
+            codeChallenge: url.searchParams.get('code_challenge')!
+          });
+          const redirect = new URL(url.searchParams.get('redirect_uri')!);
+          redirect.searchParams.set('code', code);
+          redirect.searchParams.set('state', url.searchParams.get('state')!);
+          return Response.redirect(redirect.toString(), 302);
+        }
+        case '/token': {
+          const body = new URLSearchParams(await request.text());
+          provider.tokenRequests.push(body);
+
+          const grant = codes.get(body.get('code')!);
+          codes.delete(body.get('code')!);
+          const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+          if (!grant || challenge !== grant.codeChallenge) {
+            return Response.json({ error: 'invalid_grant' }, { status: 400 });
+          }
+
+          const idToken = jwt.sign(
+            { nonce: grant.nonce, ...provider.claims },
+            privateKey,
+            { algorithm: 'RS256', keyid: 'test-key', issuer, audience: CLIENT_ID, subject: 'subject-1', expiresIn: '5m' }
+          );
+          return Response.json({ access_token: 'access', token_type: 'Bearer', id_token: idToken });
+        }
+        default:
+          return new Response('Not found', { status: 404 });
+      }
+    }
+  });
+
+  return { server, provider, issuer: `http://localhost:${server.port}` };
+}
+
+describe('OIDC', () => {
+  describe('parseRoleMapping', () => {
+    it('should parse claim value to role pairs', () => {
+      expect(parseRoleMapping('ops=admin, devs=User')).toEqual({ ops: UserRole.ADMIN, devs: UserRole.USER });
+      expect(parseRoleMapping(undefined)).toEqual({});
+    });
+
+    it('should reject unknown roles', () => {
+      expect(() => parseRoleMapping('ops=root')).toThrow('Invalid role');
+    });
+  });
+
+  describe('mapClaimToRole', () => {
+    const mapping = { ops: UserRole.ADMIN, devs: UserRole.USER };
+
+    it('should pick the most privileged matching role', () => {
+      expect(mapClaimToRole(['devs', 'ops'], mapping, UserRole.VIEWER)).toBe(UserRole.ADMIN);
+      expect(mapClaimToRole('devs', mapping, UserRole.VIEWER)).toBe(UserRole.USER);
+    });
+
+    it('should fall back to the default role', () => {
+      expect(mapClaimToRole(['other'], mapping, UserRole.VIEWER)).toBe(UserRole.VIEWER);
+      expect(mapClaimToRole(undefined, mapping, UserRole.VIEWER)).toBe(UserRole.VIEWER);
+    });
+  });
+
+  describe('authorization code flow', () => {
+    let mock: ReturnType<typeof startMockProvider>;
+    let service: OidcService;
+
+    const settings = (): OidcSettings => ({
+      issuer: mock.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: 'secret',
+      redirectUri: REDIRECT_URI,
+      scopes: 'openid profile email',
+      roleClaim: 'groups',
+      roleMapping: { ops: UserRole.ADMIN },
+      defaultRole: UserRole.VIEWER,
+      loginPageUrl: '/login'
+    });
+
+    // Follow the provider's redirect as a browser would and return the callback
+    // parameters, along with the state cookie the browser was given
+    const authorize = async () => {
+      const { url, stateCookie } = await service.createAuthorizationUrl();
+      const response = await fetch(url, { redirect: 'manual' });
+      const callback = new URL(response.headers.get('location')!);
+      return { code: callback.searchParams.get('code')!, state: callback.searchParams.get('state')!, stateCookie };
+    };
+
+    beforeAll(() => {
+      mock = startMockProvider();
+    });
+
+    afterAll(() => {
+      mock.server.stop(true);
+    });
+
+    it('should request a code with PKCE', async () => {
+      service = new OidcService(settings());
+      const url = new URL((await service.createAuthorizationUrl()).url);
+
+      expect(url.origin + url.pathname).toBe(`${mock.issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('state')).toBeTruthy();
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+    });
+
+    it('should exchange the code and map claims to an identity', async () => {
+      service = new OidcService(settings());
+      mock.provider.claims = { email: 'jane@example.com', email_verified: true, preferred_username: 'jane', groups: ['ops'] };
+
+      const { code, state, stateCookie } = await authorize();
+      const identity = await service.handleCallback(code, state, stateCookie);
+
+      expect(identity).toEqual({
+        subject: 'subject-1',
+        email: 'jane@example.com',
+        emailVerified: true,
+        username: 'jane',
+        role: UserRole.ADMIN
+      });
+
+      const tokenRequest = mock.provider.tokenRequests[mock.provider.tokenRequests.length - 1];
+      expect(tokenRequest.get('grant_type')).toBe('authorization_code');
+      expect(tokenRequest.get('redirect_uri')).toBe(REDIRECT_URI);
+    });
+
+    it('should reject unknown or reused state', async () => {
+      service = new OidcService(settings());
+      mock.provider.claims = { email: 'jane@example.com' };
+
+      const { code, state, stateCookie } = await authorize();
+      await expect(service.handleCallback(code, 'forged', 'forged.signature')).rejects.toThrow('not started in this browser');
+      await expect(service.handleCallback(code, state, stateCookie)).resolves.toBeDefined();
+      await expect(service.handleCallback(code, state, stateCookie)).rejects.toThrow('Invalid or expired login request');
+    });
+
+    it('should reject callbacks from a login started in another browser', async () => {
+      service = new OidcService(settings());
+      mock.provider.claims = { email: 'attacker@example.com' };
+
+      // The attacker hands their callback URL to a victim, whose browser has its own login or none
+      const attacker = await authorize();
+      const victim = await service.createAuthorizationUrl();
+
+      await expect(service.handleCallback(attacker.code, attacker.state, undefined)).rejects.toThrow('not started in this browser');
+      await expect(service.handleCallback(attacker.code, attacker.state, victim.stateCookie)).rejects.toThrow('not started in this browser');
+      // Signatures come from the service, so a cookie cannot be made up for the attacker's state
+      await expect(service.handleCallback(attacker.code, attacker.state, `${attacker.state}.forged`)).rejects.toThrow('not started in this browser');
+      await expect(service.handleCallback(attacker.code, attacker.state, attacker.stateCookie)).resolves.toBeDefined();
+    });
+
+    it('should only set the state cookie for the callback, out of reach of scripts', () => {
+      service = new OidcService(settings());
+      expect(service.getStateCookieOptions()).toEqual({
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: false,
+        path: '/api/auth/oidc/callback',
+        maxAge: 600
+      });
+    });
+
+    it('should drop the oldest logins in progress once too many are pending', async () => {
+      service = new OidcService(settings());
+      mock.provider.claims = { email: 'jane@example.com' };
+
+      const oldest = await authorize();
+      for (let i = 0; i < 1000; i++) {
+        await service.createAuthorizationUrl();
+      }
+
+      await expect(service.handleCallback(oldest.code, oldest.state, oldest.stateCookie)).rejects.toThrow('Invalid or expired login request');
+      const latest = await authorize();
+      await expect(service.handleCallback(latest.code, latest.state, latest.stateCookie)).resolves.toBeDefined();
+    });
+
+    it('should reject ID tokens for another client', async () => {
+      service = new OidcService({ ...settings(), clientId: 'other-client' });
+      mock.provider.claims = { email: 'jane@example.com' };
+
+      const { code, state, stateCookie } = await authorize();
+      await expect(service.handleCallback(code, state, stateCookie)).rejects.toThrow('Invalid ID token');
+    });
+
+    it('should report when single sign-on is not configured', async () => {
+      const disabled = new OidcService(null);
+      expect(disabled.isEnabled()).toBe(false);
+      await expect(disabled.createAuthorizationUrl()).rejects.toThrow('not configured');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { eq } from 'drizzle-orm';
+import * as schema from '../../../../backend/src/db/schema';
+import { nginxManager } from '../../../../backend/src/integrations/nginx';
+import { nginxConfigService } from '../../../../backend/src/services/nginxConfig';
+import { ProxyProtocol, LoadBalancingMethod, ProxyRule } from '../../../../shared/src/models';
+
+// An in-memory database holding the tables proxy rules use
+const sqlite = new Database(':memory:');
+sqlite.exec(`
+  CREATE TABLE proxy_rules (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    source_host TEXT NOT NULL,
+    source_path TEXT NOT NULL DEFAULT '/',
+    source_port INTEGER,
+    target_container TEXT NOT NULL,
+    target_port INTEGER NOT NULL,
+    protocol TEXT NOT NULL,
+    ssl_enabled INTEGER NOT NULL DEFAULT 0,
+    ssl_cert_path TEXT,
+    ssl_key_path TEXT,
+    domain TEXT,
+    headers TEXT,
+    response_headers TEXT,
+    health_check TEXT,
+    load_balancing TEXT,
+    advanced_config TEXT,
+    custom_nginx_config TEXT,
+    created TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    lets_encrypt_enabled INTEGER DEFAULT 0,
+    lets_encrypt_email TEXT,
+    lets_encrypt_status TEXT,
+    lets_encrypt_last_renewal TEXT,
+    managed_by_container TEXT,
+    project_id TEXT
+  );
+  CREATE TABLE proxy_traffic (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL REFERENCES proxy_rules(id),
+    timestamp TEXT NOT NULL,
+    method TEXT NOT NULL,
+    path TEXT NOT NULL,
+    status_code INTEGER,
+    response_time INTEGER,
+    bytes_sent INTEGER,
+    bytes_received INTEGER,
+    client_ip TEXT,
+    user_agent TEXT
+  );
+  CREATE TABLE proxy_errors (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL REFERENCES proxy_rules(id),
+    timestamp TEXT NOT NULL,
+    type TEXT NOT NULL,
+    code INTEGER,
+    message TEXT,
+    path TEXT,
+    resolved INTEGER NOT NULL DEFAULT 0,
+    resolved_at TEXT,
+    resolution TEXT
+  );
+`);
+const testDb = drizzle(sqlite, { schema });
+
+mock.module('../../../../backend/src/db', () => ({ db: testDb }));
+
+// Other test files load the service first; the query gives this file its own copy bound to the test database
+const servicePath = '../../../../backend/src/services/proxy?test-db';
+const { ProxyService } = await import(servicePath) as typeof import('../../../../backend/src/services/proxy');
+
+const ruleInput: Omit<ProxyRule, 'id' | 'created'> = {
+  name: 'Web',
+  sourceHost: 'example.com',
+  sourcePath: '/',
+  targetContainer: 'web',
+  targetPort: 8080,
+  protocol: ProxyProtocol.HTTP,
+  sslEnabled: false,
+  enabled: true,
+  domain: 'app.example.com',
+  headers: { 'X-Forwarded-Proto': 'http' },
+  loadBalancing: {
+    method: LoadBalancingMethod.LEAST_CONN,
+    sticky: false,
+    targets: [
+      { container: 'web-a', port: 8080, weight: 2 },
+      { container: 'web-b', port: 8080, weight: 1 }
+    ]
+  }
+};
+
+/**
+ * Read a rule's row as stored
+ */
+function getRow(id: string) {
+  return testDb.select().from(schema.proxyRules).where(eq(schema.proxyRules.id, id)).get();
+}
+
+describe('ProxyService persistence', () => {
+  let applyConfigChanges: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    sqlite.exec('DELETE FROM proxy_traffic; DELETE FROM proxy_errors; DELETE FROM proxy_rules;');
+    applyConfigChanges = spyOn(nginxConfigService, 'applyConfigChanges').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should store rules in proxy_rules with their structured settings as JSON', async () => {
+    const service = new ProxyService();
+    const rule = await service.createRule(ruleInput);
+
+    const row = getRow(rule.id)!;
+    expect(row).toMatchObject({
+      name: 'Web',
+      protocol: 'HTTP',
+      enabled: true,
+      created: String(rule.created),
+      sslCertPath: null,
+      projectId: null
+    });
+    expect(JSON.parse(row.headers!)).toEqual({ 'X-Forwarded-Proto': 'http' });
+    expect(JSON.parse(row.loadBalancing!)).toEqual(ruleInput.loadBalancing);
+    expect(row.healthCheck).toBeNull();
+
+    // Reading the row back gives the rule that was created
+    expect(await service.getRule(rule.id)).toEqual({
+      ...rule,
+      sourcePort: undefined,
+      sslCertPath: undefined,
+      sslKeyPath: undefined,
+      responseHeaders: undefined,
+      healthCheck: undefined,
+      advancedConfig: undefined,
+      customNginxConfig: undefined,
+      letsEncryptEnabled: false,
+      letsEncryptEmail: undefined,
+      letsEncryptStatus: undefined,
+      letsEncryptLastRenewal: undefined,
+      managedByContainer: undefined,
+      projectId: undefined
+    });
+  });
+
+  it('should keep updates and toggles in the database', async () => {
+    const service = new ProxyService();
+    const rule = await service.createRule(ruleInput);
+
+    await service.updateRule(rule.id, { targetPort: 9090, headers: { 'X-Test': '1' } });
+    await service.toggleRule(rule.id);
+
+    const stored = await new ProxyService().getRule(rule.id);
+    expect(stored).toMatchObject({ targetPort: 9090, headers: { 'X-Test': '1' }, enabled: false });
+  });
+
+  it('should load stored rules on startup and restore the enabled ones in Nginx', async () => {
+    spyOn(nginxManager, 'initialize').mockResolvedValue(undefined);
+    spyOn(nginxConfigService, 'initialize').mockResolvedValue(undefined);
+    const restore = spyOn(nginxManager, 'createOrUpdateProxyRule').mockResolvedValue(undefined as any);
+
+    const previous = new ProxyService();
+    const enabled = await previous.createRule(ruleInput);
+    const disabled = await previous.createRule({ ...ruleInput, name: 'Off', enabled: false });
+    // A malformed JSON column is ignored rather than failing the whole load
+    testDb.update(schema.proxyRules).set({ headers: '{broken' }).where(eq(schema.proxyRules.id, disabled.id)).run();
+
+    const service = new ProxyService();
+    await service.initialize();
+
+    expect(restore).toHaveBeenCalledTimes(1);
+    expect(restore.mock.calls[0][0]).toMatchObject({ id: enabled.id, loadBalancing: ruleInput.loadBalancing });
+    const rules = await service.getRules();
+    expect(rules.map(rule => rule.name).sort()).toEqual(['Off', 'Web']);
+    expect(rules.find(rule => rule.id === disabled.id)?.headers).toBeUndefined();
+  });
+
+  it('should not store a rule whose Nginx configuration fails', async () => {
+    applyConfigChanges.mockRejectedValue(new Error('nginx: [emerg] unknown directive'));
+    const service = new ProxyService();
+
+    await expect(service.createRule(ruleInput)).rejects.toThrow('unknown directive');
+    expect(await service.getRules()).toEqual([]);
+  });
+
+  describe('deleteRule', () => {
+    /**
+     * Create a rule with a traffic record and an error stored against it
+     */
+    async function createRuleWithHistory() {
+      const rule = await new ProxyService().createRule(ruleInput);
+      testDb.insert(schema.proxyTraffic).values({
+        id: 'traffic-1', ruleId: rule.id, timestamp: '2024-06-01T12:00:00.000Z', method: 'GET', path: '/'
+      }).run();
+      testDb.insert(schema.proxyErrors).values({
+        id: 'error-1', ruleId: rule.id, timestamp: '2024-06-01T12:00:00.000Z', type: 'CONNECTION', message: 'refused'
+      }).run();
+      return rule;
+    }
+
+    it('should delete the rule and its history, then remove it from Nginx', async () => {
+      const rule = await createRuleWithHistory();
+
+      await new ProxyService().deleteRule(rule.id);
+
+      expect(getRow(rule.id)).toBeUndefined();
+      expect(testDb.select().from(schema.proxyTraffic).all()).toEqual([]);
+      expect(testDb.select().from(schema.proxyErrors).all()).toEqual([]);
+      expect(applyConfigChanges).toHaveBeenCalledTimes(2);
+    });
+
+    it('should put the rule and its history back when Nginx cannot drop it', async () => {
+      const rule = await createRuleWithHistory();
+      const before = getRow(rule.id)!;
+      applyConfigChanges.mockRejectedValue(new Error('nginx: reload failed'));
+
+      await expect(new ProxyService().deleteRule(rule.id)).rejects.toThrow('reload failed');
+
+      expect(getRow(rule.id)).toEqual(before);
+      expect(testDb.select().from(schema.proxyTraffic).all()).toHaveLength(1);
+      expect(testDb.select().from(schema.proxyErrors).all()).toHaveLength(1);
+    });
+
+    it('should leave Nginx alone when the rows cannot be deleted', async () => {
+      const rule = await createRuleWithHistory();
+      applyConfigChanges.mockClear();
+      sqlite.exec(`CREATE TRIGGER refuse_delete BEFORE DELETE ON proxy_rules BEGIN SELECT RAISE(ABORT, 'disk I/O error'); END;`);
+
+      try {
+        await expect(new ProxyService().deleteRule(rule.id)).rejects.toThrow('disk I/O error');
+        expect(applyConfigChanges).not.toHaveBeenCalled();
+        // The transaction keeps the history that was deleted before the failure
+        expect(testDb.select().from(schema.proxyTraffic).all()).toHaveLength(1);
+      } finally {
+        sqlite.exec('DROP TRIGGER refuse_delete;');
+      }
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import * as schema from '../../../../backend/src/db/schema';
+import {
+  Container,
+  ContainerState,
+  Network,
+  Volume,
+  StackStatus,
+  PROJECT_LABEL,
+  COMPOSE_PROJECT_LABEL,
+  COMPOSE_SERVICE_LABEL
+} from '../../../../shared/src/models';
+
+// An in-memory database holding the stacks table
+const sqlite = new Database(':memory:');
+sqlite.exec(`
+  CREATE TABLE stacks (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    project_id TEXT,
+    compose TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    deployed_at TEXT
+  );
+`);
+const testDb = drizzle(sqlite, { schema });
+
+mock.module('../../../../backend/src/db', () => ({ db: testDb }));
+// The host is played by stubs on the container and image services, so Docker itself is never reached
+mock.module('../../../../backend/src/integrations/docker', () => ({ dockerClient: {} }));
+
+const { containerService } = await import('../../../../backend/src/services/container');
+const { imageService } = await import('../../../../backend/src/services/image');
+// Other test files may load the service first; the query gives this file its own copy bound to the test database
+const servicePath = '../../../../backend/src/services/stack?test-db';
+const { StackService, StackError } = await import(servicePath) as typeof import('../../../../backend/src/services/stack');
+
+const COMPOSE = `
+services:
+  web:
+    image: nginx:alpine
+    depends_on: [api]
+  api:
+    image: shop/api:1
+    volumes: [data:/data]
+volumes:
+  data: {}
+`;
+
+/**
+ * What is on the Docker host, and every change made to it in order
+ */
+interface Host {
+  containers: Container[];
+  networks: Network[];
+  volumes: Volume[];
+  images: Set<string>;
+  changes: string[];
+}
+
+/**
+ * Stub the container and image services with a host that starts out with the given resources
+ */
+function stubHost(initial: Partial<Host> = {}): Host {
+  const host: Host = { containers: [], networks: [], volumes: [], images: new Set(), changes: [], ...initial };
+  const find = (id: string) => host.containers.find(container => container.id === id)!;
+
+  spyOn(containerService, 'getContainers').mockImplementation(async () => [...host.containers]);
+  spyOn(containerService, 'getNetworks').mockImplementation(async () => [...host.networks]);
+  spyOn(containerService, 'getVolumes').mockImplementation(async () => [...host.volumes]);
+  spyOn(containerService, 'createContainer').mockImplementation(async (options: any) => {
+    const container = makeContainer(options.name, options.labels, ContainerState.STOPPED);
+    host.containers.push(container);
+    host.changes.push(`create ${options.name}`);
+    return container;
+  });
+  spyOn(containerService, 'startContainer').mockImplementation(async (id: string) => {
+    find(id).state = ContainerState.RUNNING;
+    host.changes.push(`start ${find(id).name}`);
+  });
+  spyOn(containerService, 'restartContainer').mockImplementation(async (id: string) => {
+    host.changes.push(`restart ${find(id).name}`);
+  });
+  spyOn(containerService, 'removeContainer').mockImplementation(async (id: string) => {
+    host.changes.push(`remove ${find(id).name}`);
+    host.containers = host.containers.filter(container => container.id !== id);
+  });
+  spyOn(containerService, 'createNetwork').mockImplementation(async (options: any) => {
+    const network = { id: options.name, name: options.name, labels: options.labels } as Network;
+    host.networks.push(network);
+    host.changes.push(`create network ${options.name}`);
+    return network;
+  });
+  spyOn(containerService, 'removeNetwork').mockImplementation(async (id: string) => {
+    host.changes.push(`remove network ${id}`);
+    host.networks = host.networks.filter(network => network.id !== id);
+  });
+  spyOn(containerService, 'createVolume').mockImplementation(async (options: any) => {
+    const volume = { name: options.name, labels: options.labels } as Volume;
+    host.volumes.push(volume);
+    host.changes.push(`create volume ${options.name}`);
+    return volume;
+  });
+  spyOn(containerService, 'removeVolume').mockImplementation(async (name: string) => {
+    host.changes.push(`remove volume ${name}`);
+    host.volumes = host.volumes.filter(volume => volume.name !== name);
+  });
+  spyOn(imageService, 'imageExists').mockImplementation(async (image: string) => host.images.has(image));
+  spyOn(imageService, 'pullImage').mockImplementation(async (image: string) => {
+    host.changes.push(`pull ${image}`);
+    host.images.add(image);
+    return {} as any;
+  });
+  return host;
+}
+
+/**
+ * A container with the given labels
+ */
+function makeContainer(name: string, labels: Record<string, string>, state: ContainerState = ContainerState.RUNNING): Container {
+  return {
+    id: `${name}-id`,
+    name,
+    image: 'nginx:alpine',
+    state,
+    status: '',
+    ports: [],
+    volumes: [],
+    networks: [],
+    created: 0,
+    labels,
+    projectId: labels[PROJECT_LABEL]
+  };
+}
+
+/**
+ * Labels of a resource in a compose project, and in a Kontainers project if given
+ */
+function composeLabels(name: string, projectId?: string, service?: string): Record<string, string> {
+  return {
+    [COMPOSE_PROJECT_LABEL]: name,
+    ...(projectId ? { [PROJECT_LABEL]: projectId } : {}),
+    ...(service ? { [COMPOSE_SERVICE_LABEL]: service } : {})
+  };
+}
+
+/**
+ * Expect an operation to fail with a StackError of the given status
+ */
+async function expectStackError(operation: Promise<unknown>, status: number, message: string) {
+  const error = await operation.then(() => null, error => error);
+  expect(error).toBeInstanceOf(StackError);
+  expect(error).toMatchObject({ status, message: expect.stringContaining(message) });
+}
+
+describe('StackService', () => {
+  let service: InstanceType<typeof StackService>;
+
+  beforeEach(() => {
+    sqlite.exec('DELETE FROM stacks;');
+    service = new StackService();
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  describe('up and down', () => {
+    it('should create networks and volumes, get images, then start services dependencies first', async () => {
+      const host = stubHost({ images: new Set(['nginx:alpine']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE, projectId: 'project-1' });
+
+      const deployed = await service.up(stack.id);
+
+      expect(host.changes).toEqual([
+        'create network shop_default',
+        'create volume shop_data',
+        'pull shop/api:1',
+        'create shop-api-1',
+        'start shop-api-1',
+        'create shop-web-1',
+        'start shop-web-1'
+      ]);
+      expect(host.containers[0].labels).toMatchObject(composeLabels('shop', 'project-1', 'api'));
+      expect(deployed.status).toBe(StackStatus.RUNNING);
+      expect(deployed.deployedAt).toBeDefined();
+    });
+
+    it('should only create and start what is missing', async () => {
+      const host = stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE });
+      await service.up(stack.id);
+      host.containers[0].state = ContainerState.STOPPED;
+      host.changes = [];
+
+      await service.up(stack.id);
+
+      expect(host.changes).toEqual(['start shop-api-1']);
+    });
+
+    it('should remove dependents first, then networks, keeping volumes unless asked', async () => {
+      const host = stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE });
+      await service.up(stack.id);
+      host.changes = [];
+
+      expect((await service.down(stack.id)).status).toBe(StackStatus.DOWN);
+      expect(host.changes).toEqual(['remove shop-web-1', 'remove shop-api-1', 'remove network shop_default']);
+      expect(host.volumes.map(volume => volume.name)).toEqual(['shop_data']);
+
+      await service.down(stack.id, true);
+      expect(host.volumes).toEqual([]);
+    });
+  });
+
+  describe('redeploy', () => {
+    it('should get images before removing the old containers', async () => {
+      const host = stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE });
+      await service.up(stack.id);
+      host.changes = [];
+
+      await service.redeploy(stack.id, true);
+
+      expect(host.changes).toEqual([
+        'pull shop/api:1',
+        'pull nginx:alpine',
+        'remove shop-web-1',
+        'remove shop-api-1',
+        'create shop-api-1',
+        'start shop-api-1',
+        'create shop-web-1',
+        'start shop-web-1'
+      ]);
+    });
+
+    it('should keep the old containers when an image cannot be pulled', async () => {
+      const host = stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE });
+      await service.up(stack.id);
+      await service.updateStack(stack.id, COMPOSE.replace('shop/api:1', 'shop/api:2'));
+      (imageService.pullImage as any).mockRejectedValue(new Error('manifest for shop/api:2 not found'));
+
+      await expect(service.redeploy(stack.id)).rejects.toThrow('manifest for shop/api:2 not found');
+
+      expect(host.containers.map(container => container.name)).toEqual(['shop-api-1', 'shop-web-1']);
+      expect(containerService.removeContainer).not.toHaveBeenCalled();
+    });
+
+    it('should keep the old containers when an external network is missing', async () => {
+      const host = stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE });
+      await service.up(stack.id);
+      await service.updateStack(stack.id, `${COMPOSE}networks:\n  default:\n    name: edge\n    external: true\n`);
+
+      await expectStackError(service.redeploy(stack.id), 400, 'External network edge does not exist');
+      expect(host.containers).toHaveLength(2);
+    });
+  });
+
+  describe('Project scoping', () => {
+    it('should refuse compose project names already used outside the stack\'s project', async () => {
+      stubHost({
+        volumes: [{ name: 'shop_data', labels: composeLabels('shop') } as Volume],
+        networks: [{ id: 'n1', name: 'blog_default', labels: composeLabels('blog', 'project-2') } as Network]
+      });
+
+      await expectStackError(service.createStack({ name: 'shop', compose: COMPOSE, projectId: 'project-1' }), 409, 'another compose project');
+      await expectStackError(service.createStack({ name: 'blog', compose: COMPOSE, projectId: 'project-1' }), 409, 'another compose project');
+      await expectStackError(service.createStack({ name: 'blog', compose: COMPOSE }), 409, 'another compose project');
+      // Volumes kept from a deleted stack in the same project can be taken back
+      expect((await service.createStack({ name: 'blog', compose: COMPOSE, projectId: 'project-2' })).stack.name).toBe('blog');
+    });
+
+    it('should leave alone a compose project of the same name in another project', async () => {
+      const other = { ...makeContainer('shop-web-1', composeLabels('shop', 'project-2', 'web')), id: 'other-id' };
+      const host = stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE, projectId: 'project-1' });
+      await service.up(stack.id);
+      host.containers.push(other);
+      host.networks.push({ id: 'other-net', name: 'shop_default', labels: composeLabels('shop', 'project-2') } as Network);
+
+      expect((await service.getStack(stack.id))!.containers).toHaveLength(2);
+      await service.down(stack.id, true);
+
+      expect(host.containers).toEqual([other]);
+      expect(host.networks.map(network => network.id)).toEqual(['other-net']);
+    });
+  });
+
+  describe('Errors', () => {
+    it('should refuse invalid names and files as bad input', async () => {
+      stubHost();
+
+      await expectStackError(service.createStack({ name: 'Shop!', compose: COMPOSE }), 400, 'Stack names may only contain');
+      await expectStackError(service.createStack({ name: 'shop', compose: 'services: {}' }), 400, 'Invalid compose file');
+    });
+
+    it('should refuse duplicate names and operations on a busy stack as conflicts', async () => {
+      stubHost({ images: new Set(['nginx:alpine', 'shop/api:1']) });
+      const { stack } = await service.createStack({ name: 'shop', compose: COMPOSE });
+
+      await expectStackError(service.createStack({ name: 'shop', compose: COMPOSE }), 409, 'already exists');
+      await expectStackError(service.restart(stack.id), 409, 'is not deployed');
+
+      const running = service.up(stack.id);
+      await expectStackError(service.down(stack.id), 409, 'Another operation is already running');
+      await running;
+    });
+
+    it('should report unknown stacks as not found', async () => {
+      await expectStackError(service.up('missing'), 404, 'Stack not found');
+    });
+  });
+});
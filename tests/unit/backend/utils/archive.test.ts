@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'bun:test';
+import zlib from 'zlib';
+import { createTar, createZip, readTar } from '../../../../backend/src/utils/archive';
+
+/**
+ * Read every entry of a tar archive, delivered in chunks of the given size
+ */
+async function readAll(archive: Buffer, chunkSize: number, withData: boolean = false) {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < archive.length; offset += chunkSize) {
+    chunks.push(archive.subarray(offset, offset + chunkSize));
+  }
+  const entries = [];
+  for await (const entry of readTar(chunks, withData)) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe('Tar archives', () => {
+  const archive = createTar([
+    { name: 'app', data: Buffer.alloc(0), directory: true, mtime: 1700000000 },
+    { name: 'app/config.yml', data: Buffer.from('port: 8080\n'), mode: 0o600, mtime: 1700000000 }
+  ]);
+
+  it('should read back what was written, however it is chunked', async () => {
+    for (const chunkSize of [7, 512, archive.length]) {
+      const entries = await readAll(archive, chunkSize, true);
+      expect(entries.map(({ entry }) => [entry.name, entry.type, entry.size])).toEqual([
+        ['app/', 'directory', 0],
+        ['app/config.yml', 'file', 11]
+      ]);
+      expect(entries[1].entry.mode).toBe(0o600);
+      expect(entries[1].data?.toString()).toBe('port: 8080\n');
+    }
+  });
+
+  it('should skip file contents unless asked for them', async () => {
+    const entries = await readAll(archive, 100);
+    expect(entries[1].data).toBeUndefined();
+  });
+
+  it('should take long names from PAX headers', async () => {
+    const longName = `${'nested/'.repeat(20)}file.txt`;
+    const record = ` path=${longName}\n`;
+    // The length prefix counts itself
+    const length = record.length + String(record.length + 3).length;
+    const pax = createTar([{ name: 'PaxHeader', data: Buffer.from(`${length}${record}`) }]);
+    pax[156] = 'x'.charCodeAt(0);
+    // Fix the checksum after changing the type flag
+    pax.fill(' ', 148, 156);
+    const checksum = pax.subarray(0, 512).reduce((sum, byte) => sum + byte, 0);
+    pax.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+
+    const file = createTar([{ name: 'short.txt', data: Buffer.from('x') }]);
+    const combined = Buffer.concat([pax.subarray(0, 1024), file]);
+
+    const entries = await readAll(combined, 512);
+    expect(entries.map(({ entry }) => entry.name)).toEqual([longName]);
+  });
+
+  it('should refuse names that do not fit the header', () => {
+    expect(() => createTar([{ name: 'a'.repeat(101), data: Buffer.from('x') }])).toThrow();
+  });
+});
+
+describe('Zip archives', () => {
+  it('should compress each file and list it in the central directory', () => {
+    const data = Buffer.from('hello '.repeat(100));
+    const zip = createZip([{ name: 'logs/app.log', data, mtime: 1700000000 }]);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const compressedSize = zip.readUInt32LE(18);
+    const nameLength = zip.readUInt16LE(26);
+    expect(zip.toString('utf8', 30, 30 + nameLength)).toBe('logs/app.log');
+    expect(zlib.inflateRawSync(zip.subarray(30 + nameLength, 30 + nameLength + compressedSize))).toEqual(data);
+
+    // The end of central directory record closes the archive
+    expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(zip.length - 12)).toBe(1);
+  });
+});
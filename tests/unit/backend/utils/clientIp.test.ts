@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'bun:test';
+import { normalizeIp, createCidrMatcher, resolveClientIp } from '../../../../backend/src/utils/clientIp';
+
+describe('clientIp', () => {
+  describe('normalizeIp', () => {
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(normalizeIp('::ffff:192.0.2.1')).toBe('192.0.2.1');
+      expect(normalizeIp(' [2001:db8::1] ')).toBe('2001:db8::1');
+    });
+  });
+
+  describe('createCidrMatcher', () => {
+    const matches = createCidrMatcher(['10.0.0.0/8', '192.0.2.7', 'fd00::/8']);
+
+    it('should match addresses inside the ranges', () => {
+      expect(matches('10.20.30.40')).toBe(true);
+      expect(matches('::ffff:10.0.0.1')).toBe(true);
+      expect(matches('192.0.2.7')).toBe(true);
+      expect(matches('fd12::1')).toBe(true);
+    });
+
+    it('should not match other addresses', () => {
+      expect(matches('11.0.0.1')).toBe(false);
+      expect(matches('192.0.2.8')).toBe(false);
+      expect(matches('not-an-ip')).toBe(false);
+    });
+
+    it('should reject invalid entries', () => {
+      expect(() => createCidrMatcher(['10.0.0.0/33'])).toThrow('Invalid trusted proxy');
+      expect(() => createCidrMatcher(['proxy.local'])).toThrow('Invalid trusted proxy');
+    });
+  });
+
+  describe('resolveClientIp', () => {
+    const trusted = createCidrMatcher(['10.0.0.0/8']);
+
+    it('should ignore forwarded headers from untrusted clients', () => {
+      expect(resolveClientIp('203.0.113.5', '198.51.100.1', trusted)).toBe('203.0.113.5');
+    });
+
+    it('should take the last untrusted hop behind trusted proxies', () => {
+      expect(resolveClientIp('10.0.0.2', '198.51.100.1, 203.0.113.9, 10.0.0.3', trusted)).toBe('203.0.113.9');
+    });
+
+    it('should fall back to the connecting address', () => {
+      expect(resolveClientIp('10.0.0.2', null, trusted)).toBe('10.0.0.2');
+      expect(resolveClientIp(undefined, '198.51.100.1', trusted)).toBeUndefined();
+    });
+  });
+});
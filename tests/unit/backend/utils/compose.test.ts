@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'bun:test';
+import { parseCompose, orderServices, splitCommand, withoutReservedLabels } from '../../../../backend/src/utils/compose';
+
+const COMPOSE = `
+version: "3.8"
+services:
+  web:
+    image: nginx:alpine
+    ports:
+      - "8080:80"
+      - "53/udp"
+    depends_on: [api]
+    networks: [front, back]
+  api:
+    image: shop/api:1.2
+    command: node server.js --name "my shop"
+    environment:
+      NODE_ENV: production
+      EMPTY:
+    volumes:
+      - data:/data:ro
+      - /srv/config:/config
+    depends_on:
+      db:
+        condition: service_healthy
+    networks: [back]
+  db:
+    image: postgres:16
+    labels:
+      - team=data
+networks:
+  front:
+  back:
+    internal: true
+volumes:
+  data:
+    driver_opts:
+      type: tmpfs
+`;
+
+describe('Compose files', () => {
+  it('should order services after their dependencies', () => {
+    const plan = parseCompose(COMPOSE, 'shop');
+    expect(plan.services.map(service => service.name)).toEqual(['db', 'api', 'web']);
+  });
+
+  it('should name resources after the stack', () => {
+    const plan = parseCompose(COMPOSE, 'shop');
+    const web = plan.services.find(service => service.name === 'web')!;
+    const api = plan.services.find(service => service.name === 'api')!;
+
+    expect(web.containerName).toBe('shop-web-1');
+    expect(web.networks).toEqual(['shop_front', 'shop_back']);
+    expect(web.aliases).toEqual(['web']);
+    expect(api.volumes).toEqual([
+      { source: 'shop_data', destination: '/data', mode: 'ro' },
+      { source: '/srv/config', destination: '/config', mode: 'rw' }
+    ]);
+    expect(plan.networks.map(network => network.name).sort()).toEqual(['shop_back', 'shop_default', 'shop_front']);
+    expect(plan.networks.find(network => network.key === 'back')!.internal).toBe(true);
+    expect(plan.volumes).toEqual([
+      { key: 'data', name: 'shop_data', external: false, driver: undefined, driverOpts: { type: 'tmpfs' }, labels: undefined }
+    ]);
+  });
+
+  it('should read ports, commands, environment and labels', () => {
+    const plan = parseCompose(COMPOSE, 'shop');
+    const [db, api, web] = plan.services;
+
+    expect(web.ports).toEqual([
+      { internal: 80, external: 8080, protocol: 'tcp' },
+      { internal: 53, external: undefined, protocol: 'udp' }
+    ]);
+    expect(api.command).toEqual(['node', 'server.js', '--name', 'my shop']);
+    expect(api.env).toEqual(['NODE_ENV=production', 'EMPTY']);
+    expect(db.labels).toEqual({ team: 'data' });
+    expect(db.networks).toEqual(['shop_default']);
+  });
+
+  it('should reject what cannot be deployed', () => {
+    expect(() => parseCompose('services: {}', 'shop')).toThrow('no services');
+    expect(() => parseCompose('services:\n  app:\n    build: .', 'shop')).toThrow('building images is not supported');
+    expect(() => parseCompose('services:\n  app:\n    image: a\n    volumes: [missing:/data]', 'shop'))
+      .toThrow('undefined volume missing');
+    expect(() => parseCompose('services:\n  app:\n    image: a\n    ports: ["127.0.0.1:80:80"]', 'shop'))
+      .toThrow('host address');
+    expect(() => parseCompose('services:\n  app:\n    image: a\n    depends_on: [db]', 'shop'))
+      .toThrow('undefined service db');
+  });
+
+  it('should warn about ignored settings', () => {
+    const plan = parseCompose('services:\n  app:\n    image: a\n    restart: always\nsecrets:\n  key:\n    file: ./key', 'shop');
+    expect(plan.warnings).toEqual([
+      'Top-level secrets is not supported and was ignored',
+      'Service app: restart is not supported and was ignored'
+    ]);
+  });
+
+  it('should detect circular dependencies', () => {
+    expect(() => orderServices([
+      { name: 'a', dependsOn: ['b'] },
+      { name: 'b', dependsOn: ['c'] },
+      { name: 'c', dependsOn: ['a'] }
+    ])).toThrow('a -> b -> c -> a');
+  });
+
+  it('should split commands like a shell', () => {
+    expect(splitCommand(`sh -c 'echo "hi there"' a\\ b ""`)).toEqual(['sh', '-c', 'echo "hi there"', 'a b', '']);
+    expect(() => splitCommand('echo "unterminated')).toThrow('Unterminated quote');
+  });
+
+  it('should drop the labels that place resources in projects and stacks', () => {
+    expect(withoutReservedLabels({
+      'kontainers.project': 'project-1',
+      'com.docker.compose.project': 'shop',
+      'com.docker.compose.network': 'default',
+      'com.example.team': 'web'
+    })).toEqual({ 'com.example.team': 'web' });
+    expect(withoutReservedLabels(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildHealthcheck,
+  buildResourceConfig,
+  buildRestartPolicy,
+  readContainerSettings,
+  readPortMappings
+} from '../../../../backend/src/utils/containerConfig';
+import { RestartPolicy } from '../../../../shared/src/models';
+
+describe('Resource limits', () => {
+  it('should only set the limits given', () => {
+    expect(buildResourceConfig({ cpuShares: 512, pidsLimit: 100 })).toEqual({ CpuShares: 512, PidsLimit: 100 });
+    expect(buildResourceConfig()).toEqual({});
+  });
+
+  it('should let Docker derive swap unless it is given', () => {
+    expect(buildResourceConfig({ memory: 512 })).toEqual({ Memory: 512, MemorySwap: 0 });
+    expect(buildResourceConfig({ memory: 512, memorySwap: -1 })).toEqual({ Memory: 512, MemorySwap: -1 });
+    expect(() => buildResourceConfig({ memory: 512, memorySwap: 256 })).toThrow();
+  });
+
+  it('should not combine a number of CPUs with a CPU quota', () => {
+    expect(buildResourceConfig({ cpus: 1.5 })).toEqual({ NanoCpus: 1500000000, CpuPeriod: 0, CpuQuota: 0 });
+    expect(buildResourceConfig({ cpuQuota: 50000, cpuPeriod: 100000 })).toEqual({
+      CpuQuota: 50000,
+      CpuPeriod: 100000,
+      NanoCpus: 0
+    });
+    expect(() => buildResourceConfig({ cpus: 1, cpuQuota: 50000 })).toThrow();
+  });
+});
+
+describe('Restart policy and healthcheck', () => {
+  it('should only keep retries for on-failure', () => {
+    expect(buildRestartPolicy({ name: RestartPolicy.ALWAYS, maximumRetryCount: 3 })).toEqual({ Name: 'always' });
+    expect(buildRestartPolicy({ name: RestartPolicy.ON_FAILURE, maximumRetryCount: 3 })).toEqual({
+      Name: 'on-failure',
+      MaximumRetryCount: 3
+    });
+  });
+
+  it('should run the healthcheck with the shell and durations in nanoseconds', () => {
+    expect(buildHealthcheck({ command: 'curl -f localhost', interval: 10, retries: 2 })).toEqual({
+      Test: ['CMD-SHELL', 'curl -f localhost'],
+      Interval: 10000000000,
+      Timeout: undefined,
+      StartPeriod: undefined,
+      Retries: 2
+    });
+    expect(buildHealthcheck({ disabled: true })).toEqual({ Test: ['NONE'] });
+    expect(() => buildHealthcheck({ command: ' ' })).toThrow();
+  });
+
+  it('should read settings back from inspect data', () => {
+    const settings = readContainerSettings(
+      {
+        Cmd: ['nginx'],
+        WorkingDir: '',
+        Healthcheck: { Test: ['CMD', 'curl', '-f', 'localhost'], Interval: 5000000000 }
+      },
+      { Memory: 268435456, NanoCpus: 500000000, RestartPolicy: { Name: 'on-failure', MaximumRetryCount: 5 } }
+    );
+
+    expect(settings.command).toEqual(['nginx']);
+    expect(settings.workingDir).toBeUndefined();
+    expect(settings.resources).toMatchObject({ memory: 268435456, cpus: 0.5 });
+    expect(settings.restartPolicy).toEqual({ name: RestartPolicy.ON_FAILURE, maximumRetryCount: 5 });
+    expect(settings.healthcheck).toMatchObject({ command: 'curl -f localhost', interval: 5 });
+  });
+});
+
+describe('Port mappings', () => {
+  it('should read the Ports list of listContainers', () => {
+    expect(readPortMappings({
+      Ports: [
+        { PrivatePort: 80, PublicPort: 8080, Type: 'tcp', IP: '127.0.0.1' },
+        { PrivatePort: 3000, Type: 'tcp' }
+      ]
+    })).toEqual([
+      { privatePort: 80, publicPort: 8080, type: 'tcp', ip: '127.0.0.1' },
+      { privatePort: 3000, publicPort: undefined, type: 'tcp', ip: '0.0.0.0' }
+    ]);
+  });
+
+  it('should keep ports inspect data reports as exposed but not published', () => {
+    expect(readPortMappings({
+      NetworkSettings: {
+        Ports: {
+          '80/tcp': [{ HostIp: '127.0.0.1', HostPort: '8080' }],
+          '3000/tcp': null,
+          '53/udp': []
+        }
+      }
+    })).toEqual([
+      { privatePort: 80, publicPort: 8080, type: 'tcp', ip: '127.0.0.1' },
+      { privatePort: 3000, publicPort: undefined, type: 'tcp', ip: '0.0.0.0' },
+      { privatePort: 53, publicPort: undefined, type: 'udp', ip: '0.0.0.0' }
+    ]);
+  });
+});
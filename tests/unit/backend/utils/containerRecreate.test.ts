@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'bun:test';
+import { applyEnvChanges, buildRecreatePlan, resolveRecreateImage } from '../../../../backend/src/utils/containerRecreate';
+
+function inspectData(): any {
+  return {
+    Id: 'abc123def4567890',
+    Name: '/web',
+    Image: 'sha256:1111',
+    State: { Running: true },
+    Config: {
+      Hostname: 'abc123def456',
+      Image: 'nginx:1.25',
+      Env: ['PATH=/usr/bin', 'NGINX_VERSION=1.25', 'MODE=prod'],
+      Cmd: ['nginx', '-g', 'daemon off;'],
+      Labels: { maintainer: 'nginx', app: 'web' },
+      ExposedPorts: { '80/tcp': {} },
+      Volumes: { '/cache': {} }
+    },
+    HostConfig: {
+      NetworkMode: 'appnet',
+      Binds: ['/srv/html:/usr/share/nginx/html:ro'],
+      PortBindings: { '80/tcp': [{ HostPort: '8080' }] },
+      CpuQuota: 50000
+    },
+    Mounts: [
+      { Type: 'bind', Source: '/srv/html', Destination: '/usr/share/nginx/html', RW: false },
+      { Type: 'volume', Name: 'f00d', Destination: '/cache', RW: true }
+    ],
+    NetworkSettings: {
+      Networks: {
+        appnet: { Aliases: ['abc123def456', 'web'] },
+        monitoring: { Aliases: null }
+      }
+    }
+  };
+}
+
+function imageData(): any {
+  return {
+    Config: {
+      Env: ['PATH=/usr/bin', 'NGINX_VERSION=1.25'],
+      Cmd: ['nginx', '-g', 'daemon off;'],
+      Labels: { maintainer: 'nginx' },
+      ExposedPorts: { '80/tcp': {} },
+      Volumes: { '/cache': {} }
+    }
+  };
+}
+
+describe('Recreate image', () => {
+  it('should change only the tag of the current repository', () => {
+    expect(resolveRecreateImage('nginx:1.25', undefined, '1.27')).toBe('nginx:1.27');
+    expect(resolveRecreateImage('registry.local:5000/app:v1', undefined, 'v2')).toBe('registry.local:5000/app:v2');
+  });
+
+  it('should prefer a full image reference', () => {
+    expect(resolveRecreateImage('nginx:1.25', 'caddy:2', '1.27')).toBe('caddy:2');
+    expect(resolveRecreateImage('nginx:1.25')).toBe('nginx:1.25');
+  });
+});
+
+describe('Recreate environment', () => {
+  it('should set, replace and remove variables', () => {
+    const env = applyEnvChanges(['A=1', 'B=2', 'C=3'], { B: 'two', C: null, D: '4' });
+    expect(env).toEqual(['A=1', 'B=two', 'D=4']);
+  });
+});
+
+describe('Recreate plan', () => {
+  it('should leave out what the image provides', () => {
+    const { create } = buildRecreatePlan(inspectData(), imageData(), 'web-new', { image: 'nginx:1.27' });
+
+    expect(create.Image).toBe('nginx:1.27');
+    expect(create.Env).toEqual(['MODE=prod']);
+    expect(create.Labels).toEqual({ app: 'web' });
+    expect(create.ExposedPorts).toEqual({});
+    expect(create.Cmd).toBeUndefined();
+    expect(create.Hostname).toBeUndefined();
+  });
+
+  it('should keep mounts, including anonymous volumes', () => {
+    const { create } = buildRecreatePlan(inspectData(), imageData(), 'web-new', { image: 'nginx:1.25' });
+
+    expect(create.HostConfig.Binds).toEqual(['/srv/html:/usr/share/nginx/html:ro', 'f00d:/cache']);
+  });
+
+  it('should replace ports and resource limits', () => {
+    const { create } = buildRecreatePlan(inspectData(), imageData(), 'web-new', {
+      image: 'nginx:1.25',
+      ports: [{ internal: 80, external: 9090 }, { internal: 53, protocol: 'udp' }],
+      resources: { memory: 256 * 1024 * 1024, cpus: 0.5 }
+    });
+
+    expect(create.HostConfig.PortBindings).toEqual({
+      '80/tcp': [{ HostPort: '9090' }],
+      '53/udp': [{ HostPort: '' }]
+    });
+    expect(create.HostConfig.Memory).toBe(256 * 1024 * 1024);
+    expect(create.HostConfig.NanoCpus).toBe(500000000);
+    expect(create.HostConfig.CpuQuota).toBe(0);
+  });
+
+  it('should rejoin every network with its aliases', () => {
+    const plan = buildRecreatePlan(inspectData(), imageData(), 'web-new', { image: 'nginx:1.25' });
+
+    expect(plan.create.NetworkingConfig.EndpointsConfig.appnet.Aliases).toEqual(['web']);
+    expect(plan.extraNetworks.map(network => network.name)).toEqual(['monitoring']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'bun:test';
+import { DockerLogDemuxer, parseLogLine } from '../../../../backend/src/utils/dockerLogs';
+import { ContainerLogEntry } from '../../../../shared/src/models';
+
+/**
+ * Build a multiplexed frame as Docker writes it
+ */
+function frame(stream: number, text: string): Buffer {
+  const payload = Buffer.from(text, 'utf-8');
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
+
+describe('Docker log decoding', () => {
+  it('should split the timestamp from the message', () => {
+    expect(parseLogLine('c1', 'stdout', '2024-05-01T10:00:00.123456789Z hello world')).toEqual({
+      containerId: 'c1',
+      stream: 'stdout',
+      timestamp: '2024-05-01T10:00:00.123456789Z',
+      message: 'hello world'
+    });
+    expect(parseLogLine('c1', 'stdout', 'no timestamp').timestamp).toBeUndefined();
+  });
+
+  it('should separate stdout and stderr frames', () => {
+    const entries: ContainerLogEntry[] = [];
+    const demuxer = new DockerLogDemuxer('c1', entry => entries.push(entry));
+
+    demuxer.write(Buffer.concat([
+      frame(1, '2024-05-01T10:00:00Z started\n'),
+      frame(2, '2024-05-01T10:00:01Z warning\n')
+    ]));
+
+    expect(entries.map(e => [e.stream, e.message])).toEqual([
+      ['stdout', 'started'],
+      ['stderr', 'warning']
+    ]);
+  });
+
+  it('should reassemble frames and lines split across chunks', () => {
+    const entries: ContainerLogEntry[] = [];
+    const demuxer = new DockerLogDemuxer('c1', entry => entries.push(entry));
+    const data = Buffer.concat([frame(1, 'first line\nsecond '), frame(1, 'line\ntrailing')]);
+
+    demuxer.write(data.subarray(0, 5));
+    demuxer.write(data.subarray(5, 20));
+    demuxer.write(data.subarray(20));
+    expect(entries.map(e => e.message)).toEqual(['first line', 'second line']);
+
+    demuxer.flush();
+    expect(entries.map(e => e.message)).toEqual(['first line', 'second line', 'trailing']);
+  });
+
+  it('should treat TTY output as a raw stdout stream', () => {
+    const entries: ContainerLogEntry[] = [];
+    const demuxer = new DockerLogDemuxer('c1', entry => entries.push(entry), false);
+
+    demuxer.write(Buffer.from('one\r\ntwo\n'));
+
+    expect(entries).toEqual([
+      { containerId: 'c1', stream: 'stdout', message: 'one' },
+      { containerId: 'c1', stream: 'stdout', message: 'two' }
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'bun:test';
+import { applyPullEvent, formatImageReference, parseImageReference } from '../../../../backend/src/utils/imagePull';
+import { ImagePull, ImagePullStatus } from '../../../../shared/src/models';
+
+function newPull(): ImagePull {
+  return { id: 'pull-1', image: 'nginx:latest', status: ImagePullStatus.PULLING, layers: [], startedAt: 0 };
+}
+
+describe('Image references', () => {
+  it('should default the tag to latest', () => {
+    expect(parseImageReference('nginx')).toEqual({ repo: 'nginx', tag: 'latest' });
+    expect(parseImageReference('nginx', '1.25')).toEqual({ repo: 'nginx', tag: '1.25' });
+  });
+
+  it('should prefer the tag in the reference', () => {
+    expect(parseImageReference('nginx:alpine', '1.25')).toEqual({ repo: 'nginx', tag: 'alpine' });
+  });
+
+  it('should not mistake a registry port for a tag', () => {
+    expect(parseImageReference('registry.local:5000/team/app')).toEqual({ repo: 'registry.local:5000/team/app', tag: 'latest' });
+    expect(parseImageReference('registry.local:5000/team/app:v2')).toEqual({ repo: 'registry.local:5000/team/app', tag: 'v2' });
+  });
+
+  it('should keep digests', () => {
+    const digest = 'sha256:' + 'a'.repeat(64);
+    expect(parseImageReference(`nginx@${digest}`)).toEqual({ repo: 'nginx', tag: digest });
+    expect(formatImageReference('nginx', digest)).toBe(`nginx@${digest}`);
+    expect(formatImageReference('nginx', 'latest')).toBe('nginx:latest');
+  });
+});
+
+describe('Pull progress', () => {
+  it('should track each layer separately', () => {
+    const pull = newPull();
+
+    applyPullEvent(pull, { status: 'Pulling from library/nginx', id: 'latest' });
+    applyPullEvent(pull, { status: 'Pulling fs layer', id: 'a2abf6c4d29d' });
+    applyPullEvent(pull, { status: 'Pulling fs layer', id: 'a9edb18cadd1' });
+    const layer = applyPullEvent(pull, {
+      status: 'Downloading',
+      id: 'a2abf6c4d29d',
+      progressDetail: { current: 1024, total: 4096 }
+    });
+
+    expect(pull.message).toBe('Pulling from library/nginx');
+    expect(pull.layers.map(l => l.id)).toEqual(['a2abf6c4d29d', 'a9edb18cadd1']);
+    expect(layer).toEqual({ id: 'a2abf6c4d29d', status: 'Downloading', current: 1024, total: 4096 });
+  });
+
+  it('should fill a layer when it completes', () => {
+    const pull = newPull();
+
+    applyPullEvent(pull, { status: 'Downloading', id: 'a2abf6c4d29d', progressDetail: { current: 10, total: 100 } });
+    applyPullEvent(pull, { status: 'Pull complete', id: 'a2abf6c4d29d', progressDetail: {} });
+
+    expect(pull.layers[0]).toEqual({ id: 'a2abf6c4d29d', status: 'Pull complete', current: 100, total: 100 });
+  });
+
+  it('should mark the pull as failed on an error event', () => {
+    const pull = newPull();
+
+    applyPullEvent(pull, { error: 'manifest unknown', errorDetail: { message: 'manifest for nginx:nope not found' } });
+
+    expect(pull.status).toBe(ImagePullStatus.FAILED);
+    expect(pull.error).toBe('manifest for nginx:nope not found');
+  });
+});
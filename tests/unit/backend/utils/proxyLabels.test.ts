@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'bun:test';
+import { getLabelProxyRule, hasLabelProxyRuleChanged, keepIssuedCertificate } from '../../../../backend/src/utils/proxyLabels';
+import { NginxConfigService } from '../../../../backend/src/services/nginxConfig';
+import { NginxManager } from '../../../../backend/src/integrations/nginx';
+import { readPortMappings } from '../../../../backend/src/utils/containerConfig';
+import { Container, ContainerState, ProxyProtocol, ProxyRule } from '../../../../shared/src/models';
+
+const container: Container = {
+  id: 'abc123',
+  name: 'web',
+  image: 'nginx:latest',
+  state: ContainerState.RUNNING,
+  status: 'Up 2 minutes',
+  ports: [{ privatePort: 3000, type: 'tcp', ip: '0.0.0.0' }],
+  volumes: [],
+  networks: ['bridge'],
+  created: 0,
+  labels: {
+    'kontainers.proxy.host': 'app.example.com'
+  }
+};
+
+describe('Proxy labels', () => {
+  it('should ignore containers without a host label', () => {
+    expect(getLabelProxyRule({ ...container, labels: {} })).toBeNull();
+  });
+
+  it('should default the port to the lowest exposed TCP port and the path to /', () => {
+    const rule = getLabelProxyRule(container);
+
+    expect(rule).toEqual({
+      name: 'web',
+      sourceHost: 'app.example.com',
+      sourcePath: '/',
+      targetContainer: 'web',
+      targetPort: 3000,
+      protocol: ProxyProtocol.HTTP,
+      domain: undefined,
+      letsEncryptEnabled: false,
+      managedByContainer: 'abc123'
+    });
+  });
+
+  it('should read port, path and ssl labels', () => {
+    const rule = getLabelProxyRule({
+      ...container,
+      labels: {
+        'kontainers.proxy.host': 'app.example.com',
+        'kontainers.proxy.port': '8080',
+        'kontainers.proxy.path': 'api',
+        'kontainers.proxy.ssl': 'true'
+      }
+    });
+
+    expect(rule?.targetPort).toBe(8080);
+    expect(rule?.sourcePath).toBe('/api');
+    // HTTPS waits for the certificate
+    expect(rule?.protocol).toBe(ProxyProtocol.HTTP);
+    expect(rule?.domain).toBe('app.example.com');
+    expect(rule?.letsEncryptEnabled).toBe(true);
+  });
+
+  describe('Port fallback', () => {
+    // A container exposing 9000 and 3000 without publishing either
+    const labelled = { ...container, labels: { 'kontainers.proxy.host': 'app.example.com' } };
+
+    it('should target the exposed port when the container is read with listContainers', () => {
+      const ports = readPortMappings({
+        Ports: [{ PrivatePort: 9000, Type: 'tcp' }, { PrivatePort: 3000, Type: 'tcp' }]
+      });
+
+      expect(getLabelProxyRule({ ...labelled, ports })?.targetPort).toBe(3000);
+    });
+
+    it('should target the same port when the container is read from inspect data on start', () => {
+      const ports = readPortMappings({
+        NetworkSettings: { Ports: { '3000/tcp': null, '9000/tcp': null } }
+      });
+
+      expect(getLabelProxyRule({ ...labelled, ports })?.targetPort).toBe(3000);
+    });
+
+    it('should use 80 for a container without TCP ports', () => {
+      expect(getLabelProxyRule({ ...labelled, ports: [] })?.targetPort).toBe(80);
+    });
+  });
+
+  it('should reject an out of range port label', () => {
+    expect(() => getLabelProxyRule({
+      ...container,
+      labels: { 'kontainers.proxy.host': 'app.example.com', 'kontainers.proxy.port': '70000' }
+    })).toThrow();
+  });
+
+  it('should detect when a rule no longer matches its labels', () => {
+    const declared = getLabelProxyRule(container)!;
+    const rule: ProxyRule = { ...declared, id: 'rule-1', sslEnabled: false, created: 0, enabled: true };
+
+    expect(hasLabelProxyRuleChanged(rule, declared)).toBe(false);
+    expect(hasLabelProxyRuleChanged(rule, { ...declared, targetPort: 4000 })).toBe(true);
+  });
+
+  describe('SSL', () => {
+    const sslContainer: Container = {
+      ...container,
+      labels: { 'kontainers.proxy.host': 'app.example.com', 'kontainers.proxy.ssl': 'true' }
+    };
+    const issuedRule: ProxyRule = {
+      ...getLabelProxyRule(sslContainer)!,
+      id: 'rule-1',
+      protocol: ProxyProtocol.HTTPS,
+      sslEnabled: true,
+      sslCertPath: '/etc/nginx/ssl/letsencrypt/le-app/fullchain.pem',
+      sslKeyPath: '/etc/nginx/ssl/letsencrypt/le-app/privkey.pem',
+      created: 0,
+      enabled: true
+    };
+
+    /**
+     * Render the configuration files of a rule and split them into server blocks
+     */
+    function renderServers(rule: ProxyRule): string[] {
+      const manager = new NginxManager({ configDir: '/tmp/kontainers-nginx-test' });
+      const service = new NginxConfigService({ configDir: '/tmp/kontainers-nginx-test' });
+      const configs = [manager.generateProxyRuleConfig(rule), service.generateDomainConfig(rule)];
+      return configs.flatMap(config => config.split(/^server \{/m).slice(1));
+    }
+
+    it('should serve plain HTTP until the certificate is issued', () => {
+      const declared = keepIssuedCertificate(getLabelProxyRule(sslContainer)!, undefined);
+      const servers = renderServers({ ...declared, id: 'rule-1', sslEnabled: false, created: 0, enabled: true });
+
+      servers.forEach(server => {
+        expect(server).not.toContain('listen 443');
+        expect(server).not.toContain('return 301');
+        expect(server.match(/location \/ \{/g)).toHaveLength(1);
+      });
+    });
+
+    it('should move to HTTPS once the certificate is issued', () => {
+      const declared = keepIssuedCertificate(getLabelProxyRule(sslContainer)!, issuedRule);
+      expect(declared.protocol).toBe(ProxyProtocol.HTTPS);
+      expect(hasLabelProxyRuleChanged(issuedRule, declared)).toBe(false);
+
+      const servers = renderServers(issuedRule);
+      servers.filter(server => server.includes('listen 443')).forEach(server => {
+        expect(server).toContain(`ssl_certificate ${issuedRule.sslCertPath};`);
+      });
+      // The domain's plain HTTP server redirects instead of proxying
+      expect(servers.some(server => server.includes('return 301 https://$host$request_uri;'))).toBe(true);
+      servers.forEach(server => {
+        expect(server.match(/location \/ \{/g)).toHaveLength(1);
+      });
+    });
+
+    it('should start over on plain HTTP when the domain changes', () => {
+      const moved = getLabelProxyRule({
+        ...sslContainer,
+        labels: { 'kontainers.proxy.host': 'new.example.com', 'kontainers.proxy.ssl': 'true' }
+      })!;
+
+      expect(keepIssuedCertificate(moved, issuedRule).protocol).toBe(ProxyProtocol.HTTP);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  generateTotpSecret,
+  getTotpCounter,
+  verifyTotp,
+  getTotpUri
+} from '../../../../backend/src/utils/totp';
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890" with SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    // Six-digit truncations of the RFC's eight-digit values
+    expect(generateTotp(RFC_SECRET, getTotpCounter(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTotpCounter(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTotpCounter(1234567890 * 1000))).toBe('005924');
+    expect(generateTotp(RFC_SECRET, getTotpCounter(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should accept codes within the drift window and return their counter', () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    const counter = getTotpCounter(now);
+
+    expect(verifyTotp(secret, generateTotp(secret, counter), now)).toBe(counter);
+    expect(verifyTotp(secret, generateTotp(secret, counter - 1), now)).toBe(counter - 1);
+    expect(verifyTotp(secret, generateTotp(secret, counter - 3), now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, '12345')).toBeNull();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = getTotpUri(RFC_SECRET, 'admin@kontainers.local', 'Kontainers');
+    const [label, query] = uri.split('?');
+    const params = new URLSearchParams(query);
+
+    expect(decodeURIComponent(label)).toBe('otpauth://totp/Kontainers:admin@kontainers.local');
+    expect(params.get('secret')).toBe(RFC_SECRET);
+    expect(params.get('issuer')).toBe('Kontainers');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'bun:test';
+import { describeUserAgent } from '../../../../backend/src/utils/userAgent';
+
+describe('describeUserAgent', () => {
+  it('should name the browser and operating system', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0'
+    )).toBe('Firefox on Linux');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+  });
+
+  it('should fall back to the product name for other clients', () => {
+    expect(describeUserAgent('curl/8.5.0')).toBe('curl');
+    expect(describeUserAgent('python-requests/2.32.3')).toBe('python-requests');
+  });
+
+  it('should describe missing user agents as unknown', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('unknown')).toBe('Unknown device');
+  });
+});
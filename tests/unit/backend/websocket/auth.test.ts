@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import jwt from 'jsonwebtoken';
+import { UserRole } from '../../../../shared/src/models';
+import { configService } from '../../../../backend/src/services/config';
+
+const bcryptMock = { hash: async () => '', compare: async () => false };
+mock.module('bcrypt', () => ({ default: bcryptMock, ...bcryptMock }));
+mock.module('kontainers-shared', () => require('../../../../shared/src/models'));
+
+// Signatures are checked for real; whether the session is still live is up to each test
+const verifySessionToken = mock(async (_token: string): Promise<any> => ({}));
+const auth = await import('../../../../backend/src/services/auth');
+mock.module('../../../../backend/src/services/auth', () => ({ ...auth, verifySessionToken }));
+
+// The query gives this file its own copy bound to the mocked session check
+const wsAuthPath = '../../../../backend/src/websocket/auth?session-mock';
+const {
+  authenticateConnection,
+  awaitAuthentication,
+  canSubscribe,
+  clearConnectionAuth,
+  getConnectionUser,
+  WS_CLOSE_AUTH_REQUIRED,
+  WS_CLOSE_TOKEN_EXPIRED
+} = await import(wsAuthPath) as typeof import('../../../../backend/src/websocket/auth');
+
+const JWT_SECRET = process.env.JWT_SECRET || 'kontainers-jwt-secret-key-change-in-production';
+
+/**
+ * Sign a token for a user, valid for the given number of seconds
+ */
+function tokenFor(role: UserRole, expiresIn: number = 3600): string {
+  return jwt.sign({ userId: 'user-1', role, sessionId: 'session-1' }, JWT_SECRET, { expiresIn });
+}
+
+/**
+ * A websocket that records how it was closed
+ */
+function makeSocket() {
+  return { close: mock((_code: number, _reason: string) => {}) };
+}
+
+describe('WebSocket authentication', () => {
+  let timers: { run: () => void; delay: number; cleared: boolean }[];
+
+  beforeEach(() => {
+    timers = [];
+    verifySessionToken.mockReset();
+    verifySessionToken.mockResolvedValue({});
+    // Timers are collected and run by hand instead of waiting for them
+    spyOn(globalThis, 'setTimeout').mockImplementation(((run: () => void, delay: number) => {
+      const timer = { run, delay, cleared: false };
+      timers.push(timer);
+      return timer;
+    }) as any);
+    spyOn(globalThis, 'clearTimeout').mockImplementation(((timer: any) => {
+      if (timer) {
+        timer.cleared = true;
+      }
+    }) as any);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  describe('canSubscribe', () => {
+    const viewer = { userId: 'user-1', role: UserRole.VIEWER };
+
+    it('should keep viewers out of container shells', () => {
+      expect(canSubscribe(viewer, 'container-exec')).toBe(false);
+      expect(canSubscribe({ ...viewer, role: UserRole.USER }, 'container-exec')).toBe(true);
+      expect(canSubscribe({ ...viewer, role: UserRole.ADMIN }, 'container-exec')).toBe(true);
+    });
+
+    it('should only show viewers container logs when the setting allows it', () => {
+      const getConfig = spyOn(configService, 'getConfig').mockReturnValue({ security: { restrictViewerContainerLogs: true } });
+      expect(canSubscribe(viewer, 'container-logs')).toBe(false);
+      expect(canSubscribe({ ...viewer, role: UserRole.USER }, 'container-logs')).toBe(true);
+
+      getConfig.mockReturnValue({ security: { restrictViewerContainerLogs: false } });
+      expect(canSubscribe(viewer, 'container-logs')).toBe(true);
+      expect(canSubscribe(viewer, 'containers')).toBe(true);
+    });
+  });
+
+  describe('authenticateConnection', () => {
+    it('should close connections that do not authenticate in time with 4001', () => {
+      const ws = makeSocket();
+      awaitAuthentication(ws, ws);
+
+      timers[0].run();
+      expect(ws.close).toHaveBeenCalledWith(WS_CLOSE_AUTH_REQUIRED, 'Authentication required');
+      expect(WS_CLOSE_AUTH_REQUIRED).toBe(4001);
+    });
+
+    it('should stop waiting once the connection authenticates', () => {
+      const ws = makeSocket();
+      awaitAuthentication(ws, ws);
+
+      const user = authenticateConnection(ws, ws, tokenFor(UserRole.USER));
+
+      expect(user).toMatchObject({ userId: 'user-1', role: UserRole.USER });
+      expect(getConnectionUser(ws)).toBe(user!);
+      expect(timers[0].cleared).toBe(true);
+      clearConnectionAuth(ws);
+    });
+
+    it('should close the connection with 4001 for an invalid token', () => {
+      const ws = makeSocket();
+
+      expect(authenticateConnection(ws, ws, 'not-a-token')).toBeNull();
+      expect(ws.close).toHaveBeenCalledWith(WS_CLOSE_AUTH_REQUIRED, 'Invalid or expired token');
+      expect(getConnectionUser(ws)).toBeUndefined();
+    });
+
+    it('should drop the user and close with 4002 when the token expires', () => {
+      const ws = makeSocket();
+      authenticateConnection(ws, ws, tokenFor(UserRole.USER, 60));
+
+      // The timer is set for when the token expires
+      expect(timers[0].delay).toBeGreaterThan(58 * 1000);
+      expect(timers[0].delay).toBeLessThanOrEqual(60 * 1000);
+
+      timers[0].run();
+      expect(ws.close).toHaveBeenCalledWith(WS_CLOSE_TOKEN_EXPIRED, 'Token expired');
+      expect(WS_CLOSE_TOKEN_EXPIRED).toBe(4002);
+      expect(getConnectionUser(ws)).toBeUndefined();
+    });
+
+    it('should move the expiry timer to a renewed token', () => {
+      const ws = makeSocket();
+      authenticateConnection(ws, ws, tokenFor(UserRole.USER, 60));
+      authenticateConnection(ws, ws, tokenFor(UserRole.USER, 3600));
+
+      expect(timers[0].cleared).toBe(true);
+      expect(timers[1].delay).toBeGreaterThan(3500 * 1000);
+      clearConnectionAuth(ws);
+    });
+
+    it('should close the connection with 4001 when the session has been revoked', async () => {
+      const ws = makeSocket();
+      verifySessionToken.mockRejectedValue(new Error('Session has been revoked'));
+
+      authenticateConnection(ws, ws, tokenFor(UserRole.USER));
+      await Bun.sleep(0);
+
+      expect(ws.close).toHaveBeenCalledWith(WS_CLOSE_AUTH_REQUIRED, 'Session has been revoked');
+      expect(getConnectionUser(ws)).toBeUndefined();
+    });
+
+    it('should not close a connection for a revoked token it has already replaced', async () => {
+      const ws = makeSocket();
+      let revoke: (error: Error) => void = () => {};
+      verifySessionToken.mockReturnValueOnce(new Promise((_, reject) => {
+        revoke = reject;
+      }));
+
+      authenticateConnection(ws, ws, tokenFor(UserRole.USER));
+      const renewed = authenticateConnection(ws, ws, tokenFor(UserRole.ADMIN));
+      revoke(new Error('Session has been revoked'));
+      await Bun.sleep(0);
+
+      expect(ws.close).not.toHaveBeenCalled();
+      expect(getConnectionUser(ws)).toBe(renewed!);
+      clearConnectionAuth(ws);
+    });
+  });
+});
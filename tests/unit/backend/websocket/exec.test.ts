@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { UserRole } from '../../../../shared/src/models';
+
+// Sessions are stubbed on the container service, so Docker itself is never reached
+mock.module('../../../../backend/src/integrations/docker', () => ({ dockerClient: {} }));
+
+const audit = await import('../../../../backend/src/services/audit');
+const logAuditEvent = mock(async (..._args: any[]) => {});
+mock.module('../../../../backend/src/services/audit', () => ({ ...audit, logAuditEvent }));
+
+const { containerService } = await import('../../../../backend/src/services/container');
+// The query gives this file its own copy bound to the mocked audit log
+const execPath = '../../../../backend/src/websocket/exec?audit-mock';
+const { startConnectionExec, writeConnectionExec, resizeConnectionExec } =
+  await import(execPath) as typeof import('../../../../backend/src/websocket/exec');
+
+const user = { userId: 'user-1', role: UserRole.USER };
+
+/**
+ * A websocket that records the messages sent on it
+ */
+function makeSocket() {
+  const sent: any[] = [];
+  return { sent, send: (message: string) => sent.push(JSON.parse(message)) };
+}
+
+describe('Exec sessions over websockets', () => {
+  let startExecSession: ReturnType<typeof spyOn>;
+  let stopExecSession: ReturnType<typeof spyOn>;
+  let writeExecSession: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    logAuditEvent.mockClear();
+    startExecSession = spyOn(containerService, 'startExecSession').mockResolvedValue('session-1');
+    stopExecSession = spyOn(containerService, 'stopExecSession').mockImplementation(() => {});
+    writeExecSession = spyOn(containerService, 'writeExecSession').mockImplementation(() => {});
+    spyOn(containerService, 'resizeExecSession').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should send output and the exit code, then forget the session', async () => {
+    const ws = makeSocket();
+    const connection = {};
+    const onExit = mock(() => {});
+    startConnectionExec(ws, connection, user, 'abc123', { shell: '/bin/bash', user: 'www-data' }, onExit);
+
+    expect(await writeConnectionExec(connection, 'abc123', 'ls\n')).toBe(true);
+    expect(writeExecSession).toHaveBeenCalledWith('session-1', 'ls\n');
+    expect(logAuditEvent.mock.calls[0].slice(0, 5)).toEqual([
+      'user-1', 'exec', 'container', 'abc123', { shell: '/bin/bash', user: 'www-data', sessionId: 'session-1' }
+    ]);
+
+    const [, , onOutput, onDockerExit] = startExecSession.mock.calls[0];
+    onOutput('total 0\r\n');
+    onDockerExit(0);
+
+    expect(ws.sent).toEqual([
+      { type: 'exec-output', id: 'abc123', data: 'total 0\r\n' },
+      { type: 'exec-exit', id: 'abc123', exitCode: 0 }
+    ]);
+    expect(onExit).toHaveBeenCalledTimes(1);
+    expect(logAuditEvent.mock.calls[1][1]).toBe('exec_end');
+    expect(await writeConnectionExec(connection, 'abc123', 'ls\n')).toBe(false);
+  });
+
+  it('should stop the shell when the connection closes', async () => {
+    const connection = {};
+    const release = startConnectionExec(makeSocket(), connection, user, 'abc123', {}, () => {});
+    await Bun.sleep(0);
+
+    release();
+    await Bun.sleep(0);
+
+    expect(stopExecSession).toHaveBeenCalledWith('session-1');
+    expect(await writeConnectionExec(connection, 'abc123', 'ls\n')).toBe(false);
+    expect(await resizeConnectionExec(connection, 'abc123', 80, 24)).toBe(false);
+  });
+
+  it('should stop a shell that Docker starts after the connection closed', async () => {
+    let started: (id: string) => void = () => {};
+    startExecSession.mockReturnValueOnce(new Promise(resolve => {
+      started = resolve;
+    }));
+    const release = startConnectionExec(makeSocket(), {}, user, 'abc123', {}, () => {});
+
+    release();
+    expect(stopExecSession).not.toHaveBeenCalled();
+    started('session-2');
+    await Bun.sleep(0);
+
+    expect(stopExecSession).toHaveBeenCalledWith('session-2');
+  });
+
+  it('should keep sessions apart per connection', async () => {
+    const first = {};
+    const second = {};
+    startConnectionExec(makeSocket(), first, user, 'abc123', {}, () => {});
+
+    expect(await writeConnectionExec(second, 'abc123', 'ls\n')).toBe(false);
+    expect(await writeConnectionExec(first, 'abc123', 'ls\n')).toBe(true);
+  });
+
+  it('should report shells that cannot start and end the subscription', async () => {
+    startExecSession.mockRejectedValueOnce(new Error('Invalid shell: sh'));
+    const ws = makeSocket();
+    const connection = {};
+    const onExit = mock(() => {});
+
+    const release = startConnectionExec(ws, connection, user, 'abc123', { shell: 'sh' }, onExit);
+    await Bun.sleep(0);
+
+    expect(ws.sent).toEqual([{ type: 'error', channel: 'container-exec', id: 'abc123', message: 'Invalid shell: sh' }]);
+    expect(onExit).toHaveBeenCalledTimes(1);
+    expect(await writeConnectionExec(connection, 'abc123', 'ls\n')).toBe(false);
+    expect(logAuditEvent).not.toHaveBeenCalled();
+
+    release();
+    await Bun.sleep(0);
+    expect(stopExecSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, mock, spyOn } from 'bun:test';
+import { UserRole, ProjectRole, ProxyRule } from '../../../../shared/src/models';
+import { proxyService } from '../../../../backend/src/services/proxy';
+import type { ProjectAccess } from '../../../../backend/src/middleware/permissions';
+
+// The project service needs Docker, so only its lookups are provided
+const getProjectAccess = mock(async (_userId: string, role: UserRole): Promise<ProjectAccess> => ({
+  role,
+  projects: new Map([['project-1', ProjectRole.VIEWER]])
+}));
+mock.module('../../../../backend/src/services/project', () => ({ getProject: async () => null, getProjectAccess }));
+
+// The query gives this file its own copy bound to the mocked lookup
+const scopePath = '../../../../backend/src/websocket/projectScope?access-mock';
+const { ProjectScope } = await import(scopePath) as typeof import('../../../../backend/src/websocket/projectScope');
+
+/**
+ * The scope of a user with the given global role and project memberships
+ */
+function scopeFor(role: UserRole, projects: Record<string, ProjectRole> = {}) {
+  return new ProjectScope({ role, projects: new Map(Object.entries(projects)) });
+}
+
+/**
+ * A proxy rule in a project, or in none
+ */
+function makeRule(id: string, projectId?: string) {
+  return { id, projectId } as ProxyRule;
+}
+
+/**
+ * Publish a rule event the way the proxy service does
+ */
+function publish(event: string, rule: ProxyRule) {
+  (proxyService as any).emit(event, rule);
+}
+
+describe('ProjectScope', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should show resources outside any project and in the user\'s projects', () => {
+    const scope = scopeFor(UserRole.USER, { 'project-1': ProjectRole.VIEWER });
+
+    expect(scope.canSee(undefined)).toBe(true);
+    expect(scope.canSee('project-1')).toBe(true);
+    expect(scope.canSee('project-2')).toBe(false);
+    expect(scopeFor(UserRole.ADMIN).canSee('project-2')).toBe(true);
+  });
+
+  it('should only let operators and owners operate a project\'s containers', () => {
+    const scope = scopeFor(UserRole.USER, { 'project-1': ProjectRole.VIEWER, 'project-2': ProjectRole.OPERATOR });
+
+    expect(scope.canOperate('project-1')).toBe(false);
+    expect(scope.canOperate('project-2')).toBe(true);
+    expect(scope.canOperate(undefined)).toBe(true);
+    // Project roles do not lift a global viewer
+    expect(scopeFor(UserRole.VIEWER, { 'project-1': ProjectRole.OWNER }).canOperate('project-1')).toBe(false);
+  });
+
+  it('should start from the user\'s memberships and the current rules', async () => {
+    spyOn(proxyService, 'getRules').mockResolvedValue([makeRule('rule-1', 'project-1'), makeRule('rule-2', 'project-2')]);
+
+    const scope = await ProjectScope.forUser({ userId: 'user-1', role: UserRole.USER });
+
+    expect(getProjectAccess).toHaveBeenCalledWith('user-1', UserRole.USER);
+    expect(scope.canSeeRule('rule-1')).toBe(true);
+    expect(scope.canSeeRule('rule-2')).toBe(false);
+    // Rules it has not heard of are treated as outside any project
+    expect(scope.canSeeRule('rule-3')).toBe(true);
+  });
+
+  it('should follow rules as they move between projects, until released', () => {
+    const scope = scopeFor(UserRole.USER, { 'project-1': ProjectRole.VIEWER });
+    scope.trackRule(makeRule('rule-1', 'project-1'));
+    const release = scope.followRules();
+
+    publish('proxy:rule:updated', makeRule('rule-1', 'project-2'));
+    expect(scope.canSeeRule('rule-1')).toBe(false);
+    publish('proxy:rule:created', makeRule('rule-2', 'project-2'));
+    expect(scope.canSeeRule('rule-2')).toBe(false);
+
+    release();
+    publish('proxy:rule:toggled', makeRule('rule-1', 'project-1'));
+    expect(scope.canSeeRule('rule-1')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { SubscriptionRegistry } from '../../../../backend/src/websocket/subscriptions';
+
+describe('SubscriptionRegistry', () => {
+  let registry: SubscriptionRegistry;
+  const connectionA = {};
+  const connectionB = {};
+
+  beforeEach(() => {
+    registry = new SubscriptionRegistry();
+  });
+
+  it('should return the existing subscription for a repeated subscribe', () => {
+    let starts = 0;
+    const start = () => {
+      starts++;
+      return () => {};
+    };
+
+    const first = registry.subscribe(connectionA, 'proxy', 'rule-1', start);
+    const second = registry.subscribe(connectionA, 'proxy', 'rule-1', start);
+
+    expect(second.id).toBe(first.id);
+    expect(starts).toBe(1);
+    expect(registry.getSubscriptions(connectionA)).toHaveLength(1);
+  });
+
+  it('should keep a shared resource running until the last holder releases it', () => {
+    let stopped = false;
+    const start = () => () => {
+      stopped = true;
+    };
+
+    const subA = registry.subscribe(connectionA, 'container-stats', 'c1', () => registry.acquire('container-stats:c1', start));
+    registry.subscribe(connectionB, 'container-stats', 'c1', () => registry.acquire('container-stats:c1', start));
+    expect(registry.getReferenceCount('container-stats:c1')).toBe(2);
+
+    registry.unsubscribe(connectionA, subA.id);
+    expect(stopped).toBe(false);
+    expect(registry.getReferenceCount('container-stats:c1')).toBe(1);
+
+    registry.unsubscribeAll(connectionB);
+    expect(stopped).toBe(true);
+    expect(registry.getReferenceCount('container-stats:c1')).toBe(0);
+  });
+
+  it('should ignore a second release from the same holder', () => {
+    const release = registry.acquire('system', () => () => {});
+    registry.acquire('system', () => () => {});
+
+    release();
+    release();
+
+    expect(registry.getReferenceCount('system')).toBe(1);
+  });
+
+  it('should release every subscription of a closed connection', () => {
+    const released: string[] = [];
+    registry.subscribe(connectionA, 'proxy', undefined, () => () => released.push('proxy'));
+    registry.subscribe(connectionA, 'system', undefined, () => () => released.push('system'));
+    registry.subscribe(connectionB, 'system', undefined, () => () => released.push('other'));
+
+    expect(registry.unsubscribeAll(connectionA)).toBe(2);
+    expect(released).toEqual(['proxy', 'system']);
+    expect(registry.getSubscriptions(connectionB)).toHaveLength(1);
+  });
+});